@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { BottomNav } from "./components/BottomNav";
 import { SplashScreen } from "./components/SplashScreen";
+import { useOfflineSync } from "./hooks/useOfflineSync";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Card from "./pages/Card";
@@ -15,6 +16,14 @@ import Goals from "./pages/Goals";
 import AI from "./pages/AI";
 import Planner from "./pages/Planner";
 import Statement from "./pages/Statement";
+import Categories from "./pages/Categories";
+import Budgets from "./pages/Budgets";
+import TagReport from "./pages/TagReport";
+import Import from "./pages/Import";
+import Rules from "./pages/Rules";
+import Debts from "./pages/Debts";
+import Investments from "./pages/Investments";
+import NetWorth from "./pages/NetWorth";
 import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
@@ -25,6 +34,7 @@ const SPLASH_SHOWN_KEY = 'inovabank_splash_shown';
 function AppRoutes() {
   const location = useLocation();
   const { user } = useAuth();
+  useOfflineSync(!!user);
   // Hide nav on login and admin pages
   const showNav = user && location.pathname !== '/login' && location.pathname !== '/admin';
 
@@ -39,6 +49,14 @@ function AppRoutes() {
         <Route path="/ai" element={<AI />} />
         <Route path="/planner" element={<Planner />} />
         <Route path="/statement" element={<Statement />} />
+        <Route path="/categories" element={<Categories />} />
+        <Route path="/budgets" element={<Budgets />} />
+        <Route path="/tags" element={<TagReport />} />
+        <Route path="/import" element={<Import />} />
+        <Route path="/rules" element={<Rules />} />
+        <Route path="/debts" element={<Debts />} />
+        <Route path="/investments" element={<Investments />} />
+        <Route path="/net-worth" element={<NetWorth />} />
         <Route path="/admin" element={<Admin />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
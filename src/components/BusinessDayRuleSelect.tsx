@@ -0,0 +1,33 @@
+import { BUSINESS_DAY_RULE_LABELS, type BusinessDayRule } from '@/lib/businessDays';
+import { cn } from '@/lib/utils';
+
+interface BusinessDayRuleSelectProps {
+  value: BusinessDayRule;
+  onChange: (rule: BusinessDayRule) => void;
+  allowLastBusinessDay?: boolean;
+}
+
+export function BusinessDayRuleSelect({ value, onChange, allowLastBusinessDay = true }: BusinessDayRuleSelectProps) {
+  const rules = (Object.keys(BUSINESS_DAY_RULE_LABELS) as BusinessDayRule[])
+    .filter((rule) => allowLastBusinessDay || rule !== 'last_business_day');
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {rules.map((rule) => (
+        <button
+          key={rule}
+          type="button"
+          onClick={() => onChange(rule)}
+          className={cn(
+            "p-2 rounded-xl border transition-all text-xs font-medium",
+            value === rule
+              ? "border-primary bg-primary/10 text-primary"
+              : "border-border hover:border-primary/50"
+          )}
+        >
+          {BUSINESS_DAY_RULE_LABELS[rule]}
+        </button>
+      ))}
+    </div>
+  );
+}
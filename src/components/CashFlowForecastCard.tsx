@@ -0,0 +1,110 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Area, AreaChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, LineChart } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import type { CashFlowForecast } from '@/lib/cashFlowForecast';
+import { cn } from '@/lib/utils';
+
+const chartConfig = {
+  balance: { label: 'Saldo previsto', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface CashFlowForecastCardProps {
+  forecast: CashFlowForecast;
+}
+
+export function CashFlowForecastCard({ forecast }: CashFlowForecastCardProps) {
+  const { days, firstNegativeDay, lowestDay } = forecast;
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const chartData = days.map((d) => ({
+    date: format(d.date, 'dd/MM'),
+    balance: d.balance,
+  }));
+  const negativeLabel = firstNegativeDay ? format(firstNegativeDay.date, 'dd/MM') : null;
+
+  return (
+    <GlassCard className="p-4 mb-6" hover={false}>
+      <div className="flex items-center gap-2 mb-3">
+        <LineChart className="w-5 h-5 text-primary" />
+        <h3 className="font-semibold">Previsão de {days.length} dias</h3>
+      </div>
+
+      {firstNegativeDay ? (
+        <div className="flex items-start gap-3 p-3 mb-3 rounded-xl bg-destructive/10 border border-destructive/30">
+          <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0" />
+          <div className="text-sm">
+            <p className="font-medium text-destructive">
+              Saldo negativo em {format(firstNegativeDay.date, "dd 'de' MMMM", { locale: ptBR })}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Fica em {formatCurrency(firstNegativeDay.balance)}
+              {firstNegativeDay.events.length > 0 &&
+                ` depois de ${firstNegativeDay.events.map((e) => e.label).join(', ')}`}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground mb-3">
+          Seu saldo se mantém positivo com os pagamentos e salários já previstos.
+        </p>
+      )}
+
+      <ChartContainer config={chartConfig} className="aspect-auto w-full h-40">
+        <AreaChart data={chartData} margin={{ left: 0, right: 8 }}>
+          <XAxis
+            dataKey="date"
+            axisLine={false}
+            tickLine={false}
+            interval={14}
+            tick={{ fill: '#64748b', fontSize: 11 }}
+          />
+          <YAxis hide domain={['auto', 'auto']} />
+          <ChartTooltip
+            content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />}
+          />
+          <ReferenceLine y={0} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+          <Area
+            type="stepAfter"
+            dataKey="balance"
+            stroke="var(--color-balance)"
+            fill="var(--color-balance)"
+            fillOpacity={0.2}
+          />
+          {firstNegativeDay && (
+            <ReferenceDot
+              x={negativeLabel!}
+              y={firstNegativeDay.balance}
+              r={5}
+              fill="hsl(var(--destructive))"
+              stroke="none"
+            />
+          )}
+        </AreaChart>
+      </ChartContainer>
+
+      {lowestDay && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Menor saldo:{' '}
+          <span className={cn('font-medium', lowestDay.balance < 0 ? 'text-destructive' : 'text-foreground')}>
+            {formatCurrency(lowestDay.balance)}
+          </span>{' '}
+          em {format(lowestDay.date, 'dd/MM')}
+        </p>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,419 @@
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  ArrowUpRight,
+  ArrowDownRight,
+  Wallet,
+  CreditCard,
+  Trash2,
+  Split,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  updateTransaction,
+  deleteTransaction,
+  validateSplits,
+  type Transaction,
+} from '@/lib/db';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { getRules, addRule, findMatchingRule } from '@/lib/ruleDb';
+import { useCategories } from '@/hooks/useCategories';
+import { SplitEditor, type SplitDraft } from '@/components/SplitEditor';
+import { TagInput } from '@/components/TagInput';
+import { notifyBudgetAlert } from '@/services/budgetAlertService';
+import { cn } from '@/lib/utils';
+
+interface EditTransactionModalProps {
+  transaction: Transaction | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export function EditTransactionModal({ transaction, onClose, onChanged }: EditTransactionModalProps) {
+  const [transactionType, setTransactionType] = useState<'income' | 'expense'>('expense');
+  const [paymentMethod, setPaymentMethod] = useState<'debit' | 'credit'>('debit');
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState('');
+  const [splitDrafts, setSplitDrafts] = useState<SplitDraft[] | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const { byType } = useCategories(transaction?.userId);
+
+  // Load the selected transaction into the form
+  useEffect(() => {
+    if (transaction) {
+      setTransactionType(transaction.type);
+      setPaymentMethod(transaction.paymentMethod);
+      setAmount(transaction.amount.toString());
+      setDescription(transaction.description);
+      setSelectedCategory(transaction.category);
+      setSplitDrafts(transaction.splits?.map((s) => ({
+        category: s.category,
+        amount: s.amount.toString(),
+        note: s.note || '',
+      })) || null);
+      setTags(transaction.tags || []);
+    }
+  }, [transaction]);
+
+  // Learn from a manual recategorization: offer a rule for this description,
+  // unless one already sends it to the chosen category
+  const offerRule = async (userId: number, categoryName: string, amountValue: number) => {
+    const text = description.trim();
+    const target = byType(transactionType).find((c) => c.name === categoryName);
+    if (!text || !target) return;
+
+    const matching = findMatchingRule(await getRules(userId), {
+      type: transactionType,
+      amount: amountValue,
+      description: text,
+    });
+    if (matching?.categoryId === target.id) return;
+
+    toast(`Usar sempre ${target.name} para "${text}"?`, {
+      duration: 8000,
+      action: {
+        label: 'Criar regra',
+        onClick: async () => {
+          const ruleId = await addRule(
+            userId,
+            { descriptionContains: text, amount: null, categoryId: target.id, tags: [] },
+            { first: true }
+          );
+          if (ruleId) {
+            toast.success('Regra criada!');
+          } else {
+            toast.error('Erro ao criar regra');
+          }
+        },
+      },
+    });
+  };
+
+  const handleSave = async () => {
+    if (!transaction?.id || isSaving) return;
+
+    const amountValue = parseFloat(amount.replace(',', '.'));
+    if (isNaN(amountValue) || amountValue <= 0) {
+      toast.error('Valor inválido');
+      return;
+    }
+
+    const splits = splitDrafts?.map((s) => ({
+      category: s.category,
+      amount: parseFloat(s.amount.replace(',', '.')),
+      note: s.note.trim() || null,
+    }));
+    const splitError = splits ? validateSplits(amountValue, splits) : null;
+    if (splitError) {
+      toast.error(splitError);
+      return;
+    }
+
+    const category = splits ? splits[0].category : selectedCategory;
+
+    setIsSaving(true);
+
+    try {
+      const success = await updateTransaction(transaction.id, {
+        amount: amountValue,
+        type: transactionType,
+        paymentMethod: transactionType === 'expense' ? paymentMethod : 'debit',
+        // Leave the category untouched so an archived one isn't swapped for "Outros"
+        category: category !== transaction.category || transactionType !== transaction.type
+          ? category
+          : undefined,
+        // An empty list removes an existing split
+        splits: splits || (transaction.splits ? [] : undefined),
+        tags,
+        description: description || category,
+      });
+
+      if (success) {
+        toast.success('Transação atualizada!');
+        if (transactionType === 'expense') {
+          new Set(splits ? splits.map((s) => s.category) : [category]).forEach((c) =>
+            notifyBudgetAlert(transaction.userId, c, transaction.date)
+          );
+        }
+        if (!splits && category !== transaction.category) {
+          offerRule(transaction.userId, category, amountValue);
+        }
+        onChanged();
+        onClose();
+      } else {
+        toast.error('Erro ao atualizar transação');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!transaction?.id || isSaving) return;
+
+    setIsSaving(true);
+
+    try {
+      const success = await deleteTransaction(transaction.id);
+
+      if (success) {
+        toast.success('Transação excluída');
+        onChanged();
+        onClose();
+      } else {
+        toast.error('Erro ao excluir transação');
+      }
+    } finally {
+      setIsSaving(false);
+      setShowDeleteDialog(false);
+    }
+  };
+
+  const categories = byType(transactionType);
+
+  const modalContent = (
+    <AnimatePresence>
+      {transaction && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-end justify-center"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: '100%' }}
+            animate={{ y: 0 }}
+            exit={{ y: '100%' }}
+            transition={{ type: 'spring', damping: 25 }}
+            className="w-full max-w-lg bg-card rounded-t-3xl p-6 max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="font-display text-xl font-bold">Editar Transação</h2>
+              <button
+                onClick={onClose}
+                className="p-2 rounded-full bg-muted"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Type Toggle */}
+            <div className="flex gap-2 mb-6">
+              <button
+                onClick={() => {
+                  setTransactionType('expense');
+                  setSelectedCategory('');
+                  setSplitDrafts(null);
+                }}
+                className={`flex-1 py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
+                  transactionType === 'expense'
+                    ? 'bg-destructive/20 text-destructive border border-destructive/50'
+                    : 'bg-muted text-muted-foreground'
+                }`}
+              >
+                <ArrowDownRight className="w-5 h-5" />
+                Gasto
+              </button>
+              <button
+                onClick={() => {
+                  setTransactionType('income');
+                  setSelectedCategory('');
+                  setSplitDrafts(null);
+                }}
+                className={`flex-1 py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
+                  transactionType === 'income'
+                    ? 'bg-success/20 text-success border border-success/50'
+                    : 'bg-muted text-muted-foreground'
+                }`}
+              >
+                <ArrowUpRight className="w-5 h-5" />
+                Ganho
+              </button>
+            </div>
+
+            {/* Payment Method (only for expenses) */}
+            {transactionType === 'expense' && (
+              <div className="mb-6">
+                <label className="text-sm font-medium mb-3 block">Pago com</label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setPaymentMethod('debit')}
+                    className={cn(
+                      "flex-1 py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2",
+                      paymentMethod === 'debit'
+                        ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/50'
+                        : 'bg-muted text-muted-foreground'
+                    )}
+                  >
+                    <Wallet className="w-5 h-5" />
+                    Débito
+                  </button>
+                  <button
+                    onClick={() => setPaymentMethod('credit')}
+                    className={cn(
+                      "flex-1 py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2",
+                      paymentMethod === 'credit'
+                        ? 'bg-secondary/20 text-secondary border border-secondary/50'
+                        : 'bg-muted text-muted-foreground'
+                    )}
+                  >
+                    <CreditCard className="w-5 h-5" />
+                    Crédito
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Amount */}
+            <div className="mb-6">
+              <label className="text-sm font-medium mb-2 block">Valor</label>
+              <div className="relative">
+                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground">
+                  R$
+                </span>
+                <Input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0,00"
+                  className="pl-12 text-2xl font-bold h-14 bg-muted/50 border-border"
+                />
+              </div>
+            </div>
+
+            {/* Categories */}
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm font-medium">Categoria</label>
+                <button
+                  onClick={() => setSplitDrafts(splitDrafts ? null : [
+                    { category: selectedCategory, amount: amount, note: '' },
+                    { category: '', amount: '', note: '' },
+                  ])}
+                  className="flex items-center gap-1 text-xs text-primary hover:underline"
+                >
+                  <Split className="w-3 h-3" />
+                  {splitDrafts ? 'Categoria única' : 'Dividir'}
+                </button>
+              </div>
+              {splitDrafts ? (
+                <SplitEditor
+                  total={parseFloat(amount.replace(',', '.')) || 0}
+                  splits={splitDrafts}
+                  categories={categories}
+                  onChange={setSplitDrafts}
+                />
+              ) : (
+                <div className="grid grid-cols-4 gap-2">
+                  {categories.map((cat) => {
+                    const IconComponent = getCategoryIcon(cat.icon);
+                    return (
+                      <button
+                        key={cat.id}
+                        onClick={() => setSelectedCategory(cat.name)}
+                        className={`p-3 rounded-xl flex flex-col items-center gap-1 transition-all ${
+                          selectedCategory === cat.name
+                            ? 'bg-primary/20 border border-primary'
+                            : 'bg-muted/50 hover:bg-muted'
+                        }`}
+                      >
+                        <IconComponent className="w-5 h-5" style={{ color: cat.color }} />
+                        <span className="text-[10px] text-center">{cat.name}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Description */}
+            <div className="mb-6">
+              <label className="text-sm font-medium mb-2 block">
+                Descrição (opcional)
+              </label>
+              <Input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Ex: Almoço com amigos"
+                className="bg-muted/50 border-border"
+              />
+            </div>
+
+            {/* Tags */}
+            <div className="mb-6">
+              <label className="text-sm font-medium mb-2 block">Tags</label>
+              <TagInput userId={transaction.userId} value={tags} onChange={setTags} />
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowDeleteDialog(true)}
+                disabled={isSaving}
+                className="h-12 border-destructive/50 text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 className="w-5 h-5" />
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={!amount || !selectedCategory || isSaving}
+                className="flex-1 h-12 bg-gradient-primary hover:opacity-90"
+              >
+                {isSaving ? 'Salvando...' : 'Salvar Alterações'}
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+
+  return (
+    <>
+      {createPortal(modalContent, document.body)}
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir transação</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir <span className="font-medium">{transaction?.description || transaction?.category}</span>?
+              {transaction?.type === 'expense' && transaction?.paymentMethod === 'credit' && ' O valor será devolvido ao limite do cartão.'}
+              {' '}Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
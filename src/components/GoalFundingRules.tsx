@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Plus, Trash2, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getGoalFundingRules,
+  addGoalFundingRule,
+  setGoalFundingRuleActive,
+  deleteGoalFundingRule,
+  type GoalFundingEvent,
+  type GoalFundingRule,
+} from '@/lib/goalFundingDb';
+
+const EVENT_LABELS: Record<GoalFundingEvent, string> = {
+  salary: 'Salário',
+  advance: 'Adiantamento',
+  round_up: 'Arredondar compras',
+};
+
+interface GoalFundingRulesProps {
+  goalId: string;
+  userId: number;
+}
+
+export function GoalFundingRules({ goalId, userId }: GoalFundingRulesProps) {
+  const [rules, setRules] = useState<GoalFundingRule[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [event, setEvent] = useState<GoalFundingEvent>('salary');
+  const [mode, setMode] = useState<'percent' | 'fixed'>('percent');
+  const [value, setValue] = useState('');
+
+  const loadRules = useCallback(async () => {
+    setRules(await getGoalFundingRules(userId, goalId));
+  }, [userId, goalId]);
+
+  useEffect(() => {
+    loadRules();
+    setShowForm(false);
+  }, [loadRules]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(amount);
+  };
+
+  const describeRule = (rule: GoalFundingRule) => {
+    if (rule.event === 'round_up') return 'Guarda o troco de cada compra no débito até o próximo R$ 5';
+    const share = rule.percent !== null ? `${rule.percent}%` : formatCurrency(rule.fixedAmount || 0);
+    return `Guarda ${share} de cada ${rule.event === 'salary' ? 'salário' : 'adiantamento'}`;
+  };
+
+  const handleAdd = async () => {
+    if (isSaving) return;
+
+    const amount = parseFloat(value.replace(',', '.'));
+    if (event !== 'round_up' && (isNaN(amount) || amount <= 0 || (mode === 'percent' && amount > 100))) {
+      toast.error('Valor inválido');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const id = await addGoalFundingRule({
+        goalId,
+        userId,
+        event,
+        percent: event !== 'round_up' && mode === 'percent' ? amount : null,
+        fixedAmount: event !== 'round_up' && mode === 'fixed' ? amount : null,
+      });
+
+      if (!id) {
+        toast.error(event === 'round_up'
+          ? 'Erro ao criar regra. O arredondamento só pode estar ativo em uma meta.'
+          : 'Erro ao criar regra');
+        return;
+      }
+
+      toast.success('Regra criada!');
+      setValue('');
+      setShowForm(false);
+      loadRules();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: GoalFundingRule) => {
+    if (!(await setGoalFundingRuleActive(rule.id, !rule.isActive))) {
+      toast.error(rule.event === 'round_up'
+        ? 'O arredondamento já está ativo em outra meta'
+        : 'Erro ao atualizar regra');
+      return;
+    }
+    loadRules();
+  };
+
+  const handleDelete = async (rule: GoalFundingRule) => {
+    if (!(await deleteGoalFundingRule(rule.id))) {
+      toast.error('Erro ao excluir regra');
+      return;
+    }
+    loadRules();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-medium">
+          <Zap className="w-4 h-4 text-primary" />
+          Regras automáticas
+        </h3>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="p-1.5 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
+          >
+            <Plus className="w-4 h-4 text-muted-foreground" />
+          </button>
+        )}
+      </div>
+
+      {rules.map((rule) => (
+        <div key={rule.id} className="flex items-center gap-3 p-3 rounded-xl bg-muted/30">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">{EVENT_LABELS[rule.event]}</p>
+            <p className="text-xs text-muted-foreground">{describeRule(rule)}</p>
+          </div>
+          <Switch checked={rule.isActive} onCheckedChange={() => handleToggle(rule)} />
+          <button onClick={() => handleDelete(rule)} className="p-1.5 rounded-lg hover:bg-muted transition-colors">
+            <Trash2 className="w-4 h-4 text-muted-foreground" />
+          </button>
+        </div>
+      ))}
+
+      {rules.length === 0 && !showForm && (
+        <p className="text-xs text-muted-foreground">
+          Guarde parte do salário ou o troco das compras automaticamente
+        </p>
+      )}
+
+      {showForm && (
+        <div className="space-y-2 p-3 rounded-xl bg-muted/30">
+          <Select value={event} onValueChange={(v) => setEvent(v as GoalFundingEvent)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EVENT_LABELS) as GoalFundingEvent[]).map((e) => (
+                <SelectItem key={e} value={e}>
+                  {EVENT_LABELS[e]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {event === 'round_up' ? (
+            <p className="text-xs text-muted-foreground">
+              Cada compra no débito é arredondada para o próximo múltiplo de R$ 5 e a diferença sai da conta corrente para a meta.
+            </p>
+          ) : (
+            <div className="flex gap-2">
+              <Select value={mode} onValueChange={(v) => setMode(v as 'percent' | 'fixed')}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">%</SelectItem>
+                  <SelectItem value="fixed">R$</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={mode === 'percent' ? 'Ex: 10' : 'Ex: 200'}
+              />
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="ghost" className="flex-1" onClick={() => setShowForm(false)}>
+              Cancelar
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={handleAdd}
+              disabled={isSaving || (event !== 'round_up' && !value)}
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Criar regra'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
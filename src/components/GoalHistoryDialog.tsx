@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowDownRight, ArrowUpRight, Landmark, Loader2 } from 'lucide-react';
+import { Area, AreaChart, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { GoalFundingRules } from '@/components/GoalFundingRules';
+import { GoalMembers } from '@/components/GoalMembers';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  getGoalContributions,
+  addGoalContribution,
+  type Goal,
+  type GoalContribution,
+} from '@/lib/db';
+import { getGoalMembers, type GoalMember } from '@/lib/goalSharingDb';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+
+const SOURCE_LABELS: Record<GoalContribution['source'], string> = {
+  manual: '',
+  salary: 'Regra do salário',
+  advance: 'Regra do adiantamento',
+  round_up: 'Arredondamento',
+};
+
+const chartConfig = {
+  balance: { label: 'Saldo', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface GoalHistoryDialogProps {
+  goal: Goal | null;
+  onClose: () => void;
+  // Called after a deposit or withdrawal so the goal list can reload
+  onChanged: () => void;
+}
+
+export function GoalHistoryDialog({ goal, onClose, onChanged }: GoalHistoryDialogProps) {
+  const { user } = useAuth();
+  const [contributions, setContributions] = useState<GoalContribution[]>([]);
+  const [members, setMembers] = useState<GoalMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [kind, setKind] = useState<GoalContribution['kind']>('deposit');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [moveAccount, setMoveAccount] = useState(false);
+
+  const loadContributions = async (goalId: string) => {
+    setIsLoading(true);
+    const [c, m] = await Promise.all([getGoalContributions(goalId), getGoalMembers(goalId)]);
+    setContributions(c);
+    setMembers(m);
+    setIsLoading(false);
+  };
+
+  const handleMembersChanged = async () => {
+    if (!goal?.id) return;
+    setMembers(await getGoalMembers(goal.id));
+    onChanged();
+  };
+
+  // Contributor names only matter once someone else takes part
+  const isShared = members.length > 1;
+  const memberName = (matricula: number) =>
+    members.find((m) => m.matricula === matricula)?.fullName.split(' ')[0] || `Matrícula ${matricula}`;
+
+  useEffect(() => {
+    if (!goal?.id) return;
+    setKind('deposit');
+    setAmount('');
+    setNote('');
+    setMoveAccount(false);
+    loadContributions(goal.id);
+  }, [goal?.id]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  // Running balance after each entry
+  let running = 0;
+  const chartData = contributions.map((c) => {
+    running += c.kind === 'deposit' ? c.amount : -c.amount;
+    return { date: format(c.createdAt, 'dd/MM/yy'), balance: Math.round(running * 100) / 100 };
+  });
+
+  const handleSave = async () => {
+    if (!goal?.id || isSaving) return;
+
+    const value = parseFloat(amount.replace(',', '.'));
+    if (isNaN(value) || value <= 0) {
+      toast.error('Valor inválido');
+      return;
+    }
+    if (kind === 'withdrawal' && value > goal.currentAmount) {
+      toast.error('Saldo insuficiente na meta');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const ok = await addGoalContribution({ goalId: goal.id, kind, amount: value, moveAccount, note });
+      if (!ok) {
+        toast.error('Erro ao registrar movimento');
+        return;
+      }
+
+      toast.success(kind === 'deposit' ? 'Depósito registrado!' : 'Retirada registrada!');
+      setAmount('');
+      setNote('');
+      loadContributions(goal.id);
+      onChanged();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!goal} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[calc(100dvh-5rem)] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{goal?.title}</DialogTitle>
+        </DialogHeader>
+
+        {/* Timeline */}
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : chartData.length > 1 && (
+          <ChartContainer config={chartConfig} className="aspect-auto w-full h-40">
+            <AreaChart data={chartData} margin={{ left: 0, right: 8 }}>
+              <XAxis
+                dataKey="date"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#64748b', fontSize: 11 }}
+              />
+              <YAxis hide />
+              <ChartTooltip
+                content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />}
+              />
+              <Area
+                type="stepAfter"
+                dataKey="balance"
+                stroke="var(--color-balance)"
+                fill="var(--color-balance)"
+                fillOpacity={0.2}
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+
+        {/* New entry */}
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            {(['deposit', 'withdrawal'] as const).map((k) => (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={cn(
+                  'flex-1 py-2 rounded-lg text-sm font-medium transition-colors',
+                  kind === k ? 'bg-gradient-primary text-white' : 'bg-muted/50 text-muted-foreground'
+                )}
+              >
+                {k === 'deposit' ? 'Depositar' : 'Retirar'}
+              </button>
+            ))}
+          </div>
+          <Input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Valor"
+          />
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Observação (opcional)"
+          />
+          <label className="flex items-center justify-between gap-3 text-sm">
+            <span className="flex items-center gap-2">
+              <Landmark className="w-4 h-4 text-muted-foreground" />
+              {kind === 'deposit' ? 'Debitar da conta corrente' : 'Creditar na conta corrente'}
+            </span>
+            <Switch checked={moveAccount} onCheckedChange={setMoveAccount} />
+          </label>
+          <Button onClick={handleSave} disabled={!amount || isSaving} className="w-full bg-gradient-primary">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Registrar'}
+          </Button>
+        </div>
+
+        {goal?.id && user && (
+          <GoalMembers
+            goalId={goal.id}
+            ownerId={goal.userId}
+            currentUserId={user.userId}
+            members={members}
+            onChanged={handleMembersChanged}
+            onLeft={() => {
+              onClose();
+              onChanged();
+            }}
+          />
+        )}
+
+        {goal?.id && user && <GoalFundingRules goalId={goal.id} userId={user.userId} />}
+
+        {/* Entries, newest first */}
+        {!isLoading && (
+          <div className="space-y-2">
+            {contributions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Nenhum movimento nesta meta</p>
+            ) : (
+              [...contributions].reverse().map((c) => (
+                <div key={c.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-muted/30">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {c.note || SOURCE_LABELS[c.source] || (c.kind === 'deposit' ? 'Depósito' : 'Retirada')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(c.createdAt, 'dd MMM yyyy', { locale: ptBR })}
+                      {isShared && ` · ${memberName(c.userId)}`}
+                      {c.transactionId && ' · conta corrente'}
+                    </p>
+                  </div>
+                  <span className={cn(
+                    'flex items-center text-sm font-semibold whitespace-nowrap',
+                    c.kind === 'deposit' ? 'text-success' : 'text-destructive'
+                  )}>
+                    {c.kind === 'deposit'
+                      ? <ArrowUpRight className="w-4 h-4" />
+                      : <ArrowDownRight className="w-4 h-4" />}
+                    {formatCurrency(c.amount)}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Loader2, LogOut, UserPlus, Users, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getProfile } from '@/lib/db';
+import { inviteGoalMember, removeGoalMember, type GoalMember } from '@/lib/goalSharingDb';
+import { cn } from '@/lib/utils';
+
+interface GoalMembersProps {
+  goalId: string;
+  ownerId: number;
+  currentUserId: number;
+  members: GoalMember[];
+  onChanged: () => void;
+  // Called after the current user leaves the goal
+  onLeft: () => void;
+}
+
+export function GoalMembers({ goalId, ownerId, currentUserId, members, onChanged, onLeft }: GoalMembersProps) {
+  const [showInvite, setShowInvite] = useState(false);
+  const [matricula, setMatricula] = useState('');
+  const [share, setShare] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const isOwner = ownerId === currentUserId;
+  const ownerShare = members.find((m) => m.isOwner)?.sharePercent ?? 100;
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const handleInvite = async () => {
+    if (isSaving) return;
+
+    const invited = parseInt(matricula);
+    const sharePercent = parseFloat(share.replace(',', '.')) || 0;
+
+    if (isNaN(invited) || invited === currentUserId || members.some((m) => m.matricula === invited)) {
+      toast.error('Matrícula inválida');
+      return;
+    }
+    if (sharePercent < 0 || sharePercent > ownerShare) {
+      toast.error(`A parte deve ficar entre 0% e ${ownerShare}%`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (!(await getProfile(invited))) {
+        toast.error('Matrícula não encontrada');
+        return;
+      }
+
+      if (!(await inviteGoalMember(goalId, invited, sharePercent))) {
+        toast.error('Erro ao enviar convite');
+        return;
+      }
+
+      toast.success('Convite enviado!');
+      setMatricula('');
+      setShare('');
+      setShowInvite(false);
+      onChanged();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (member: GoalMember) => {
+    if (!(await removeGoalMember(goalId, member.matricula))) {
+      toast.error('Erro ao remover participante');
+      return;
+    }
+
+    if (member.matricula === currentUserId) {
+      toast.success('Você saiu da meta');
+      onLeft();
+      return;
+    }
+    onChanged();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-medium">
+          <Users className="w-4 h-4 text-primary" />
+          Participantes
+        </h3>
+        {isOwner && !showInvite && (
+          <button
+            onClick={() => setShowInvite(true)}
+            className="p-1.5 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
+          >
+            <UserPlus className="w-4 h-4 text-muted-foreground" />
+          </button>
+        )}
+      </div>
+
+      {members.length <= 1 && !showInvite && isOwner && (
+        <p className="text-xs text-muted-foreground">
+          Convide outras matrículas para juntar dinheiro nesta meta
+        </p>
+      )}
+
+      {members.length > 1 && members.map((member) => (
+        <div
+          key={member.matricula}
+          className={cn('flex items-center gap-3 p-3 rounded-xl bg-muted/30', member.status === 'pending' && 'opacity-60')}
+        >
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">
+              {member.fullName}
+              {member.isOwner && <span className="text-xs text-muted-foreground"> · dono</span>}
+              {member.status === 'pending' && <span className="text-xs text-muted-foreground"> · convite pendente</span>}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(member.contributed)} de {formatCurrency(member.shareAmount)} ({member.sharePercent}%)
+            </p>
+          </div>
+          {isOwner && !member.isOwner && (
+            <button onClick={() => handleRemove(member)} className="p-1.5 rounded-lg hover:bg-muted transition-colors">
+              <X className="w-4 h-4 text-muted-foreground" />
+            </button>
+          )}
+          {!isOwner && member.matricula === currentUserId && (
+            <button
+              onClick={() => handleRemove(member)}
+              className="p-1.5 rounded-lg hover:bg-muted transition-colors"
+              title="Sair da meta"
+            >
+              <LogOut className="w-4 h-4 text-muted-foreground" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {showInvite && (
+        <div className="space-y-2 p-3 rounded-xl bg-muted/30">
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              value={matricula}
+              onChange={(e) => setMatricula(e.target.value)}
+              placeholder="Matrícula"
+            />
+            <Input
+              type="number"
+              value={share}
+              onChange={(e) => setShare(e.target.value)}
+              placeholder="Parte %"
+              className="w-28"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A parte é a porcentagem do valor da meta que fica com o convidado. Sua parte atual: {ownerShare}%.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" className="flex-1" onClick={() => setShowInvite(false)}>
+              Cancelar
+            </Button>
+            <Button className="flex-1" onClick={handleInvite} disabled={!matricula || isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Convidar'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
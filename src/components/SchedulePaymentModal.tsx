@@ -10,6 +10,9 @@ import { Label } from '@/components/ui/label';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
+import { describeRecurrence, type RecurrenceRule } from '@/lib/recurrence';
+import type { BusinessDayRule } from '@/lib/businessDays';
+import { BusinessDayRuleSelect } from '@/components/BusinessDayRuleSelect';
 
 interface SchedulePaymentModalProps {
   isOpen: boolean;
@@ -20,6 +23,8 @@ interface SchedulePaymentModalProps {
     dueDay: number;
     isRecurring: boolean;
     specificMonth?: Date;
+    recurrence: RecurrenceRule;
+    businessDayRule: BusinessDayRule;
     category: string;
   }) => void;
   preFill?: {
@@ -29,6 +34,22 @@ interface SchedulePaymentModalProps {
   } | null;
 }
 
+type FrequencyOption = 'monthly' | 'weekly' | 'yearly' | 'once';
+type EndOption = 'never' | 'count' | 'until';
+
+const FREQUENCY_OPTIONS: { id: FrequencyOption; label: string; unit: string }[] = [
+  { id: 'monthly', label: 'Mensal', unit: 'mês(es)' },
+  { id: 'weekly', label: 'Semanal', unit: 'semana(s)' },
+  { id: 'yearly', label: 'Anual', unit: 'ano(s)' },
+  { id: 'once', label: 'Única', unit: '' },
+];
+
+const END_OPTIONS: { id: EndOption; label: string }[] = [
+  { id: 'never', label: 'Sem fim' },
+  { id: 'count', label: 'Nº de vezes' },
+  { id: 'until', label: 'Até a data' },
+];
+
 const PAYMENT_CATEGORIES = [
   { id: 'aluguel', label: 'Aluguel', icon: '🏠' },
   { id: 'energia', label: 'Energia', icon: '⚡' },
@@ -46,7 +67,12 @@ export function SchedulePaymentModal({ isOpen, onClose, onSchedule, preFill }: S
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
   const [selectedDate, setSelectedDate] = useState<Date>();
-  const [isRecurring, setIsRecurring] = useState(true);
+  const [frequency, setFrequency] = useState<FrequencyOption>('monthly');
+  const [intervalInput, setIntervalInput] = useState('1');
+  const [endOption, setEndOption] = useState<EndOption>('never');
+  const [count, setCount] = useState('');
+  const [until, setUntil] = useState('');
+  const [businessDayRule, setBusinessDayRule] = useState<BusinessDayRule>('none');
   const [category, setCategory] = useState('outros');
 
   // Pre-fill values when modal opens with data
@@ -65,13 +91,59 @@ export function SchedulePaymentModal({ isOpen, onClose, onSchedule, preFill }: S
       setName('');
       setAmount('');
       setSelectedDate(undefined);
-      setIsRecurring(true);
+      setFrequency('monthly');
+      setIntervalInput('1');
+      setEndOption('never');
+      setCount('');
+      setUntil('');
+      setBusinessDayRule('none');
       setCategory('outros');
     }
   }, [isOpen, preFill]);
 
+  const resetForm = () => {
+    setName('');
+    setAmount('');
+    setSelectedDate(undefined);
+    setFrequency('monthly');
+    setIntervalInput('1');
+    setEndOption('never');
+    setCount('');
+    setUntil('');
+    setBusinessDayRule('none');
+    setCategory('outros');
+  };
+
+  // The picked date is the first occurrence; weekday and month come from it
+  const buildRecurrence = (date: Date): RecurrenceRule | null => {
+    if (frequency === 'once') {
+      return { frequency: 'monthly', interval: 1, startDate: date, count: 1 };
+    }
+
+    const intervalValue = parseInt(intervalInput) || 1;
+    const countValue = endOption === 'count' ? parseInt(count) : null;
+    const [year, month, day] = until.split('-').map(Number);
+    const untilValue = endOption === 'until' && until ? new Date(year, month - 1, day) : null;
+
+    if (intervalValue < 1) return null;
+    if (endOption === 'count' && (!countValue || countValue < 1)) return null;
+    if (endOption === 'until' && (!untilValue || untilValue < date)) return null;
+
+    return {
+      frequency,
+      interval: intervalValue,
+      startDate: date,
+      weekday: frequency === 'weekly' ? date.getDay() : null,
+      month: frequency === 'yearly' ? date.getMonth() + 1 : null,
+      count: countValue,
+      until: untilValue,
+    };
+  };
+
+  const recurrence = selectedDate ? buildRecurrence(selectedDate) : null;
+
   const handleSubmit = () => {
-    if (!name.trim() || !amount || !selectedDate) return;
+    if (!name.trim() || !amount || !selectedDate || !recurrence) return;
 
     const amountValue = parseFloat(amount.replace(',', '.'));
     if (isNaN(amountValue) || amountValue <= 0) return;
@@ -80,17 +152,14 @@ export function SchedulePaymentModal({ isOpen, onClose, onSchedule, preFill }: S
       name: name.trim(),
       amount: amountValue,
       dueDay: selectedDate.getDate(),
-      isRecurring,
-      specificMonth: isRecurring ? undefined : selectedDate,
+      isRecurring: frequency !== 'once',
+      specificMonth: frequency === 'once' ? selectedDate : undefined,
+      recurrence,
+      businessDayRule,
       category,
     });
 
-    // Reset form
-    setName('');
-    setAmount('');
-    setSelectedDate(undefined);
-    setIsRecurring(true);
-    setCategory('outros');
+    resetForm();
     onClose();
   };
 
@@ -201,38 +270,99 @@ export function SchedulePaymentModal({ isOpen, onClose, onSchedule, preFill }: S
                   </Popover>
                 </div>
 
-                {/* Recurring Toggle */}
+                {/* Recurrence */}
                 <div className="space-y-3">
                   <Label className="text-sm font-medium flex items-center gap-2">
                     <Repeat className="w-4 h-4 text-primary" />
                     Frequência
                   </Label>
-                  <div className="grid grid-cols-2 gap-3">
-                    <button
-                      onClick={() => setIsRecurring(true)}
-                      className={cn(
-                        "p-4 rounded-xl border-2 transition-all text-sm font-medium",
-                        isRecurring
-                          ? "border-primary bg-primary/10 text-primary"
-                          : "border-border hover:border-primary/50"
+                  <div className="grid grid-cols-4 gap-2">
+                    {FREQUENCY_OPTIONS.map((option) => (
+                      <button
+                        key={option.id}
+                        onClick={() => {
+                          setFrequency(option.id);
+                          if (option.id === 'weekly' && businessDayRule === 'last_business_day') setBusinessDayRule('none');
+                        }}
+                        className={cn(
+                          "p-3 rounded-xl border-2 transition-all text-sm font-medium",
+                          frequency === option.id
+                            ? "border-primary bg-primary/10 text-primary"
+                            : "border-border hover:border-primary/50"
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {frequency !== 'once' && (
+                    <>
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-muted-foreground">A cada</span>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={intervalInput}
+                          onChange={(e) => setIntervalInput(e.target.value)}
+                          className="h-10 w-20 rounded-xl"
+                        />
+                        <span className="text-muted-foreground">{FREQUENCY_OPTIONS.find((f) => f.id === frequency)?.unit}</span>
+                      </div>
+
+                      <div className="grid grid-cols-3 gap-2">
+                        {END_OPTIONS.map((option) => (
+                          <button
+                            key={option.id}
+                            onClick={() => setEndOption(option.id)}
+                            className={cn(
+                              "p-2 rounded-xl border transition-all text-xs font-medium",
+                              endOption === option.id
+                                ? "border-primary bg-primary/10 text-primary"
+                                : "border-border hover:border-primary/50"
+                            )}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+
+                      {endOption === 'count' && (
+                        <Input
+                          type="number"
+                          min="1"
+                          placeholder="Quantas vezes? Ex: 10"
+                          value={count}
+                          onChange={(e) => setCount(e.target.value)}
+                          className="h-10 rounded-xl"
+                        />
                       )}
-                    >
-                      <Repeat className="w-5 h-5 mx-auto mb-2" />
-                      Recorrente mensal
-                    </button>
-                    <button
-                      onClick={() => setIsRecurring(false)}
-                      className={cn(
-                        "p-4 rounded-xl border-2 transition-all text-sm font-medium",
-                        !isRecurring
-                          ? "border-primary bg-primary/10 text-primary"
-                          : "border-border hover:border-primary/50"
+                      {endOption === 'until' && (
+                        <Input
+                          type="date"
+                          value={until}
+                          onChange={(e) => setUntil(e.target.value)}
+                          className="h-10 rounded-xl"
+                        />
                       )}
-                    >
-                      <Calendar className="w-5 h-5 mx-auto mb-2" />
-                      Somente este mês
-                    </button>
-                  </div>
+                    </>
+                  )}
+
+                  {selectedDate && recurrence && (
+                    <p className="text-xs text-muted-foreground">
+                      {describeRecurrence(recurrence, selectedDate.getDate())}
+                    </p>
+                  )}
+                </div>
+
+                {/* Weekends and holidays */}
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Se cair em fim de semana ou feriado</Label>
+                  <BusinessDayRuleSelect
+                    value={businessDayRule}
+                    onChange={setBusinessDayRule}
+                    allowLastBusinessDay={frequency !== 'weekly'}
+                  />
                 </div>
 
                 {/* Category */}
@@ -264,7 +394,7 @@ export function SchedulePaymentModal({ isOpen, onClose, onSchedule, preFill }: S
               <div className="p-5 pt-0 flex-shrink-0">
                 <Button
                   onClick={handleSubmit}
-                  disabled={!name.trim() || !amount || !selectedDate}
+                  disabled={!name.trim() || !amount || !selectedDate || !recurrence}
                   className="w-full h-14 rounded-2xl text-lg font-semibold bg-gradient-to-r from-primary to-secondary hover:opacity-90"
                 >
                   Agendar Lembrete
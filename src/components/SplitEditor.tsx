@@ -0,0 +1,113 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Category } from '@/lib/categoryDb';
+import { cn } from '@/lib/utils';
+
+// Amounts are kept as typed text so partial input like "12," isn't lost
+export interface SplitDraft {
+  category: string;
+  amount: string;
+  note: string;
+}
+
+interface SplitEditorProps {
+  total: number;
+  splits: SplitDraft[];
+  categories: Category[];
+  onChange: (splits: SplitDraft[]) => void;
+}
+
+function parseSplitAmount(value: string): number {
+  return parseFloat(value.replace(',', '.')) || 0;
+}
+
+export function SplitEditor({ total, splits, categories, onChange }: SplitEditorProps) {
+  const allocated = splits.reduce((sum, s) => sum + parseSplitAmount(s.amount), 0);
+  const remaining = Math.round((total - allocated) * 100) / 100;
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const updateSplit = (index: number, changes: Partial<SplitDraft>) => {
+    onChange(splits.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const addSplit = () => {
+    onChange([...splits, { category: '', amount: remaining > 0 ? remaining.toFixed(2) : '', note: '' }]);
+  };
+
+  const removeSplit = (index: number) => {
+    onChange(splits.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {splits.map((split, index) => (
+        <div key={index} className="p-3 rounded-xl bg-muted/30 space-y-2">
+          <div className="flex gap-2">
+            <Select value={split.category} onValueChange={(category) => updateSplit(index, { category })}>
+              <SelectTrigger className="flex-1 bg-muted/50 border-border">
+                <SelectValue placeholder="Categoria" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((c) => (
+                  <SelectItem key={c.id} value={c.name}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              value={split.amount}
+              onChange={(e) => updateSplit(index, { amount: e.target.value })}
+              placeholder="0,00"
+              className="w-28 bg-muted/50 border-border"
+            />
+            <button
+              onClick={() => removeSplit(index)}
+              className="p-2 rounded-lg hover:bg-muted"
+              disabled={splits.length <= 2}
+            >
+              <Trash2 className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </div>
+          <Input
+            value={split.note}
+            onChange={(e) => updateSplit(index, { note: e.target.value })}
+            placeholder="Observação (opcional)"
+            className="h-9 text-sm bg-muted/50 border-border"
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={addSplit}
+          className="flex items-center gap-1 text-sm text-primary hover:underline"
+        >
+          <Plus className="w-4 h-4" />
+          Adicionar parte
+        </button>
+        <span className={cn('text-xs', remaining === 0 ? 'text-success' : 'text-destructive')}>
+          {remaining === 0
+            ? 'Valores conferem'
+            : remaining > 0
+              ? `Faltam ${formatCurrency(remaining)}`
+              : `Excede em ${formatCurrency(-remaining)}`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { CloudOff, AlertCircle } from 'lucide-react';
+import type { SyncStatus } from '@/lib/offlineDb';
+import { cn } from '@/lib/utils';
+
+interface SyncStatusBadgeProps {
+  status?: SyncStatus;
+  className?: string;
+}
+
+// Shown next to records that haven't reached the server yet; synced records show nothing
+export function SyncStatusBadge({ status, className }: SyncStatusBadgeProps) {
+  if (!status || status === 'synced') return null;
+
+  if (status === 'error') {
+    return (
+      <span
+        className={cn("inline-flex items-center gap-1 text-[10px] text-destructive", className)}
+        title="Não foi possível sincronizar"
+      >
+        <AlertCircle className="w-3 h-3" />
+        Erro ao sincronizar
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 text-[10px] text-warning", className)}
+      title="Aguardando conexão para sincronizar"
+    >
+      <CloudOff className="w-3 h-3" />
+      Pendente
+    </span>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { Hash, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { getTags, normalizeTag } from '@/lib/tagDb';
+import { cn } from '@/lib/utils';
+
+interface TagInputProps {
+  userId: number | undefined;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export function TagInput({ userId, value, onChange, className }: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    getTags(userId).then((tags) => setKnownTags(tags.map((t) => t.name)));
+  }, [userId]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const term = normalizeTag(input);
+  const suggestions = knownTags
+    .filter((t) => !value.includes(t) && (!term || t.includes(term)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((tag) => (
+            <span
+              key={tag}
+              className="flex items-center gap-1 px-2 py-1 rounded-full bg-primary/15 text-primary text-xs"
+            >
+              #{tag}
+              <button onClick={() => removeTag(tag)} className="hover:text-primary/70">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Hash className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag(input);
+            } else if (e.key === 'Backspace' && !input && value.length > 0) {
+              removeTag(value[value.length - 1]);
+            }
+          }}
+          onBlur={() => input.trim() && addTag(input)}
+          placeholder="Adicionar tag (ex: viagem-rio)"
+          className="pl-9 bg-muted/50 border-border"
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map((tag) => (
+            <button
+              key={tag}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="px-2 py-0.5 rounded-full bg-muted/50 hover:bg-muted text-muted-foreground text-xs"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -179,7 +179,7 @@ export function AdminClients() {
   const handleSaveEdit = async () => {
     if (!selectedUser) return;
 
-    const updates: Partial<AdminUser> = {
+    const updates: Partial<Omit<AdminUser, 'credit_used'>> = {
       full_name: editForm.full_name || null,
       email: editForm.email || null,
       phone: editForm.phone || null,
@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { getCreditDrift, reconcileCreditUsed, CreditDrift } from "@/lib/adminDb";
+import { Scale, Loader2, RefreshCw, CheckCircle2 } from "lucide-react";
+
+export function AdminCreditReconciliation() {
+  const [drifts, setDrifts] = useState<CreditDrift[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fixingId, setFixingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadDrifts();
+  }, []);
+
+  const loadDrifts = async () => {
+    setIsLoading(true);
+    const data = await getCreditDrift();
+    setDrifts(data);
+    setIsLoading(false);
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const handleFix = async (drift: CreditDrift) => {
+    setFixingId(drift.user_id);
+    const success = await reconcileCreditUsed(drift);
+    setFixingId(null);
+
+    if (success) {
+      setDrifts(prev => prev.filter(d => d.user_id !== drift.user_id));
+      toast({
+        title: "Limite conciliado",
+        description: `Matrícula ${drift.matricula} agora usa ${formatCurrency(drift.ledger_credit_used)}.`
+      });
+    } else {
+      toast({
+        title: "Erro",
+        description: "Não foi possível conciliar o limite usado.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleFixAll = async () => {
+    setFixingId('all');
+    let fixed = 0;
+    for (const drift of drifts) {
+      if (await reconcileCreditUsed(drift)) fixed++;
+    }
+    setFixingId(null);
+
+    toast({
+      title: "Conciliação concluída",
+      description: `${fixed} de ${drifts.length} clientes conciliados.`
+    });
+    loadDrifts();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.8 }}
+    >
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg flex items-center gap-2 text-white">
+              <Scale className="w-5 h-5 text-violet-400" />
+              Conciliação de Crédito
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={loadDrifts}
+                disabled={isLoading || fixingId !== null}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+              {drifts.length > 0 && (
+                <Button
+                  size="sm"
+                  onClick={handleFixAll}
+                  disabled={fixingId !== null}
+                  className="bg-violet-600 hover:bg-violet-700"
+                >
+                  {fixingId === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Corrigir todos'}
+                </Button>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-slate-400">
+            Clientes cujo limite usado gravado difere do calculado pelas compras no crédito e pagamentos de fatura.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-violet-400" />
+            </div>
+          ) : drifts.length === 0 ? (
+            <div className="flex items-center gap-2 text-slate-400 text-sm">
+              <CheckCircle2 className="w-4 h-4 text-emerald-400" />
+              Nenhuma divergência encontrada.
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {drifts.map((drift) => (
+                <div
+                  key={drift.user_id}
+                  className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg gap-3"
+                >
+                  <div className="min-w-0">
+                    <span className="text-white text-sm block truncate">
+                      {drift.full_name || 'Sem nome'} • {drift.matricula}
+                    </span>
+                    <span className="text-xs text-slate-400 block">
+                      Gravado {formatCurrency(drift.stored_credit_used)} • Calculado {formatCurrency(drift.ledger_credit_used)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <span className={drift.difference > 0 ? 'text-orange-400 font-semibold' : 'text-emerald-400 font-semibold'}>
+                      {drift.difference > 0 ? '+' : ''}{formatCurrency(drift.difference)}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleFix(drift)}
+                      disabled={fixingId !== null}
+                      className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      {fixingId === drift.user_id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Corrigir'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
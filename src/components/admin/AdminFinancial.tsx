@@ -10,6 +10,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { getFinancialStats } from "@/lib/adminDb";
+import { AdminCreditReconciliation } from "./AdminCreditReconciliation";
 import { 
   Wallet, 
   TrendingUp, 
@@ -562,6 +563,9 @@ export function AdminFinancial() {
           </Card>
         </motion.div>
       </div>
+
+      {/* Credit Reconciliation */}
+      <AdminCreditReconciliation />
     </div>
   );
 }
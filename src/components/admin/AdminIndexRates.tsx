@@ -0,0 +1,169 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getIndexRates, setIndexRate, deleteIndexRate, IndexRate } from "@/lib/investmentDb";
+import type { IndexName } from "@/lib/investmentValuation";
+import { Percent, Loader2, Trash2 } from "lucide-react";
+
+const INDEX_LABELS: Record<IndexName, string> = {
+  cdi: 'CDI',
+  selic: 'Selic',
+  ipca: 'IPCA'
+};
+
+export function AdminIndexRates() {
+  const [rates, setRates] = useState<IndexRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [indexName, setIndexName] = useState<IndexName>('cdi');
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [rate, setRate] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const loadRates = async () => {
+    setIsLoading(true);
+    const data = await getIndexRates();
+    setRates(data);
+    setIsLoading(false);
+  };
+
+  const handleSave = async () => {
+    const value = parseFloat(rate.replace(',', '.'));
+    if (!month || isNaN(value)) return;
+
+    const [year, monthNumber] = month.split('-').map(Number);
+    setIsSaving(true);
+    const success = await setIndexRate(indexName, new Date(year, monthNumber - 1, 1), value);
+    setIsSaving(false);
+
+    if (success) {
+      toast({
+        title: "Taxa salva",
+        description: `${INDEX_LABELS[indexName]} de ${month}: ${value}% no mês.`
+      });
+      setRate('');
+      loadRates();
+    } else {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a taxa.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (item: IndexRate) => {
+    if (await deleteIndexRate(item.indexName, item.referenceMonth)) {
+      setRates(prev => prev.filter(r => r !== item));
+    } else {
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir a taxa.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const filteredRates = rates.filter(r => r.indexName === indexName);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.4 }}
+    >
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg flex items-center gap-2 text-white">
+            <Percent className="w-5 h-5 text-violet-400" />
+            Índices de Rentabilidade
+          </CardTitle>
+          <p className="text-xs text-slate-400">
+            Taxas mensais usadas para calcular o rendimento dos investimentos de renda fixa. Meses sem taxa repetem a última informada.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Select value={indexName} onValueChange={(value) => setIndexName(value as IndexName)}>
+              <SelectTrigger className="w-28 bg-slate-700/50 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(INDEX_LABELS) as IndexName[]).map((name) => (
+                  <SelectItem key={name} value={name}>{INDEX_LABELS[name]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-40 bg-slate-700/50 border-slate-600 text-white"
+            />
+            <Input
+              type="number"
+              step="0.01"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="% no mês"
+              className="w-28 bg-slate-700/50 border-slate-600 text-white"
+            />
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !rate}
+              className="bg-violet-600 hover:bg-violet-700"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-violet-400" />
+            </div>
+          ) : filteredRates.length === 0 ? (
+            <p className="text-slate-400 text-sm">Nenhuma taxa de {INDEX_LABELS[indexName]} cadastrada.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {filteredRates.map((item) => (
+                <div
+                  key={item.referenceMonth.toISOString()}
+                  className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg"
+                >
+                  <span className="text-white text-sm capitalize">
+                    {format(item.referenceMonth, "MMMM 'de' yyyy", { locale: ptBR })}
+                  </span>
+                  <div className="flex items-center gap-3">
+                    <span className="text-violet-300 font-semibold">{item.monthlyRate}%</span>
+                    <button
+                      onClick={() => handleDelete(item)}
+                      className="p-1.5 rounded-lg hover:bg-slate-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4 text-slate-400" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -24,6 +24,7 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { getAdminLogs, AdminLog } from "@/lib/adminDb";
 import { ElevenLabsSettings } from "./ElevenLabsSettings";
+import { AdminIndexRates } from "./AdminIndexRates";
 import { 
   Shield, 
   ScrollText, 
@@ -102,7 +103,8 @@ export function AdminSettings() {
       'edit_payment': 'Editou pagamento',
       'delete_payment': 'Excluiu pagamento',
       'mark_payment_paid': 'Marcou pagamento como pago',
-      'skip_payment': 'Pulou pagamento'
+      'skip_payment': 'Pulou pagamento',
+      'reconcile_credit': 'Conciliou limite usado'
     };
     return labels[action] || action;
   };
@@ -170,6 +172,9 @@ export function AdminSettings() {
       {/* ElevenLabs Voice Settings */}
       <ElevenLabsSettings />
 
+      {/* Investment index rates */}
+      <AdminIndexRates />
+
       {/* Quick Stats */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
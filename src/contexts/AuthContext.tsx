@@ -79,7 +79,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           hasCreditCard: false,
           creditLimit: creditLimit || 0,
           creditAvailable: 0,
-          creditUsed: 0,
           creditDueDay: creditDueDay,
         });
         profile = await getProfile(matricula);
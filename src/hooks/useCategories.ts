@@ -0,0 +1,35 @@
+// User's categories for pickers and lists, reloaded when the user changes
+import { useState, useEffect, useCallback } from 'react';
+import { getCategories, type Category, type CategoryType } from '@/lib/categoryDb';
+
+export function useCategories(userId: number | undefined, options: { includeArchived?: boolean; withCounts?: boolean } = {}) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { includeArchived, withCounts } = options;
+
+  const reload = useCallback(async () => {
+    if (!userId) return;
+    setIsLoading(true);
+    const data = await getCategories(userId, { includeArchived, withCounts });
+    setCategories(data);
+    setIsLoading(false);
+  }, [userId, includeArchived, withCounts]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const byType = useCallback(
+    (type: CategoryType) => categories.filter((c) => c.type === type),
+    [categories]
+  );
+
+  // Lookup by name, used to show icon/color for a transaction's category
+  const findByName = useCallback(
+    (name: string, type?: CategoryType) =>
+      categories.find((c) => c.name === name && (!type || c.type === type)),
+    [categories]
+  );
+
+  return { categories, isLoading, reload, byType, findByName };
+}
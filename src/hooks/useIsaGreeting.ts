@@ -15,9 +15,11 @@ import {
   isVoiceEnabled
 } from '@/services/isaVoiceService';
 import { calculateBalance, getTransactions, getGoals } from '@/lib/db';
+import { getAutoSavedThisMonth } from '@/lib/goalFundingDb';
 import { 
   getScheduledPayments, 
   getUserSalaryInfo,
+  getPaymentDueDates,
   calculateMonthlySummary 
 } from '@/lib/plannerDb';
 
@@ -103,19 +105,19 @@ export function useIsaGreeting({
           const today = new Date().toDateString();
           const todayTransactions = transactions.filter(t => {
             const txDate = new Date(t.date).toDateString();
-            return txDate === today && t.type === 'expense';
+            return txDate === today && t.type === 'expense' && !t.isInvoicePayment;
           });
           const todaySpent = todayTransactions.reduce((sum, t) => sum + t.amount, 0);
           
           // Calculate payments due today
-          const todayDay = new Date().getDate();
+          const now = new Date();
           const paymentsDueToday = scheduledPayments
-            .filter(p => p.dueDay === todayDay && p.isActive)
+            .filter(p => p.isActive && getPaymentDueDates(p, now, now).length > 0)
             .reduce((sum, p) => sum + p.amount, 0);
           
           // Days until salary
           const daysUntilSalary = salaryInfo?.salaryDay 
-            ? calculateDaysUntilDay(salaryInfo.salaryDay)
+            ? calculateDaysUntilDay(salaryInfo.salaryDay, salaryInfo.salaryDayRule)
             : null;
           
           message = generateHomeGreeting(
@@ -129,10 +131,11 @@ export function useIsaGreeting({
         }
         
         case 'planner': {
-          const [goals, salaryInfo, scheduledPayments] = await Promise.all([
+          const [goals, salaryInfo, scheduledPayments, monthlySaved] = await Promise.all([
             getGoals(userId),
             getUserSalaryInfo(userId),
-            getScheduledPayments(userId)
+            getScheduledPayments(userId),
+            getAutoSavedThisMonth(userId)
           ]);
           
           const activeGoals = goals.length;
@@ -145,14 +148,15 @@ export function useIsaGreeting({
           const monthlyPayments = summary?.totalPayments || 0;
           
           const daysUntilSalary = salaryInfo?.salaryDay 
-            ? calculateDaysUntilDay(salaryInfo.salaryDay)
+            ? calculateDaysUntilDay(salaryInfo.salaryDay, salaryInfo.salaryDayRule)
             : null;
           
           message = generatePlannerGreeting(
             activeGoals,
             goalsWithoutProgress,
             monthlyPayments,
-            daysUntilSalary
+            daysUntilSalary,
+            monthlySaved
           );
           break;
         }
@@ -1,6 +1,8 @@
 import { useEffect, useRef } from 'react';
+import { addDays, differenceInCalendarDays } from 'date-fns';
 import { speakWithElevenLabs } from '@/services/elevenlabsTtsService';
-import { getUserSalaryInfo, calculateDaysUntil, getScheduledPayments, type ScheduledPayment } from '@/lib/plannerDb';
+import { getUserSalaryInfo, getScheduledPayments, getPaymentDueDates, type ScheduledPayment } from '@/lib/plannerDb';
+import { monthlyDueDates, type BusinessDayRule } from '@/lib/businessDays';
 import { calculateBalance, getTransactions } from '@/lib/db';
 import { 
   checkAndSendPaymentReminders, 
@@ -111,7 +113,7 @@ async function getTodayTransactions(userId: number): Promise<{ totalSpent: numbe
   
   const todayExpenses = transactions.filter(t => {
     const txDate = new Date(t.date).toDateString();
-    return txDate === today && t.type === 'expense';
+    return txDate === today && t.type === 'expense' && !t.isInvoicePayment;
   });
   
   const totalSpent = todayExpenses.reduce((sum, t) => sum + t.amount, 0);
@@ -128,30 +130,17 @@ async function getUpcomingPayments(userId: number): Promise<{
 }> {
   const payments = await getScheduledPayments(userId);
   const today = new Date();
-  const todayDay = today.getDate();
-  const currentMonth = today.toISOString().slice(0, 7);
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  const inThreeDays = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 3);
   
   const dueToday: ScheduledPayment[] = [];
   const dueSoon: ScheduledPayment[] = [];
   
+  // Occurrences from the payment's recurrence rule that are still unpaid
   payments.forEach(p => {
-    // Check if already paid this month
-    if (p.lastPaidAt) {
-      const lastPaidMonth = p.lastPaidAt.toISOString().slice(0, 7);
-      if (lastPaidMonth === currentMonth) return;
-    }
-    
-    // Check if it's a one-time payment for another month
-    if (!p.isRecurring && p.specificMonth) {
-      const paymentMonth = p.specificMonth.toISOString().slice(0, 7);
-      if (paymentMonth !== currentMonth) return;
-    }
-    
-    const daysUntil = calculateDaysUntil(p.dueDay);
-    
-    if (p.dueDay === todayDay) {
+    if (getPaymentDueDates(p, today, today).length > 0) {
       dueToday.push(p);
-    } else if (daysUntil <= 3 && daysUntil > 0) {
+    } else if (getPaymentDueDates(p, tomorrow, inThreeDays).length > 0) {
       dueSoon.push(p);
     }
   });
@@ -164,7 +153,14 @@ async function getUpcomingPayments(userId: number): Promise<{
  */
 function buildGreetingMessage(
   userName: string, 
-  salaryInfo: { salaryAmount: number; salaryDay: number; advanceAmount: number; advanceDay: number | null } | null,
+  salaryInfo: {
+    salaryAmount: number;
+    salaryDay: number;
+    salaryDayRule: BusinessDayRule;
+    advanceAmount: number;
+    advanceDay: number | null;
+    advanceDayRule: BusinessDayRule;
+  } | null,
   balanceData: { debitBalance: number; totalExpense: number },
   todayTransactions: { totalSpent: number; count: number },
   scheduledPayments: { dueToday: ScheduledPayment[]; dueSoon: ScheduledPayment[] }
@@ -212,13 +208,15 @@ function buildGreetingMessage(
   
   // Add salary/advance info if it's the day
   if (salaryInfo) {
-    const { salaryDay, salaryAmount, advanceDay, advanceAmount } = salaryInfo;
-    const today = new Date().getDate();
+    const { salaryDay, salaryDayRule, salaryAmount, advanceDay, advanceDayRule, advanceAmount } = salaryInfo;
+    const today = new Date();
+    const isDueToday = (day: number | null, rule: BusinessDayRule) =>
+      !!day && monthlyDueDates(day, rule, today, today).length > 0;
     
-    if (salaryDay === today && salaryAmount > 0) {
+    if (isDueToday(salaryDay, salaryDayRule) && salaryAmount > 0) {
       const formatted = formatCurrency(salaryAmount);
       message += `Seu salário de ${formatted} foi creditado hoje! `;
-    } else if (advanceDay === today && advanceAmount > 0) {
+    } else if (isDueToday(advanceDay, advanceDayRule) && advanceAmount > 0) {
       const formatted = formatCurrency(advanceAmount);
       message += `Seu adiantamento de ${formatted} foi creditado hoje! `;
     }
@@ -227,7 +225,8 @@ function buildGreetingMessage(
   // Add payments due soon (only if no payments today)
   if (scheduledPayments.dueSoon.length > 0 && scheduledPayments.dueToday.length === 0) {
     const nextPayment = scheduledPayments.dueSoon[0];
-    const daysUntil = calculateDaysUntil(nextPayment.dueDay);
+    const nextDue = getPaymentDueDates(nextPayment, new Date(), addDays(new Date(), 3))[0];
+    const daysUntil = differenceInCalendarDays(nextDue, new Date());
     const formattedAmount = formatCurrency(nextPayment.amount);
     
     if (daysUntil === 1) {
@@ -261,8 +260,10 @@ function formatCurrency(value: number): string {
 async function handleNotificationReminders(salaryInfo: {
   salaryAmount: number;
   salaryDay: number;
+  salaryDayRule: BusinessDayRule;
   advanceAmount: number;
   advanceDay: number | null;
+  advanceDayRule: BusinessDayRule;
 }): Promise<void> {
   // Request permission if not granted
   if (!hasNotificationPermission()) {
@@ -278,7 +279,9 @@ async function handleNotificationReminders(salaryInfo: {
     salaryInfo.salaryDay,
     salaryInfo.salaryAmount,
     salaryInfo.advanceDay,
-    salaryInfo.advanceAmount
+    salaryInfo.advanceAmount,
+    salaryInfo.salaryDayRule,
+    salaryInfo.advanceDayRule
   );
 
   // Mark as checked
@@ -0,0 +1,29 @@
+// Offline sync hook - runs the outbox in the background while a user is logged in
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { startBackgroundSync, onSyncComplete } from '@/lib/offlineDb';
+
+export function useOfflineSync(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const stopSync = startBackgroundSync();
+    const unsubscribe = onSyncComplete(({ conflicts, failed }) => {
+      if (conflicts > 0) {
+        toast.warning('Alterações descartadas', {
+          description: `${conflicts} ${conflicts === 1 ? 'registro foi alterado' : 'registros foram alterados'} em outro aparelho enquanto você estava offline`,
+        });
+      }
+      if (failed > 0) {
+        toast.error('Erro ao sincronizar', {
+          description: `${failed} ${failed === 1 ? 'registro não pôde ser enviado' : 'registros não puderam ser enviados'}`,
+        });
+      }
+    });
+
+    return () => {
+      stopSync();
+      unsubscribe();
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,96 @@
+// Paginated transactions hook - loads the next page when the sentinel scrolls into view
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  getTransactionsPage,
+  type Transaction,
+  type TransactionCursor,
+  type TransactionFilters,
+} from '@/lib/db';
+import { onSyncComplete } from '@/lib/offlineDb';
+
+const PAGE_SIZE = 30;
+
+export function usePaginatedTransactions(userId: number | undefined, filters: TransactionFilters) {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const cursorRef = useRef<TransactionCursor | null>(null);
+  const hasMoreRef = useRef(true);
+  const loadingRef = useRef(false);
+  const requestRef = useRef(0);
+  const [hasMore, setHasMore] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  // Filters are compared by value so callers can pass a new object on every render
+  const filtersKey = JSON.stringify(filters);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!userId) return;
+    if (!reset && (loadingRef.current || !hasMoreRef.current)) return;
+
+    const requestId = ++requestRef.current;
+    loadingRef.current = true;
+    setIsLoading(true);
+
+    const page = await getTransactionsPage(userId, {
+      // Revive the date range from the serialized filters
+      filters: JSON.parse(filtersKey, (key, value) =>
+        (key === 'from' || key === 'to') && value ? new Date(value) : value
+      ),
+      cursor: reset ? null : cursorRef.current,
+      limit: PAGE_SIZE,
+    });
+
+    // A newer reset started while this page was loading
+    if (requestId !== requestRef.current) return;
+
+    if (page.failed) {
+      // Keep the cursor so scrolling back to the sentinel (or retrying) asks for the same page
+      if (reset) {
+        cursorRef.current = null;
+        hasMoreRef.current = true;
+        setHasMore(true);
+        setTransactions([]);
+      }
+      setLoadFailed(true);
+    } else {
+      cursorRef.current = page.nextCursor;
+      hasMoreRef.current = page.nextCursor !== null;
+      setHasMore(hasMoreRef.current);
+      setTransactions((prev) => (reset ? page.transactions : [...prev, ...page.transactions]));
+      if (page.totalCount !== null) setTotalCount(page.totalCount);
+      setLoadFailed(false);
+    }
+
+    loadingRef.current = false;
+    setIsLoading(false);
+  }, [userId, filtersKey]);
+
+  const reload = useCallback(() => loadPage(true), [loadPage]);
+  const loadMore = useCallback(() => loadPage(false), [loadPage]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Pick up records synced in the background
+  useEffect(() => onSyncComplete(() => reload()), [reload]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, hasMore, transactions.length]);
+
+  return { transactions, totalCount, isLoading, hasMore, loadFailed, loadMore, reload, sentinelRef };
+}
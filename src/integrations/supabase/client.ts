@@ -5,6 +5,16 @@ import type { Database } from './types';
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
 
+// RLS policies read the logged-in matricula from this header (public.current_matricula()).
+// NOT a security boundary: login is matricula-only and the value comes from localStorage, so any
+// client can send any matricula. It scopes data per user; it does not authenticate them.
+const fetchWithMatricula: typeof fetch = (input, init) => {
+  const headers = new Headers(init?.headers);
+  const matricula = localStorage.getItem('inovabank_matricula');
+  if (matricula) headers.set('x-matricula', matricula);
+  return fetch(input, { ...init, headers });
+};
+
 // Import the supabase client like this:
 // import { supabase } from "@/integrations/supabase/client";
 
@@ -13,5 +23,8 @@ export const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_PUBLISHABL
     storage: localStorage,
     persistSession: true,
     autoRefreshToken: true,
-  }
+  },
+  global: {
+    fetch: fetchWithMatricula,
+  },
 });
\ No newline at end of file
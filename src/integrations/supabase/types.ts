@@ -41,12 +41,51 @@ export type Database = {
         }
         Relationships: []
       }
+      budgets: {
+        Row: {
+          category_id: string
+          created_at: string
+          id: string
+          limit_amount: number
+          month: string
+          updated_at: string
+          user_matricula: number
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          id?: string
+          limit_amount: number
+          month: string
+          updated_at?: string
+          user_matricula: number
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          id?: string
+          limit_amount?: number
+          month?: string
+          updated_at?: string
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           color: string | null
           created_at: string
           icon: string | null
           id: string
+          is_archived: boolean
           name: string
           type: string
           user_matricula: number
@@ -56,6 +95,7 @@ export type Database = {
           created_at?: string
           icon?: string | null
           id?: string
+          is_archived?: boolean
           name: string
           type: string
           user_matricula: number
@@ -65,12 +105,206 @@ export type Database = {
           created_at?: string
           icon?: string | null
           id?: string
+          is_archived?: boolean
           name?: string
           type?: string
           user_matricula?: number
         }
         Relationships: []
       }
+      categorization_rules: {
+        Row: {
+          amount: number | null
+          category_id: string
+          created_at: string
+          description_contains: string | null
+          id: string
+          is_active: boolean
+          priority: number
+          tags: string[]
+          updated_at: string
+          user_matricula: number
+        }
+        Insert: {
+          amount?: number | null
+          category_id: string
+          created_at?: string
+          description_contains?: string | null
+          id?: string
+          is_active?: boolean
+          priority?: number
+          tags?: string[]
+          updated_at?: string
+          user_matricula: number
+        }
+        Update: {
+          amount?: number | null
+          category_id?: string
+          created_at?: string
+          description_contains?: string | null
+          id?: string
+          is_active?: boolean
+          priority?: number
+          tags?: string[]
+          updated_at?: string
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_invoice_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          paid_at: string
+          reference_month: string
+          transaction_id: string | null
+          user_matricula: number
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          paid_at?: string
+          reference_month: string
+          transaction_id?: string | null
+          user_matricula: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          paid_at?: string
+          reference_month?: string
+          transaction_id?: string | null
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_invoice_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      debt_payments: {
+        Row: {
+          after_installment: number | null
+          amount: number
+          created_at: string
+          debt_id: string
+          id: string
+          installment_number: number | null
+          interest_amount: number
+          kind: string
+          paid_at: string
+          principal_amount: number
+          transaction_id: string | null
+          user_matricula: number
+        }
+        Insert: {
+          after_installment?: number | null
+          amount: number
+          created_at?: string
+          debt_id: string
+          id?: string
+          installment_number?: number | null
+          interest_amount?: number
+          kind: string
+          paid_at?: string
+          principal_amount: number
+          transaction_id?: string | null
+          user_matricula: number
+        }
+        Update: {
+          after_installment?: number | null
+          amount?: number
+          created_at?: string
+          debt_id?: string
+          id?: string
+          installment_number?: number | null
+          interest_amount?: number
+          kind?: string
+          paid_at?: string
+          principal_amount?: number
+          transaction_id?: string | null
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "debt_payments_debt_id_fkey"
+            columns: ["debt_id"]
+            isOneToOne: false
+            referencedRelation: "debts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "debt_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      debts: {
+        Row: {
+          created_at: string
+          first_due_date: string
+          id: string
+          is_active: boolean
+          kind: string
+          monthly_rate: number
+          name: string
+          paid_off_at: string | null
+          principal: number
+          system: string
+          term_months: number
+          updated_at: string
+          user_matricula: number
+        }
+        Insert: {
+          created_at?: string
+          first_due_date: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          monthly_rate?: number
+          name: string
+          paid_off_at?: string | null
+          principal: number
+          system?: string
+          term_months: number
+          updated_at?: string
+          user_matricula: number
+        }
+        Update: {
+          created_at?: string
+          first_due_date?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          monthly_rate?: number
+          name?: string
+          paid_off_at?: string | null
+          principal?: number
+          system?: string
+          term_months?: number
+          updated_at?: string
+          user_matricula?: number
+        }
+        Relationships: []
+      }
       elevenlabs_usage: {
         Row: {
           created_at: string
@@ -80,52 +314,484 @@ export type Database = {
           updated_at: string
         }
         Insert: {
-          created_at?: string
-          id?: string
-          month_year: string
-          tokens_used?: number
+          created_at?: string
+          id?: string
+          month_year: string
+          tokens_used?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          month_year?: string
+          tokens_used?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      goal_contributions: {
+        Row: {
+          amount: number
+          created_at: string
+          goal_id: string
+          id: string
+          kind: string
+          note: string | null
+          source: string
+          transaction_id: string | null
+          user_matricula: number
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          goal_id: string
+          id?: string
+          kind: string
+          note?: string | null
+          source?: string
+          transaction_id?: string | null
+          user_matricula: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          goal_id?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          source?: string
+          transaction_id?: string | null
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contributions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_funding_rules: {
+        Row: {
+          created_at: string
+          event: string
+          fixed_amount: number | null
+          goal_id: string
+          id: string
+          is_active: boolean
+          percent: number | null
+          updated_at: string
+          user_matricula: number
+        }
+        Insert: {
+          created_at?: string
+          event: string
+          fixed_amount?: number | null
+          goal_id: string
+          id?: string
+          is_active?: boolean
+          percent?: number | null
+          updated_at?: string
+          user_matricula: number
+        }
+        Update: {
+          created_at?: string
+          event?: string
+          fixed_amount?: number | null
+          goal_id?: string
+          id?: string
+          is_active?: boolean
+          percent?: number | null
+          updated_at?: string
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_funding_rules_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_members: {
+        Row: {
+          created_at: string
+          goal_id: string
+          id: string
+          share_percent: number
+          status: string
+          updated_at: string
+          user_matricula: number
+        }
+        Insert: {
+          created_at?: string
+          goal_id: string
+          id?: string
+          share_percent?: number
+          status?: string
+          updated_at?: string
+          user_matricula: number
+        }
+        Update: {
+          created_at?: string
+          goal_id?: string
+          id?: string
+          share_percent?: number
+          status?: string
+          updated_at?: string
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_members_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_round_ups: {
+        Row: {
+          amount: number
+          contribution_id: string
+          transaction_id: string
+        }
+        Insert: {
+          amount: number
+          contribution_id: string
+          transaction_id: string
+        }
+        Update: {
+          amount?: number
+          contribution_id?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_round_ups_contribution_id_fkey"
+            columns: ["contribution_id"]
+            isOneToOne: false
+            referencedRelation: "goal_contributions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_round_ups_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goals: {
+        Row: {
+          created_at: string
+          current_amount: number | null
+          deadline: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          target_amount: number
+          updated_at: string
+          user_matricula: number
+        }
+        Insert: {
+          created_at?: string
+          current_amount?: number | null
+          deadline?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          target_amount: number
+          updated_at?: string
+          user_matricula: number
+        }
+        Update: {
+          created_at?: string
+          current_amount?: number | null
+          deadline?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          target_amount?: number
+          updated_at?: string
+          user_matricula?: number
+        }
+        Relationships: []
+      }
+      installment_plans: {
+        Row: {
+          category: string
+          created_at: string
+          description: string
+          first_charge_date: string
+          id: string
+          installment_amount: number
+          installments_count: number
+          paid_off_at: string | null
+          status: string
+          total_amount: number
+          updated_at: string
+          user_matricula: number
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          description: string
+          first_charge_date?: string
+          id?: string
+          installment_amount: number
+          installments_count: number
+          paid_off_at?: string | null
+          status?: string
+          total_amount: number
+          updated_at?: string
+          user_matricula: number
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string
+          first_charge_date?: string
+          id?: string
+          installment_amount?: number
+          installments_count?: number
+          paid_off_at?: string | null
+          status?: string
+          total_amount?: number
+          updated_at?: string
+          user_matricula?: number
+        }
+        Relationships: []
+      }
+      investment_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          investment_id: string
+          kind: string
+          occurred_at: string
+          quantity: number | null
+          transaction_id: string | null
+          unit_price: number | null
+          user_matricula: number
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          investment_id: string
+          kind: string
+          occurred_at?: string
+          quantity?: number | null
+          transaction_id?: string | null
+          unit_price?: number | null
+          user_matricula: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          investment_id?: string
+          kind?: string
+          occurred_at?: string
+          quantity?: number | null
+          transaction_id?: string | null
+          unit_price?: number | null
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_movements_investment_id_fkey"
+            columns: ["investment_id"]
+            isOneToOne: false
+            referencedRelation: "investments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "investment_movements_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investment_prices: {
+        Row: {
+          created_at: string
+          investment_id: string
+          price_date: string
+          unit_price: number
+          user_matricula: number
+        }
+        Insert: {
+          created_at?: string
+          investment_id: string
+          price_date?: string
+          unit_price: number
+          user_matricula: number
+        }
+        Update: {
+          created_at?: string
+          investment_id?: string
+          price_date?: string
+          unit_price?: number
+          user_matricula?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_prices_investment_id_fkey"
+            columns: ["investment_id"]
+            isOneToOne: false
+            referencedRelation: "investments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investments: {
+        Row: {
+          asset_type: string
+          created_at: string
+          id: string
+          is_active: boolean
+          maturity_date: string | null
+          name: string
+          rate: number | null
+          ticker: string | null
+          updated_at: string
+          user_matricula: number
+        }
+        Insert: {
+          asset_type: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          maturity_date?: string | null
+          name: string
+          rate?: number | null
+          ticker?: string | null
+          updated_at?: string
+          user_matricula: number
+        }
+        Update: {
+          asset_type?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          maturity_date?: string | null
+          name?: string
+          rate?: number | null
+          ticker?: string | null
+          updated_at?: string
+          user_matricula?: number
+        }
+        Relationships: []
+      }
+      manual_assets: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          updated_at: string
+          user_matricula: number
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name: string
+          updated_at?: string
+          user_matricula: number
+          value: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          updated_at?: string
+          user_matricula?: number
+          value?: number
+        }
+        Relationships: []
+      }
+      market_index_rates: {
+        Row: {
+          index_name: string
+          monthly_rate: number
+          reference_month: string
+          updated_at: string
+        }
+        Insert: {
+          index_name: string
+          monthly_rate: number
+          reference_month: string
           updated_at?: string
         }
         Update: {
-          created_at?: string
-          id?: string
-          month_year?: string
-          tokens_used?: number
+          index_name?: string
+          monthly_rate?: number
+          reference_month?: string
           updated_at?: string
         }
         Relationships: []
       }
-      goals: {
+      net_worth_snapshots: {
         Row: {
-          created_at: string
-          current_amount: number | null
-          deadline: string | null
-          id: string
-          is_active: boolean | null
-          name: string
-          target_amount: number
+          card_invoice: number
+          cash: number
+          debts: number
+          goals: number
+          installments: number
+          investments: number
+          other_assets: number
+          reference_month: string
+          total: number
           updated_at: string
           user_matricula: number
         }
         Insert: {
-          created_at?: string
-          current_amount?: number | null
-          deadline?: string | null
-          id?: string
-          is_active?: boolean | null
-          name: string
-          target_amount: number
+          card_invoice?: number
+          cash?: number
+          debts?: number
+          goals?: number
+          installments?: number
+          investments?: number
+          other_assets?: number
+          reference_month: string
+          total: number
           updated_at?: string
           user_matricula: number
         }
         Update: {
-          created_at?: string
-          current_amount?: number | null
-          deadline?: string | null
-          id?: string
-          is_active?: boolean | null
-          name?: string
-          target_amount?: number
+          card_invoice?: number
+          cash?: number
+          debts?: number
+          goals?: number
+          installments?: number
+          investments?: number
+          other_assets?: number
+          reference_month?: string
+          total?: number
           updated_at?: string
           user_matricula?: number
         }
@@ -202,6 +868,7 @@ export type Database = {
       scheduled_payments: {
         Row: {
           amount: number
+          business_day_rule: string
           category: string | null
           created_at: string
           due_day: number
@@ -210,12 +877,20 @@ export type Database = {
           is_recurring: boolean
           last_paid_at: string | null
           name: string
+          recurrence_count: number | null
+          recurrence_frequency: string
+          recurrence_interval: number
+          recurrence_month: number | null
+          recurrence_start: string | null
+          recurrence_until: string | null
+          recurrence_weekday: number | null
           specific_month: string | null
           updated_at: string
           user_matricula: number
         }
         Insert: {
           amount: number
+          business_day_rule?: string
           category?: string | null
           created_at?: string
           due_day: number
@@ -224,12 +899,20 @@ export type Database = {
           is_recurring?: boolean
           last_paid_at?: string | null
           name: string
+          recurrence_count?: number | null
+          recurrence_frequency?: string
+          recurrence_interval?: number
+          recurrence_month?: number | null
+          recurrence_start?: string | null
+          recurrence_until?: string | null
+          recurrence_weekday?: number | null
           specific_month?: string | null
           updated_at?: string
           user_matricula: number
         }
         Update: {
           amount?: number
+          business_day_rule?: string
           category?: string | null
           created_at?: string
           due_day?: number
@@ -238,6 +921,13 @@ export type Database = {
           is_recurring?: boolean
           last_paid_at?: string | null
           name?: string
+          recurrence_count?: number | null
+          recurrence_frequency?: string
+          recurrence_interval?: number
+          recurrence_month?: number | null
+          recurrence_start?: string | null
+          recurrence_until?: string | null
+          recurrence_weekday?: number | null
           specific_month?: string | null
           updated_at?: string
           user_matricula?: number
@@ -268,6 +958,102 @@ export type Database = {
         }
         Relationships: []
       }
+      tags: {
+        Row: {
+          color: string | null
+          created_at: string
+          id: string
+          name: string
+          user_matricula: number
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          user_matricula: number
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          user_matricula?: number
+        }
+        Relationships: []
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          note: string | null
+          transaction_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          transaction_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_tags: {
+        Row: {
+          tag_id: string
+          transaction_id: string
+        }
+        Insert: {
+          tag_id: string
+          transaction_id: string
+        }
+        Update: {
+          tag_id?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           amount: number
@@ -275,7 +1061,11 @@ export type Database = {
           created_at: string
           date: string
           description: string | null
+          external_id: string | null
           id: string
+          installment_number: number | null
+          installment_plan_id: string | null
+          is_invoice_payment: boolean
           payment_method: string | null
           synced: boolean | null
           type: string
@@ -288,7 +1078,11 @@ export type Database = {
           created_at?: string
           date?: string
           description?: string | null
+          external_id?: string | null
           id?: string
+          installment_number?: number | null
+          installment_plan_id?: string | null
+          is_invoice_payment?: boolean
           payment_method?: string | null
           synced?: boolean | null
           type: string
@@ -301,7 +1095,11 @@ export type Database = {
           created_at?: string
           date?: string
           description?: string | null
+          external_id?: string | null
           id?: string
+          installment_number?: number | null
+          installment_plan_id?: string | null
+          is_invoice_payment?: boolean
           payment_method?: string | null
           synced?: boolean | null
           type?: string
@@ -316,6 +1114,13 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -343,12 +1148,15 @@ export type Database = {
         Row: {
           advance_amount: number | null
           advance_day: number | null
+          advance_day_rule: string
           birth_date: string | null
           blocked: boolean | null
           cpf: string | null
           created_at: string
           credit_available: number | null
+          credit_closing_day: number | null
           credit_due_day: number | null
+          credit_due_day_rule: string
           credit_limit: number | null
           credit_used: number | null
           email: string | null
@@ -360,16 +1168,20 @@ export type Database = {
           phone: string | null
           salary_amount: number | null
           salary_day: number | null
+          salary_day_rule: string
         }
         Insert: {
           advance_amount?: number | null
           advance_day?: number | null
+          advance_day_rule?: string
           birth_date?: string | null
           blocked?: boolean | null
           cpf?: string | null
           created_at?: string
           credit_available?: number | null
+          credit_closing_day?: number | null
           credit_due_day?: number | null
+          credit_due_day_rule?: string
           credit_limit?: number | null
           credit_used?: number | null
           email?: string | null
@@ -381,16 +1193,20 @@ export type Database = {
           phone?: string | null
           salary_amount?: number | null
           salary_day?: number | null
+          salary_day_rule?: string
         }
         Update: {
           advance_amount?: number | null
           advance_day?: number | null
+          advance_day_rule?: string
           birth_date?: string | null
           blocked?: boolean | null
           cpf?: string | null
           created_at?: string
           credit_available?: number | null
+          credit_closing_day?: number | null
           credit_due_day?: number | null
+          credit_due_day_rule?: string
           credit_limit?: number | null
           credit_used?: number | null
           email?: string | null
@@ -402,14 +1218,164 @@ export type Database = {
           phone?: string | null
           salary_amount?: number | null
           salary_day?: number | null
+          salary_day_rule?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      transaction_category_amounts: {
+        Row: {
+          amount: number | null
+          category_id: string | null
+          date: string | null
+          transaction_id: string | null
+          type: string | null
+          user_matricula: number | null
+        }
+        Relationships: []
+      }
+      user_credit_usage: {
+        Row: {
+          credit_charges: number | null
+          credit_used: number | null
+          invoice_payments: number | null
+          user_matricula: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_goal_invite: {
+        Args: {
+          _goal_id: string
+        }
+        Returns: boolean
+      }
+      add_goal_contribution: {
+        Args: {
+          _amount: number
+          _goal_id: string
+          _kind: string
+          _move_account?: boolean
+          _note?: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          goal_id: string
+          id: string
+          kind: string
+          note: string | null
+          source: string
+          transaction_id: string | null
+          user_matricula: number
+        }
+      }
+      add_installment_plan: {
+        Args: {
+          _category: string
+          _description: string
+          _first_charge_at?: string
+          _installments_count: number
+          _matricula: number
+          _total_amount: number
+        }
+        Returns: string
+      }
+      apply_categorization_rules: {
+        Args: {
+          _transaction_id: string
+        }
+        Returns: boolean
+      }
+      apply_goal_funding: {
+        Args: {
+          _credit_amount: number
+          _event: string
+          _matricula: number
+        }
+        Returns: number
+      }
+      apply_goal_round_ups: {
+        Args: {
+          _matricula: number
+        }
+        Returns: number
+      }
+      current_matricula: {
+        Args: never
+        Returns: number
+      }
+      get_balance_summary: {
+        Args: {
+          _from?: string
+          _initial_balance?: number
+          _matricula: number
+          _to?: string
+        }
+        Returns: {
+          balance: number
+          credit_used: number
+          debit_balance: number
+          total_expense: number
+          total_income: number
+        }[]
+      }
+      get_budget_progress: {
+        Args: {
+          _matricula: number
+          _month: string
+        }
+        Returns: {
+          budget_id: string
+          category_id: string
+          category_name: string
+          limit_amount: number
+          spent: number
+        }[]
+      }
+      get_credit_used: {
+        Args: {
+          _matricula: number
+        }
+        Returns: number
+      }
+      get_goal_balance: {
+        Args: {
+          _goal_id: string
+        }
+        Returns: number
+      }
+      get_goal_members: {
+        Args: {
+          _goal_id: string
+        }
+        Returns: {
+          contributed: number
+          full_name: string
+          is_owner: boolean
+          share_amount: number
+          share_percent: number
+          status: string
+          user_matricula: number
+        }[]
+      }
+      get_tag_report: {
+        Args: {
+          _from?: string
+          _matricula: number
+          _to?: string
+        }
+        Returns: {
+          color: string
+          tag_id: string
+          tag_name: string
+          total_expense: number
+          total_income: number
+          transaction_count: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -417,6 +1383,221 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_transactions: {
+        Args: {
+          _matricula: number
+          _rows: Json
+        }
+        Returns: number
+      }
+      insert_transaction: {
+        Args: {
+          _amount: number
+          _apply_rules?: boolean
+          _category: string
+          _created_at?: string
+          _date?: string
+          _description: string
+          _id?: string
+          _payment_method: string
+          _splits?: Json
+          _tags?: string[]
+          _type: string
+          _user_matricula: number
+        }
+        Returns: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          date: string
+          description: string | null
+          external_id: string | null
+          id: string
+          installment_number: number | null
+          installment_plan_id: string | null
+          is_invoice_payment: boolean
+          payment_method: string | null
+          synced: boolean | null
+          type: string
+          updated_at: string
+          user_matricula: number
+        }
+      }
+      is_goal_owner: {
+        Args: {
+          _goal_id: string
+          _matricula: number
+        }
+        Returns: boolean
+      }
+      is_goal_participant: {
+        Args: {
+          _accepted_only?: boolean
+          _goal_id: string
+          _matricula: number
+        }
+        Returns: boolean
+      }
+      match_categorization_rule: {
+        Args: {
+          _amount: number
+          _description: string
+          _matricula: number
+          _type: string
+        }
+        Returns: {
+          amount: number | null
+          category_id: string
+          created_at: string
+          description_contains: string | null
+          id: string
+          is_active: boolean
+          priority: number
+          tags: string[]
+          updated_at: string
+          user_matricula: number
+        }[]
+      }
+      merge_categories: {
+        Args: {
+          _source_id: string
+          _target_id: string
+        }
+        Returns: number
+      }
+      pay_credit_invoice: {
+        Args: {
+          _amount: number
+          _description: string
+          _matricula: number
+          _reference_month: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          id: string
+          paid_at: string
+          reference_month: string
+          transaction_id: string | null
+          user_matricula: number
+        }
+      }
+      pay_off_installment_plan: {
+        Args: {
+          _plan_id: string
+        }
+        Returns: boolean
+      }
+      record_debt_payment: {
+        Args: {
+          _amount: number
+          _debt_id: string
+          _installment_number?: number
+          _interest?: number
+          _paid_at?: string
+          _principal: number
+        }
+        Returns: {
+          after_installment: number | null
+          amount: number
+          created_at: string
+          debt_id: string
+          id: string
+          installment_number: number | null
+          interest_amount: number
+          kind: string
+          paid_at: string
+          principal_amount: number
+          transaction_id: string | null
+          user_matricula: number
+        }
+      }
+      record_investment_movement: {
+        Args: {
+          _amount: number
+          _investment_id: string
+          _kind: string
+          _occurred_at?: string
+          _quantity?: number
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          id: string
+          investment_id: string
+          kind: string
+          occurred_at: string
+          quantity: number | null
+          transaction_id: string | null
+          unit_price: number | null
+          user_matricula: number
+        }
+      }
+      rerun_categorization_rules: {
+        Args: {
+          _from?: string
+          _matricula: number
+        }
+        Returns: number
+      }
+      resolve_category_id: {
+        Args: {
+          _matricula: number
+          _name: string
+          _type: string
+        }
+        Returns: string
+      }
+      search_transactions: {
+        Args: {
+          _category?: string
+          _matricula: number
+          _tag?: string
+        }
+        Returns: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          date: string
+          description: string | null
+          external_id: string | null
+          id: string
+          installment_number: number | null
+          installment_plan_id: string | null
+          is_invoice_payment: boolean
+          payment_method: string | null
+          synced: boolean | null
+          type: string
+          updated_at: string
+          user_matricula: number
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "transactions"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      seed_default_categories: {
+        Args: {
+          _matricula: number
+        }
+        Returns: undefined
+      }
+      set_transaction_splits: {
+        Args: {
+          _splits: Json
+          _transaction_id: string
+        }
+        Returns: undefined
+      }
+      set_transaction_tags: {
+        Args: {
+          _tags: string[]
+          _transaction_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -14,11 +14,20 @@ export interface AdminUser {
   advance_amount: number | null;
   advance_day: number | null;
   credit_limit: number | null;
-  credit_used: number | null;
+  credit_used: number | null; // Derived from the credit ledger (user_credit_usage)
   blocked: boolean;
   created_at: string;
 }
 
+export interface CreditDrift {
+  user_id: string;
+  matricula: number;
+  full_name: string | null;
+  stored_credit_used: number;
+  ledger_credit_used: number;
+  difference: number;
+}
+
 export interface AdminLog {
   id: string;
   admin_id: string;
@@ -46,6 +55,20 @@ export async function checkIsAdmin(): Promise<boolean> {
   return data === true;
 }
 
+// Credit used per matricula, computed from transactions and invoice payments
+async function getLedgerCreditUsed(): Promise<Map<number, number>> {
+  const { data, error } = await supabase
+    .from('user_credit_usage')
+    .select('user_matricula, credit_used');
+
+  if (error) {
+    console.error('Error fetching credit usage:', error);
+    return new Map();
+  }
+
+  return new Map((data || []).map(row => [Number(row.user_matricula), Number(row.credit_used) || 0]));
+}
+
 // Get all users
 export async function getAllUsers(): Promise<AdminUser[]> {
   const { data, error } = await supabase
@@ -58,8 +81,11 @@ export async function getAllUsers(): Promise<AdminUser[]> {
     return [];
   }
 
+  const creditUsage = await getLedgerCreditUsed();
+
   return (data || []).map(user => ({
     ...user,
+    credit_used: creditUsage.get(user.matricula) ?? 0,
     blocked: user.blocked ?? false
   })) as AdminUser[];
 }
@@ -77,11 +103,15 @@ export async function getUserById(id: string): Promise<AdminUser | null> {
     return null;
   }
 
-  return data ? { ...data, blocked: data.blocked ?? false } as AdminUser : null;
+  if (!data) return null;
+
+  const { data: creditUsed } = await supabase.rpc('get_credit_used', { _matricula: data.matricula });
+
+  return { ...data, credit_used: Number(creditUsed) || 0, blocked: data.blocked ?? false } as AdminUser;
 }
 
-// Update user
-export async function updateUser(id: string, updates: Partial<AdminUser>): Promise<boolean> {
+// Update user (credit_used is derived from the ledger and can't be edited)
+export async function updateUser(id: string, updates: Partial<Omit<AdminUser, 'credit_used'>>): Promise<boolean> {
   const { error } = await supabase
     .from('users_matricula')
     .update(updates)
@@ -225,6 +255,7 @@ export async function getDashboardStats() {
     .from('transactions')
     .select('amount')
     .eq('type', 'expense')
+    .eq('is_invoice_payment', false)
     .eq('date', today);
 
   const totalTodayExpenses = (todayExpenses || []).reduce((acc, t) => acc + Number(t.amount), 0);
@@ -322,7 +353,7 @@ export async function getFinancialStats() {
     .lte('date', endOfMonth);
 
   const incomeTransactions = (monthTransactions || []).filter(t => t.type === 'income');
-  const expenseTransactions = (monthTransactions || []).filter(t => t.type === 'expense');
+  const expenseTransactions = (monthTransactions || []).filter(t => t.type === 'expense' && !t.is_invoice_payment);
 
   // Get payment logs this month
   const { data: paymentLogs } = await supabase
@@ -423,6 +454,57 @@ export async function markPaymentAsPaid(payment: { id: string; user_matricula: n
   return true;
 }
 
+// Users whose legacy credit_used column disagrees with the credit ledger
+export async function getCreditDrift(): Promise<CreditDrift[]> {
+  const { data, error } = await supabase
+    .from('users_matricula')
+    .select('id, matricula, full_name, credit_used')
+    .order('matricula', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching users for credit reconciliation:', error);
+    return [];
+  }
+
+  const creditUsage = await getLedgerCreditUsed();
+
+  return (data || [])
+    .map(user => {
+      const stored = Number(user.credit_used) || 0;
+      const ledger = creditUsage.get(user.matricula) ?? 0;
+      return {
+        user_id: user.id,
+        matricula: user.matricula,
+        full_name: user.full_name,
+        stored_credit_used: stored,
+        ledger_credit_used: ledger,
+        difference: Math.round((stored - ledger) * 100) / 100,
+      };
+    })
+    .filter(drift => drift.difference !== 0);
+}
+
+// Overwrite the legacy credit_used column with the ledger value
+export async function reconcileCreditUsed(drift: CreditDrift): Promise<boolean> {
+  const { error } = await supabase
+    .from('users_matricula')
+    .update({ credit_used: drift.ledger_credit_used })
+    .eq('id', drift.user_id);
+
+  if (error) {
+    console.error('Error reconciling credit used:', error);
+    return false;
+  }
+
+  await addAdminLog('reconcile_credit', drift.user_id, {
+    matricula: drift.matricula,
+    previous: drift.stored_credit_used,
+    ledger: drift.ledger_credit_used,
+  });
+
+  return true;
+}
+
 // Add admin log
 export async function addAdminLog(action: string, targetUserId?: string, details?: Record<string, unknown>): Promise<boolean> {
   const { data: { user } } = await supabase.auth.getUser();
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import {
+  buildSchedule,
+  priceInstallment,
+  remainingInterest,
+  simulateExtraPayment,
+  type DebtTerms,
+} from '@/lib/amortization';
+import { roundCurrency } from '@/lib/helpers';
+
+const terms = (changes: Partial<DebtTerms> = {}): DebtTerms => ({
+  principal: 10000,
+  monthlyRate: 1,
+  termMonths: 12,
+  system: 'price',
+  firstDueDate: new Date(2026, 0, 31),
+  ...changes,
+});
+
+const sum = (values: number[]) => roundCurrency(values.reduce((total, v) => total + v, 0));
+
+describe('priceInstallment', () => {
+  it('computes the fixed Price installment', () => {
+    expect(priceInstallment(10000, 1, 12)).toBe(888.49);
+  });
+
+  it('splits the principal evenly without interest', () => {
+    expect(priceInstallment(1200, 0, 12)).toBe(100);
+  });
+});
+
+describe('buildSchedule', () => {
+  it('keeps the Price installment fixed and pays off the principal', () => {
+    const schedule = buildSchedule(terms());
+
+    expect(schedule).toHaveLength(12);
+    expect(schedule[0]).toMatchObject({ payment: 888.49, interest: 100, principal: 788.49, balance: 9211.51 });
+    expect(schedule.slice(0, -1).every((r) => r.payment === 888.49)).toBe(true);
+    expect(Math.abs(schedule[11].payment - 888.49)).toBeLessThan(0.05);
+    expect(schedule[11].balance).toBe(0);
+    expect(sum(schedule.map((r) => r.principal))).toBe(10000);
+  });
+
+  it('keeps the SAC amortization fixed with shrinking installments', () => {
+    const schedule = buildSchedule(terms({ system: 'sac' }));
+
+    expect(schedule).toHaveLength(12);
+    expect(schedule[0]).toMatchObject({ principal: 833.33, interest: 100, payment: 933.33 });
+    expect(schedule.every((r, i) => i === 0 || r.payment < schedule[i - 1].payment)).toBe(true);
+    expect(schedule[11].balance).toBe(0);
+    expect(sum(schedule.map((r) => r.principal))).toBe(10000);
+  });
+
+  it('clamps monthly due dates to short months', () => {
+    const dueDates = buildSchedule(terms()).slice(0, 3).map((r) => format(r.dueDate, 'yyyy-MM-dd'));
+    expect(dueDates).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('shortens the term after an extra payment', () => {
+    const schedule = buildSchedule(terms(), [{ afterInstallment: 6, amount: 3000 }]);
+
+    expect(schedule.length).toBeLessThan(12);
+    expect(schedule[6].payment).toBe(888.49);
+    expect(schedule[schedule.length - 1].balance).toBe(0);
+  });
+
+  it('ends the schedule when an extra payment settles the balance', () => {
+    expect(buildSchedule(terms(), [{ afterInstallment: 0, amount: 10000 }])).toEqual([]);
+  });
+});
+
+describe('simulateExtraPayment', () => {
+  it('reports the interest and installments saved', () => {
+    const simulation = simulateExtraPayment(terms(), [], 3, 2000);
+    const current = buildSchedule(terms());
+
+    expect(simulation.installmentsSaved).toBe(current.length - simulation.newSchedule.length);
+    expect(simulation.installmentsSaved).toBeGreaterThan(0);
+    expect(simulation.interestSaved).toBe(
+      roundCurrency(remainingInterest(current, 3) - remainingInterest(simulation.newSchedule, 3))
+    );
+    expect(simulation.interestSaved).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { addMonths } from 'date-fns';
+import { roundCurrency } from '@/lib/helpers';
+
+// Price keeps the installment fixed; SAC keeps the amortization fixed and the installment shrinks.
+// Extra payments shorten the term and keep the installment (Price) or amortization (SAC).
+export type AmortizationSystem = 'price' | 'sac';
+
+export interface DebtTerms {
+  principal: number;
+  monthlyRate: number; // percent per month
+  termMonths: number;
+  system: AmortizationSystem;
+  firstDueDate: Date;
+}
+
+export interface ExtraPayment {
+  afterInstallment: number;
+  amount: number;
+}
+
+export interface ScheduleRow {
+  number: number;
+  dueDate: Date;
+  payment: number;
+  principal: number;
+  interest: number;
+  // Outstanding balance after this installment
+  balance: number;
+}
+
+export interface ExtraPaymentSimulation {
+  interestSaved: number;
+  installmentsSaved: number;
+  newSchedule: ScheduleRow[];
+}
+
+// PMT of the Price system; a zero rate splits the principal evenly
+export function priceInstallment(principal: number, monthlyRate: number, termMonths: number): number {
+  const i = monthlyRate / 100;
+  if (i === 0) return roundCurrency(principal / termMonths);
+  return roundCurrency((principal * i) / (1 - Math.pow(1 + i, -termMonths)));
+}
+
+export function buildSchedule(terms: DebtTerms, extras: ExtraPayment[] = []): ScheduleRow[] {
+  const i = terms.monthlyRate / 100;
+  const fixedPayment = priceInstallment(terms.principal, terms.monthlyRate, terms.termMonths);
+  const fixedAmortization = terms.principal / terms.termMonths;
+  const rows: ScheduleRow[] = [];
+  let balance = terms.principal;
+
+  for (let n = 1; n <= terms.termMonths; n++) {
+    balance = roundCurrency(balance - extras
+      .filter((e) => e.afterInstallment === n - 1)
+      .reduce((sum, e) => sum + e.amount, 0));
+    if (balance <= 0.005) break;
+
+    const interest = roundCurrency(balance * i);
+    let principal = terms.system === 'price' ? fixedPayment - interest : fixedAmortization;
+    // The last installment takes whatever rounding left behind
+    if (principal >= balance || n === terms.termMonths) principal = balance;
+    principal = roundCurrency(principal);
+    balance = roundCurrency(balance - principal);
+
+    rows.push({
+      number: n,
+      dueDate: addMonths(terms.firstDueDate, n - 1),
+      payment: roundCurrency(principal + interest),
+      principal,
+      interest,
+      balance,
+    });
+  }
+
+  return rows;
+}
+
+export function remainingInterest(schedule: ScheduleRow[], paidInstallments: number): number {
+  return roundCurrency(
+    schedule.filter((r) => r.number > paidInstallments).reduce((sum, r) => sum + r.interest, 0)
+  );
+}
+
+// Compares the rest of the schedule with and without paying `amount` extra right now
+export function simulateExtraPayment(
+  terms: DebtTerms,
+  extras: ExtraPayment[],
+  paidInstallments: number,
+  amount: number
+): ExtraPaymentSimulation {
+  const current = buildSchedule(terms, extras);
+  const newSchedule = buildSchedule(terms, [...extras, { afterInstallment: paidInstallments, amount }]);
+
+  return {
+    interestSaved: roundCurrency(
+      remainingInterest(current, paidInstallments) - remainingInterest(newSchedule, paidInstallments)
+    ),
+    installmentsSaved: current.length - newSchedule.length,
+    newSchedule,
+  };
+}
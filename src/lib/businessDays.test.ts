@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import {
+  applyBusinessDayRule,
+  dueDateInMonth,
+  getEasterSunday,
+  getHoliday,
+  getNationalHolidays,
+  isBusinessDay,
+  lastBusinessDayOfMonth,
+  monthlyDueDates,
+  nextMonthlyDueDate,
+} from '@/lib/businessDays';
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('getEasterSunday', () => {
+  it.each([
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+    [2027, '2027-03-28'],
+  ])('%i', (year, expected) => {
+    expect(day(getEasterSunday(year))).toBe(expected);
+  });
+});
+
+describe('national holidays', () => {
+  it('places the movable holidays around Easter', () => {
+    const holidays = getNationalHolidays(2026).map((h) => [day(h.date), h.name]);
+
+    expect(holidays).toContainEqual(['2026-02-16', 'Carnaval']);
+    expect(holidays).toContainEqual(['2026-02-17', 'Carnaval']);
+    expect(holidays).toContainEqual(['2026-04-03', 'Sexta-feira Santa']);
+    expect(holidays).toContainEqual(['2026-06-04', 'Corpus Christi']);
+  });
+
+  it('includes Consciência Negra only from 2024 on', () => {
+    expect(getHoliday(new Date(2023, 10, 20))).toBeNull();
+    expect(getHoliday(new Date(2024, 10, 20))?.name).toBe('Consciência Negra');
+  });
+
+  it('returns the holidays sorted by date', () => {
+    const dates = getNationalHolidays(2026).map((h) => h.date.getTime());
+    expect(dates).toEqual([...dates].sort((a, b) => a - b));
+  });
+});
+
+describe('isBusinessDay', () => {
+  it('skips weekends and holidays', () => {
+    expect(isBusinessDay(new Date(2026, 5, 3))).toBe(true); // Wednesday
+    expect(isBusinessDay(new Date(2026, 5, 4))).toBe(false); // Corpus Christi
+    expect(isBusinessDay(new Date(2026, 5, 6))).toBe(false); // Saturday
+  });
+});
+
+describe('applyBusinessDayRule', () => {
+  // Carnaval Monday and Tuesday follow the weekend
+  const carnaval = new Date(2026, 1, 16);
+
+  it('keeps the date with none', () => {
+    expect(day(applyBusinessDayRule(carnaval, 'none'))).toBe('2026-02-16');
+  });
+
+  it('moves back over the weekend with previous', () => {
+    expect(day(applyBusinessDayRule(carnaval, 'previous'))).toBe('2026-02-13');
+  });
+
+  it('moves forward over both Carnaval days with next', () => {
+    expect(day(applyBusinessDayRule(carnaval, 'next'))).toBe('2026-02-18');
+  });
+
+  it('uses the last business day of the month', () => {
+    expect(day(applyBusinessDayRule(new Date(2026, 1, 10), 'last_business_day'))).toBe('2026-02-27');
+    expect(day(lastBusinessDayOfMonth(2026, 4))).toBe('2026-05-29'); // May 31 is a Sunday
+  });
+});
+
+describe('dueDateInMonth', () => {
+  it('clamps the day to the month length', () => {
+    expect(day(dueDateInMonth(2026, 1, 31))).toBe('2026-02-28');
+    expect(day(dueDateInMonth(2024, 1, 31))).toBe('2024-02-29');
+  });
+
+  it('can move the due date into the next month', () => {
+    // October 31 2026 is a Saturday
+    expect(day(dueDateInMonth(2026, 9, 31, 'next'))).toBe('2026-11-03');
+  });
+});
+
+describe('monthlyDueDates', () => {
+  it('keeps the reference month when a date crosses into the range', () => {
+    const dates = monthlyDueDates(31, 'next', new Date(2026, 10, 1), new Date(2026, 10, 30));
+
+    expect(dates.map((d) => [day(d.date), day(d.referenceMonth)])).toEqual([
+      ['2026-11-03', '2026-10-01'],
+      ['2026-11-30', '2026-11-01'],
+    ]);
+  });
+
+  it('returns the next due date from a given day', () => {
+    expect(day(nextMonthlyDueDate(10, 'none', new Date(2026, 2, 11)))).toBe('2026-04-10');
+    expect(day(nextMonthlyDueDate(10, 'none', new Date(2026, 2, 10)))).toBe('2026-03-10');
+  });
+});
@@ -0,0 +1,148 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { clampedDate } from '@/lib/helpers';
+
+// Brazilian banking calendar: weekends and national holidays. Carnaval and Corpus Christi are
+// optional days off for most employers but banks don't open, so money doesn't move on them either.
+export type BusinessDayRule = 'none' | 'previous' | 'next' | 'last_business_day';
+
+export const BUSINESS_DAY_RULE_LABELS: Record<BusinessDayRule, string> = {
+  none: 'Manter a data',
+  previous: 'Dia útil anterior',
+  next: 'Próximo dia útil',
+  last_business_day: 'Último dia útil do mês',
+};
+
+export interface Holiday {
+  date: Date;
+  name: string;
+}
+
+// A due date and the month it belongs to, which differs when the date was moved across months
+export interface MonthlyDueDate {
+  date: Date;
+  referenceMonth: Date;
+}
+
+const FIXED_HOLIDAYS: [number, number, string][] = [
+  [1, 1, 'Confraternização Universal'],
+  [4, 21, 'Tiradentes'],
+  [5, 1, 'Dia do Trabalho'],
+  [9, 7, 'Independência do Brasil'],
+  [10, 12, 'Nossa Senhora Aparecida'],
+  [11, 2, 'Finados'],
+  [11, 15, 'Proclamação da República'],
+  [12, 25, 'Natal'],
+];
+
+const holidayCache = new Map<number, Map<string, Holiday>>();
+
+// Gregorian computus (Meeus/Jones/Butcher)
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(year, month - 1, day);
+}
+
+function getHolidayMap(year: number): Map<string, Holiday> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const easter = getEasterSunday(year);
+  const holidays: Holiday[] = [
+    ...FIXED_HOLIDAYS.map(([month, day, name]) => ({ date: new Date(year, month - 1, day), name })),
+    { date: addDays(easter, -48), name: 'Carnaval' },
+    { date: addDays(easter, -47), name: 'Carnaval' },
+    { date: addDays(easter, -2), name: 'Sexta-feira Santa' },
+    { date: addDays(easter, 60), name: 'Corpus Christi' },
+  ];
+  // National holiday since 2024 (Lei 14.759/2023)
+  if (year >= 2024) holidays.push({ date: new Date(year, 10, 20), name: 'Consciência Negra' });
+
+  const map = new Map(holidays.map((h) => [format(h.date, 'yyyy-MM-dd'), h]));
+  holidayCache.set(year, map);
+  return map;
+}
+
+export function getNationalHolidays(year: number): Holiday[] {
+  return Array.from(getHolidayMap(year).values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function getHoliday(date: Date): Holiday | null {
+  return getHolidayMap(date.getFullYear()).get(format(date, 'yyyy-MM-dd')) || null;
+}
+
+export function isBusinessDay(date: Date): boolean {
+  const weekday = date.getDay();
+  return weekday !== 0 && weekday !== 6 && !getHoliday(date);
+}
+
+// The date itself when it is a business day, otherwise the closest one before/after it
+export function previousBusinessDay(date: Date): Date {
+  let day = startOfDay(date);
+  while (!isBusinessDay(day)) day = addDays(day, -1);
+  return day;
+}
+
+export function nextBusinessDay(date: Date): Date {
+  let day = startOfDay(date);
+  while (!isBusinessDay(day)) day = addDays(day, 1);
+  return day;
+}
+
+export function lastBusinessDayOfMonth(year: number, month: number): Date {
+  return previousBusinessDay(new Date(year, month + 1, 0));
+}
+
+export function applyBusinessDayRule(date: Date, rule: BusinessDayRule): Date {
+  switch (rule) {
+    case 'none':
+      return startOfDay(date);
+    case 'previous':
+      return previousBusinessDay(date);
+    case 'next':
+      return nextBusinessDay(date);
+    case 'last_business_day':
+      return lastBusinessDayOfMonth(date.getFullYear(), date.getMonth());
+  }
+}
+
+// The given day of a month, clamped to its length (day 31 in April is the 30th), then moved by the rule
+export function dueDateInMonth(year: number, month: number, day: number, rule: BusinessDayRule = 'none'): Date {
+  return applyBusinessDayRule(clampedDate(year, month, day), rule);
+}
+
+// Monthly due dates between from and to (inclusive); a month before and after are checked
+// because a moved date can cross into the range
+export function monthlyDueDates(day: number, rule: BusinessDayRule, from: Date, to: Date): MonthlyDueDate[] {
+  const start = startOfDay(from);
+  const dates: MonthlyDueDate[] = [];
+
+  for (
+    let month = new Date(start.getFullYear(), start.getMonth() - 1, 1);
+    month <= addDays(to, 31);
+    month = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+  ) {
+    const date = dueDateInMonth(month.getFullYear(), month.getMonth(), day, rule);
+    if (date >= start && date <= to) dates.push({ date, referenceMonth: month });
+  }
+
+  return dates;
+}
+
+export function nextMonthlyDueDate(day: number, rule: BusinessDayRule = 'none', from: Date = new Date()): Date {
+  const to = new Date(from.getFullYear(), from.getMonth() + 3, 0);
+  return monthlyDueDates(day, rule, from, to)[0].date;
+}
@@ -0,0 +1,236 @@
+import { supabase } from '@/integrations/supabase/client';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { dueDateInMonth, type BusinessDayRule } from '@/lib/businessDays';
+import { clampedDate } from '@/lib/helpers';
+
+export type InvoiceStatus = 'open' | 'closed' | 'paid' | 'overdue';
+
+export interface InvoiceItem {
+  id: string;
+  amount: number;
+  description: string;
+  category: string;
+  date: Date;
+  installmentNumber?: number | null;
+}
+
+export interface CreditInvoice {
+  referenceMonth: string; // "2025-01" = invoice due in January
+  periodStart: Date;
+  closingDate: Date;
+  dueDate: Date;
+  items: InvoiceItem[];
+  total: number;
+  paidAmount: number;
+  remainingAmount: number;
+  status: InvoiceStatus;
+}
+
+// Most cards close about a week before the due date
+export function getDefaultClosingDay(dueDay: number): number {
+  return dueDay > 7 ? dueDay - 7 : dueDay + 23;
+}
+
+function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+// Closing, due date and first day of the billing cycle for the invoice due in referenceMonth.
+// dueDayRule moves a due date that falls on a weekend or holiday (Profile.creditDueDayRule)
+export function getInvoicePeriod(
+  referenceMonth: string,
+  closingDay: number,
+  dueDay: number,
+  dueDayRule: BusinessDayRule = 'none'
+): {
+  periodStart: Date;
+  closingDate: Date;
+  dueDate: Date;
+} {
+  const [year, month] = referenceMonth.split('-').map(Number);
+  const dueDate = dueDateInMonth(year, month - 1, dueDay, dueDayRule);
+  dueDate.setHours(23, 59, 59, 999);
+
+  // When the closing day comes after the due day, the invoice closes in the previous month
+  const closingMonth = closingDay < dueDay ? month - 1 : month - 2;
+  const closingDate = clampedDate(year, closingMonth, closingDay);
+  closingDate.setHours(23, 59, 59, 999);
+
+  const periodStart = clampedDate(year, closingMonth - 1, closingDay);
+  periodStart.setDate(periodStart.getDate() + 1);
+
+  return { periodStart, closingDate, dueDate };
+}
+
+// Reference month of the invoice that a purchase made on the given date falls into
+export function getReferenceMonthForDate(date: Date, closingDay: number, dueDay: number): string {
+  const closingDate = clampedDate(date.getFullYear(), date.getMonth(), closingDay);
+  closingDate.setHours(23, 59, 59, 999);
+
+  const closingMonth = date > closingDate
+    ? new Date(date.getFullYear(), date.getMonth() + 1, 1)
+    : new Date(date.getFullYear(), date.getMonth(), 1);
+  const dueMonth = closingDay < dueDay
+    ? closingMonth
+    : new Date(closingMonth.getFullYear(), closingMonth.getMonth() + 1, 1);
+
+  return toMonthKey(dueMonth);
+}
+
+export function formatReferenceMonth(referenceMonth: string): string {
+  const [year, month] = referenceMonth.split('-').map(Number);
+  return format(new Date(year, month - 1, 1), "MMMM 'de' yyyy", { locale: ptBR });
+}
+
+// Past and current invoices, most recent first
+export async function getInvoices(
+  userId: number,
+  closingDay: number,
+  dueDay: number,
+  dueDayRule: BusinessDayRule = 'none'
+): Promise<CreditInvoice[]> {
+  const { data: charges, error } = await supabase
+    .from('transactions')
+    .select('id, amount, description, created_at, installment_number, categories(name)')
+    .eq('user_matricula', userId)
+    .eq('type', 'expense')
+    .eq('payment_method', 'credit')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching invoice charges:', error);
+    return [];
+  }
+
+  const { data: payments, error: paymentsError } = await supabase
+    .from('credit_invoice_payments')
+    .select('reference_month, amount')
+    .eq('user_matricula', userId);
+
+  if (paymentsError) {
+    console.error('Error fetching invoice payments:', paymentsError);
+    return [];
+  }
+
+  const now = new Date();
+  const currentMonth = getReferenceMonthForDate(now, closingDay, dueDay);
+
+  const itemsByMonth = new Map<string, InvoiceItem[]>();
+  (charges || []).forEach((t) => {
+    const date = new Date(t.created_at);
+    const month = getReferenceMonthForDate(date, closingDay, dueDay);
+    if (month > currentMonth) return; // Future installment charges
+
+    const existing = itemsByMonth.get(month) || [];
+    itemsByMonth.set(month, [...existing, {
+      id: t.id,
+      amount: Number(t.amount),
+      description: t.description || '',
+      category: (t.categories as { name: string } | null)?.name || 'Outros',
+      date,
+      installmentNumber: t.installment_number,
+    }]);
+  });
+
+  const paidByMonth = new Map<string, number>();
+  (payments || []).forEach((p) => {
+    paidByMonth.set(p.reference_month, (paidByMonth.get(p.reference_month) || 0) + Number(p.amount));
+  });
+
+  // Always show the current invoice, even with no purchases yet
+  const months = new Set([...itemsByMonth.keys(), currentMonth]);
+
+  return Array.from(months)
+    .sort((a, b) => b.localeCompare(a))
+    .map((referenceMonth) => {
+      const { periodStart, closingDate, dueDate } = getInvoicePeriod(referenceMonth, closingDay, dueDay, dueDayRule);
+      const items = itemsByMonth.get(referenceMonth) || [];
+      const total = Math.round(items.reduce((sum, i) => sum + i.amount, 0) * 100) / 100;
+      const paidAmount = paidByMonth.get(referenceMonth) || 0;
+      const remainingAmount = Math.max(0, Math.round((total - paidAmount) * 100) / 100);
+
+      let status: InvoiceStatus;
+      if (total > 0 && remainingAmount === 0) {
+        status = 'paid';
+      } else if (now <= closingDate) {
+        status = 'open';
+      } else if (total === 0) {
+        status = 'paid';
+      } else if (now <= dueDate) {
+        status = 'closed';
+      } else {
+        status = 'overdue';
+      }
+
+      return {
+        referenceMonth,
+        periodStart,
+        closingDate,
+        dueDate,
+        items: items.sort((a, b) => b.date.getTime() - a.date.getTime()),
+        total,
+        paidAmount,
+        remainingAmount,
+        status,
+      };
+    });
+}
+
+// Invoices after the current one, made only of installment charges already scheduled
+export async function getUpcomingInvoiceTotals(
+  userId: number,
+  closingDay: number,
+  dueDay: number,
+  dueDayRule: BusinessDayRule = 'none'
+): Promise<{ referenceMonth: string; dueDate: Date; total: number }[]> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('amount, created_at')
+    .eq('user_matricula', userId)
+    .eq('type', 'expense')
+    .eq('payment_method', 'credit')
+    .gt('created_at', now.toISOString());
+
+  if (error) {
+    console.error('Error fetching upcoming invoice charges:', error);
+    return [];
+  }
+
+  const currentMonth = getReferenceMonthForDate(now, closingDay, dueDay);
+  const totals = new Map<string, number>();
+  (data || []).forEach((t) => {
+    const month = getReferenceMonthForDate(new Date(t.created_at), closingDay, dueDay);
+    if (month > currentMonth) totals.set(month, (totals.get(month) || 0) + Number(t.amount));
+  });
+
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([referenceMonth, total]) => ({
+      referenceMonth,
+      dueDate: getInvoicePeriod(referenceMonth, closingDay, dueDay, dueDayRule).dueDate,
+      total: Math.round(total * 100) / 100,
+    }));
+}
+
+// Pay what is left on an invoice from the checking account; the payment frees the credit limit.
+// The debit is flagged as an invoice payment so it isn't counted as spending a second time.
+export async function payInvoice(userId: number, invoice: CreditInvoice): Promise<boolean> {
+  const amount = invoice.remainingAmount;
+  if (amount <= 0) return false;
+
+  const { error } = await supabase.rpc('pay_credit_invoice', {
+    _matricula: userId,
+    _reference_month: invoice.referenceMonth,
+    _amount: amount,
+    _description: `Pagamento fatura ${formatReferenceMonth(invoice.referenceMonth)}`,
+  });
+
+  if (error) {
+    console.error('Error adding invoice payment:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { buildCashFlowForecast, FORECAST_DAYS, type CashFlowEvent } from '@/lib/cashFlowForecast';
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+const from = new Date(2026, 2, 10, 15, 30);
+
+const event = (date: Date, amount: number, kind: CashFlowEvent['kind'] = 'payment'): CashFlowEvent => ({
+  date,
+  label: kind,
+  amount,
+  kind,
+});
+
+describe('buildCashFlowForecast', () => {
+  it('covers the forecast window from the start of the day', () => {
+    const forecast = buildCashFlowForecast(100, [], from);
+
+    expect(forecast.days).toHaveLength(FORECAST_DAYS);
+    expect(day(forecast.days[0].date)).toBe('2026-03-10');
+    expect(forecast.days[0].date.getHours()).toBe(0);
+    expect(forecast.days.every((d) => d.balance === 100)).toBe(true);
+    expect(forecast.firstNegativeDay).toBeNull();
+  });
+
+  it('applies overdue events on the first day', () => {
+    const forecast = buildCashFlowForecast(500, [event(new Date(2026, 2, 1), -200, 'card')], from, 3);
+
+    expect(forecast.days[0].balance).toBe(300);
+    expect(forecast.days[0].events).toHaveLength(1);
+  });
+
+  it('flags the first negative day and the lowest day', () => {
+    const forecast = buildCashFlowForecast(
+      1000,
+      [
+        event(new Date(2026, 2, 12), -1200),
+        event(new Date(2026, 2, 14), -300, 'debt'),
+        event(new Date(2026, 2, 15), 2500, 'salary'),
+      ],
+      from,
+      10
+    );
+
+    expect(forecast.days.map((d) => d.balance).slice(0, 6)).toEqual([1000, 1000, -200, -200, -500, 2000]);
+    expect(day(forecast.firstNegativeDay!.date)).toBe('2026-03-12');
+    expect(day(forecast.lowestDay!.date)).toBe('2026-03-14');
+  });
+
+  it('lists money in first and rounds the balance', () => {
+    const forecast = buildCashFlowForecast(
+      0.1,
+      [event(new Date(2026, 2, 10), -50.2), event(new Date(2026, 2, 10, 9), 100.1, 'advance')],
+      from,
+      1
+    );
+
+    expect(forecast.days[0].events.map((e) => e.kind)).toEqual(['advance', 'payment']);
+    expect(forecast.days[0].balance).toBe(50);
+  });
+});
@@ -0,0 +1,57 @@
+import { addDays, isSameDay, startOfDay } from 'date-fns';
+import { roundCurrency } from '@/lib/helpers';
+
+// Plays the debit balance forward one day at a time, applying only what is already known:
+// salary and advance, scheduled payments, card bills and debt installments. Day-to-day
+// spending that hasn't happened yet is not guessed.
+export const FORECAST_DAYS = 90;
+
+export type CashFlowEventKind = 'salary' | 'advance' | 'payment' | 'card' | 'debt';
+
+export interface CashFlowEvent {
+  date: Date;
+  label: string;
+  amount: number; // Positive comes in, negative goes out
+  kind: CashFlowEventKind;
+}
+
+export interface ForecastDay {
+  date: Date;
+  balance: number; // At the end of the day
+  events: CashFlowEvent[];
+}
+
+export interface CashFlowForecast {
+  days: ForecastDay[];
+  firstNegativeDay: ForecastDay | null;
+  lowestDay: ForecastDay | null;
+}
+
+// Events before the start (overdue bills, for instance) are applied on the first day
+export function buildCashFlowForecast(
+  startBalance: number,
+  events: CashFlowEvent[],
+  from: Date = new Date(),
+  days: number = FORECAST_DAYS
+): CashFlowForecast {
+  const start = startOfDay(from);
+  const result: ForecastDay[] = [];
+  let balance = startBalance;
+
+  for (let i = 0; i < days; i++) {
+    const date = addDays(start, i);
+    const dayEvents = events
+      .filter((e) => (i === 0 ? startOfDay(e.date) <= date : isSameDay(e.date, date)))
+      // Money in listed first
+      .sort((a, b) => b.amount - a.amount);
+
+    balance = roundCurrency(dayEvents.reduce((sum, e) => sum + e.amount, balance));
+    result.push({ date, balance, events: dayEvents });
+  }
+
+  return {
+    days: result,
+    firstNegativeDay: result.find((d) => d.balance < 0) || null,
+    lowestDay: result.reduce<ForecastDay | null>((low, d) => (!low || d.balance < low.balance ? d : low), null),
+  };
+}
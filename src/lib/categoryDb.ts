@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import { EXPENSE_CATEGORIES, INCOME_CATEGORIES } from '@/lib/db';
+
+export type CategoryType = 'income' | 'expense';
+
+export interface Category {
+  id: string;
+  userId: number;
+  name: string;
+  type: CategoryType;
+  icon: string;
+  color: string;
+  isArchived: boolean;
+  transactionCount?: number;
+}
+
+export const DEFAULT_CATEGORY_COLOR = '#64748b';
+
+// Same palette the database seeds the default categories with
+export const CATEGORY_COLORS = [
+  '#f97316', '#3b82f6', '#a855f7', '#ec4899', '#ef4444', '#14b8a6',
+  '#eab308', '#10b981', '#06b6d4', '#8b5cf6', '#f43f5e', '#64748b',
+];
+
+type CategoryRow = {
+  id: string;
+  user_matricula: number;
+  name: string;
+  type: string;
+  icon: string | null;
+  color: string | null;
+  is_archived: boolean;
+  transactions?: { count: number }[];
+};
+
+function mapCategory(c: CategoryRow): Category {
+  return {
+    id: c.id,
+    userId: c.user_matricula,
+    name: c.name,
+    type: c.type === 'income' ? 'income' : 'expense',
+    icon: c.icon || 'MoreHorizontal',
+    color: c.color || DEFAULT_CATEGORY_COLOR,
+    isArchived: c.is_archived,
+    transactionCount: c.transactions?.[0]?.count,
+  };
+}
+
+// Built-in list used while the user's categories can't be loaded (offline)
+function getFallbackCategories(userId: number): Category[] {
+  const toCategory = (type: CategoryType) => (c: { id: string; label: string; icon: string }) => ({
+    id: `${type}:${c.id}`,
+    userId,
+    name: c.label,
+    type,
+    icon: c.icon,
+    color: DEFAULT_CATEGORY_COLOR,
+    isArchived: false,
+  });
+
+  return [
+    ...EXPENSE_CATEGORIES.map(toCategory('expense')),
+    ...INCOME_CATEGORIES.map(toCategory('income')),
+  ];
+}
+
+export async function getCategories(
+  userId: number,
+  options: { includeArchived?: boolean; withCounts?: boolean } = {}
+): Promise<Category[]> {
+  let query = supabase
+    .from('categories')
+    .select(options.withCounts ? '*, transactions(count)' : '*')
+    .eq('user_matricula', userId)
+    .order('name');
+
+  if (!options.includeArchived) query = query.eq('is_archived', false);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching categories:', error);
+    return getFallbackCategories(userId);
+  }
+
+  return ((data || []) as unknown as CategoryRow[]).map(mapCategory);
+}
+
+export async function addCategory(
+  category: Pick<Category, 'userId' | 'name' | 'type'> & Partial<Pick<Category, 'icon' | 'color'>>
+): Promise<Category | null> {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert({
+      user_matricula: category.userId,
+      name: category.name.trim(),
+      type: category.type,
+      icon: category.icon || 'MoreHorizontal',
+      color: category.color || DEFAULT_CATEGORY_COLOR,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding category:', error);
+    return null;
+  }
+
+  return mapCategory(data);
+}
+
+export async function updateCategory(
+  id: string,
+  updates: Partial<Pick<Category, 'name' | 'icon' | 'color'>>
+): Promise<boolean> {
+  const { data: current, error: fetchError } = await supabase
+    .from('categories')
+    .select('name, user_matricula')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (fetchError || !current) {
+    console.error('Error fetching category:', fetchError);
+    return false;
+  }
+
+  const updateData: Record<string, unknown> = {};
+  if (updates.name !== undefined) updateData.name = updates.name.trim();
+  if (updates.icon !== undefined) updateData.icon = updates.icon;
+  if (updates.color !== undefined) updateData.color = updates.color;
+
+  const { error } = await supabase
+    .from('categories')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating category:', error);
+    return false;
+  }
+
+  // Installment plans store the category by name
+  if (updates.name !== undefined && updates.name.trim() !== current.name) {
+    const { error: plansError } = await supabase
+      .from('installment_plans')
+      .update({ category: updates.name.trim() })
+      .eq('user_matricula', current.user_matricula)
+      .eq('category', current.name);
+
+    if (plansError) console.error('Error renaming installment plan category:', plansError);
+  }
+
+  return true;
+}
+
+// Archived categories keep their transactions but disappear from the pickers
+export async function archiveCategory(id: string, archived = true): Promise<boolean> {
+  const { error } = await supabase
+    .from('categories')
+    .update({ is_archived: archived })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error archiving category:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Move every transaction from source to target and delete source; returns how many moved
+export async function mergeCategories(sourceId: string, targetId: string): Promise<number | null> {
+  const { data, error } = await supabase.rpc('merge_categories', {
+    _source_id: sourceId,
+    _target_id: targetId,
+  });
+
+  if (error) {
+    console.error('Error merging categories:', error);
+    return null;
+  }
+
+  return data;
+}
@@ -0,0 +1,61 @@
+import {
+  Utensils,
+  Car,
+  Gamepad2,
+  ShoppingBag,
+  Heart,
+  GraduationCap,
+  Receipt,
+  MoreHorizontal,
+  Briefcase,
+  Laptop,
+  TrendingUp,
+  Gift,
+  Home,
+  Plane,
+  PawPrint,
+  Baby,
+  Dumbbell,
+  Smartphone,
+  Fuel,
+  Coffee,
+  Shirt,
+  Music,
+  Wrench,
+  PiggyBank,
+  type LucideIcon,
+} from 'lucide-react';
+
+// Icons a category can use, stored by name in categories.icon
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Utensils,
+  Car,
+  Gamepad2,
+  ShoppingBag,
+  Heart,
+  GraduationCap,
+  Receipt,
+  MoreHorizontal,
+  Briefcase,
+  Laptop,
+  TrendingUp,
+  Gift,
+  Home,
+  Plane,
+  PawPrint,
+  Baby,
+  Dumbbell,
+  Smartphone,
+  Fuel,
+  Coffee,
+  Shirt,
+  Music,
+  Wrench,
+  PiggyBank,
+};
+
+export const CATEGORY_ICON_NAMES = Object.keys(CATEGORY_ICONS);
+
+export function getCategoryIcon(name: string | null | undefined): LucideIcon {
+  return (name && CATEGORY_ICONS[name]) || MoreHorizontal;
+}
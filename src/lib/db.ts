@@ -1,4 +1,23 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import {
+  enqueue,
+  getLocal,
+  getLocalRecords,
+  getServerUpdatedAt,
+  isNetworkError,
+  localDb,
+  mergeWithLocal,
+  newLocalId,
+  registerSyncHandler,
+  removeLocal,
+  saveLocal,
+  syncRecord,
+  toSyncResult,
+  type SyncStatus,
+} from '@/lib/offlineDb';
+import { endOfDay, startOfDay } from 'date-fns';
+import type { BusinessDayRule } from '@/lib/businessDays';
 
 export interface Profile {
   id: string;
@@ -10,8 +29,10 @@ export interface Profile {
   hasCreditCard: boolean;
   creditLimit: number;
   creditAvailable: number;
-  creditUsed: number;
+  creditUsed: number; // Derived from the credit ledger, see getCreditUsed
   creditDueDay?: number;
+  creditDueDayRule?: BusinessDayRule; // When the due day falls on a weekend or holiday
+  creditClosingDay?: number;
   salaryAmount?: number;
   salaryDay?: number;
   createdAt: Date;
@@ -26,6 +47,60 @@ export interface Transaction {
   description: string;
   date: Date;
   userId: number; // user_matricula
+  installmentPlanId?: string | null;
+  installmentNumber?: number | null;
+  splits?: TransactionSplit[]; // When set, the parts sum to amount and replace category in reports
+  tags?: string[];
+  isInvoicePayment?: boolean; // Card invoice paid from the account: moves money, isn't spending
+  syncStatus?: SyncStatus;
+}
+
+export interface TransactionSplit {
+  id?: string;
+  category: string;
+  amount: number;
+  note?: string | null;
+}
+
+export interface TransactionFilters {
+  type?: 'income' | 'expense';
+  category?: string;
+  tag?: string;
+  paymentMethod?: 'debit' | 'credit';
+  from?: Date; // Local calendar days, compared against the transaction time (created_at)
+  to?: Date;
+}
+
+// Keyset cursor: position of the last row of a page in (created_at, id) order
+export interface TransactionCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: TransactionCursor | null;
+  totalCount: number | null; // Only returned for the first page
+  // The page could not be loaded; nextCursor is the one it was asked with, so it can be retried
+  failed?: boolean;
+}
+
+export interface InstallmentPlan {
+  id?: string;
+  userId: number; // user_matricula
+  description: string;
+  category: string;
+  totalAmount: number;
+  installmentsCount: number;
+  installmentAmount: number;
+  firstChargeDate: Date;
+  status: 'active' | 'paid_off' | 'completed';
+  paidOffAt?: Date | null;
+  createdAt?: Date;
+  // Derived from the plan's charges
+  chargedInstallments: number;
+  remainingAmount: number;
+  nextChargeDate: Date | null;
 }
 
 export interface Goal {
@@ -34,9 +109,37 @@ export interface Goal {
   targetAmount: number;
   currentAmount: number;
   deadline: Date;
-  userId: number; // user_matricula
+  userId: number; // user_matricula of the owner
   createdAt: Date;
   isActive: boolean;
+  // Sharing (see goalSharingDb): other participants, and the viewer's share of the target in percent
+  memberCount?: number;
+  myShare?: number;
+  syncStatus?: SyncStatus;
+}
+
+// Entry in a goal's ledger; the goal's currentAmount is the sum of these
+export interface GoalContribution {
+  id: string;
+  goalId: string;
+  userId: number; // who made the move; differs from the owner on shared goals
+  kind: 'deposit' | 'withdrawal';
+  amount: number;
+  // 'manual' or the funding rule event that moved it (see goalFundingDb)
+  source: 'manual' | 'salary' | 'advance' | 'round_up';
+  transactionId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface Budget {
+  id: string;
+  userId: number;
+  categoryId: string;
+  category: string;
+  month: string; // "2025-01" format
+  limitAmount: number;
+  spent: number;
 }
 
 // Profile functions - using Supabase
@@ -49,10 +152,13 @@ export async function getProfile(matricula: number): Promise<Profile | undefined
 
   if (error || !data) {
     console.error('Error fetching profile:', error);
-    return undefined;
+    // Offline: keep the user logged in with the last known profile
+    return isNetworkError(error) ? localDb.profiles.get(matricula) : undefined;
   }
 
-  return {
+  const creditUsed = await getCreditUsed(matricula);
+
+  const profile: Profile = {
     id: data.id,
     userId: data.matricula,
     fullName: data.full_name || '',
@@ -62,15 +168,21 @@ export async function getProfile(matricula: number): Promise<Profile | undefined
     hasCreditCard: data.has_credit_card || false,
     creditLimit: Number(data.credit_limit) || 0,
     creditAvailable: Number(data.credit_available) || 0,
-    creditUsed: Number(data.credit_used) || 0,
+    creditUsed,
     creditDueDay: data.credit_due_day || undefined,
+    creditDueDayRule: (data.credit_due_day_rule as BusinessDayRule) || 'none',
+    creditClosingDay: data.credit_closing_day || undefined,
     salaryAmount: Number(data.salary_amount) || 0,
     salaryDay: data.salary_day || 5,
     createdAt: new Date(data.created_at),
   };
+
+  await localDb.profiles.put(profile);
+
+  return profile;
 }
 
-export async function createProfile(profile: Omit<Profile, 'id' | 'createdAt'>): Promise<string | null> {
+export async function createProfile(profile: Omit<Profile, 'id' | 'createdAt' | 'creditUsed'>): Promise<string | null> {
   const { data, error } = await supabase
     .from('users_matricula')
     .insert({
@@ -82,8 +194,8 @@ export async function createProfile(profile: Omit<Profile, 'id' | 'createdAt'>):
       has_credit_card: profile.hasCreditCard,
       credit_limit: profile.creditLimit,
       credit_available: profile.creditAvailable,
-      credit_used: profile.creditUsed,
       credit_due_day: profile.creditDueDay || null,
+      credit_closing_day: profile.creditClosingDay || null,
     })
     .select('id')
     .single();
@@ -96,7 +208,7 @@ export async function createProfile(profile: Omit<Profile, 'id' | 'createdAt'>):
   return data?.id || null;
 }
 
-export async function updateProfile(matricula: number, updates: Partial<Profile>): Promise<boolean> {
+export async function updateProfile(matricula: number, updates: Partial<Omit<Profile, 'creditUsed'>>): Promise<boolean> {
   const updateData: Record<string, unknown> = {};
   
   if (updates.fullName !== undefined) updateData.full_name = updates.fullName;
@@ -106,8 +218,9 @@ export async function updateProfile(matricula: number, updates: Partial<Profile>
   if (updates.hasCreditCard !== undefined) updateData.has_credit_card = updates.hasCreditCard;
   if (updates.creditLimit !== undefined) updateData.credit_limit = updates.creditLimit;
   if (updates.creditAvailable !== undefined) updateData.credit_available = updates.creditAvailable;
-  if (updates.creditUsed !== undefined) updateData.credit_used = updates.creditUsed;
   if (updates.creditDueDay !== undefined) updateData.credit_due_day = updates.creditDueDay;
+  if (updates.creditDueDayRule !== undefined) updateData.credit_due_day_rule = updates.creditDueDayRule;
+  if (updates.creditClosingDay !== undefined) updateData.credit_closing_day = updates.creditClosingDay;
 
   const { error } = await supabase
     .from('users_matricula')
@@ -123,117 +236,501 @@ export async function updateProfile(matricula: number, updates: Partial<Profile>
 }
 
 // Transaction functions - using Supabase
+type TransactionRow = Tables<'transactions'> & {
+  categories: { name: string } | null;
+  transaction_splits?: {
+    id: string;
+    amount: number;
+    note: string | null;
+    categories: { name: string } | null;
+  }[];
+  transaction_tags?: { tags: { name: string } | null }[];
+};
+
+const TRANSACTION_SELECT = '*, categories(name), transaction_splits(id, amount, note, categories(name)), transaction_tags(tags(name))';
+
+function mapTransaction(t: TransactionRow): Transaction {
+  return {
+    id: t.id,
+    amount: Number(t.amount),
+    type: t.type as 'income' | 'expense',
+    paymentMethod: (t.payment_method as 'debit' | 'credit') || 'debit',
+    category: t.categories?.name || t.description || 'Outros',
+    description: t.description || '',
+    date: new Date(t.created_at), // Use created_at for full timestamp
+    userId: t.user_matricula,
+    installmentPlanId: t.installment_plan_id,
+    installmentNumber: t.installment_number,
+    splits: t.transaction_splits?.length
+      ? t.transaction_splits.map((s) => ({
+          id: s.id,
+          category: s.categories?.name || 'Outros',
+          amount: Number(s.amount),
+          note: s.note,
+        }))
+      : undefined,
+    tags: t.transaction_tags?.length
+      ? t.transaction_tags.map((tt) => tt.tags?.name).filter((name): name is string => !!name)
+      : undefined,
+    isInvoicePayment: t.is_invoice_payment,
+  };
+}
+
+// Amount per category: the splits of a split transaction, otherwise the whole amount
+export function getCategoryAmounts(t: Transaction): { category: string; amount: number }[] {
+  return t.splits?.length
+    ? t.splits.map((s) => ({ category: s.category, amount: s.amount }))
+    : [{ category: t.category, amount: t.amount }];
+}
+
+// Splits must have at least two parts that add up to the transaction amount (to the cent)
+export function validateSplits(amount: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) return 'Divida em pelo menos duas partes';
+  if (splits.some((s) => !s.category || !(s.amount > 0))) return 'Preencha categoria e valor de cada parte';
+  const total = splits.reduce((sum, s) => sum + s.amount, 0);
+  if (Math.round(total * 100) !== Math.round(amount * 100)) return 'As partes precisam somar o valor total';
+  return null;
+}
+
 export async function getTransactions(userId: number): Promise<Transaction[]> {
   const { data, error } = await supabase
     .from('transactions')
-    .select('*, categories(name)')
+    .select(TRANSACTION_SELECT)
     .eq('user_matricula', userId)
+    .lte('created_at', new Date().toISOString()) // Future installment charges are not posted yet
     .order('created_at', { ascending: false });
 
   if (error) {
     console.error('Error fetching transactions:', error);
-    return [];
+    return isNetworkError(error) ? getOfflineTransactions(userId) : [];
   }
 
-  return (data || []).map((t) => ({
-    id: t.id,
-    amount: Number(t.amount),
-    type: t.type as 'income' | 'expense',
-    paymentMethod: (t.payment_method as 'debit' | 'credit') || 'debit',
-    category: (t.categories as { name: string } | null)?.name || t.description || 'Outros',
-    description: t.description || '',
-    date: new Date(t.created_at), // Use created_at for full timestamp
-    userId: t.user_matricula,
-  }));
+  const merged = await mergeWithLocal<Transaction>(
+    'transactions',
+    userId,
+    (data || []).map((t) => ({ ...mapTransaction(t), serverUpdatedAt: t.updated_at })),
+    { replace: true }
+  );
+
+  return sortByDateDesc(merged);
 }
 
-export async function addTransaction(transaction: Omit<Transaction, 'id'>): Promise<string | null> {
-  // First, find or create the category
-  let categoryId: string | null = null;
-  
-  const { data: existingCategory } = await supabase
-    .from('categories')
-    .select('id')
-    .eq('user_matricula', transaction.userId)
-    .eq('name', transaction.category)
-    .maybeSingle();
+function sortByDateDesc<T extends { date: Date }>(transactions: T[]): T[] {
+  return [...transactions].sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+function matchesFilters(t: Transaction, filters: TransactionFilters): boolean {
+  return (!filters.type || t.type === filters.type)
+    && (!filters.paymentMethod || t.paymentMethod === filters.paymentMethod)
+    && (!filters.category || getCategoryAmounts(t).some((a) => a.category === filters.category))
+    && (!filters.tag || !!t.tags?.includes(filters.tag))
+    && (!filters.from || t.date >= startOfDay(filters.from))
+    && (!filters.to || t.date <= endOfDay(filters.to));
+}
+
+// Whether a transaction comes after the cursor in (created_at, id) descending order
+function isPastCursor(t: Transaction, cursor: TransactionCursor): boolean {
+  const time = t.date.getTime();
+  const cursorTime = new Date(cursor.createdAt).getTime();
+  return time < cursorTime || (time === cursorTime && (t.id || '') < cursor.id);
+}
+
+// Local mirror, used while the network is down
+async function getOfflineTransactions(userId: number, filters: TransactionFilters = {}): Promise<Transaction[]> {
+  const now = new Date();
+  const local = await getLocalRecords<Transaction>('transactions', userId);
+  return sortByDateDesc(local.filter((t) => t.date <= now && matchesFilters(t, filters)));
+}
+
+// Created offline and not on the server yet
+async function getPendingInserts(userId: number): Promise<Transaction[]> {
+  const local = await getLocalRecords<Transaction>('transactions', userId);
+  return local.filter((t) => t.syncStatus !== 'synced' && !t.serverUpdatedAt);
+}
+
+// Pending inserts that the transaction pages would list for these filters
+export async function getPendingTransactions(userId: number, filters: TransactionFilters = {}): Promise<Transaction[]> {
+  const now = new Date();
+  return (await getPendingInserts(userId)).filter((t) => t.date <= now && matchesFilters(t, filters));
+}
+
+// One page of transactions, newest first, ordered by (created_at, id) like the list shows them.
+// The cursor leaves out the date column: it only holds the UTC day of created_at, so it adds
+// nothing to the order. Pending offline inserts are merged into the page their time falls in.
+export async function getTransactionsPage(
+  userId: number,
+  options: { filters?: TransactionFilters; cursor?: TransactionCursor | null; limit?: number } = {}
+): Promise<TransactionPage> {
+  const { filters = {}, cursor = null, limit = 30 } = options;
+  const now = new Date();
+
+  // Category (including split parts) and tag are matched in the database
+  let query = supabase
+    .rpc('search_transactions', {
+      _matricula: userId,
+      _category: filters.category,
+      _tag: filters.tag,
+    }, { count: cursor ? undefined : 'exact' })
+    .select(TRANSACTION_SELECT)
+    .lte('created_at', now.toISOString()); // Future installment charges are not posted yet
+
+  if (filters.type) query = query.eq('type', filters.type);
+  if (filters.paymentMethod) query = query.eq('payment_method', filters.paymentMethod);
+  if (filters.from) query = query.gte('created_at', startOfDay(filters.from).toISOString());
+  if (filters.to) query = query.lte('created_at', endOfDay(filters.to).toISOString());
+
+  if (cursor) {
+    const createdAt = `"${cursor.createdAt}"`;
+    query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`);
+  }
+
+  // Fetch one extra row to know whether there is another page
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
 
-  if (existingCategory) {
-    categoryId = existingCategory.id;
-  } else {
-    // Create new category
-    const categoryType = transaction.type === 'income' ? 'income' : 'expense';
-    const { data: newCategory } = await supabase
-      .from('categories')
-      .insert({
-        name: transaction.category,
-        type: categoryType,
-        user_matricula: transaction.userId,
-      })
-      .select('id')
-      .single();
-    
-    if (newCategory) {
-      categoryId = newCategory.id;
+  if (error) {
+    console.error('Error fetching transactions page:', error);
+
+    // Offline: everything in the local mirror as a single page
+    if (isNetworkError(error) && !cursor) {
+      const offline = await getOfflineTransactions(userId, filters);
+      return { transactions: offline, nextCursor: null, totalCount: offline.length };
     }
+
+    return { transactions: [], nextCursor: cursor, totalCount: null, failed: true };
   }
 
-  // Insert the transaction
-  const { data, error } = await supabase
-    .from('transactions')
-    .insert({
-      amount: transaction.amount,
-      type: transaction.type,
-      payment_method: transaction.paymentMethod,
-      category_id: categoryId,
-      description: transaction.description,
-      date: transaction.date.toISOString().split('T')[0],
-      user_matricula: transaction.userId,
-    })
-    .select('id')
-    .single();
+  const rows = (data || []).slice(0, limit);
+  const last = rows[rows.length - 1];
+  const nextCursor: TransactionCursor | null = (data || []).length > limit && last
+    ? { createdAt: last.created_at, id: last.id }
+    : null;
+
+  const merged = await mergeWithLocal<Transaction>(
+    'transactions',
+    userId,
+    rows.map((t) => ({ ...mapTransaction(t), serverUpdatedAt: t.updated_at })),
+    { includePendingInserts: false }
+  );
+
+  // Each pending insert lands on exactly one page: after the previous cursor, up to this page's last row
+  const pendingInserts = await getPendingTransactions(userId, filters);
+  const pageIds = new Set(merged.map((t) => t.id));
+  const pagePending = pendingInserts.filter((t) =>
+    !pageIds.has(t.id)
+    && (!cursor || isPastCursor(t, cursor))
+    && (!nextCursor || !isPastCursor(t, nextCursor))
+  );
+
+  return {
+    transactions: sortByDateDesc([...pagePending, ...merged]),
+    nextCursor,
+    totalCount: cursor ? null : (count ?? rows.length) + pendingInserts.length,
+  };
+}
+
+// Resolve a category name to the user's active category; unknown names fall back to "Outros"
+async function resolveCategoryId(userId: number, name: string, type: 'income' | 'expense'): Promise<string | null> {
+  const { data, error } = await supabase.rpc('resolve_category_id', {
+    _matricula: userId,
+    _name: name,
+    _type: type,
+  });
 
   if (error) {
-    console.error('Error adding transaction:', error);
+    console.error('Error resolving category:', error);
     return null;
   }
 
-  // If expense on credit, update credit_used
-  if (transaction.type === 'expense' && transaction.paymentMethod === 'credit') {
-    const { data: profile } = await supabase
-      .from('users_matricula')
-      .select('credit_used')
-      .eq('matricula', transaction.userId)
-      .single();
-
-    if (profile) {
-      await supabase
-        .from('users_matricula')
-        .update({
-          credit_used: Number(profile.credit_used || 0) + transaction.amount,
-        })
-        .eq('matricula', transaction.userId);
-    }
+  return data;
+}
+
+// Credit used = credit purchases (including future installments) minus invoice payments
+export async function getCreditUsed(userId: number): Promise<number> {
+  const { data, error } = await supabase.rpc('get_credit_used', { _matricula: userId });
+
+  if (error) {
+    console.error('Error fetching credit used:', error);
+    return 0;
   }
 
-  return data?.id || null;
+  return Number(data) || 0;
 }
 
-// Goal functions - using Supabase
-export async function getGoals(userId: number): Promise<Goal[]> {
+// Category lookup, insert and credit bookkeeping happen atomically in insert_transaction.
+// Categorization rules only run for entries the user made (applyRules).
+async function insertTransactionRow(transaction: Omit<Transaction, 'id'>, id?: string, applyRules = false) {
+  return supabase.rpc('insert_transaction', {
+    _id: id,
+    _user_matricula: transaction.userId,
+    _amount: transaction.amount,
+    _type: transaction.type,
+    _payment_method: transaction.paymentMethod,
+    _category: transaction.category,
+    _description: transaction.description,
+    _date: transaction.date.toISOString().split('T')[0],
+    _created_at: transaction.date.toISOString(),
+    _splits: transaction.splits?.length ? toSplitsPayload(transaction.splits) : undefined,
+    _tags: transaction.tags?.length ? transaction.tags : undefined,
+    _apply_rules: applyRules,
+  });
+}
+
+function toSplitsPayload(splits: TransactionSplit[]): Json {
+  return splits.map((s) => ({ category: s.category, amount: s.amount, note: s.note || null }));
+}
+
+async function updateTransactionRow(id: string, updates: Partial<Omit<Transaction, 'id' | 'userId'>>) {
+  const { data: current, error: fetchError } = await supabase
+    .from('transactions')
+    .select('type, user_matricula')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (fetchError || !current) {
+    return { error: fetchError || { message: 'Transaction not found' } };
+  }
+
+  const updateData: Record<string, unknown> = {};
+
+  if (updates.amount !== undefined) updateData.amount = updates.amount;
+  if (updates.type !== undefined) updateData.type = updates.type;
+  if (updates.paymentMethod !== undefined) updateData.payment_method = updates.paymentMethod;
+  if (updates.description !== undefined) updateData.description = updates.description;
+  if (updates.date !== undefined) updateData.date = updates.date.toISOString().split('T')[0];
+  if (updates.category !== undefined) {
+    updateData.category_id = await resolveCategoryId(current.user_matricula, updates.category, updates.type ?? (current.type as 'income' | 'expense'));
+  }
+
+  const result = Object.keys(updateData).length > 0
+    ? await supabase.from('transactions').update(updateData).eq('id', id)
+    : { error: null };
+
+  if (result.error) return result;
+
+  if (updates.tags !== undefined) {
+    const tagsResult = await supabase.rpc('set_transaction_tags', {
+      _transaction_id: id,
+      _tags: updates.tags,
+    });
+    if (tagsResult.error) return tagsResult;
+  }
+
+  // Callers changing the amount of a split transaction send the rebalanced splits along
+  if (updates.splits === undefined) return result;
+
+  return supabase.rpc('set_transaction_splits', {
+    _transaction_id: id,
+    _splits: toSplitsPayload(updates.splits),
+  });
+}
+
+registerSyncHandler('transactions', {
+  insert: async (id, payload) => {
+    const { applyRules, ...transaction } = payload as Omit<Transaction, 'id'> & { applyRules?: boolean };
+    const { error } = await insertTransactionRow(transaction, id, applyRules);
+    if (error) console.error('Error syncing transaction:', error);
+    return toSyncResult(error);
+  },
+  update: async (id, payload) => {
+    const { error } = await updateTransactionRow(id, payload as Partial<Transaction>);
+    if (error) console.error('Error syncing transaction update:', error);
+    return toSyncResult(error);
+  },
+  delete: async (id) => {
+    const { error } = await supabase.from('transactions').delete().eq('id', id);
+    if (error) console.error('Error syncing transaction delete:', error);
+    return toSyncResult(error);
+  },
+  getUpdatedAt: (id) => getServerUpdatedAt('transactions', id),
+});
+
+// Saved locally first and synced in the background when offline. Entries the app books on its
+// own (salary, scheduled payments) pass applyRules: false to keep their category.
+export async function addTransaction(
+  transaction: Omit<Transaction, 'id'>,
+  options: { applyRules?: boolean } = {}
+): Promise<string | null> {
+  const id = newLocalId();
+  const { applyRules = true } = options;
+
+  await saveLocal<Transaction>('transactions', { ...transaction, id, syncStatus: 'pending' });
+  await enqueue('transactions', 'insert', id, transaction.userId, { ...transaction, applyRules });
+
+  if (!(await syncRecord('transactions', id))) {
+    // Rejected by the server (not a connectivity problem): drop it like before
+    await enqueue('transactions', 'delete', id, transaction.userId);
+    await removeLocal('transactions', id);
+    return null;
+  }
+
+  return id;
+}
+
+export async function updateTransaction(id: string, updates: Partial<Omit<Transaction, 'id' | 'userId'>>): Promise<boolean> {
+  const current = await getLocal<Transaction>('transactions', id);
+
+  if (!current) {
+    console.error('Error updating transaction: not found locally', id);
+    return false;
+  }
+
+  await saveLocal<Transaction>('transactions', { ...current, ...updates });
+  await enqueue('transactions', 'update', id, current.userId, { ...updates });
+
+  return syncRecord('transactions', id);
+}
+
+export async function deleteTransaction(id: string): Promise<boolean> {
+  const current = await getLocal<Transaction>('transactions', id);
+
+  if (!current) {
+    console.error('Error deleting transaction: not found locally', id);
+    return false;
+  }
+
+  await enqueue('transactions', 'delete', id, current.userId);
+  await removeLocal('transactions', id);
+
+  return syncRecord('transactions', id);
+}
+
+// Installment plan functions - using Supabase
+export async function getInstallmentPlans(userId: number): Promise<InstallmentPlan[]> {
   const { data, error } = await supabase
-    .from('goals')
-    .select('*')
+    .from('installment_plans')
+    .select('*, transactions(amount, created_at)')
     .eq('user_matricula', userId)
-    .eq('is_active', true)
     .order('created_at', { ascending: false });
 
   if (error) {
-    console.error('Error fetching goals:', error);
+    console.error('Error fetching installment plans:', error);
     return [];
   }
 
-  return (data || []).map((g) => ({
+  const now = new Date();
+
+  return (data || []).map((p) => {
+    const charges = (p.transactions as { amount: number; created_at: string }[] | null) || [];
+    const pending = charges
+      .filter((c) => new Date(c.created_at) > now)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    const remainingAmount = pending.reduce((sum, c) => sum + Number(c.amount), 0);
+    const status = p.status === 'active' && pending.length === 0 ? 'completed' : p.status;
+
+    return {
+      id: p.id,
+      userId: p.user_matricula,
+      description: p.description,
+      category: p.category,
+      totalAmount: Number(p.total_amount),
+      installmentsCount: p.installments_count,
+      installmentAmount: Number(p.installment_amount),
+      firstChargeDate: new Date(p.first_charge_date),
+      status: status as InstallmentPlan['status'],
+      paidOffAt: p.paid_off_at ? new Date(p.paid_off_at) : null,
+      createdAt: new Date(p.created_at),
+      chargedInstallments: p.installments_count - pending.length,
+      remainingAmount,
+      nextChargeDate: pending.length > 0 ? new Date(pending[0].created_at) : null,
+    };
+  });
+}
+
+// Create a credit installment purchase: one charge per month. Future charges already count
+// towards credit used, so the full amount is reserved on the limit up front
+export async function addInstallmentPlan(plan: {
+  userId: number;
+  description: string;
+  category: string;
+  totalAmount: number;
+  installmentsCount: number;
+  firstChargeDate?: Date;
+}): Promise<string | null> {
+  // The plan and its monthly charges are created together by add_installment_plan
+  const { data, error } = await supabase.rpc('add_installment_plan', {
+    _matricula: plan.userId,
+    _description: plan.description,
+    _category: plan.category,
+    _total_amount: plan.totalAmount,
+    _installments_count: plan.installmentsCount,
+    _first_charge_at: (plan.firstChargeDate || new Date()).toISOString(),
+  });
+
+  if (error || !data) {
+    console.error('Error adding installment plan:', error);
+    return null;
+  }
+
+  return data;
+}
+
+// Pay the remaining installments at once from the checking account
+export async function payOffInstallmentPlan(id: string): Promise<boolean> {
+  const { error } = await supabase.rpc('pay_off_installment_plan', { _plan_id: id });
+
+  if (error) {
+    console.error('Error paying off installment plan:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Goal functions - local first, synced to Supabase through the outbox
+function goalToRow(goal: Partial<Goal>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  if (goal.title !== undefined) row.name = goal.title;
+  if (goal.targetAmount !== undefined) row.target_amount = goal.targetAmount;
+  if (goal.deadline !== undefined) row.deadline = goal.deadline.toISOString().split('T')[0];
+  if (goal.isActive !== undefined) row.is_active = goal.isActive;
+
+  return row;
+}
+
+registerSyncHandler('goals', {
+  insert: async (id, payload) => {
+    const goal = payload as Omit<Goal, 'id' | 'createdAt'>;
+    const { error } = await supabase
+      .from('goals')
+      .upsert(
+        // The initial amount becomes the first deposit in goal_contributions
+        {
+          ...goalToRow(goal),
+          id,
+          name: goal.title,
+          target_amount: goal.targetAmount,
+          current_amount: goal.currentAmount,
+          user_matricula: goal.userId,
+        },
+        { onConflict: 'id', ignoreDuplicates: true }
+      );
+    if (error) console.error('Error syncing goal:', error);
+    return toSyncResult(error);
+  },
+  update: async (id, payload) => {
+    const { error } = await supabase
+      .from('goals')
+      .update(goalToRow(payload as Partial<Goal>))
+      .eq('id', id);
+    if (error) console.error('Error syncing goal update:', error);
+    return toSyncResult(error);
+  },
+  delete: async (id) => {
+    const { error } = await supabase.from('goals').update({ is_active: false }).eq('id', id);
+    if (error) console.error('Error syncing goal delete:', error);
+    return toSyncResult(error);
+  },
+  getUpdatedAt: (id) => getServerUpdatedAt('goals', id),
+});
+
+type GoalRow = Tables<'goals'>;
+
+function mapGoal(g: GoalRow) {
+  return {
     id: g.id,
     title: g.name,
     targetAmount: Number(g.target_amount),
@@ -242,108 +739,360 @@ export async function getGoals(userId: number): Promise<Goal[]> {
     userId: g.user_matricula,
     createdAt: new Date(g.created_at),
     isActive: g.is_active ?? true,
-  }));
+    serverUpdatedAt: g.updated_at,
+  };
 }
 
-export async function addGoal(goal: Omit<Goal, 'id' | 'createdAt' | 'isActive'>): Promise<string | null> {
-  const { data, error } = await supabase
+// Own goals plus the shared goals the user accepted. Shared goals owned by someone else
+// are online only: they aren't cached, so they can't be edited offline.
+export async function getGoals(userId: number): Promise<Goal[]> {
+  // RLS returns the user's own invites plus every member of the goals they take part in
+  const { data: memberRows, error: membersError } = await supabase
+    .from('goal_members')
+    .select('goal_id, user_matricula, share_percent, status');
+
+  if (membersError) console.error('Error fetching goal members:', membersError);
+
+  const joinedIds = (memberRows || [])
+    .filter((m) => m.user_matricula === userId && m.status === 'accepted')
+    .map((m) => m.goal_id);
+
+  let query = supabase
     .from('goals')
-    .insert({
-      name: goal.title,
-      target_amount: goal.targetAmount,
-      current_amount: goal.currentAmount,
-      deadline: goal.deadline.toISOString().split('T')[0],
-      user_matricula: goal.userId,
-      is_active: true,
-    })
-    .select('id')
-    .single();
+    .select('*')
+    .eq('is_active', true);
+
+  query = joinedIds.length > 0
+    ? query.or(`user_matricula.eq.${userId},id.in.(${joinedIds.join(',')})`)
+    : query.eq('user_matricula', userId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
 
   if (error) {
-    console.error('Error adding goal:', error);
-    return null;
+    console.error('Error fetching goals:', error);
+    if (!isNetworkError(error)) return [];
+
+    const local = await getLocalRecords<Goal>('goals', userId);
+    return local
+      .filter((g) => g.isActive)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  return data?.id || null;
+  const withSharing = (data || []).map((g) => {
+    const members = (memberRows || []).filter((m) => m.goal_id === g.id);
+    const othersShare = members
+      .filter((m) => m.user_matricula !== userId)
+      .reduce((sum, m) => sum + Number(m.share_percent), 0);
+    const mine = members.find((m) => m.user_matricula === userId);
+
+    return {
+      ...mapGoal(g),
+      memberCount: members.filter((m) => m.status === 'accepted' && m.user_matricula !== g.user_matricula).length,
+      myShare: g.user_matricula === userId ? 100 - othersShare : Number(mine?.share_percent ?? 0),
+    };
+  });
+
+  const own = await mergeWithLocal<Goal>(
+    'goals',
+    userId,
+    withSharing.filter((g) => g.userId === userId),
+    { replace: true }
+  );
+  const shared = withSharing
+    .filter((g) => g.userId !== userId)
+    .map((g) => ({ ...g, syncStatus: 'synced' as SyncStatus }));
+
+  return [...own, ...shared]
+    .filter((g) => g.isActive)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 }
 
-export async function updateGoal(id: string, updates: Partial<Goal>): Promise<boolean> {
-  const updateData: Record<string, unknown> = {};
-  
-  if (updates.title !== undefined) updateData.name = updates.title;
-  if (updates.targetAmount !== undefined) updateData.target_amount = updates.targetAmount;
-  if (updates.currentAmount !== undefined) updateData.current_amount = updates.currentAmount;
-  if (updates.deadline !== undefined) updateData.deadline = updates.deadline.toISOString().split('T')[0];
-  if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
+export async function addGoal(goal: Omit<Goal, 'id' | 'createdAt' | 'isActive'>): Promise<string | null> {
+  const id = newLocalId();
+  const newGoal = { ...goal, isActive: true };
 
-  const { error } = await supabase
-    .from('goals')
-    .update(updateData)
-    .eq('id', id);
+  await saveLocal<Goal>('goals', { ...newGoal, id, createdAt: new Date(), syncStatus: 'pending' });
+  await enqueue('goals', 'insert', id, goal.userId, newGoal);
 
-  if (error) {
-    console.error('Error updating goal:', error);
+  if (!(await syncRecord('goals', id))) {
+    await enqueue('goals', 'delete', id, goal.userId);
+    await removeLocal('goals', id);
+    return null;
+  }
+
+  return id;
+}
+
+// currentAmount only changes through addGoalContribution
+export async function updateGoal(id: string, updates: Partial<Omit<Goal, 'currentAmount'>>): Promise<boolean> {
+  const current = await getLocal<Goal>('goals', id);
+
+  if (!current) {
+    console.error('Error updating goal: not found locally', id);
     return false;
   }
 
-  return true;
+  await saveLocal<Goal>('goals', { ...current, ...updates });
+  await enqueue('goals', 'update', id, current.userId, { ...updates });
+
+  return syncRecord('goals', id);
 }
 
+// Goals are soft-deleted, so this is an update of is_active
 export async function deleteGoal(id: string): Promise<boolean> {
-  const { error } = await supabase
-    .from('goals')
-    .update({ is_active: false })
-    .eq('id', id);
+  return updateGoal(id, { isActive: false });
+}
+
+type GoalContributionRow = Tables<'goal_contributions'>;
+
+function mapGoalContribution(c: GoalContributionRow): GoalContribution {
+  return {
+    id: c.id,
+    goalId: c.goal_id,
+    userId: c.user_matricula,
+    kind: c.kind === 'withdrawal' ? 'withdrawal' : 'deposit',
+    amount: Number(c.amount),
+    source: c.source as GoalContribution['source'],
+    transactionId: c.transaction_id,
+    note: c.note,
+    createdAt: new Date(c.created_at),
+  };
+}
+
+export async function getGoalContributions(goalId: string): Promise<GoalContribution[]> {
+  const { data, error } = await supabase
+    .from('goal_contributions')
+    .select('*')
+    .eq('goal_id', goalId)
+    .order('created_at');
 
   if (error) {
-    console.error('Error deleting goal:', error);
+    console.error('Error fetching goal contributions:', error);
+    return [];
+  }
+
+  return (data || []).map(mapGoalContribution);
+}
+
+// Every goal's entries since a date, grouped by goal
+export async function getUserGoalContributions(userId: number, since: Date): Promise<Map<string, GoalContribution[]>> {
+  const byGoal = new Map<string, GoalContribution[]>();
+
+  const { data, error } = await supabase
+    .from('goal_contributions')
+    .select('*')
+    .eq('user_matricula', userId)
+    .gte('created_at', since.toISOString())
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching goal contributions:', error);
+    return byGoal;
+  }
+
+  (data || []).map(mapGoalContribution).forEach((c) => {
+    byGoal.set(c.goalId, [...(byGoal.get(c.goalId) || []), c]);
+  });
+
+  return byGoal;
+}
+
+// Online only: with moveAccount the deposit is debited from (or the withdrawal credited to) the checking account
+export async function addGoalContribution(contribution: {
+  goalId: string;
+  kind: GoalContribution['kind'];
+  amount: number;
+  moveAccount?: boolean;
+  note?: string;
+}): Promise<boolean> {
+  const { error } = await supabase.rpc('add_goal_contribution', {
+    _goal_id: contribution.goalId,
+    _kind: contribution.kind,
+    _amount: contribution.amount,
+    _move_account: contribution.moveAccount ?? false,
+    _note: contribution.note,
+  });
+
+  if (error) {
+    console.error('Error adding goal contribution:', error);
     return false;
   }
 
   return true;
 }
 
-// Calculate balance from Supabase transactions
-export async function calculateBalance(userId: number, initialBalance: number): Promise<{
+// Calculate balance in the database (get_balance_summary), optionally limited to a date range
+export async function calculateBalance(
+  userId: number,
+  initialBalance: number,
+  range?: { from?: Date; to?: Date }
+): Promise<{
   balance: number;
   totalIncome: number;
   totalExpense: number;
   debitBalance: number;
   creditUsed: number;
 }> {
-  const transactions = await getTransactions(userId);
-  
-  let totalIncome = 0;
-  let totalExpense = 0;
-  let debitExpense = 0;
-  
-  transactions.forEach((t) => {
-    if (t.type === 'income') {
-      totalIncome += t.amount;
-    } else {
-      totalExpense += t.amount;
-      if (t.paymentMethod === 'debit' || !t.paymentMethod) {
-        debitExpense += t.amount;
-      }
-    }
+  const { data, error } = await supabase.rpc('get_balance_summary', {
+    _matricula: userId,
+    _initial_balance: initialBalance,
+    _from: range?.from?.toISOString(),
+    _to: range?.to?.toISOString(),
   });
-  
-  const debitBalance = initialBalance + totalIncome - debitExpense;
-  
-  // Get credit used from profile
-  const { data: profile } = await supabase
-    .from('users_matricula')
-    .select('credit_used')
-    .eq('matricula', userId)
-    .maybeSingle();
-  
-  return {
-    balance: initialBalance + totalIncome - totalExpense,
-    totalIncome,
-    totalExpense,
-    debitBalance,
-    creditUsed: Number(profile?.credit_used) || 0,
+
+  const summary = data?.[0];
+
+  if (error || !summary) {
+    console.error('Error calculating balance:', error);
+
+    // Offline: last known totals plus what was recorded since then
+    const snapshot = !range && isNetworkError(error) ? await localDb.balances.get(userId) : undefined;
+    if (snapshot) {
+      const pending = await getPendingInserts(userId);
+      const income = pending.filter((t) => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
+      const expense = pending.filter((t) => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
+      const credit = pending.filter((t) => t.type === 'expense' && t.paymentMethod === 'credit').reduce((sum, t) => sum + t.amount, 0);
+
+      return {
+        balance: snapshot.balance + income - expense,
+        totalIncome: snapshot.totalIncome + income,
+        totalExpense: snapshot.totalExpense + expense,
+        debitBalance: snapshot.debitBalance + income - (expense - credit),
+        creditUsed: snapshot.creditUsed + credit,
+      };
+    }
+
+    return {
+      balance: initialBalance,
+      totalIncome: 0,
+      totalExpense: 0,
+      debitBalance: initialBalance,
+      creditUsed: 0,
+    };
+  }
+
+  const result = {
+    balance: Number(summary.balance),
+    totalIncome: Number(summary.total_income),
+    totalExpense: Number(summary.total_expense),
+    debitBalance: Number(summary.debit_balance),
+    creditUsed: Number(summary.credit_used),
   };
+
+  if (!range) {
+    await localDb.balances.put({ ...result, userId, fetchedAt: new Date().toISOString() });
+  }
+
+  return result;
+}
+
+// Budget functions - one spending limit per category and month
+function toMonthStart(month: string): string {
+  return `${month}-01`;
+}
+
+export function getMonthKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+// Budgets of the month with what was spent in each category (get_budget_progress)
+export async function getBudgets(userId: number, month: string = getMonthKey()): Promise<Budget[]> {
+  const { data, error } = await supabase.rpc('get_budget_progress', {
+    _matricula: userId,
+    _month: toMonthStart(month),
+  });
+
+  if (error) {
+    console.error('Error fetching budgets:', error);
+    return [];
+  }
+
+  return (data || []).map((b) => ({
+    id: b.budget_id,
+    userId,
+    categoryId: b.category_id,
+    category: b.category_name,
+    month,
+    limitAmount: Number(b.limit_amount),
+    spent: Number(b.spent),
+  }));
+}
+
+// Create or replace the limit of a category in a month
+export async function setBudget(userId: number, categoryId: string, month: string, limitAmount: number): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('budgets')
+    .upsert(
+      {
+        user_matricula: userId,
+        category_id: categoryId,
+        month: toMonthStart(month),
+        limit_amount: limitAmount,
+      },
+      { onConflict: 'user_matricula,category_id,month' }
+    )
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error saving budget:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+export async function deleteBudget(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('budgets')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting budget:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Start a month with the same limits as the previous one; returns how many were copied
+export async function copyBudgetsFromPreviousMonth(userId: number, month: string): Promise<number> {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const previousMonth = getMonthKey(new Date(year, monthNumber - 2, 1));
+
+  const { data: previous, error: fetchError } = await supabase
+    .from('budgets')
+    .select('category_id, limit_amount')
+    .eq('user_matricula', userId)
+    .eq('month', toMonthStart(previousMonth));
+
+  if (fetchError) {
+    console.error('Error fetching previous budgets:', fetchError);
+    return 0;
+  }
+
+  if (!previous?.length) return 0;
+
+  const { data, error } = await supabase
+    .from('budgets')
+    .upsert(
+      previous.map((b) => ({
+        user_matricula: userId,
+        category_id: b.category_id,
+        month: toMonthStart(month),
+        limit_amount: b.limit_amount,
+      })),
+      { onConflict: 'user_matricula,category_id,month', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (error) {
+    console.error('Error copying budgets:', error);
+    return 0;
+  }
+
+  return data?.length || 0;
 }
 
 // Categories for transactions
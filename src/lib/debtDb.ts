@@ -0,0 +1,161 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AmortizationSystem, DebtTerms, ExtraPayment } from '@/lib/amortization';
+import { parseDateColumn, toDateColumn } from '@/lib/helpers';
+
+export type DebtKind = 'personal' | 'payroll' | 'vehicle' | 'other';
+
+export interface Debt extends DebtTerms {
+  id: string;
+  userId: number;
+  name: string;
+  kind: DebtKind;
+  paidOffAt: Date | null;
+  createdAt: Date;
+}
+
+export interface DebtPayment {
+  id: string;
+  debtId: string;
+  kind: 'installment' | 'extra';
+  installmentNumber: number | null;
+  afterInstallment: number | null;
+  amount: number;
+  principalAmount: number;
+  interestAmount: number;
+  transactionId: string | null;
+  paidAt: Date;
+}
+
+export type DebtInput = Omit<Debt, 'id' | 'paidOffAt' | 'createdAt'>;
+
+export async function getDebts(userId: number): Promise<Debt[]> {
+  const { data, error } = await supabase
+    .from('debts')
+    .select('*')
+    .eq('user_matricula', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching debts:', error);
+    return [];
+  }
+
+  return (data || []).map((d) => ({
+    id: d.id,
+    userId: d.user_matricula,
+    name: d.name,
+    kind: d.kind as DebtKind,
+    principal: Number(d.principal),
+    monthlyRate: Number(d.monthly_rate),
+    termMonths: d.term_months,
+    system: d.system as AmortizationSystem,
+    firstDueDate: parseDateColumn(d.first_due_date),
+    paidOffAt: d.paid_off_at ? new Date(d.paid_off_at) : null,
+    createdAt: new Date(d.created_at),
+  }));
+}
+
+export async function addDebt(debt: DebtInput): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('debts')
+    .insert({
+      user_matricula: debt.userId,
+      name: debt.name.trim(),
+      kind: debt.kind,
+      principal: debt.principal,
+      monthly_rate: debt.monthlyRate,
+      term_months: debt.termMonths,
+      system: debt.system,
+      first_due_date: toDateColumn(debt.firstDueDate),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error adding debt:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+// Debts are soft-deleted so their payments keep pointing at something
+export async function deleteDebt(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('debts')
+    .update({ is_active: false })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting debt:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function getDebtPayments(userId: number): Promise<DebtPayment[]> {
+  const { data, error } = await supabase
+    .from('debt_payments')
+    .select('*')
+    .eq('user_matricula', userId)
+    .order('paid_at')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching debt payments:', error);
+    return [];
+  }
+
+  return (data || []).map((p) => ({
+    id: p.id,
+    debtId: p.debt_id,
+    kind: p.kind === 'extra' ? 'extra' : 'installment',
+    installmentNumber: p.installment_number,
+    afterInstallment: p.after_installment,
+    amount: Number(p.amount),
+    principalAmount: Number(p.principal_amount),
+    interestAmount: Number(p.interest_amount),
+    transactionId: p.transaction_id,
+    paidAt: parseDateColumn(p.paid_at),
+  }));
+}
+
+// Pays the next installment (with its number) or an extra amount (without); the debit is
+// recorded as a transaction linked to the payment.
+export async function recordDebtPayment(payment: {
+  debtId: string;
+  installmentNumber?: number;
+  amount: number;
+  principal: number;
+  interest?: number;
+  paidAt?: Date;
+}): Promise<boolean> {
+  const { error } = await supabase.rpc('record_debt_payment', {
+    _debt_id: payment.debtId,
+    _installment_number: payment.installmentNumber,
+    _amount: payment.amount,
+    _principal: payment.principal,
+    _interest: payment.interest ?? 0,
+    _paid_at: payment.paidAt ? toDateColumn(payment.paidAt) : undefined,
+  });
+
+  if (error) {
+    console.error('Error recording debt payment:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export function getExtraPayments(payments: DebtPayment[]): ExtraPayment[] {
+  return payments
+    .filter((p) => p.kind === 'extra')
+    .map((p) => ({ afterInstallment: p.afterInstallment ?? 0, amount: p.principalAmount }));
+}
+
+export function getOutstandingBalance(debt: Debt, payments: DebtPayment[]): number {
+  const paid = payments.reduce((sum, p) => sum + p.principalAmount, 0);
+  return Math.max(Math.round((debt.principal - paid) * 100) / 100, 0);
+}
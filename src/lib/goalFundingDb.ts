@@ -0,0 +1,144 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// salary/advance move a percentage or fixed amount of each credit; round_up saves the change
+// of every debit expense up to the next R$ 5. Every move is a goal contribution.
+export type GoalFundingEvent = 'salary' | 'advance' | 'round_up';
+
+export interface GoalFundingRule {
+  id: string;
+  goalId: string;
+  userId: number;
+  event: GoalFundingEvent;
+  percent: number | null;
+  fixedAmount: number | null;
+  isActive: boolean;
+}
+
+export async function getGoalFundingRules(userId: number, goalId?: string): Promise<GoalFundingRule[]> {
+  let query = supabase
+    .from('goal_funding_rules')
+    .select('*')
+    .eq('user_matricula', userId);
+
+  if (goalId) query = query.eq('goal_id', goalId);
+
+  const { data, error } = await query.order('created_at');
+
+  if (error) {
+    console.error('Error fetching goal funding rules:', error);
+    return [];
+  }
+
+  return (data || []).map((r) => ({
+    id: r.id,
+    goalId: r.goal_id,
+    userId: r.user_matricula,
+    event: r.event as GoalFundingEvent,
+    percent: r.percent === null ? null : Number(r.percent),
+    fixedAmount: r.fixed_amount === null ? null : Number(r.fixed_amount),
+    isActive: r.is_active,
+  }));
+}
+
+// Only one active round-up rule is allowed per user
+export async function addGoalFundingRule(rule: Omit<GoalFundingRule, 'id' | 'isActive'>): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('goal_funding_rules')
+    .insert({
+      goal_id: rule.goalId,
+      user_matricula: rule.userId,
+      event: rule.event,
+      percent: rule.percent,
+      fixed_amount: rule.fixedAmount,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error adding goal funding rule:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+export async function setGoalFundingRuleActive(id: string, isActive: boolean): Promise<boolean> {
+  const { error } = await supabase
+    .from('goal_funding_rules')
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating goal funding rule:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function deleteGoalFundingRule(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('goal_funding_rules')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting goal funding rule:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Runs the salary or advance rules over a credit; returns the total moved to goals
+export async function applyGoalFunding(
+  userId: number,
+  event: Exclude<GoalFundingEvent, 'round_up'>,
+  creditAmount: number
+): Promise<number> {
+  const { data, error } = await supabase.rpc('apply_goal_funding', {
+    _matricula: userId,
+    _event: event,
+    _credit_amount: creditAmount,
+  });
+
+  if (error) {
+    console.error('Error applying goal funding:', error);
+    return 0;
+  }
+
+  return Number(data) || 0;
+}
+
+// Saves the pending round-ups in a single move; returns the amount saved
+export async function applyGoalRoundUps(userId: number): Promise<number> {
+  const { data, error } = await supabase.rpc('apply_goal_round_ups', { _matricula: userId });
+
+  if (error) {
+    console.error('Error applying goal round-ups:', error);
+    return 0;
+  }
+
+  return Number(data) || 0;
+}
+
+// Total the funding rules moved into goals since the start of the current month
+export async function getAutoSavedThisMonth(userId: number): Promise<number> {
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+  const { data, error } = await supabase
+    .from('goal_contributions')
+    .select('amount')
+    .eq('user_matricula', userId)
+    .eq('kind', 'deposit')
+    .neq('source', 'manual')
+    .gte('created_at', monthStart.toISOString());
+
+  if (error) {
+    console.error('Error fetching automatic goal savings:', error);
+    return 0;
+  }
+
+  return (data || []).reduce((sum, c) => sum + Number(c.amount), 0);
+}
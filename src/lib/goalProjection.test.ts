@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, format } from 'date-fns';
+import type { Goal, GoalContribution } from '@/lib/db';
+import { getMonthlyPace, projectGoals } from '@/lib/goalProjection';
+
+const now = new Date(2026, 2, 10, 12);
+const DAYS_PER_MONTH = 365.25 / 12;
+const day = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+const goal = (changes: Partial<Goal> = {}): Goal => ({
+  id: 'goal',
+  title: 'Meta',
+  targetAmount: 10000,
+  currentAmount: 0,
+  deadline: addDays(now, 365),
+  userId: 1,
+  createdAt: addDays(now, -200),
+  isActive: true,
+  ...changes,
+});
+
+const contribution = (daysAgo: number, amount: number, kind: GoalContribution['kind'] = 'deposit'): GoalContribution => ({
+  id: `${daysAgo}-${amount}`,
+  goalId: 'goal',
+  userId: 1,
+  kind,
+  amount,
+  source: 'manual',
+  transactionId: null,
+  note: null,
+  createdAt: addDays(now, -daysAgo),
+});
+
+describe('getMonthlyPace', () => {
+  it('averages net contributions over the last 90 days', () => {
+    const contributions = [contribution(10, 900), contribution(40, 300, 'withdrawal'), contribution(120, 5000)];
+    expect(getMonthlyPace(goal(), contributions, now)).toBeCloseTo(600 / (90 / DAYS_PER_MONTH), 2);
+  });
+
+  it('counts at least one month for new goals and leaves out the initial amount', () => {
+    const created = addDays(now, -10);
+    const contributions = [
+      { ...contribution(10, 2000), createdAt: created },
+      contribution(5, 400),
+    ];
+    expect(getMonthlyPace(goal({ createdAt: created }), contributions, now)).toBe(400);
+  });
+
+  it('never goes below zero', () => {
+    expect(getMonthlyPace(goal(), [contribution(5, 300, 'withdrawal')], now)).toBe(0);
+  });
+});
+
+describe('projectGoals', () => {
+  it('projects completion at the current pace', () => {
+    const projection = projectGoals([goal({ currentAmount: 4000 })], new Map([['goal', [contribution(5, 1000)]]]), null, now).get('goal')!;
+    const pace = 1000 / (90 / DAYS_PER_MONTH);
+
+    expect(projection.remaining).toBe(6000);
+    expect(projection.monthlyNeeded).toBeCloseTo(6000 / (365 / DAYS_PER_MONTH), 2);
+    expect(projection.monthlyPace).toBeCloseTo(pace, 2);
+    expect(day(projection.projectedDate)).toBe('2027-09-10'); // ceil(6000 / 338.19) = 18 months
+    expect(projection.fits).toBeNull();
+  });
+
+  it('has no projected date when nothing is going in', () => {
+    expect(projectGoals([goal()], new Map(), null, now).get('goal')!.projectedDate).toBeNull();
+  });
+
+  it('treats reached goals as done', () => {
+    const projection = projectGoals([goal({ currentAmount: 12000 })], new Map(), 1000, now).get('goal')!;
+    expect(projection).toMatchObject({ remaining: 0, monthlyNeeded: 0, fits: null, suggestedDeadline: null });
+    expect(projection.projectedDate).toBe(now);
+  });
+
+  it('funds goals in deadline order and suggests a deadline for the one that does not fit', () => {
+    const goals = [
+      goal({ id: 'late', targetAmount: 12000, deadline: addDays(now, 183) }),
+      goal({ id: 'early', targetAmount: 3000, deadline: addDays(now, 182) }),
+    ];
+    const projections = projectGoals(goals, new Map(), 1000, now);
+    const early = projections.get('early')!;
+    const late = projections.get('late')!;
+
+    expect(early.fits).toBe(true);
+    expect(early.suggestedDeadline).toBeNull();
+    expect(late.fits).toBe(false);
+    // What is left after the early goal, stretched over as many months as needed
+    const months = Math.ceil(12000 / (1000 - early.myMonthlyNeeded));
+    expect(day(late.suggestedDeadline)).toBe(day(new Date(2026, 2 + months, 10)));
+  });
+
+  it('only needs the viewer share of shared goals to fit', () => {
+    const projection = projectGoals([goal({ myShare: 50 })], new Map(), 500, now).get('goal')!;
+
+    expect(projection.myMonthlyNeeded).toBeCloseTo(projection.monthlyNeeded / 2, 2);
+    expect(projection.fits).toBe(true);
+  });
+
+  it('skips goals that were not saved yet', () => {
+    expect(projectGoals([goal({ id: undefined })], new Map(), 1000, now).size).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { addMonths, differenceInCalendarDays, subDays } from 'date-fns';
+import type { Goal, GoalContribution } from '@/lib/db';
+import { roundCurrency } from '@/lib/helpers';
+
+const DAYS_PER_MONTH = 365.25 / 12;
+// Recent contributions set the pace; older ones say little about the current habit
+export const PACE_WINDOW_DAYS = 90;
+
+export interface GoalProjection {
+  remaining: number;
+  // Needed per month from now to reach the target on the deadline
+  monthlyNeeded: number;
+  // The viewer's part of monthlyNeeded on shared goals
+  myMonthlyNeeded: number;
+  // Net contributions per month over the last 90 days
+  monthlyPace: number;
+  // Completion at the current pace; null when nothing is going in
+  projectedDate: Date | null;
+  // Whether this goal, after every goal due before it, fits in the monthly leftover; null without salary info
+  fits: boolean | null;
+  // A deadline that would fit, offered when the current one doesn't
+  suggestedDeadline: Date | null;
+}
+
+// The initial amount is recorded with the goal's own created_at and isn't part of the pace
+export function getMonthlyPace(goal: Goal, contributions: GoalContribution[], now: Date = new Date()): number {
+  const windowStart = subDays(now, PACE_WINDOW_DAYS);
+  const from = goal.createdAt > windowStart ? goal.createdAt : windowStart;
+  const months = Math.max(differenceInCalendarDays(now, from) / DAYS_PER_MONTH, 1);
+
+  const net = contributions
+    .filter((c) => c.createdAt > goal.createdAt && c.createdAt >= from)
+    .reduce((sum, c) => sum + (c.kind === 'deposit' ? c.amount : -c.amount), 0);
+
+  return roundCurrency(Math.max(net, 0) / months);
+}
+
+// `available` is the monthly leftover from calculateMonthlySummary's projectedBalance.
+// Goals are funded in deadline order, so a goal only fits if the ones due earlier fit first.
+export function projectGoals(
+  goals: Goal[],
+  contributionsByGoal: Map<string, GoalContribution[]>,
+  available: number | null,
+  now: Date = new Date()
+): Map<string, GoalProjection> {
+  const projections = new Map<string, GoalProjection>();
+  let committed = 0;
+
+  [...goals]
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime())
+    .forEach((goal) => {
+      if (!goal.id) return;
+
+      const remaining = roundCurrency(Math.max(goal.targetAmount - goal.currentAmount, 0));
+      const monthsLeft = Math.max(differenceInCalendarDays(goal.deadline, now) / DAYS_PER_MONTH, 1);
+      const monthlyNeeded = roundCurrency(remaining / monthsLeft);
+      // On shared goals only the viewer's share has to fit in their leftover
+      const share = (goal.myShare ?? 100) / 100;
+      const myMonthlyNeeded = roundCurrency(monthlyNeeded * share);
+      const monthlyPace = getMonthlyPace(goal, contributionsByGoal.get(goal.id) || [], now);
+
+      const projectedDate = remaining === 0
+        ? now
+        : monthlyPace > 0
+          ? addMonths(now, Math.ceil(remaining / monthlyPace))
+          : null;
+
+      let fits: boolean | null = null;
+      let suggestedDeadline: Date | null = null;
+
+      if (available !== null && remaining > 0 && share > 0) {
+        const capacity = available - committed;
+        fits = myMonthlyNeeded <= capacity;
+
+        if (fits) {
+          committed += myMonthlyNeeded;
+        } else if (capacity > 0) {
+          // Stretch the deadline until the monthly amount fits in what's left
+          suggestedDeadline = addMonths(now, Math.ceil((remaining * share) / capacity));
+          committed = available;
+        } else {
+          suggestedDeadline = projectedDate;
+        }
+      }
+
+      projections.set(goal.id, { remaining, monthlyNeeded, myMonthlyNeeded, monthlyPace, projectedDate, fits, suggestedDeadline });
+    });
+
+  return projections;
+}
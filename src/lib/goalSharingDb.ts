@@ -0,0 +1,106 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// The owner invites other matriculas to a goal and assigns each a share of the target;
+// whatever isn't assigned stays with the owner. Access is enforced by RLS on the
+// x-matricula header, so these calls only see goals the user takes part in.
+export interface GoalMember {
+  matricula: number;
+  fullName: string;
+  isOwner: boolean;
+  status: 'pending' | 'accepted';
+  sharePercent: number;
+  shareAmount: number;
+  // Net of the member's own deposits and withdrawals
+  contributed: number;
+}
+
+export interface GoalInvite {
+  goalId: string;
+  goalTitle: string;
+  ownerId: number;
+  targetAmount: number;
+  sharePercent: number;
+}
+
+export async function getGoalMembers(goalId: string): Promise<GoalMember[]> {
+  const { data, error } = await supabase.rpc('get_goal_members', { _goal_id: goalId });
+
+  if (error) {
+    console.error('Error fetching goal members:', error);
+    return [];
+  }
+
+  return (data || []).map((m) => ({
+    matricula: m.user_matricula,
+    fullName: m.full_name || `Matrícula ${m.user_matricula}`,
+    isOwner: m.is_owner,
+    status: m.status === 'accepted' ? 'accepted' : 'pending',
+    sharePercent: Number(m.share_percent),
+    shareAmount: Number(m.share_amount),
+    contributed: Number(m.contributed),
+  }));
+}
+
+export async function getGoalInvites(userId: number): Promise<GoalInvite[]> {
+  const { data, error } = await supabase
+    .from('goal_members')
+    .select('goal_id, share_percent, goals(name, user_matricula, target_amount, is_active)')
+    .eq('user_matricula', userId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Error fetching goal invites:', error);
+    return [];
+  }
+
+  return (data || [])
+    .filter((m) => m.goals && m.goals.is_active !== false)
+    .map((m) => ({
+      goalId: m.goal_id,
+      goalTitle: m.goals!.name,
+      ownerId: m.goals!.user_matricula,
+      targetAmount: Number(m.goals!.target_amount),
+      sharePercent: Number(m.share_percent),
+    }));
+}
+
+// Owner only; fails if the shares would add up to more than 100%
+export async function inviteGoalMember(goalId: string, matricula: number, sharePercent: number): Promise<boolean> {
+  const { error } = await supabase
+    .from('goal_members')
+    .insert({ goal_id: goalId, user_matricula: matricula, share_percent: sharePercent });
+
+  if (error) {
+    console.error('Error inviting goal member:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// The owner removing someone, or a member declining the invite or leaving the goal
+export async function removeGoalMember(goalId: string, matricula: number): Promise<boolean> {
+  const { error } = await supabase
+    .from('goal_members')
+    .delete()
+    .eq('goal_id', goalId)
+    .eq('user_matricula', matricula);
+
+  if (error) {
+    console.error('Error removing goal member:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function acceptGoalInvite(goalId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('accept_goal_invite', { _goal_id: goalId });
+
+  if (error) {
+    console.error('Error accepting goal invite:', error);
+    return false;
+  }
+
+  return !!data;
+}
@@ -0,0 +1,24 @@
+// Small helpers shared by the lib modules
+
+// Round to the cent
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Build a date clamping the day to the month length (day 31 in February becomes the 28th/29th)
+export function clampedDate(year: number, month: number, day: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, lastDay));
+}
+
+// Date columns come back as "yyyy-MM-dd"; read them as local dates
+export function parseDateColumn(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function toDateColumn(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
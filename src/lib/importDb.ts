@@ -0,0 +1,71 @@
+import { endOfDay, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Transaction } from '@/lib/db';
+import { toDateColumn } from '@/lib/helpers';
+import { getDuplicateKey, type StatementEntry } from '@/lib/statementParsers';
+
+export type ImportedTransaction = Omit<Transaction, 'id'> & { externalId?: string };
+
+// Indexes of entries already in the account: same bank identifier, or same type, amount, day and description.
+// The day is the local day of created_at: the date column holds the UTC day for entries made in the app.
+export async function findDuplicateEntries(userId: number, entries: StatementEntry[]): Promise<Set<number>> {
+  const duplicates = new Set<number>();
+  if (entries.length === 0) return duplicates;
+
+  const times = entries.map((e) => e.date.getTime());
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('external_id, amount, type, created_at, description')
+    .eq('user_matricula', userId)
+    .gte('created_at', startOfDay(Math.min(...times)).toISOString())
+    .lte('created_at', endOfDay(Math.max(...times)).toISOString());
+
+  if (error) {
+    console.error('Error checking duplicates:', error);
+    return duplicates;
+  }
+
+  const externalIds = new Set((data || []).map((t) => t.external_id).filter(Boolean));
+  const keys = new Set(
+    (data || []).map((t) => getDuplicateKey({
+      type: t.type,
+      amount: Number(t.amount),
+      date: toDateColumn(new Date(t.created_at)),
+      description: t.description || '',
+    }))
+  );
+
+  entries.forEach((entry, index) => {
+    const key = getDuplicateKey({ ...entry, date: toDateColumn(entry.date) });
+    if ((entry.externalId && externalIds.has(entry.externalId)) || keys.has(key)) {
+      duplicates.add(index);
+    }
+  });
+
+  return duplicates;
+}
+
+// Bulk insert through import_transactions; returns how many rows were created
+export async function importTransactions(userId: number, transactions: ImportedTransaction[]): Promise<number | null> {
+  const { data, error } = await supabase.rpc('import_transactions', {
+    _matricula: userId,
+    _rows: transactions.map((t) => ({
+      amount: t.amount,
+      type: t.type,
+      payment_method: t.paymentMethod,
+      category: t.category,
+      description: t.description,
+      date: toDateColumn(t.date),
+      created_at: t.date.toISOString(),
+      external_id: t.externalId || null,
+    })),
+  });
+
+  if (error) {
+    console.error('Error importing transactions:', error);
+    return null;
+  }
+
+  return data ?? 0;
+}
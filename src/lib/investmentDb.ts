@@ -0,0 +1,282 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  valuePosition,
+  type AssetType,
+  type IndexName,
+  type IndexRates,
+  type PositionValue,
+} from '@/lib/investmentValuation';
+import { parseDateColumn, toDateColumn } from '@/lib/helpers';
+
+export interface Investment {
+  id: string;
+  userId: number;
+  name: string;
+  assetType: AssetType;
+  ticker: string | null;
+  rate: number | null;
+  maturityDate: Date | null;
+  createdAt: Date;
+}
+
+export interface InvestmentMovement {
+  id: string;
+  investmentId: string;
+  kind: 'buy' | 'sell';
+  amount: number;
+  quantity: number | null;
+  unitPrice: number | null;
+  transactionId: string | null;
+  occurredAt: Date;
+}
+
+export interface InvestmentPrice {
+  investmentId: string;
+  priceDate: Date;
+  unitPrice: number;
+}
+
+export interface IndexRate {
+  indexName: IndexName;
+  referenceMonth: Date;
+  monthlyRate: number;
+}
+
+export type InvestmentInput = Omit<Investment, 'id' | 'createdAt'>;
+
+export interface InvestmentPosition extends PositionValue {
+  investment: Investment;
+  movements: InvestmentMovement[];
+  lastPrice: InvestmentPrice | null;
+}
+
+export async function getInvestments(userId: number): Promise<Investment[]> {
+  const { data, error } = await supabase
+    .from('investments')
+    .select('*')
+    .eq('user_matricula', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching investments:', error);
+    return [];
+  }
+
+  return (data || []).map((i) => ({
+    id: i.id,
+    userId: i.user_matricula,
+    name: i.name,
+    assetType: i.asset_type as AssetType,
+    ticker: i.ticker,
+    rate: i.rate === null ? null : Number(i.rate),
+    maturityDate: i.maturity_date ? parseDateColumn(i.maturity_date) : null,
+    createdAt: new Date(i.created_at),
+  }));
+}
+
+export async function addInvestment(investment: InvestmentInput): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('investments')
+    .insert({
+      user_matricula: investment.userId,
+      name: investment.name.trim(),
+      asset_type: investment.assetType,
+      ticker: investment.ticker?.trim().toUpperCase() || null,
+      rate: investment.rate,
+      maturity_date: investment.maturityDate ? toDateColumn(investment.maturityDate) : null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error adding investment:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+// Soft delete, so the movements keep their investment
+export async function deleteInvestment(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('investments')
+    .update({ is_active: false })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting investment:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function getInvestmentMovements(userId: number): Promise<InvestmentMovement[]> {
+  const { data, error } = await supabase
+    .from('investment_movements')
+    .select('*')
+    .eq('user_matricula', userId)
+    .order('occurred_at')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching investment movements:', error);
+    return [];
+  }
+
+  return (data || []).map((m) => ({
+    id: m.id,
+    investmentId: m.investment_id,
+    kind: m.kind === 'sell' ? 'sell' : 'buy',
+    amount: Number(m.amount),
+    quantity: m.quantity === null ? null : Number(m.quantity),
+    unitPrice: m.unit_price === null ? null : Number(m.unit_price),
+    transactionId: m.transaction_id,
+    occurredAt: parseDateColumn(m.occurred_at),
+  }));
+}
+
+// Buys debit and sells credit the checking account; stocks and FIIs need the quantity
+export async function recordInvestmentMovement(movement: {
+  investmentId: string;
+  kind: 'buy' | 'sell';
+  amount: number;
+  quantity?: number;
+  occurredAt?: Date;
+}): Promise<boolean> {
+  const { error } = await supabase.rpc('record_investment_movement', {
+    _investment_id: movement.investmentId,
+    _kind: movement.kind,
+    _amount: movement.amount,
+    _quantity: movement.quantity,
+    _occurred_at: movement.occurredAt ? toDateColumn(movement.occurredAt) : undefined,
+  });
+
+  if (error) {
+    console.error('Error recording investment movement:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function getInvestmentPrices(userId: number): Promise<InvestmentPrice[]> {
+  const { data, error } = await supabase
+    .from('investment_prices')
+    .select('*')
+    .eq('user_matricula', userId)
+    .order('price_date');
+
+  if (error) {
+    console.error('Error fetching investment prices:', error);
+    return [];
+  }
+
+  return (data || []).map((p) => ({
+    investmentId: p.investment_id,
+    priceDate: parseDateColumn(p.price_date),
+    unitPrice: Number(p.unit_price),
+  }));
+}
+
+// One quote per day; entering it again the same day replaces it
+export async function setInvestmentPrice(investment: Investment, unitPrice: number): Promise<boolean> {
+  const { error } = await supabase
+    .from('investment_prices')
+    .upsert({
+      investment_id: investment.id,
+      user_matricula: investment.userId,
+      price_date: toDateColumn(new Date()),
+      unit_price: unitPrice,
+    });
+
+  if (error) {
+    console.error('Error saving investment price:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function getIndexRates(): Promise<IndexRate[]> {
+  const { data, error } = await supabase
+    .from('market_index_rates')
+    .select('*')
+    .order('reference_month', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching index rates:', error);
+    return [];
+  }
+
+  return (data || []).map((r) => ({
+    indexName: r.index_name as IndexName,
+    referenceMonth: parseDateColumn(r.reference_month),
+    monthlyRate: Number(r.monthly_rate),
+  }));
+}
+
+// Admin only (RLS)
+export async function setIndexRate(indexName: IndexName, referenceMonth: Date, monthlyRate: number): Promise<boolean> {
+  const { error } = await supabase
+    .from('market_index_rates')
+    .upsert({
+      index_name: indexName,
+      reference_month: toDateColumn(new Date(referenceMonth.getFullYear(), referenceMonth.getMonth(), 1)),
+      monthly_rate: monthlyRate,
+    });
+
+  if (error) {
+    console.error('Error saving index rate:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function deleteIndexRate(indexName: IndexName, referenceMonth: Date): Promise<boolean> {
+  const { error } = await supabase
+    .from('market_index_rates')
+    .delete()
+    .eq('index_name', indexName)
+    .eq('reference_month', toDateColumn(referenceMonth));
+
+  if (error) {
+    console.error('Error deleting index rate:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export function toIndexRates(rates: IndexRate[]): IndexRates {
+  const result: IndexRates = { cdi: new Map(), selic: new Map(), ipca: new Map() };
+  rates.forEach((r) => {
+    result[r.indexName].set(format(r.referenceMonth, 'yyyy-MM'), r.monthlyRate);
+  });
+  return result;
+}
+
+export async function getPortfolio(userId: number): Promise<InvestmentPosition[]> {
+  const [investments, movements, prices, rates] = await Promise.all([
+    getInvestments(userId),
+    getInvestmentMovements(userId),
+    getInvestmentPrices(userId),
+    getIndexRates(),
+  ]);
+  const indexRates = toIndexRates(rates);
+
+  return investments.map((investment) => {
+    const own = movements.filter((m) => m.investmentId === investment.id);
+    const quotes = prices.filter((p) => p.investmentId === investment.id);
+
+    return {
+      investment,
+      movements: own,
+      lastPrice: quotes[quotes.length - 1] || null,
+      ...valuePosition(investment.assetType, investment.rate, own, quotes, indexRates),
+    };
+  });
+}
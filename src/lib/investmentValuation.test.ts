@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { growthFactor, valuePosition, type IndexRates } from '@/lib/investmentValuation';
+
+const rates = (cdi: [string, number][] = [], selic: [string, number][] = [], ipca: [string, number][] = []): IndexRates => ({
+  cdi: new Map(cdi),
+  selic: new Map(selic),
+  ipca: new Map(ipca),
+});
+
+describe('growthFactor', () => {
+  const cdi = rates([['2026-01', 1], ['2026-02', 1]]);
+
+  it('compounds the CDI percentage month by month', () => {
+    expect(growthFactor('cdb', 100, cdi, new Date(2026, 0, 1), new Date(2026, 2, 1))).toBeCloseTo(1.01 ** 2, 10);
+    expect(growthFactor('cdb', 110, cdi, new Date(2026, 0, 1), new Date(2026, 1, 1))).toBeCloseTo(1.011, 10);
+  });
+
+  it('prorates partial months by calendar days', () => {
+    expect(growthFactor('cdb', 100, cdi, new Date(2026, 0, 1), new Date(2026, 0, 16))).toBeCloseTo(1.01 ** (15 / 31), 10);
+    expect(growthFactor('cdb', 100, cdi, new Date(2026, 0, 16), new Date(2026, 1, 15)))
+      .toBeCloseTo(1.01 ** (16 / 31) * 1.01 ** (14 / 28), 10);
+  });
+
+  it('reuses the latest earlier rate and treats months before any rate as zero', () => {
+    expect(growthFactor('cdb', 100, cdi, new Date(2026, 2, 1), new Date(2026, 3, 1))).toBeCloseTo(1.01, 10);
+    expect(growthFactor('cdb', 100, cdi, new Date(2025, 11, 1), new Date(2026, 0, 1))).toBe(1);
+  });
+
+  it('grows prefixed bonds by the annual rate', () => {
+    expect(growthFactor('tesouro_prefixado', 12, rates(), new Date(2026, 0, 1), new Date(2027, 0, 1))).toBeCloseTo(1.12, 10);
+  });
+
+  it('adds the real rate on top of IPCA', () => {
+    const ipca = rates([], [], [['2026-01', 0.5]]);
+    expect(growthFactor('tesouro_ipca', 6, ipca, new Date(2026, 0, 1), new Date(2026, 1, 1)))
+      .toBeCloseTo(1.005 * 1.06 ** (1 / 12), 10);
+  });
+
+  it('pays poupança 0.5% a month above the Selic threshold and 70% of Selic below it', () => {
+    const high = rates([], [['2026-01', 1]]);
+    expect(growthFactor('poupanca', 0, high, new Date(2026, 0, 1), new Date(2026, 1, 1))).toBeCloseTo(1.005, 10);
+
+    const low = rates([], [['2026-01', 0.5]]);
+    const selicAnnual = (1.005 ** 12 - 1) * 100;
+    expect(growthFactor('poupanca', 0, low, new Date(2026, 0, 1), new Date(2026, 1, 1)))
+      .toBeCloseTo((1 + (selicAnnual * 0.7) / 100) ** (1 / 12), 10);
+  });
+});
+
+describe('valuePosition', () => {
+  it('values stocks by quantity and the latest price', () => {
+    const position = valuePosition(
+      'stock',
+      null,
+      [
+        { kind: 'buy', amount: 1000, quantity: 100, unitPrice: 10, occurredAt: new Date(2026, 0, 5) },
+        { kind: 'sell', amount: 240, quantity: 20, unitPrice: 12, occurredAt: new Date(2026, 1, 5) },
+      ],
+      [{ priceDate: new Date(2026, 0, 31), unitPrice: 11 }],
+      rates()
+    );
+
+    expect(position).toEqual({ invested: 760, currentValue: 960, quantity: 80 });
+  });
+
+  it('grows fixed income buys and takes sales out with their earnings', () => {
+    const cdi = rates([['2026-01', 1]]);
+    const position = valuePosition(
+      'cdb',
+      100,
+      [
+        { kind: 'buy', amount: 1000, quantity: null, unitPrice: null, occurredAt: new Date(2026, 0, 1) },
+        { kind: 'sell', amount: 500, quantity: null, unitPrice: null, occurredAt: new Date(2026, 1, 1) },
+      ],
+      [],
+      cdi,
+      new Date(2026, 2, 1)
+    );
+
+    expect(position).toEqual({ invested: 500, currentValue: 515.1, quantity: null });
+  });
+
+  it('never values a position below zero', () => {
+    const position = valuePosition(
+      'cdb',
+      100,
+      [{ kind: 'sell', amount: 100, quantity: null, unitPrice: null, occurredAt: new Date(2026, 0, 1) }],
+      [],
+      rates(),
+      new Date(2026, 1, 1)
+    );
+
+    expect(position.currentValue).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { differenceInCalendarDays, getDaysInMonth, startOfMonth, addMonths, format } from 'date-fns';
+import { roundCurrency } from '@/lib/helpers';
+
+// Fixed income grows month by month with the stored index rates (pro rata by calendar days in
+// partial months); stocks and FIIs are quantity times the latest quote.
+export type AssetType =
+  | 'cdb'
+  | 'tesouro_selic'
+  | 'tesouro_prefixado'
+  | 'tesouro_ipca'
+  | 'poupanca'
+  | 'stock'
+  | 'fii';
+
+export type IndexName = 'cdi' | 'selic' | 'ipca';
+
+// Monthly rates in percent, keyed by "yyyy-MM"
+export type IndexRates = Record<IndexName, Map<string, number>>;
+
+export interface ValuationMovement {
+  kind: 'buy' | 'sell';
+  amount: number;
+  quantity: number | null;
+  unitPrice: number | null;
+  occurredAt: Date;
+}
+
+export interface ValuationQuote {
+  priceDate: Date;
+  unitPrice: number;
+}
+
+export interface PositionValue {
+  // Buys minus sells
+  invested: number;
+  currentValue: number;
+  quantity: number | null;
+}
+
+// Above this annual Selic, poupança pays a fixed 0.5% a month (TR is ignored)
+const POUPANCA_SELIC_THRESHOLD = 8.5;
+
+export function isMarketAsset(type: AssetType): boolean {
+  return type === 'stock' || type === 'fii';
+}
+
+// Months without a published rate reuse the latest earlier one
+function rateFor(rates: Map<string, number>, month: Date): number {
+  const key = format(month, 'yyyy-MM');
+  if (rates.has(key)) return rates.get(key)!;
+
+  let latest: string | null = null;
+  for (const k of rates.keys()) {
+    if (k < key && (!latest || k > latest)) latest = k;
+  }
+  return latest ? rates.get(latest)! : 0;
+}
+
+function annualToMonthly(annualPercent: number): number {
+  return Math.pow(1 + annualPercent / 100, 1 / 12);
+}
+
+function monthlyFactor(type: AssetType, rate: number, rates: IndexRates, month: Date): number {
+  switch (type) {
+    case 'cdb':
+      return 1 + (rateFor(rates.cdi, month) / 100) * (rate / 100);
+    case 'tesouro_selic':
+      return (1 + rateFor(rates.selic, month) / 100) * annualToMonthly(rate);
+    case 'tesouro_prefixado':
+      return annualToMonthly(rate);
+    case 'tesouro_ipca':
+      return (1 + rateFor(rates.ipca, month) / 100) * annualToMonthly(rate);
+    case 'poupanca': {
+      const selicAnnual = (Math.pow(1 + rateFor(rates.selic, month) / 100, 12) - 1) * 100;
+      return selicAnnual > POUPANCA_SELIC_THRESHOLD ? 1.005 : annualToMonthly(selicAnnual * 0.7);
+    }
+    default:
+      return 1;
+  }
+}
+
+export function growthFactor(type: AssetType, rate: number, rates: IndexRates, from: Date, to: Date): number {
+  let factor = 1;
+  let cursor = from;
+
+  while (cursor < to) {
+    const monthStart = startOfMonth(cursor);
+    const nextMonth = addMonths(monthStart, 1);
+    const segmentEnd = nextMonth < to ? nextMonth : to;
+    const days = differenceInCalendarDays(segmentEnd, cursor);
+
+    factor *= Math.pow(monthlyFactor(type, rate, rates, monthStart), days / getDaysInMonth(monthStart));
+    cursor = segmentEnd;
+  }
+
+  return factor;
+}
+
+export function valuePosition(
+  type: AssetType,
+  rate: number | null,
+  movements: ValuationMovement[],
+  quotes: ValuationQuote[],
+  rates: IndexRates,
+  now: Date = new Date()
+): PositionValue {
+  const invested = movements.reduce((sum, m) => sum + (m.kind === 'buy' ? m.amount : -m.amount), 0);
+
+  if (isMarketAsset(type)) {
+    const quantity = movements.reduce((sum, m) => sum + (m.kind === 'buy' ? 1 : -1) * (m.quantity || 0), 0);
+
+    // The latest quote wins; movements count as quotes at their own price
+    const latest = [
+      ...quotes,
+      ...movements.filter((m) => m.unitPrice).map((m) => ({ priceDate: m.occurredAt, unitPrice: m.unitPrice! })),
+    ].sort((a, b) => b.priceDate.getTime() - a.priceDate.getTime())[0];
+
+    return {
+      invested: roundCurrency(invested),
+      currentValue: roundCurrency(quantity * (latest?.unitPrice || 0)),
+      quantity,
+    };
+  }
+
+  // A sale takes its amount out along with what that amount would have earned afterwards
+  const currentValue = movements.reduce((sum, m) => {
+    const grown = m.amount * growthFactor(type, rate || 0, rates, m.occurredAt, now);
+    return sum + (m.kind === 'buy' ? grown : -grown);
+  }, 0);
+
+  return {
+    invested: roundCurrency(invested),
+    currentValue: Math.max(roundCurrency(currentValue), 0),
+    quantity: null,
+  };
+}
@@ -0,0 +1,199 @@
+import { supabase } from '@/integrations/supabase/client';
+import { calculateBalance, getGoals, type Profile } from '@/lib/db';
+import { getInvoices, getDefaultClosingDay, getUpcomingInvoiceTotals } from '@/lib/cardDb';
+import { getDebts, getDebtPayments, getOutstandingBalance } from '@/lib/debtDb';
+import { getPortfolio } from '@/lib/investmentDb';
+import { roundCurrency } from '@/lib/helpers';
+
+export type ManualAssetKind = 'property' | 'vehicle' | 'cash' | 'other';
+
+export interface ManualAsset {
+  id: string;
+  userId: number;
+  name: string;
+  kind: ManualAssetKind;
+  value: number;
+}
+
+export interface NetWorth {
+  // What the user owns
+  cash: number; // Checking account balance
+  goals: number; // The user's share of the balances of their own and shared goals
+  investments: number;
+  otherAssets: number;
+  // What the user owes
+  cardInvoice: number; // Unpaid card invoices, including the one still open
+  installments: number; // Installment charges not billed yet
+  debts: number;
+  total: number;
+}
+
+export interface NetWorthSnapshot extends NetWorth {
+  referenceMonth: Date;
+}
+
+function toMonthColumn(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+export async function getManualAssets(userId: number): Promise<ManualAsset[]> {
+  const { data, error } = await supabase
+    .from('manual_assets')
+    .select('*')
+    .eq('user_matricula', userId)
+    .eq('is_active', true)
+    .order('value', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching manual assets:', error);
+    return [];
+  }
+
+  return (data || []).map((a) => ({
+    id: a.id,
+    userId: a.user_matricula,
+    name: a.name,
+    kind: a.kind as ManualAssetKind,
+    value: Number(a.value),
+  }));
+}
+
+export async function addManualAsset(asset: Omit<ManualAsset, 'id'>): Promise<boolean> {
+  const { error } = await supabase
+    .from('manual_assets')
+    .insert({
+      user_matricula: asset.userId,
+      name: asset.name.trim(),
+      kind: asset.kind,
+      value: asset.value,
+    });
+
+  if (error) {
+    console.error('Error adding manual asset:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function updateManualAsset(id: string, value: number): Promise<boolean> {
+  const { error } = await supabase
+    .from('manual_assets')
+    .update({ value })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating manual asset:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function deleteManualAsset(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('manual_assets')
+    .update({ is_active: false })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting manual asset:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// What the user owns (account, goals, investments and other assets) minus what they owe
+// (card invoices, future installment charges and debts). Installment charges that already fall
+// in the current invoice are counted there, so only later invoices count as installments.
+export async function getNetWorth(user: Profile): Promise<NetWorth> {
+  const dueDay = user.creditDueDay || 5;
+  const closingDay = user.creditClosingDay || getDefaultClosingDay(dueDay);
+
+  const [balance, goals, portfolio, assets, invoices, upcomingInvoices, debts, payments] = await Promise.all([
+    calculateBalance(user.userId, user.initialBalance),
+    getGoals(user.userId),
+    getPortfolio(user.userId),
+    getManualAssets(user.userId),
+    getInvoices(user.userId, closingDay, dueDay, user.creditDueDayRule),
+    getUpcomingInvoiceTotals(user.userId, closingDay, dueDay, user.creditDueDayRule),
+    getDebts(user.userId),
+    getDebtPayments(user.userId),
+  ]);
+
+  const netWorth = {
+    cash: roundCurrency(balance.debitBalance),
+    // Shared goals count once across members: each one gets their share of the balance
+    goals: roundCurrency(goals.reduce((sum, g) => sum + (g.currentAmount * (g.myShare ?? 100)) / 100, 0)),
+    investments: roundCurrency(portfolio.reduce((sum, p) => sum + p.currentValue, 0)),
+    otherAssets: roundCurrency(assets.reduce((sum, a) => sum + a.value, 0)),
+    cardInvoice: roundCurrency(invoices.filter((i) => i.status !== 'paid').reduce((sum, i) => sum + i.remainingAmount, 0)),
+    installments: roundCurrency(upcomingInvoices.reduce((sum, i) => sum + i.total, 0)),
+    debts: roundCurrency(debts.reduce(
+      (sum, d) => sum + getOutstandingBalance(d, payments.filter((p) => p.debtId === d.id)),
+      0
+    )),
+  };
+
+  return {
+    ...netWorth,
+    total: roundCurrency(
+      netWorth.cash + netWorth.goals + netWorth.investments + netWorth.otherAssets
+        - netWorth.cardInvoice - netWorth.installments - netWorth.debts
+    ),
+  };
+}
+
+// Overwrites the current month's snapshot, so each month keeps its last value
+export async function saveNetWorthSnapshot(userId: number, netWorth: NetWorth): Promise<boolean> {
+  const { error } = await supabase
+    .from('net_worth_snapshots')
+    .upsert({
+      user_matricula: userId,
+      reference_month: toMonthColumn(new Date()),
+      cash: netWorth.cash,
+      goals: netWorth.goals,
+      investments: netWorth.investments,
+      other_assets: netWorth.otherAssets,
+      card_invoice: netWorth.cardInvoice,
+      installments: netWorth.installments,
+      debts: netWorth.debts,
+      total: netWorth.total,
+    });
+
+  if (error) {
+    console.error('Error saving net worth snapshot:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function getNetWorthSnapshots(userId: number): Promise<NetWorthSnapshot[]> {
+  const { data, error } = await supabase
+    .from('net_worth_snapshots')
+    .select('*')
+    .eq('user_matricula', userId)
+    .order('reference_month');
+
+  if (error) {
+    console.error('Error fetching net worth snapshots:', error);
+    return [];
+  }
+
+  return (data || []).map((s) => {
+    const [year, month] = s.reference_month.split('-').map(Number);
+    return {
+      referenceMonth: new Date(year, month - 1, 1),
+      cash: Number(s.cash),
+      goals: Number(s.goals),
+      investments: Number(s.investments),
+      otherAssets: Number(s.other_assets),
+      cardInvoice: Number(s.card_invoice),
+      installments: Number(s.installments),
+      debts: Number(s.debts),
+      total: Number(s.total),
+    };
+  });
+}
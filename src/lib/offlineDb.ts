@@ -0,0 +1,373 @@
+import Dexie, { type Table } from 'dexie';
+import { supabase } from '@/integrations/supabase/client';
+import type { Profile, Transaction, Goal } from '@/lib/db';
+import type { ScheduledPayment } from '@/lib/plannerDb';
+
+export type SyncStatus = 'synced' | 'pending' | 'error';
+export type SyncEntity = 'transactions' | 'goals' | 'scheduled_payments';
+export type SyncOperation = 'insert' | 'update' | 'delete';
+export type SyncResult = 'ok' | 'retry' | 'failed';
+export type ServerVersion = { updatedAt: string | null } | Exclude<SyncResult, 'ok'>;
+
+// Local copy of a server record plus its sync state
+type LocalRecord<T> = T & {
+  id: string;
+  userId: number;
+  syncStatus: SyncStatus;
+  serverUpdatedAt?: string | null;
+};
+
+export type LocalTransaction = LocalRecord<Transaction>;
+export type LocalGoal = LocalRecord<Goal>;
+export type LocalScheduledPayment = LocalRecord<ScheduledPayment>;
+
+export interface OutboxEntry {
+  seq?: number;
+  entity: SyncEntity;
+  operation: SyncOperation;
+  recordId: string;
+  userId: number;
+  payload: Record<string, unknown>;
+  baseUpdatedAt: string | null; // Server updated_at the local edit was based on
+  createdAt: string;
+  attempts: number;
+}
+
+export interface BalanceSnapshot {
+  userId: number;
+  balance: number;
+  totalIncome: number;
+  totalExpense: number;
+  debitBalance: number;
+  creditUsed: number;
+  fetchedAt: string;
+}
+
+class InovabankLocalDb extends Dexie {
+  transactions!: Table<LocalTransaction, string>;
+  goals!: Table<LocalGoal, string>;
+  scheduledPayments!: Table<LocalScheduledPayment, string>;
+  outbox!: Table<OutboxEntry, number>;
+  profiles!: Table<Profile, number>;
+  balances!: Table<BalanceSnapshot, number>;
+
+  constructor() {
+    super('inovabank');
+    this.version(1).stores({
+      transactions: 'id, userId, syncStatus',
+      goals: 'id, userId, syncStatus',
+      scheduledPayments: 'id, userId, syncStatus',
+      outbox: '++seq, entity, recordId',
+      profiles: 'userId',
+      balances: 'userId',
+    });
+  }
+}
+
+export const localDb = new InovabankLocalDb();
+
+const MAX_ATTEMPTS = 5;
+const SYNC_INTERVAL_MS = 30000;
+const OUTBOX_EVENT = 'inovabank:outbox-changed';
+const SYNC_EVENT = 'inovabank:sync-complete';
+
+export interface SyncSummary {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+export interface SyncHandler {
+  insert: (id: string, payload: Record<string, unknown>) => Promise<SyncResult>;
+  update: (id: string, payload: Record<string, unknown>) => Promise<SyncResult>;
+  delete: (id: string) => Promise<SyncResult>;
+  // Current server updated_at (null when the record no longer exists), or why it couldn't be read
+  getUpdatedAt: (id: string) => Promise<ServerVersion>;
+}
+
+const handlers: Partial<Record<SyncEntity, SyncHandler>> = {};
+
+// db.ts and plannerDb.ts register how each entity is written to Supabase
+export function registerSyncHandler(entity: SyncEntity, handler: SyncHandler) {
+  handlers[entity] = handler;
+}
+
+function tableFor(entity: SyncEntity): Table<LocalRecord<object>, string> {
+  switch (entity) {
+    case 'transactions':
+      return localDb.transactions as unknown as Table<LocalRecord<object>, string>;
+    case 'goals':
+      return localDb.goals as unknown as Table<LocalRecord<object>, string>;
+    case 'scheduled_payments':
+      return localDb.scheduledPayments as unknown as Table<LocalRecord<object>, string>;
+  }
+}
+
+export function newLocalId(): string {
+  return crypto.randomUUID();
+}
+
+// Treat fetch failures as "try again later" and anything else as a rejected write
+export function toSyncResult(error: { message?: string } | null): SyncResult {
+  if (!error) return 'ok';
+  if (!navigator.onLine || /fetch|network/i.test(error.message || '')) return 'retry';
+  return 'failed';
+}
+
+export function isNetworkError(error: { message?: string } | null): boolean {
+  return toSyncResult(error) === 'retry';
+}
+
+// Queue a write, folding it into an insert that hasn't reached the server yet
+export async function enqueue(
+  entity: SyncEntity,
+  operation: SyncOperation,
+  recordId: string,
+  userId: number,
+  payload: Record<string, unknown> = {}
+): Promise<void> {
+  await localDb.transaction('rw', localDb.outbox, tableFor(entity), async () => {
+    const pending = await localDb.outbox.where('recordId').equals(recordId).toArray();
+    const pendingInsert = pending.find((e) => e.operation === 'insert');
+
+    if (operation === 'update' && pendingInsert) {
+      await localDb.outbox.update(pendingInsert.seq!, {
+        payload: { ...pendingInsert.payload, ...payload },
+        attempts: 0,
+      });
+      return;
+    }
+
+    if (operation === 'delete') {
+      await localDb.outbox.bulkDelete(pending.map((e) => e.seq!));
+      // Never reached the server, nothing to delete there
+      if (pendingInsert) return;
+    }
+
+    const local = await tableFor(entity).get(recordId);
+
+    await localDb.outbox.add({
+      entity,
+      operation,
+      recordId,
+      userId,
+      payload,
+      baseUpdatedAt: local?.serverUpdatedAt ?? null,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    });
+  });
+
+  window.dispatchEvent(new Event(OUTBOX_EVENT));
+}
+
+// Store a local change to a record and mark it as waiting for sync
+export async function saveLocal<T extends object>(entity: SyncEntity, record: LocalRecord<T>) {
+  await tableFor(entity).put({ ...record, syncStatus: 'pending' });
+}
+
+export async function removeLocal(entity: SyncEntity, id: string) {
+  await tableFor(entity).delete(id);
+}
+
+export async function getLocal<T extends object>(entity: SyncEntity, id: string): Promise<LocalRecord<T> | undefined> {
+  return (await tableFor(entity).get(id)) as LocalRecord<T> | undefined;
+}
+
+export async function getLocalRecords<T extends object>(entity: SyncEntity, userId: number): Promise<LocalRecord<T>[]> {
+  return (await tableFor(entity).where('userId').equals(userId).toArray()) as LocalRecord<T>[];
+}
+
+// Cache server records and lay pending local changes on top of them.
+// With replace, synced records missing from the server list are dropped from the cache.
+export async function mergeWithLocal<T extends { id?: string; userId: number }>(
+  entity: SyncEntity,
+  userId: number,
+  serverRecords: (T & { serverUpdatedAt?: string | null })[],
+  options: { replace?: boolean; includePendingInserts?: boolean } = {}
+): Promise<(T & { syncStatus: SyncStatus })[]> {
+  const table = tableFor(entity);
+  const local = (await table.where('userId').equals(userId).toArray()) as LocalRecord<T>[];
+  const unsynced = new Map(local.filter((r) => r.syncStatus !== 'synced').map((r) => [r.id, r]));
+  const pendingDeletes = new Set(
+    (await localDb.outbox.where('entity').equals(entity).toArray())
+      .filter((e) => e.operation === 'delete')
+      .map((e) => e.recordId)
+  );
+
+  const serverIds = new Set(serverRecords.map((r) => r.id));
+  const toCache = serverRecords
+    .filter((r) => r.id && !unsynced.has(r.id))
+    .map((r) => ({ ...r, id: r.id!, syncStatus: 'synced' as SyncStatus }));
+
+  await table.bulkPut(toCache as LocalRecord<object>[]);
+  if (options.replace) {
+    const stale = local.filter((r) => r.syncStatus === 'synced' && !serverIds.has(r.id)).map((r) => r.id);
+    await table.bulkDelete(stale);
+  }
+
+  const merged = serverRecords
+    .filter((r) => !r.id || !pendingDeletes.has(r.id))
+    .map((r) => (r.id && unsynced.get(r.id)) || { ...r, syncStatus: 'synced' as SyncStatus });
+
+  if (options.includePendingInserts ?? true) {
+    unsynced.forEach((r) => {
+      if (!serverIds.has(r.id) && !pendingDeletes.has(r.id)) merged.push(r);
+    });
+  }
+
+  return merged;
+}
+
+// Push queued writes in order. Updates whose record changed on the server after the
+// local edit lose the conflict: the server version is kept and the edit is dropped.
+async function runOutbox(): Promise<SyncSummary> {
+  const summary: SyncSummary = { synced: 0, conflicts: 0, failed: 0 };
+  if (!navigator.onLine) return summary;
+
+  const entries = await localDb.outbox.orderBy('seq').toArray();
+  const blocked = new Set<string>();
+
+  // The entry stays queued and the record is flagged; later writes to it wait behind it
+  const markFailed = async (entry: OutboxEntry) => {
+    await localDb.outbox.update(entry.seq!, { attempts: entry.attempts + 1 });
+    await tableFor(entry.entity).update(entry.recordId, { syncStatus: 'error' });
+    blocked.add(entry.recordId);
+    summary.failed++;
+  };
+
+  for (const entry of entries) {
+    const handler = handlers[entry.entity];
+    if (!handler || entry.attempts >= MAX_ATTEMPTS || blocked.has(entry.recordId)) {
+      if (entry.attempts >= MAX_ATTEMPTS) blocked.add(entry.recordId);
+      continue;
+    }
+
+    const table = tableFor(entry.entity);
+
+    if (entry.operation !== 'insert' && entry.baseUpdatedAt) {
+      const server = await handler.getUpdatedAt(entry.recordId);
+      if (server === 'retry') break;
+
+      // Not knowing whether the record still exists is no reason to drop the edit
+      if (server === 'failed') {
+        await markFailed(entry);
+        continue;
+      }
+
+      const serverUpdatedAt = server.updatedAt;
+      if (serverUpdatedAt === null) {
+        // Already gone on the server
+        await localDb.outbox.delete(entry.seq!);
+        await table.delete(entry.recordId);
+        continue;
+      }
+
+      const changedOnServer = new Date(serverUpdatedAt) > new Date(entry.baseUpdatedAt);
+      if (changedOnServer && new Date(serverUpdatedAt) > new Date(entry.createdAt)) {
+        await localDb.outbox.delete(entry.seq!);
+        await table.delete(entry.recordId); // Refetched on the next read
+        summary.conflicts++;
+        continue;
+      }
+    }
+
+    const result = entry.operation === 'delete'
+      ? await handler.delete(entry.recordId)
+      : await handler[entry.operation](entry.recordId, entry.payload);
+
+    if (result === 'retry') break;
+
+    if (result === 'failed') {
+      await markFailed(entry);
+      continue;
+    }
+
+    await localDb.outbox.delete(entry.seq!);
+    summary.synced++;
+
+    const remaining = await localDb.outbox.where('recordId').equals(entry.recordId).count();
+    if (entry.operation === 'delete') {
+      await table.delete(entry.recordId);
+    } else if (remaining === 0) {
+      await table.update(entry.recordId, { syncStatus: 'synced' });
+    }
+  }
+
+  if (summary.synced > 0 || summary.conflicts > 0 || summary.failed > 0) {
+    window.dispatchEvent(new CustomEvent<SyncSummary>(SYNC_EVENT, { detail: summary }));
+  }
+
+  return summary;
+}
+
+let running: Promise<SyncSummary> | null = null;
+
+// Only one flush at a time; concurrent callers share the running one
+export function flushOutbox(): Promise<SyncSummary> {
+  if (!running) {
+    running = runOutbox()
+      .catch((error) => {
+        console.error('Error syncing outbox:', error);
+        return { synced: 0, conflicts: 0, failed: 0 };
+      })
+      .finally(() => {
+        running = null;
+      });
+  }
+  return running;
+}
+
+// Push queued writes now; false when the server rejected this record's write
+export async function syncRecord(entity: SyncEntity, id: string): Promise<boolean> {
+  await flushOutbox();
+  const record = await tableFor(entity).get(id);
+  if (record) return record.syncStatus !== 'error';
+
+  // Removed locally (delete): a rejected write stays queued with a failed attempt
+  const failed = await localDb.outbox
+    .where('recordId')
+    .equals(id)
+    .filter((e) => e.entity === entity && e.attempts > 0)
+    .count();
+  return failed === 0;
+}
+
+// Server updated_at of a record (null only when the read succeeded and found nothing)
+export async function getServerUpdatedAt(table: SyncEntity, id: string): Promise<ServerVersion> {
+  const { data, error } = await supabase
+    .from(table)
+    .select('updated_at')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking server version:', error);
+    return isNetworkError(error) ? 'retry' : 'failed';
+  }
+  return { updatedAt: data?.updated_at ?? null };
+}
+
+export function onSyncComplete(listener: (summary: SyncSummary) => void): () => void {
+  const handle = (event: Event) => listener((event as CustomEvent<SyncSummary>).detail);
+  window.addEventListener(SYNC_EVENT, handle);
+  return () => window.removeEventListener(SYNC_EVENT, handle);
+}
+
+// Flush when connectivity returns, when something is queued and periodically
+export function startBackgroundSync(): () => void {
+  const flush = () => {
+    flushOutbox();
+  };
+
+  window.addEventListener('online', flush);
+  window.addEventListener(OUTBOX_EVENT, flush);
+  const interval = window.setInterval(flush, SYNC_INTERVAL_MS);
+  flush();
+
+  return () => {
+    window.removeEventListener('online', flush);
+    window.removeEventListener(OUTBOX_EVENT, flush);
+    window.clearInterval(interval);
+  };
+}
@@ -1,4 +1,38 @@
+import { addDays, addYears, endOfDay, format, startOfDay, startOfMonth, subDays } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
+import { calculateBalance, type Profile } from '@/lib/db';
+import { getInvoices, getUpcomingInvoiceTotals, getDefaultClosingDay, formatReferenceMonth } from '@/lib/cardDb';
+import { getDebts, getDebtPayments, getExtraPayments } from '@/lib/debtDb';
+import { buildSchedule } from '@/lib/amortization';
+import {
+  buildCashFlowForecast,
+  FORECAST_DAYS,
+  type CashFlowEvent,
+  type CashFlowForecast,
+} from '@/lib/cashFlowForecast';
+import {
+  expandRecurrence,
+  isOccurrencePaid,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+import { applyBusinessDayRule, monthlyDueDates, nextMonthlyDueDate, type BusinessDayRule } from '@/lib/businessDays';
+import {
+  enqueue,
+  getLocal,
+  getLocalRecords,
+  getServerUpdatedAt,
+  isNetworkError,
+  mergeWithLocal,
+  newLocalId,
+  registerSyncHandler,
+  removeLocal,
+  saveLocal,
+  syncRecord,
+  toSyncResult,
+  type SyncStatus,
+} from '@/lib/offlineDb';
+import { parseDateColumn, toDateColumn } from '@/lib/helpers';
 
 export interface ScheduledPayment {
   id?: string;
@@ -9,9 +43,12 @@ export interface ScheduledPayment {
   isRecurring: boolean;
   isActive: boolean;
   specificMonth?: Date | null; // For one-time payments
+  recurrence?: RecurrenceRule | null; // Missing on records saved before recurrence rules existed
+  businessDayRule?: BusinessDayRule; // When an occurrence falls on a weekend or holiday
   category: string;
   lastPaidAt?: Date | null;
   createdAt?: Date;
+  syncStatus?: SyncStatus;
 }
 
 export interface PaymentLog {
@@ -32,7 +69,71 @@ export interface SalaryCredit {
   monthYear: string; // "2025-01" format
 }
 
-// Scheduled Payments functions
+// Scheduled Payments functions - local first, synced to Supabase through the outbox
+function scheduledPaymentToRow(payment: Partial<ScheduledPayment>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  if (payment.name !== undefined) row.name = payment.name;
+  if (payment.amount !== undefined) row.amount = payment.amount;
+  if (payment.dueDay !== undefined) row.due_day = payment.dueDay;
+  if (payment.isRecurring !== undefined) row.is_recurring = payment.isRecurring;
+  if (payment.isActive !== undefined) row.is_active = payment.isActive;
+  if (payment.specificMonth !== undefined) row.specific_month = payment.specificMonth?.toISOString().split('T')[0] || null;
+  if (payment.recurrence) {
+    row.recurrence_frequency = payment.recurrence.frequency;
+    row.recurrence_interval = payment.recurrence.interval;
+    row.recurrence_start = toDateColumn(payment.recurrence.startDate);
+    row.recurrence_weekday = payment.recurrence.weekday ?? null;
+    row.recurrence_month = payment.recurrence.month ?? null;
+    row.recurrence_count = payment.recurrence.count ?? null;
+    row.recurrence_until = payment.recurrence.until ? toDateColumn(payment.recurrence.until) : null;
+  }
+  if (payment.businessDayRule !== undefined) row.business_day_rule = payment.businessDayRule;
+  if (payment.category !== undefined) row.category = payment.category;
+  if (payment.lastPaidAt !== undefined) row.last_paid_at = payment.lastPaidAt?.toISOString() || null;
+
+  return row;
+}
+
+registerSyncHandler('scheduled_payments', {
+  insert: async (id, payload) => {
+    const payment = payload as Omit<ScheduledPayment, 'id' | 'createdAt'>;
+    const { error } = await supabase
+      .from('scheduled_payments')
+      .upsert(
+        {
+          ...scheduledPaymentToRow(payment),
+          id,
+          name: payment.name,
+          amount: payment.amount,
+          due_day: payment.dueDay,
+          user_matricula: payment.userId,
+        },
+        { onConflict: 'id', ignoreDuplicates: true }
+      );
+    if (error) console.error('Error syncing scheduled payment:', error);
+    return toSyncResult(error);
+  },
+  update: async (id, payload) => {
+    const { error } = await supabase
+      .from('scheduled_payments')
+      .update(scheduledPaymentToRow(payload as Partial<ScheduledPayment>))
+      .eq('id', id);
+    if (error) console.error('Error syncing scheduled payment update:', error);
+    return toSyncResult(error);
+  },
+  delete: async (id) => {
+    const { error } = await supabase.from('scheduled_payments').update({ is_active: false }).eq('id', id);
+    if (error) console.error('Error syncing scheduled payment delete:', error);
+    return toSyncResult(error);
+  },
+  getUpdatedAt: (id) => getServerUpdatedAt('scheduled_payments', id),
+});
+
+function sortByDueDay(payments: ScheduledPayment[]): ScheduledPayment[] {
+  return payments.filter((p) => p.isActive).sort((a, b) => a.dueDay - b.dueDay);
+}
+
 export async function getScheduledPayments(userId: number): Promise<ScheduledPayment[]> {
   const { data, error } = await supabase
     .from('scheduled_payments')
@@ -43,84 +144,108 @@ export async function getScheduledPayments(userId: number): Promise<ScheduledPay
 
   if (error) {
     console.error('Error fetching scheduled payments:', error);
-    return [];
+    return isNetworkError(error) ? sortByDueDay(await getLocalRecords<ScheduledPayment>('scheduled_payments', userId)) : [];
   }
 
-  return (data || []).map((p) => ({
-    id: p.id,
-    userId: p.user_matricula,
-    name: p.name,
-    amount: Number(p.amount),
-    dueDay: p.due_day,
-    isRecurring: p.is_recurring,
-    isActive: p.is_active ?? true,
-    specificMonth: p.specific_month ? new Date(p.specific_month) : null,
-    category: p.category || 'outros',
-    lastPaidAt: p.last_paid_at ? new Date(p.last_paid_at) : null,
-    createdAt: new Date(p.created_at),
-  }));
+  const merged = await mergeWithLocal<ScheduledPayment>(
+    'scheduled_payments',
+    userId,
+    (data || []).map((p) => ({
+      id: p.id,
+      userId: p.user_matricula,
+      name: p.name,
+      amount: Number(p.amount),
+      dueDay: p.due_day,
+      isRecurring: p.is_recurring,
+      isActive: p.is_active ?? true,
+      specificMonth: p.specific_month ? new Date(p.specific_month) : null,
+      recurrence: p.recurrence_start ? {
+        frequency: p.recurrence_frequency as RecurrenceFrequency,
+        interval: p.recurrence_interval,
+        startDate: parseDateColumn(p.recurrence_start),
+        weekday: p.recurrence_weekday,
+        month: p.recurrence_month,
+        count: p.recurrence_count,
+        until: p.recurrence_until ? parseDateColumn(p.recurrence_until) : null,
+      } : null,
+      businessDayRule: p.business_day_rule as BusinessDayRule,
+      category: p.category || 'outros',
+      lastPaidAt: p.last_paid_at ? new Date(p.last_paid_at) : null,
+      createdAt: new Date(p.created_at),
+      serverUpdatedAt: p.updated_at,
+    })),
+    { replace: true }
+  );
+
+  return sortByDueDay(merged);
 }
 
 export async function addScheduledPayment(payment: Omit<ScheduledPayment, 'id' | 'createdAt' | 'isActive'>): Promise<string | null> {
-  const { data, error } = await supabase
-    .from('scheduled_payments')
-    .insert({
-      user_matricula: payment.userId,
-      name: payment.name,
-      amount: payment.amount,
-      due_day: payment.dueDay,
-      is_recurring: payment.isRecurring,
-      specific_month: payment.specificMonth ? payment.specificMonth.toISOString().split('T')[0] : null,
-      category: payment.category,
-    })
-    .select('id')
-    .single();
+  const id = newLocalId();
+  const newPayment = { ...payment, isActive: true };
 
-  if (error) {
-    console.error('Error adding scheduled payment:', error);
+  await saveLocal<ScheduledPayment>('scheduled_payments', { ...newPayment, id, createdAt: new Date(), syncStatus: 'pending' });
+  await enqueue('scheduled_payments', 'insert', id, payment.userId, newPayment);
+
+  if (!(await syncRecord('scheduled_payments', id))) {
+    // Rejected by the server (not a connectivity problem)
+    await enqueue('scheduled_payments', 'delete', id, payment.userId);
+    await removeLocal('scheduled_payments', id);
     return null;
   }
 
-  return data?.id || null;
+  return id;
 }
 
 export async function updateScheduledPayment(id: string, updates: Partial<ScheduledPayment>): Promise<boolean> {
-  const updateData: Record<string, unknown> = {};
-  
-  if (updates.name !== undefined) updateData.name = updates.name;
-  if (updates.amount !== undefined) updateData.amount = updates.amount;
-  if (updates.dueDay !== undefined) updateData.due_day = updates.dueDay;
-  if (updates.isRecurring !== undefined) updateData.is_recurring = updates.isRecurring;
-  if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
-  if (updates.specificMonth !== undefined) updateData.specific_month = updates.specificMonth?.toISOString().split('T')[0] || null;
-  if (updates.category !== undefined) updateData.category = updates.category;
-  if (updates.lastPaidAt !== undefined) updateData.last_paid_at = updates.lastPaidAt?.toISOString() || null;
-
-  const { error } = await supabase
-    .from('scheduled_payments')
-    .update(updateData)
-    .eq('id', id);
+  const current = await getLocal<ScheduledPayment>('scheduled_payments', id);
 
-  if (error) {
-    console.error('Error updating scheduled payment:', error);
+  if (!current) {
+    console.error('Error updating scheduled payment: not found locally', id);
     return false;
   }
 
-  return true;
+  await saveLocal<ScheduledPayment>('scheduled_payments', { ...current, ...updates });
+  await enqueue('scheduled_payments', 'update', id, current.userId, { ...updates });
+
+  return syncRecord('scheduled_payments', id);
 }
 
-export async function deleteScheduledPayment(id: string): Promise<boolean> {
-  const { error } = await supabase
-    .from('scheduled_payments')
-    .update({ is_active: false })
-    .eq('id', id);
+// New amount from a given date on (rent adjustments): the current rule ends the day before and a copy
+// with the new amount takes over, keeping what is left of the occurrence count
+export async function adjustScheduledPayment(payment: ScheduledPayment, amount: number, from: Date): Promise<boolean> {
+  if (!payment.id) return false;
+
+  const rule = getRecurrenceRule(payment);
+  const start = startOfDay(from);
+  const until = subDays(start, 1);
+  const done = until >= rule.startDate ? expandRecurrence(rule, payment.dueDay, rule.startDate, until).length : 0;
+  const count = rule.count ? rule.count - done : null;
+  if (count !== null && count <= 0) return false;
+
+  const id = await addScheduledPayment({
+    userId: payment.userId,
+    name: payment.name,
+    amount,
+    dueDay: payment.dueDay,
+    isRecurring: payment.isRecurring,
+    specificMonth: payment.specificMonth,
+    recurrence: { ...rule, startDate: start, count },
+    businessDayRule: payment.businessDayRule,
+    category: payment.category,
+    lastPaidAt: payment.lastPaidAt ?? null,
+  });
+  if (!id) return false;
 
-  if (error) {
-    console.error('Error deleting scheduled payment:', error);
-    return false;
-  }
+  // Nothing left before the adjustment: the old payment just goes away
+  return done > 0
+    ? updateScheduledPayment(payment.id, { recurrence: { ...rule, until } })
+    : deleteScheduledPayment(payment.id);
+}
 
-  return true;
+// Scheduled payments are soft-deleted, so this is an update of is_active
+export async function deleteScheduledPayment(id: string): Promise<boolean> {
+  return updateScheduledPayment(id, { isActive: false });
 }
 
 // Payment logs functions
@@ -228,31 +353,37 @@ export async function checkSalaryCredited(userId: number, monthYear: string): Pr
   return !!data;
 }
 
+// Rule of payments saved before recurrence rules: monthly from the month it was created, once when not recurring
+export function getRecurrenceRule(payment: ScheduledPayment): RecurrenceRule {
+  if (payment.recurrence) return payment.recurrence;
+
+  return {
+    frequency: 'monthly',
+    interval: 1,
+    startDate: startOfMonth(payment.specificMonth || payment.createdAt || new Date()),
+    count: payment.isRecurring ? null : 1,
+  };
+}
+
+// Occurrences with the date they are actually due, after the business-day rule. A month either side
+// of the range is included because a moved date can cross into it
+function getOccurrences(payment: ScheduledPayment, from: Date, to: Date): { original: Date; date: Date }[] {
+  return expandRecurrence(getRecurrenceRule(payment), payment.dueDay, subDays(from, 31), addDays(to, 31))
+    .map((original) => ({ original, date: applyBusinessDayRule(original, payment.businessDayRule || 'none') }));
+}
+
+// Next occurrence from today on that hasn't been paid yet
+export function getNextDueDate(payment: ScheduledPayment, from: Date = new Date()): Date | null {
+  return getPaymentDueDates(payment, from, addYears(from, 10))[0] || null;
+}
+
 // Get today's due payments
 export async function getTodaysDuePayments(userId: number): Promise<ScheduledPayment[]> {
   const today = new Date();
-  const todayDay = today.getDate();
-  const currentMonth = today.toISOString().slice(0, 7); // "2025-01"
-
   const payments = await getScheduledPayments(userId);
-  
-  return payments.filter(p => {
-    if (p.dueDay !== todayDay) return false;
-    
-    // Check if already paid this month
-    if (p.lastPaidAt) {
-      const lastPaidMonth = p.lastPaidAt.toISOString().slice(0, 7);
-      if (lastPaidMonth === currentMonth) return false;
-    }
-    
-    // If it's a one-time payment, check if it's for this month
-    if (!p.isRecurring && p.specificMonth) {
-      const paymentMonth = p.specificMonth.toISOString().slice(0, 7);
-      if (paymentMonth !== currentMonth) return false;
-    }
-    
-    return true;
-  });
+
+  // Due today and not paid yet in this period (month, week...)
+  return payments.filter((p) => getPaymentDueDates(p, today, today).length > 0);
 }
 
 // Calculate monthly summary
@@ -265,20 +396,24 @@ export async function calculateMonthlySummary(userId: number, salaryAmount: numb
 }> {
   const payments = await getScheduledPayments(userId);
   const today = new Date();
-  const currentMonth = today.toISOString().slice(0, 7);
-  
-  // Filter active payments for this month
-  const monthlyPayments = payments.filter(p => {
-    if (p.isRecurring) return true;
-    if (p.specificMonth) {
-      const paymentMonth = p.specificMonth.toISOString().slice(0, 7);
-      return paymentMonth === currentMonth;
-    }
-    return false;
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  const monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+
+  // Every occurrence of this month; weekly payments show up several times
+  const paymentsByDay = new Map<number, ScheduledPayment[]>();
+  let totalPayments = 0;
+  const monthlyPayments = payments.filter((p) => {
+    const dates = getOccurrences(p, monthStart, monthEnd)
+      .map((o) => o.date)
+      .filter((date) => date >= monthStart && date <= monthEnd);
+    dates.forEach((date) => {
+      const existing = paymentsByDay.get(date.getDate()) || [];
+      paymentsByDay.set(date.getDate(), [...existing, p]);
+    });
+    totalPayments += p.amount * dates.length;
+    return dates.length > 0;
   });
-  
-  const totalPayments = monthlyPayments.reduce((sum, p) => sum + p.amount, 0);
-  
+
   // Calculate projected balance: salary + advance - payments
   const totalIncome = salaryAmount + advanceAmount;
   const projectedBalance = totalIncome - totalPayments;
@@ -288,13 +423,6 @@ export async function calculateMonthlySummary(userId: number, salaryAmount: numb
     ? monthlyPayments.reduce((max, p) => p.amount > max.amount ? p : max, monthlyPayments[0])
     : null;
   
-  // Group by day
-  const paymentsByDay = new Map<number, ScheduledPayment[]>();
-  monthlyPayments.forEach(p => {
-    const existing = paymentsByDay.get(p.dueDay) || [];
-    paymentsByDay.set(p.dueDay, [...existing, p]);
-  });
-  
   return {
     totalPayments,
     paymentsList: monthlyPayments,
@@ -308,12 +436,14 @@ export async function calculateMonthlySummary(userId: number, salaryAmount: numb
 export async function getUserSalaryInfo(userId: number): Promise<{ 
   salaryAmount: number; 
   salaryDay: number;
+  salaryDayRule: BusinessDayRule;
   advanceAmount: number;
   advanceDay: number | null;
+  advanceDayRule: BusinessDayRule;
 } | null> {
   const { data, error } = await supabase
     .from('users_matricula')
-    .select('salary_amount, salary_day, advance_amount, advance_day')
+    .select('salary_amount, salary_day, salary_day_rule, advance_amount, advance_day, advance_day_rule')
     .eq('matricula', userId)
     .maybeSingle();
 
@@ -325,8 +455,10 @@ export async function getUserSalaryInfo(userId: number): Promise<{
   return {
     salaryAmount: Number(data.salary_amount) || 0,
     salaryDay: data.salary_day || 5,
+    salaryDayRule: (data.salary_day_rule || 'none') as BusinessDayRule,
     advanceAmount: Number(data.advance_amount) || 0,
     advanceDay: data.advance_day || null,
+    advanceDayRule: (data.advance_day_rule || 'none') as BusinessDayRule,
   };
 }
 
@@ -336,7 +468,9 @@ export async function updateUserSalaryInfo(
   salaryAmount: number, 
   salaryDay: number,
   advanceAmount?: number,
-  advanceDay?: number | null
+  advanceDay?: number | null,
+  salaryDayRule?: BusinessDayRule,
+  advanceDayRule?: BusinessDayRule
 ): Promise<boolean> {
   const updateData: Record<string, unknown> = { 
     salary_amount: salaryAmount, 
@@ -349,6 +483,12 @@ export async function updateUserSalaryInfo(
   if (advanceDay !== undefined) {
     updateData.advance_day = advanceDay;
   }
+  if (salaryDayRule !== undefined) {
+    updateData.salary_day_rule = salaryDayRule;
+  }
+  if (advanceDayRule !== undefined) {
+    updateData.advance_day_rule = advanceDayRule;
+  }
 
   const { error } = await supabase
     .from('users_matricula')
@@ -380,22 +520,103 @@ export async function checkAdvanceCredited(userId: number, monthYear: string): P
   return !!data;
 }
 
-// Calculate days until next payment
-export function calculateDaysUntil(targetDay: number): number {
+// Calculate days until next payment; short months use their last day
+export function calculateDaysUntil(targetDay: number, rule: BusinessDayRule = 'none'): number {
+  const today = startOfDay(new Date());
+  const targetDate = nextMonthlyDueDate(targetDay, rule, today);
+
+  return Math.round((targetDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+// Occurrences a payment is still due between from and to. The last payment covers the earliest
+// occurrence it falls on: in the same period (month, week...) or up to the date it was moved to
+export function getPaymentDueDates(payment: ScheduledPayment, from: Date, to: Date): Date[] {
+  const rule = getRecurrenceRule(payment);
+  const lastPaidAt = payment.lastPaidAt;
+  const occurrences = getOccurrences(payment, from, to);
+  const paid = lastPaidAt
+    ? occurrences.find((o) =>
+        isOccurrencePaid(rule, o.original, lastPaidAt) ||
+        (isOccurrencePaid(rule, o.date, lastPaidAt) && lastPaidAt <= endOfDay(o.date)))
+    : undefined;
+
+  return occurrences
+    .filter((o) => o !== paid && o.date >= startOfDay(from) && o.date <= to)
+    .map((o) => o.date);
+}
+
+// Projected end-of-day debit balance for the next `days` days
+export async function getCashFlowForecast(user: Profile, days: number = FORECAST_DAYS): Promise<CashFlowForecast> {
   const today = new Date();
-  const currentDay = today.getDate();
-  const currentMonth = today.getMonth();
-  const currentYear = today.getFullYear();
-  
-  let targetDate = new Date(currentYear, currentMonth, targetDay);
-  
-  // If the target day has passed this month, calculate for next month
-  if (currentDay > targetDay) {
-    targetDate = new Date(currentYear, currentMonth + 1, targetDay);
+  const end = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days - 1);
+  const monthYear = format(today, 'yyyy-MM');
+  const dueDay = user.creditDueDay || 5;
+  const closingDay = user.creditClosingDay || getDefaultClosingDay(dueDay);
+
+  const [balance, salary, payments, salaryCredited, advanceCredited, invoices, upcoming, debts, debtPayments] = await Promise.all([
+    calculateBalance(user.userId, user.initialBalance),
+    getUserSalaryInfo(user.userId),
+    getScheduledPayments(user.userId),
+    checkSalaryCredited(user.userId, monthYear),
+    checkAdvanceCredited(user.userId, monthYear),
+    getInvoices(user.userId, closingDay, dueDay, user.creditDueDayRule),
+    getUpcomingInvoiceTotals(user.userId, closingDay, dueDay, user.creditDueDayRule),
+    getDebts(user.userId),
+    getDebtPayments(user.userId),
+  ]);
+
+  const events: CashFlowEvent[] = [];
+  const isThisMonth = (referenceMonth: Date) => format(referenceMonth, 'yyyy-MM') === monthYear;
+
+  if (salary && salary.salaryAmount > 0) {
+    monthlyDueDates(salary.salaryDay, salary.salaryDayRule, today, end)
+      .filter((due) => !(salaryCredited && isThisMonth(due.referenceMonth)))
+      .forEach((due) => events.push({ date: due.date, label: 'Salário', amount: salary.salaryAmount, kind: 'salary' }));
   }
-  
-  const diffTime = targetDate.getTime() - today.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  
-  return diffDays;
+
+  if (salary && salary.advanceAmount > 0 && salary.advanceDay) {
+    monthlyDueDates(salary.advanceDay, salary.advanceDayRule, today, end)
+      .filter((due) => !(advanceCredited && isThisMonth(due.referenceMonth)))
+      .forEach((due) => events.push({ date: due.date, label: 'Adiantamento', amount: salary.advanceAmount, kind: 'advance' }));
+  }
+
+  payments.forEach((p) => {
+    getPaymentDueDates(p, today, end).forEach((date) => {
+      events.push({ date, label: p.name, amount: -p.amount, kind: 'payment' });
+    });
+  });
+
+  // Open and unpaid invoices on their due dates, then the installments already scheduled
+  invoices
+    .filter((i) => i.status !== 'paid' && i.remainingAmount > 0 && i.dueDate <= end)
+    .forEach((i) => events.push({
+      date: i.dueDate,
+      label: `Fatura ${formatReferenceMonth(i.referenceMonth)}`,
+      amount: -i.remainingAmount,
+      kind: 'card',
+    }));
+  upcoming
+    .filter((i) => i.dueDate <= end)
+    .forEach((i) => events.push({
+      date: i.dueDate,
+      label: `Fatura ${formatReferenceMonth(i.referenceMonth)}`,
+      amount: -i.total,
+      kind: 'card',
+    }));
+
+  debts.forEach((debt) => {
+    const own = debtPayments.filter((p) => p.debtId === debt.id);
+    const paidInstallments = own.filter((p) => p.kind === 'installment').length;
+
+    buildSchedule(debt, getExtraPayments(own))
+      .filter((row) => row.number > paidInstallments && row.dueDate <= end)
+      .forEach((row) => events.push({
+        date: row.dueDate,
+        label: `${debt.name} - parcela ${row.number}`,
+        amount: -row.payment,
+        kind: 'debt',
+      }));
+  });
+
+  return buildCashFlowForecast(balance.debitBalance, events, today, days);
 }
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import {
+  describeRecurrence,
+  expandRecurrence,
+  isOccurrencePaid,
+  nextOccurrence,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const rule = (changes: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  frequency: 'monthly',
+  interval: 1,
+  startDate: new Date(2026, 0, 31),
+  ...changes,
+});
+
+describe('expandRecurrence', () => {
+  it('falls on the last day of short months', () => {
+    const dates = expandRecurrence(rule(), 31, new Date(2026, 0, 1), new Date(2026, 3, 30));
+    expect(dates.map(day)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+
+  it('skips the first month when its day is before the start date', () => {
+    const dates = expandRecurrence(rule({ startDate: new Date(2026, 0, 20), count: 2 }), 10, new Date(2026, 0, 1), new Date(2026, 11, 31));
+    expect(dates.map(day)).toEqual(['2026-02-10', '2026-03-10']);
+  });
+
+  it('repeats every n weeks on the chosen weekday', () => {
+    // January 1 2026 is a Thursday
+    const dates = expandRecurrence(
+      rule({ frequency: 'weekly', interval: 2, startDate: new Date(2026, 0, 1), weekday: 1 }),
+      1,
+      new Date(2026, 0, 1),
+      new Date(2026, 1, 1)
+    );
+    expect(dates.map(day)).toEqual(['2026-01-05', '2026-01-19']);
+  });
+
+  it('repeats yearly in the given month', () => {
+    const dates = expandRecurrence(
+      rule({ frequency: 'yearly', startDate: new Date(2024, 0, 1), month: 2 }),
+      29,
+      new Date(2024, 0, 1),
+      new Date(2026, 11, 31)
+    );
+    expect(dates.map(day)).toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+  });
+
+  it('stops at until and count', () => {
+    const daily = rule({ frequency: 'daily', interval: 3, startDate: new Date(2026, 0, 1), until: new Date(2026, 0, 10) });
+    expect(expandRecurrence(daily, 1, new Date(2026, 0, 1), new Date(2026, 11, 31)).map(day))
+      .toEqual(['2026-01-01', '2026-01-04', '2026-01-07', '2026-01-10']);
+
+    const counted = rule({ startDate: new Date(2026, 0, 5), count: 3 });
+    expect(expandRecurrence(counted, 5, new Date(2026, 0, 1), new Date(2027, 0, 1)).map(day))
+      .toEqual(['2026-01-05', '2026-02-05', '2026-03-05']);
+  });
+
+  it('counts occurrences before the range towards count', () => {
+    const counted = rule({ startDate: new Date(2025, 0, 5), count: 14 });
+    expect(expandRecurrence(counted, 5, new Date(2026, 0, 1), new Date(2027, 0, 1)).map(day))
+      .toEqual(['2026-01-05', '2026-02-05']);
+  });
+
+  it('respects the limit', () => {
+    expect(expandRecurrence(rule(), 31, new Date(2026, 0, 1), new Date(2030, 0, 1), 2)).toHaveLength(2);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('returns the first occurrence from the given day', () => {
+    expect(day(nextOccurrence(rule(), 31, new Date(2026, 1, 1))!)).toBe('2026-02-28');
+  });
+
+  it('returns null once the rule has ended', () => {
+    expect(nextOccurrence(rule({ count: 1 }), 31, new Date(2026, 1, 1))).toBeNull();
+  });
+});
+
+describe('isOccurrencePaid', () => {
+  it('accepts a payment within the same period', () => {
+    const occurrence = new Date(2026, 2, 10);
+    expect(isOccurrencePaid(rule(), occurrence, new Date(2026, 2, 2))).toBe(true);
+    expect(isOccurrencePaid(rule(), occurrence, new Date(2026, 1, 27))).toBe(false);
+    expect(isOccurrencePaid(rule({ frequency: 'daily' }), occurrence, new Date(2026, 2, 9))).toBe(false);
+    expect(isOccurrencePaid(rule(), occurrence, null)).toBe(false);
+  });
+
+  it('runs weekly periods from Monday to Sunday', () => {
+    const weekly = rule({ frequency: 'weekly', weekday: 1 });
+    // Paid on Sunday March 15 2026: the Monday of that week, not the next one
+    expect(isOccurrencePaid(weekly, new Date(2026, 2, 9), new Date(2026, 2, 15))).toBe(true);
+    expect(isOccurrencePaid(weekly, new Date(2026, 2, 16), new Date(2026, 2, 15))).toBe(false);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes the rule in Portuguese', () => {
+    expect(describeRecurrence(rule(), 31)).toBe('Todo dia 31');
+    expect(describeRecurrence(rule({ interval: 2, count: 6 }), 10)).toBe('A cada 2 meses, dia 10 · 6x');
+    expect(describeRecurrence(rule({ frequency: 'weekly', weekday: 1 }), 1)).toBe('Toda semana (segunda)');
+    expect(describeRecurrence(rule({ frequency: 'yearly', month: 12 }), 25)).toBe('Todo ano, 25 de dezembro');
+    expect(describeRecurrence(rule({ count: 1 }), 31)).toBe('31/01/2026');
+  });
+});
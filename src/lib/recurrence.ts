@@ -0,0 +1,144 @@
+import {
+  addDays,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  isSameDay,
+  isSameMonth,
+  isSameWeek,
+  isSameYear,
+  startOfDay,
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { clampedDate } from '@/lib/helpers';
+
+// RRULE-like recurrence: every `interval` days/weeks/months/years from startDate, ending after
+// `count` occurrences or on `until`. Monthly and yearly rules fall on the payment's day of the
+// month (short months use their last day); weekly rules on `weekday`.
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  weekday?: number | null; // Weekly: 0 = Sunday
+  month?: number | null; // Yearly: 1-12
+  count?: number | null;
+  until?: Date | null;
+}
+
+const WEEKDAY_NAMES = ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado'];
+
+// The k-th candidate date counting from the start period; only the first one can fall before startDate
+function candidate(rule: RecurrenceRule, day: number, k: number): Date {
+  const start = startOfDay(rule.startDate);
+  const step = Math.max(1, rule.interval) * k;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(start, step);
+    case 'weekly': {
+      const weekday = rule.weekday ?? start.getDay();
+      return addDays(start, ((weekday - start.getDay() + 7) % 7) + step * 7);
+    }
+    case 'monthly':
+      return clampedDate(start.getFullYear(), start.getMonth() + step, day);
+    case 'yearly':
+      return clampedDate(start.getFullYear() + step, (rule.month ?? start.getMonth() + 1) - 1, day);
+  }
+}
+
+// First k worth looking at for dates from `from` on, so old rules don't replay their whole history
+function firstCandidateIndex(rule: RecurrenceRule, from: Date): number {
+  const start = startOfDay(rule.startDate);
+  const interval = Math.max(1, rule.interval);
+  if (from <= start) return 0;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return Math.floor(differenceInCalendarDays(from, start) / interval);
+    case 'weekly':
+      return Math.max(0, Math.floor(differenceInCalendarDays(from, start) / (7 * interval)) - 1);
+    case 'monthly': {
+      const months = (from.getFullYear() - start.getFullYear()) * 12 + from.getMonth() - start.getMonth();
+      return Math.max(0, Math.floor(months / interval) - 1);
+    }
+    case 'yearly':
+      return Math.max(0, Math.floor((from.getFullYear() - start.getFullYear()) / interval) - 1);
+  }
+}
+
+// Occurrences between from and to (inclusive), at most `limit` of them
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  day: number,
+  from: Date,
+  to: Date,
+  limit: number = Infinity
+): Date[] {
+  const start = startOfDay(rule.startDate);
+  const rangeStart = startOfDay(from);
+  const until = rule.until ? startOfDay(rule.until) : null;
+  // When the first candidate is before the start it doesn't count towards `count`
+  const offset = candidate(rule, day, 0) < start ? 1 : 0;
+  const dates: Date[] = [];
+
+  for (let k = firstCandidateIndex(rule, rangeStart); dates.length < limit; k++) {
+    const date = candidate(rule, day, k);
+    if (date > to || (until && date > until)) break;
+    if (rule.count && k - offset >= rule.count) break;
+    if (date >= start && date >= rangeStart) dates.push(date);
+  }
+
+  return dates;
+}
+
+export function nextOccurrence(rule: RecurrenceRule, day: number, from: Date): Date | null {
+  return expandRecurrence(rule, day, from, addYears(from, 10), 1)[0] || null;
+}
+
+// A payment confirmed within the occurrence's period (same day, week, month or year) covers it,
+// so paying a few days early or late doesn't leave it due. Weeks run Monday to Sunday.
+export function isOccurrencePaid(rule: RecurrenceRule, occurrence: Date, lastPaidAt?: Date | null): boolean {
+  if (!lastPaidAt) return false;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return isSameDay(occurrence, lastPaidAt);
+    case 'weekly':
+      return isSameWeek(occurrence, lastPaidAt, { weekStartsOn: 1 });
+    case 'monthly':
+      return isSameMonth(occurrence, lastPaidAt);
+    case 'yearly':
+      return isSameYear(occurrence, lastPaidAt);
+  }
+}
+
+export function describeRecurrence(rule: RecurrenceRule, day: number): string {
+  const every = rule.interval > 1;
+  let text: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      text = every ? `A cada ${rule.interval} dias` : 'Todo dia';
+      break;
+    case 'weekly': {
+      const weekday = WEEKDAY_NAMES[rule.weekday ?? rule.startDate.getDay()];
+      text = every ? `A cada ${rule.interval} semanas (${weekday})` : `Toda semana (${weekday})`;
+      break;
+    }
+    case 'monthly':
+      if (rule.count === 1) return format(clampedDate(rule.startDate.getFullYear(), rule.startDate.getMonth(), day), 'dd/MM/yyyy');
+      text = every ? `A cada ${rule.interval} meses, dia ${day}` : `Todo dia ${day}`;
+      break;
+    case 'yearly': {
+      const month = format(new Date(2000, (rule.month ?? rule.startDate.getMonth() + 1) - 1, 1), 'MMMM', { locale: ptBR });
+      text = every ? `A cada ${rule.interval} anos, ${day} de ${month}` : `Todo ano, ${day} de ${month}`;
+      break;
+    }
+  }
+
+  if (rule.count) text += ` · ${rule.count}x`;
+  if (rule.until) text += ` · até ${format(rule.until, 'dd/MM/yyyy')}`;
+  return text;
+}
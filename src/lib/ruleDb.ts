@@ -0,0 +1,172 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CategoryType } from '@/lib/categoryDb';
+
+// "Description contains X and amount = Y -> category, tags"; lower priority runs first
+export interface CategorizationRule {
+  id: string;
+  userId: number;
+  descriptionContains: string | null;
+  amount: number | null;
+  categoryId: string;
+  category: string;
+  categoryType: CategoryType;
+  tags: string[];
+  priority: number;
+  isActive: boolean;
+}
+
+export type RuleInput = Pick<CategorizationRule, 'descriptionContains' | 'amount' | 'categoryId' | 'tags'>;
+
+type RuleRow = {
+  id: string;
+  user_matricula: number;
+  description_contains: string | null;
+  amount: number | null;
+  category_id: string;
+  tags: string[];
+  priority: number;
+  is_active: boolean;
+  categories: { name: string; type: string } | null;
+};
+
+function mapRule(r: RuleRow): CategorizationRule {
+  return {
+    id: r.id,
+    userId: r.user_matricula,
+    descriptionContains: r.description_contains,
+    amount: r.amount === null ? null : Number(r.amount),
+    categoryId: r.category_id,
+    category: r.categories?.name || 'Outros',
+    categoryType: r.categories?.type === 'income' ? 'income' : 'expense',
+    tags: r.tags || [],
+    priority: r.priority,
+    isActive: r.is_active,
+  };
+}
+
+// Same matching as match_categorization_rule, for previews before anything is saved
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  transaction: { type: CategoryType; amount: number; description: string }
+): CategorizationRule | null {
+  const description = transaction.description.toLowerCase();
+
+  return rules.find((rule) => {
+    const contains = rule.descriptionContains?.trim().toLowerCase();
+    return rule.isActive
+      && rule.categoryType === transaction.type
+      && (!contains || description.includes(contains))
+      && (rule.amount === null || Math.round(rule.amount * 100) === Math.round(transaction.amount * 100));
+  }) || null;
+}
+
+export async function getRules(userId: number): Promise<CategorizationRule[]> {
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .select('*, categories(name, type)')
+    .eq('user_matricula', userId)
+    .order('priority')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching categorization rules:', error);
+    return [];
+  }
+
+  return (data || []).map(mapRule);
+}
+
+// New rules go to the end of the list, or ahead of every other rule with `first`
+export async function addRule(
+  userId: number,
+  rule: RuleInput,
+  options: { first?: boolean } = {}
+): Promise<string | null> {
+  const { data: edge } = await supabase
+    .from('categorization_rules')
+    .select('priority')
+    .eq('user_matricula', userId)
+    .order('priority', { ascending: !!options.first })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .insert({
+      user_matricula: userId,
+      description_contains: rule.descriptionContains?.trim() || null,
+      amount: rule.amount,
+      category_id: rule.categoryId,
+      tags: rule.tags,
+      priority: options.first ? (edge?.priority ?? 1) - 1 : (edge?.priority ?? -1) + 1,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error adding categorization rule:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+export async function updateRule(
+  id: string,
+  updates: Partial<RuleInput & Pick<CategorizationRule, 'isActive' | 'priority'>>
+): Promise<boolean> {
+  const updateData: Record<string, unknown> = {};
+  if (updates.descriptionContains !== undefined) updateData.description_contains = updates.descriptionContains?.trim() || null;
+  if (updates.amount !== undefined) updateData.amount = updates.amount;
+  if (updates.categoryId !== undefined) updateData.category_id = updates.categoryId;
+  if (updates.tags !== undefined) updateData.tags = updates.tags;
+  if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
+  if (updates.priority !== undefined) updateData.priority = updates.priority;
+
+  const { error } = await supabase
+    .from('categorization_rules')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating categorization rule:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function deleteRule(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('categorization_rules')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting categorization rule:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Rewrites priorities to match the given order
+export async function reorderRules(orderedIds: string[]): Promise<boolean> {
+  const results = await Promise.all(orderedIds.map((id, priority) => updateRule(id, { priority })));
+  return results.every(Boolean);
+}
+
+// Applies the current rules to past transactions; returns how many changed
+export async function rerunRules(userId: number, from?: Date): Promise<number | null> {
+  const { data, error } = await supabase.rpc('rerun_categorization_rules', {
+    _matricula: userId,
+    _from: from?.toISOString().split('T')[0],
+  });
+
+  if (error) {
+    console.error('Error re-running categorization rules:', error);
+    return null;
+  }
+
+  return data;
+}
@@ -0,0 +1,322 @@
+// Statement export - CSV, OFX and a printable "extrato" for a chosen period
+// Balances follow the checking account (Saldo Débito): credit card purchases don't move it
+
+import { addDays, format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  calculateBalance,
+  getPendingTransactions,
+  getTransactionsPage,
+  type Transaction,
+  type TransactionCursor,
+} from '@/lib/db';
+
+export type StatementExportFormat = 'csv' | 'ofx' | 'pdf';
+
+export interface StatementLine {
+  transaction: Transaction;
+  balance: number; // Account balance right after this transaction
+}
+
+export interface StatementReport {
+  holderName: string;
+  userId: number;
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  closingBalance: number;
+  totalIncome: number;
+  totalExpense: number;
+  lines: StatementLine[];
+}
+
+const EXPORT_PAGE_SIZE = 200;
+
+function accountEffect(t: Transaction): number {
+  if (t.type === 'income') return t.amount;
+  return t.paymentMethod === 'credit' ? 0 : -t.amount;
+}
+
+// Null when a page fails, so a statement is never built from part of the period
+async function getPeriodTransactions(userId: number, from: Date, to: Date): Promise<Transaction[] | null> {
+  const transactions: Transaction[] = [];
+  let cursor: TransactionCursor | null = null;
+
+  do {
+    const page = await getTransactionsPage(userId, { filters: { from, to }, cursor, limit: EXPORT_PAGE_SIZE });
+    if (page.failed) return null;
+    transactions.push(...page.transactions);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return transactions;
+}
+
+/**
+ * Builds the statement for [from, to]. The running balance is computed over every
+ * transaction in the period; `include` only decides which lines are listed.
+ * Opening balance and lines both go by transaction time (created_at) and both count
+ * inserts still waiting for sync, so nothing is left out or counted twice at the boundary.
+ */
+export async function buildStatementReport(
+  profile: { userId: number; fullName: string; initialBalance: number },
+  range: { from: Date; to: Date },
+  include: (t: Transaction) => boolean = () => true
+): Promise<StatementReport | null> {
+  const from = new Date(range.from.getFullYear(), range.from.getMonth(), range.from.getDate());
+  const to = new Date(range.to.getFullYear(), range.to.getMonth(), range.to.getDate(), 23, 59, 59, 999);
+
+  const [summary, pendingBefore, transactions] = await Promise.all([
+    calculateBalance(profile.userId, profile.initialBalance, { to: new Date(from.getTime() - 1) }),
+    getPendingTransactions(profile.userId, { to: addDays(from, -1) }),
+    getPeriodTransactions(profile.userId, from, to),
+  ]);
+  if (!transactions) return null;
+
+  const openingBalance = pendingBefore.reduce((sum, t) => sum + accountEffect(t), summary.debitBalance);
+  let balance = openingBalance;
+  const lines: StatementLine[] = [];
+
+  [...transactions]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .forEach((transaction) => {
+      balance += accountEffect(transaction);
+      if (include(transaction)) lines.push({ transaction, balance });
+    });
+
+  return {
+    holderName: profile.fullName,
+    userId: profile.userId,
+    from,
+    to,
+    openingBalance,
+    closingBalance: balance,
+    totalIncome: lines.filter((l) => l.transaction.type === 'income').reduce((sum, l) => sum + l.transaction.amount, 0),
+    totalExpense: lines.filter((l) => l.transaction.type === 'expense').reduce((sum, l) => sum + l.transaction.amount, 0),
+    lines,
+  };
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('pt-BR', {
+  style: 'currency',
+  currency: 'BRL',
+}).format(value);
+
+// Plain number with decimal comma, as spreadsheets in pt-BR expect
+const formatDecimal = (value: number) => value.toFixed(2).replace('.', ',');
+
+function describe(t: Transaction): string {
+  return t.description || t.category;
+}
+
+function getFileName(report: StatementReport, extension: string): string {
+  return `extrato_${format(report.from, 'yyyy-MM-dd')}_${format(report.to, 'yyyy-MM-dd')}.${extension}`;
+}
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+// ---------- CSV ----------
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[;"\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toStatementCsv(report: StatementReport): string {
+  const headers = ['Data', 'Descrição', 'Categoria', 'Tipo', 'Meio', 'Valor', 'Saldo'];
+  const rows = report.lines.map(({ transaction: t, balance }) => [
+    format(t.date, 'dd/MM/yyyy'),
+    describe(t),
+    t.splits ? t.splits.map((s) => s.category).join(' + ') : t.category,
+    t.type === 'income' ? 'Entrada' : 'Saída',
+    t.paymentMethod === 'credit' ? 'Crédito' : 'Débito',
+    formatDecimal(t.type === 'income' ? t.amount : -t.amount),
+    formatDecimal(balance),
+  ]);
+
+  return [
+    headers,
+    [format(report.from, 'dd/MM/yyyy'), 'Saldo anterior', '', '', '', '', formatDecimal(report.openingBalance)],
+    ...rows,
+    [format(report.to, 'dd/MM/yyyy'), 'Saldo final', '', '', '', '', formatDecimal(report.closingBalance)],
+  ].map((row) => row.map(csvField).join(';')).join('\n');
+}
+
+// ---------- OFX ----------
+
+function ofxDate(date: Date): string {
+  return `${format(date, 'yyyyMMddHHmmss')}[-3:BRT]`;
+}
+
+// The header declares US-ASCII, so accents are dropped ("Alimentação" -> "Alimentacao")
+function ofxText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, ' ')
+    .replace(/[<>&]/g, ' ')
+    .slice(0, 255);
+}
+
+// OFX 1.02 (SGML), the version Brazilian banks export and finance tools import.
+// It describes the checking account only, so card purchases are left out like in LEDGERBAL.
+export function toStatementOfx(report: StatementReport): string {
+  const transactions = report.lines
+    .filter(({ transaction: t }) => accountEffect(t) !== 0)
+    .map(({ transaction: t }) => [
+      '<STMTTRN>',
+      `<TRNTYPE>${t.type === 'income' ? 'CREDIT' : 'DEBIT'}`,
+      `<DTPOSTED>${ofxDate(t.date)}`,
+      `<TRNAMT>${(t.type === 'income' ? t.amount : -t.amount).toFixed(2)}`,
+      `<FITID>${t.id}`,
+      `<MEMO>${ofxText(describe(t))}`,
+      '</STMTTRN>',
+    ].join('\n'));
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${ofxDate(new Date())}`,
+    '<LANGUAGE>POR',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    '<CURDEF>BRL',
+    `<BANKACCTFROM><BANKID>INOVABANK<ACCTID>${report.userId}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(report.from)}`,
+    `<DTEND>${ofxDate(report.to)}`,
+    ...transactions,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${report.closingBalance.toFixed(2)}<DTASOF>${ofxDate(report.to)}</LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+  ].join('\n');
+}
+
+// ---------- Printable extrato ----------
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function toStatementHtml(report: StatementReport): string {
+  const period = `${format(report.from, 'dd/MM/yyyy')} a ${format(report.to, 'dd/MM/yyyy')}`;
+  const rows = report.lines.map(({ transaction: t, balance }) => `
+    <tr>
+      <td>${format(t.date, 'dd/MM/yyyy')}</td>
+      <td>${escapeHtml(describe(t))}${t.paymentMethod === 'credit' ? ' <span class="muted">(crédito)</span>' : ''}</td>
+      <td class="num ${t.type === 'income' ? 'in' : 'out'}">${formatCurrency(t.type === 'income' ? t.amount : -t.amount)}</td>
+      <td class="num">${formatCurrency(balance)}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Extrato ${period}</title>
+<style>
+  body { font-family: Arial, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .muted { color: #64748b; }
+  .header { display: flex; justify-content: space-between; border-bottom: 2px solid #0f172a; padding-bottom: 12px; margin-bottom: 16px; }
+  .summary { display: flex; gap: 24px; margin-bottom: 16px; }
+  .summary div { flex: 1; border: 1px solid #e2e8f0; border-radius: 6px; padding: 8px; }
+  .summary strong { display: block; font-size: 14px; margin-top: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 4px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+  th { background: #f1f5f9; }
+  .num { text-align: right; white-space: nowrap; }
+  .in { color: #047857; }
+  .out { color: #b91c1c; }
+  .balance-row td { font-weight: bold; background: #f8fafc; }
+  footer { margin-top: 24px; font-size: 10px; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Extrato de conta</h1>
+      <div>${escapeHtml(report.holderName)} · Matrícula ${report.userId}</div>
+      <div class="muted">Período: ${period}</div>
+    </div>
+    <div class="muted" style="text-align:right">
+      InovaBank<br>
+      Emitido em ${format(new Date(), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+    </div>
+  </div>
+  <div class="summary">
+    <div><span class="muted">Saldo anterior</span><strong>${formatCurrency(report.openingBalance)}</strong></div>
+    <div><span class="muted">Entradas</span><strong class="in">${formatCurrency(report.totalIncome)}</strong></div>
+    <div><span class="muted">Saídas</span><strong class="out">${formatCurrency(report.totalExpense)}</strong></div>
+    <div><span class="muted">Saldo final</span><strong>${formatCurrency(report.closingBalance)}</strong></div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Data</th><th>Descrição</th><th class="num">Valor</th><th class="num">Saldo</th></tr>
+    </thead>
+    <tbody>
+      <tr class="balance-row"><td>${format(report.from, 'dd/MM/yyyy')}</td><td>Saldo anterior</td><td></td><td class="num">${formatCurrency(report.openingBalance)}</td></tr>
+      ${rows}
+      <tr class="balance-row"><td>${format(report.to, 'dd/MM/yyyy')}</td><td>Saldo final</td><td></td><td class="num">${formatCurrency(report.closingBalance)}</td></tr>
+    </tbody>
+  </table>
+  <footer class="muted">
+    Saldo da conta corrente. Compras no cartão de crédito aparecem no extrato, mas não alteram o saldo.
+  </footer>
+</body>
+</html>`;
+}
+
+/**
+ * Downloads the CSV or OFX file, or opens the extrato in a new window and the
+ * browser's print dialog, where it can be saved as PDF.
+ * Returns false when the print window was blocked.
+ */
+export function exportStatement(report: StatementReport, exportFormat: StatementExportFormat): boolean {
+  if (exportFormat === 'csv') {
+    // BOM so Excel opens the accents correctly
+    downloadFile(`\uFEFF${toStatementCsv(report)}`, getFileName(report, 'csv'), 'text/csv;charset=utf-8');
+    return true;
+  }
+
+  if (exportFormat === 'ofx') {
+    downloadFile(toStatementOfx(report), getFileName(report, 'ofx'), 'application/x-ofx');
+    return true;
+  }
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(toStatementHtml(report));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
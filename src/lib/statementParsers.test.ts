@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CSV_LAYOUTS,
+  customCsvLayout,
+  detectCsvDelimiter,
+  detectCsvLayout,
+  getCsvColumns,
+  getDuplicateKey,
+  isOfx,
+  parseCsv,
+  parseOfx,
+  parseStatementAmount,
+  splitCsvLine,
+  suggestCategory,
+} from '@/lib/statementParsers';
+import { toDateColumn } from '@/lib/helpers';
+import nubankConta from '@/lib/__fixtures__/statements/nubank-conta.csv?raw';
+import itau from '@/lib/__fixtures__/statements/itau.csv?raw';
+import bradesco from '@/lib/__fixtures__/statements/bradesco.csv?raw';
+import outroBanco from '@/lib/__fixtures__/statements/outro-banco.csv?raw';
+import contaCorrente from '@/lib/__fixtures__/statements/conta-corrente.ofx?raw';
+import cartao from '@/lib/__fixtures__/statements/cartao.ofx?raw';
+
+const layout = (id: string) => CSV_LAYOUTS.find((l) => l.id === id)!;
+
+describe('parseStatementAmount', () => {
+  it('reads Brazilian and US formats', () => {
+    expect(parseStatementAmount('1.234,56', ',')).toBe(1234.56);
+    expect(parseStatementAmount('1,234.56', '.')).toBe(1234.56);
+    expect(parseStatementAmount('-R$ 10,00', ',')).toBe(-10);
+    expect(parseStatementAmount('(10,00)', ',')).toBe(-10);
+    expect(parseStatementAmount('10,00-', ',')).toBe(-10);
+  });
+
+  it('returns null for empty or invalid values', () => {
+    expect(parseStatementAmount('')).toBeNull();
+    expect(parseStatementAmount('abc')).toBeNull();
+  });
+});
+
+describe('splitCsvLine', () => {
+  it('keeps quoted delimiters and escaped quotes', () => {
+    expect(splitCsvLine('a;"b;c";"d ""e"""', ';')).toEqual(['a', 'b;c', 'd "e"']);
+  });
+});
+
+describe('parseOfx', () => {
+  it('parses OFX 1.x with decimal commas and namespaces FITIDs by bank and account', () => {
+    expect(isOfx(contaCorrente)).toBe(true);
+    const entries = parseOfx(contaCorrente);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      externalId: 'ofx:0341:12345-6:202601050001',
+      amount: 4500,
+      type: 'income',
+      paymentMethod: 'debit',
+      description: 'SALARIO EMPRESA',
+    });
+    expect(toDateColumn(entries[0].date)).toBe('2026-01-05');
+    expect(entries[1]).toMatchObject({
+      amount: 59.9,
+      type: 'expense',
+      description: 'NETFLIX - Assinatura mensal',
+    });
+  });
+
+  it('parses OFX 2.x card statements as credit', () => {
+    const entries = parseOfx(cartao);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      externalId: 'ofx:5555********1234:202601060001',
+      amount: 120,
+      type: 'expense',
+      paymentMethod: 'credit',
+      description: 'AMAZON MARKETPLACE',
+    });
+  });
+
+  it('keeps equal FITIDs from different accounts apart', () => {
+    const [, netflix] = parseOfx(contaCorrente);
+    const [amazon] = parseOfx(cartao);
+    expect(netflix.externalId).not.toBe(amazon.externalId);
+  });
+});
+
+describe('parseCsv', () => {
+  it('detects the known layouts', () => {
+    expect(isOfx(nubankConta)).toBe(false);
+    expect(detectCsvLayout(nubankConta)?.id).toBe('nubank-conta');
+    expect(detectCsvLayout(itau)?.id).toBe('itau');
+    expect(detectCsvLayout(bradesco)?.id).toBe('bradesco');
+    expect(detectCsvLayout(outroBanco)).toBeNull();
+  });
+
+  it('parses Nubank with the layout-prefixed identifier', () => {
+    const entries = parseCsv(nubankConta, layout('nubank-conta'));
+
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toMatchObject({
+      externalId: 'nubank-conta:6958a1c2-0f3e-4b6a-9d1e-2a7c5b8e9f01',
+      amount: 4500,
+      type: 'income',
+    });
+    expect(entries[2]).toMatchObject({
+      amount: 1250,
+      type: 'expense',
+      description: 'Pagamento de boleto - ALUGUEL, APTO 12',
+    });
+  });
+
+  it('skips the lines before the header and the footer lines', () => {
+    const entries = parseCsv(itau, layout('itau'));
+
+    expect(entries.map((e) => [toDateColumn(e.date), e.type, e.amount])).toEqual([
+      ['2026-01-05', 'income', 1234.56],
+      ['2026-01-06', 'expense', 25.9],
+    ]);
+  });
+
+  it('combines separate credit and debit columns', () => {
+    const entries = parseCsv(bradesco, layout('bradesco'));
+
+    expect(entries.map((e) => [e.type, e.amount, e.description])).toEqual([
+      ['income', 5000, 'SALARIO'],
+      ['expense', 89.9, 'DROGARIA SAO PAULO'],
+    ]);
+  });
+
+  it('parses files with a user-defined column mapping', () => {
+    const delimiter = detectCsvDelimiter(outroBanco);
+    expect(delimiter).toBe(';');
+    expect(getCsvColumns(outroBanco, delimiter)).toEqual(['Lançado em', 'Estabelecimento', 'Total']);
+
+    const entries = parseCsv(outroBanco, customCsvLayout({
+      delimiter,
+      decimalSeparator: ',',
+      dateFormat: 'yyyy-MM-dd',
+      dateColumn: 'Lançado em',
+      descriptionColumn: 'Estabelecimento',
+      amountColumn: 'Total',
+      positiveIsExpense: true,
+    }));
+
+    expect(entries.map((e) => [toDateColumn(e.date), e.type, e.amount, e.paymentMethod])).toEqual([
+      ['2026-03-01', 'expense', 18.5, 'credit'],
+      ['2026-03-02', 'income', 40, 'credit'],
+    ]);
+  });
+});
+
+describe('preview helpers', () => {
+  it('suggests categories by keyword and type', () => {
+    expect(suggestCategory({ description: 'UBER *TRIP', type: 'expense' })).toBe('Transporte');
+    expect(suggestCategory({ description: 'Salário', type: 'income' })).toBe('Salário');
+    expect(suggestCategory({ description: 'UBER *TRIP', type: 'income' })).toBe('Outros');
+  });
+
+  it('builds the same duplicate key regardless of case and accents', () => {
+    const a = getDuplicateKey({ type: 'expense', amount: 10.1, date: '2026-01-05', description: 'Padaria São João' });
+    const b = getDuplicateKey({ type: 'expense', amount: 10.10000001, date: '2026-01-05', description: 'PADARIA SAO  JOAO' });
+    expect(a).toBe(b);
+  });
+});
@@ -0,0 +1,391 @@
+// Bank statement parsers - OFX and CSV exports into transaction entries
+// Pure functions only: no Supabase or browser APIs, so they can run against sample files
+
+export interface StatementEntry {
+  externalId?: string; // OFX FITID or the bank's own identifier column, prefixed with the account or layout
+  amount: number; // Always positive, the sign goes into type
+  type: 'income' | 'expense';
+  paymentMethod: 'debit' | 'credit';
+  description: string;
+  date: Date;
+}
+
+export interface CsvLayout {
+  id: string;
+  label: string;
+  delimiter: ',' | ';';
+  decimalSeparator: ',' | '.';
+  dateFormat: 'dd/MM/yyyy' | 'yyyy-MM-dd';
+  dateColumn: string;
+  descriptionColumns: string[]; // Joined with " - " when more than one has text
+  amountColumn?: string; // Signed amount
+  creditColumn?: string; // Or separate credit and debit columns
+  debitColumn?: string;
+  idColumn?: string;
+  // Card statements list purchases as positive amounts
+  positiveIsExpense?: boolean;
+  paymentMethod: 'debit' | 'credit';
+}
+
+// Columns picked by the user when the file matches none of the known layouts
+export interface CsvColumnMapping {
+  delimiter: ',' | ';';
+  decimalSeparator: ',' | '.';
+  dateFormat: 'dd/MM/yyyy' | 'yyyy-MM-dd';
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn: string;
+  positiveIsExpense: boolean;
+}
+
+export const CUSTOM_CSV_LAYOUT_ID = 'custom';
+
+// Column names are matched case- and accent-insensitively
+export const CSV_LAYOUTS: CsvLayout[] = [
+  {
+    id: 'nubank-conta',
+    label: 'Nubank (conta)',
+    delimiter: ',',
+    decimalSeparator: '.',
+    dateFormat: 'dd/MM/yyyy',
+    dateColumn: 'Data',
+    descriptionColumns: ['Descrição'],
+    amountColumn: 'Valor',
+    idColumn: 'Identificador',
+    paymentMethod: 'debit',
+  },
+  {
+    id: 'nubank-cartao',
+    label: 'Nubank (cartão)',
+    delimiter: ',',
+    decimalSeparator: '.',
+    dateFormat: 'yyyy-MM-dd',
+    dateColumn: 'date',
+    descriptionColumns: ['title'],
+    amountColumn: 'amount',
+    positiveIsExpense: true,
+    paymentMethod: 'credit',
+  },
+  {
+    id: 'itau',
+    label: 'Itaú',
+    delimiter: ';',
+    decimalSeparator: ',',
+    dateFormat: 'dd/MM/yyyy',
+    dateColumn: 'data',
+    descriptionColumns: ['lançamento'],
+    amountColumn: 'valor',
+    paymentMethod: 'debit',
+  },
+  {
+    id: 'inter',
+    label: 'Inter',
+    delimiter: ';',
+    decimalSeparator: ',',
+    dateFormat: 'dd/MM/yyyy',
+    dateColumn: 'Data Lançamento',
+    descriptionColumns: ['Histórico', 'Descrição'],
+    amountColumn: 'Valor',
+    paymentMethod: 'debit',
+  },
+  {
+    id: 'bradesco',
+    label: 'Bradesco',
+    delimiter: ';',
+    decimalSeparator: ',',
+    dateFormat: 'dd/MM/yyyy',
+    dateColumn: 'Data',
+    descriptionColumns: ['Histórico'],
+    creditColumn: 'Crédito (R$)',
+    debitColumn: 'Débito (R$)',
+    paymentMethod: 'debit',
+  },
+];
+
+// Keywords checked against the description to pre-fill the category in the preview
+const CATEGORY_KEYWORDS: { category: string; type: 'income' | 'expense'; keywords: string[] }[] = [
+  { category: 'Salário', type: 'income', keywords: ['salario', 'folha', 'pagto sal', 'vencimento', 'adiantamento'] },
+  { category: 'Investimentos', type: 'income', keywords: ['rendimento', 'resgate', 'dividendo', 'juros'] },
+  { category: 'Alimentação', type: 'expense', keywords: ['ifood', 'restaurante', 'padaria', 'mercado', 'supermercado', 'lanchonete', 'rappi', 'acougue'] },
+  { category: 'Transporte', type: 'expense', keywords: ['uber', '99app', '99 pop', 'posto', 'combustivel', 'estacionamento', 'metro', 'pedagio', 'sem parar'] },
+  { category: 'Lazer', type: 'expense', keywords: ['netflix', 'spotify', 'cinema', 'ingresso', 'steam', 'disney', 'prime video'] },
+  { category: 'Compras', type: 'expense', keywords: ['amazon', 'mercado livre', 'mercadolivre', 'shopee', 'magalu', 'americanas', 'aliexpress'] },
+  { category: 'Saúde', type: 'expense', keywords: ['farmacia', 'drogaria', 'droga raia', 'hospital', 'clinica', 'laboratorio', 'unimed'] },
+  { category: 'Educação', type: 'expense', keywords: ['escola', 'faculdade', 'curso', 'udemy', 'livraria', 'mensalidade'] },
+  { category: 'Contas', type: 'expense', keywords: ['energia', 'enel', 'cemig', 'sabesp', 'agua', 'vivo', 'claro', 'tim ', 'internet', 'aluguel', 'condominio', 'boleto'] },
+];
+
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Accepts "1.234,56", "1234.56", "-R$ 10,00" and "(10,00)"
+export function parseStatementAmount(value: string, decimalSeparator: ',' | '.' = '.'): number | null {
+  let text = value.replace(/R\$|\s/g, '');
+  if (!text) return null;
+
+  const negative = text.startsWith('-') || text.endsWith('-') || /^\(.*\)$/.test(text);
+  text = text.replace(/[-()+]/g, '');
+
+  text = decimalSeparator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// Dates are built at local noon so converting to UTC never moves them to another day
+function toLocalDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day, 12);
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+function parseStatementDate(value: string, dateFormat: CsvLayout['dateFormat']): Date | null {
+  const match = dateFormat === 'dd/MM/yyyy'
+    ? value.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})/)
+    : value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+
+  return dateFormat === 'dd/MM/yyyy'
+    ? toLocalDate(Number(match[3]), Number(match[2]), Number(match[1]))
+    : toLocalDate(Number(match[1]), Number(match[2]), Number(match[3]));
+}
+
+function toEntry(
+  signedAmount: number,
+  fields: Omit<StatementEntry, 'amount' | 'type'>
+): StatementEntry | null {
+  if (signedAmount === 0) return null;
+  return {
+    ...fields,
+    amount: Math.round(Math.abs(signedAmount) * 100) / 100,
+    type: signedAmount > 0 ? 'income' : 'expense',
+  };
+}
+
+// ---------- OFX ----------
+
+// Works for both OFX 1.x (SGML, leaf tags not closed) and 2.x (XML)
+function readOfxTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value || undefined;
+}
+
+// DTPOSTED looks like 20250115, 20250115120000 or 20250115120000[-3:BRT]
+function parseOfxDate(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? toLocalDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+export function isOfx(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+}
+
+// FITIDs are only unique per account, so the id is prefixed with BANKID/ACCTID
+function ofxExternalId(statement: string, fitId: string | undefined): string | undefined {
+  if (!fitId) return undefined;
+  const account = [readOfxTag(statement, 'BANKID'), readOfxTag(statement, 'ACCTID')].filter(Boolean);
+  return ['ofx', ...account, fitId].join(':');
+}
+
+export function parseOfx(text: string): StatementEntry[] {
+  // One file can carry several accounts; credit card statements come in CCSTMTRS instead of STMTRS
+  const statements = text.match(/<(CC)?STMTRS>[\s\S]*?<\/(CC)?STMTRS>/gi) || [text];
+
+  return statements.flatMap((statement) => {
+    const paymentMethod = /^<CCSTMTRS>/i.test(statement) ? 'credit' : 'debit';
+    const blocks = statement.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+    return blocks.flatMap((block) => {
+      const rawAmount = readOfxTag(block, 'TRNAMT');
+      // Some Brazilian banks write TRNAMT with a decimal comma
+      const amount = rawAmount ? parseStatementAmount(rawAmount, rawAmount.includes(',') && !rawAmount.includes('.') ? ',' : '.') : null;
+      const date = parseOfxDate(readOfxTag(block, 'DTPOSTED'));
+      if (amount === null || !date) return [];
+
+      const name = readOfxTag(block, 'NAME');
+      const memo = readOfxTag(block, 'MEMO');
+      const description = [name, memo !== name ? memo : undefined].filter(Boolean).join(' - ');
+
+      const entry = toEntry(amount, {
+        externalId: ofxExternalId(statement, readOfxTag(block, 'FITID')),
+        paymentMethod,
+        description: description || 'Transação importada',
+        date,
+      });
+      return entry ? [entry] : [];
+    });
+  });
+}
+
+// ---------- CSV ----------
+
+// Splits one CSV line honoring quoted fields ("a;b" stays one column, "" is an escaped quote)
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+}
+
+function getCsvLines(text: string): string[] {
+  return text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+}
+
+// Bank exports often have a few lines (account, period) before the header row
+const HEADER_SEARCH_LINES = 20;
+
+function findHeaderRow(lines: string[], layout: CsvLayout): { index: number; columns: string[] } | null {
+  const dateColumn = normalizeText(layout.dateColumn);
+
+  for (let i = 0; i < Math.min(lines.length, HEADER_SEARCH_LINES); i++) {
+    const columns = splitCsvLine(lines[i], layout.delimiter).map(normalizeText);
+    if (columns.includes(dateColumn)) return { index: i, columns };
+  }
+
+  return null;
+}
+
+export function detectCsvLayout(text: string): CsvLayout | null {
+  const lines = getCsvLines(text);
+
+  // The layout matching the most known columns wins (Nubank and Inter both have "Descrição")
+  let best: { layout: CsvLayout; score: number } | null = null;
+  for (const layout of CSV_LAYOUTS) {
+    const header = findHeaderRow(lines, layout);
+    if (!header) continue;
+
+    const expected = [
+      layout.dateColumn,
+      ...layout.descriptionColumns,
+      layout.amountColumn,
+      layout.creditColumn,
+      layout.debitColumn,
+      layout.idColumn,
+    ].filter((c): c is string => !!c).map(normalizeText);
+    const score = expected.filter((c) => header.columns.includes(c)).length;
+
+    if (score === expected.length && (!best || score > best.score)) {
+      best = { layout, score };
+    }
+  }
+
+  return best?.layout || null;
+}
+
+export function detectCsvDelimiter(text: string): ',' | ';' {
+  const sample = getCsvLines(text).slice(0, HEADER_SEARCH_LINES);
+  const count = (delimiter: string) => sample.reduce((sum, line) => sum + splitCsvLine(line, delimiter).length - 1, 0);
+  return count(';') >= count(',') ? ';' : ',';
+}
+
+// Column names as written in the file, for the user to map; the widest of the first lines is the header
+export function getCsvColumns(text: string, delimiter: ',' | ';'): string[] {
+  return getCsvLines(text)
+    .slice(0, HEADER_SEARCH_LINES)
+    .map((line) => splitCsvLine(line, delimiter))
+    .reduce<string[]>((widest, columns) => (columns.length > widest.length ? columns : widest), [])
+    .filter(Boolean);
+}
+
+export function customCsvLayout(mapping: CsvColumnMapping): CsvLayout {
+  return {
+    id: CUSTOM_CSV_LAYOUT_ID,
+    label: 'Personalizado',
+    delimiter: mapping.delimiter,
+    decimalSeparator: mapping.decimalSeparator,
+    dateFormat: mapping.dateFormat,
+    dateColumn: mapping.dateColumn,
+    descriptionColumns: [mapping.descriptionColumn],
+    amountColumn: mapping.amountColumn,
+    positiveIsExpense: mapping.positiveIsExpense,
+    paymentMethod: mapping.positiveIsExpense ? 'credit' : 'debit',
+  };
+}
+
+export function parseCsv(text: string, layout: CsvLayout): StatementEntry[] {
+  const lines = getCsvLines(text);
+  const header = findHeaderRow(lines, layout);
+  if (!header) return [];
+
+  const column = (name: string | undefined) => (name ? header.columns.indexOf(normalizeText(name)) : -1);
+  const dateIndex = column(layout.dateColumn);
+  const descriptionIndexes = layout.descriptionColumns.map(column).filter((i) => i >= 0);
+  const amountIndex = column(layout.amountColumn);
+  const creditIndex = column(layout.creditColumn);
+  const debitIndex = column(layout.debitColumn);
+  const idIndex = column(layout.idColumn);
+
+  return lines.slice(header.index + 1).flatMap((line) => {
+    const fields = splitCsvLine(line, layout.delimiter);
+    // Footer lines ("Saldo anterior", "Total") have no valid date and are skipped
+    const date = parseStatementDate(fields[dateIndex] || '', layout.dateFormat);
+    if (!date) return [];
+
+    let amount: number | null;
+    if (amountIndex >= 0) {
+      amount = parseStatementAmount(fields[amountIndex] || '', layout.decimalSeparator);
+      if (amount !== null && layout.positiveIsExpense) amount = -amount;
+    } else {
+      const credit = parseStatementAmount(fields[creditIndex] || '', layout.decimalSeparator) || 0;
+      const debit = parseStatementAmount(fields[debitIndex] || '', layout.decimalSeparator) || 0;
+      amount = Math.abs(credit) - Math.abs(debit);
+    }
+    if (amount === null) return [];
+
+    const description = descriptionIndexes
+      .map((i) => fields[i])
+      .filter(Boolean)
+      .join(' - ');
+
+    const entry = toEntry(amount, {
+      externalId: idIndex >= 0 && fields[idIndex] ? `${layout.id}:${fields[idIndex]}` : undefined,
+      paymentMethod: layout.paymentMethod,
+      description: description || 'Transação importada',
+      date,
+    });
+    return entry ? [entry] : [];
+  });
+}
+
+// ---------- Preview helpers ----------
+
+export function suggestCategory(entry: Pick<StatementEntry, 'description' | 'type'>): string {
+  const description = normalizeText(entry.description);
+  const match = CATEGORY_KEYWORDS.find(
+    (rule) => rule.type === entry.type && rule.keywords.some((k) => description.includes(k))
+  );
+  return match?.category || 'Outros';
+}
+
+// Same type, amount (in cents), day and description
+export function getDuplicateKey(entry: { type: string; amount: number; date: string; description: string }): string {
+  return [entry.type, Math.round(entry.amount * 100), entry.date, normalizeText(entry.description)].join('|');
+}
@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Tag {
+  id: string;
+  userId: number;
+  name: string;
+  color: string | null;
+}
+
+export interface TagReportRow {
+  tagId: string;
+  name: string;
+  color: string | null;
+  totalExpense: number;
+  totalIncome: number;
+  transactionCount: number;
+}
+
+// Tags are written lowercase with dashes instead of spaces ("Viagem Rio" -> "viagem-rio")
+export function normalizeTag(value: string): string {
+  return value.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+}
+
+export async function getTags(userId: number): Promise<Tag[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('user_matricula', userId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching tags:', error);
+    return [];
+  }
+
+  return (data || []).map((t) => ({
+    id: t.id,
+    userId: t.user_matricula,
+    name: t.name,
+    color: t.color,
+  }));
+}
+
+export async function deleteTag(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('tags')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting tag:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Expense and income totals per tag, optionally within a date range (get_tag_report)
+export async function getTagReport(userId: number, range: { from?: Date; to?: Date } = {}): Promise<TagReportRow[]> {
+  const { data, error } = await supabase.rpc('get_tag_report', {
+    _matricula: userId,
+    _from: range.from?.toISOString().split('T')[0],
+    _to: range.to?.toISOString().split('T')[0],
+  });
+
+  if (error) {
+    console.error('Error fetching tag report:', error);
+    return [];
+  }
+
+  return (data || []).map((r) => ({
+    tagId: r.tag_id,
+    name: r.tag_name,
+    color: r.color,
+    totalExpense: Number(r.total_expense),
+    totalIncome: Number(r.total_income),
+    transactionCount: Number(r.transaction_count),
+  }));
+}
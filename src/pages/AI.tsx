@@ -1,16 +1,23 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Mic, MicOff, Send, Sparkles, Volume2, VolumeX, Keyboard, X, Check, Edit3, ArrowDown, ArrowUp, Target, Utensils, Car, Gamepad2, ShoppingBag, Heart, GraduationCap, Receipt, MoreHorizontal, Briefcase, Laptop, TrendingUp, Gift, Wallet, CreditCard, Calendar } from 'lucide-react';
+import { Mic, MicOff, Send, Sparkles, Volume2, VolumeX, Keyboard, X, Check, Edit3, ArrowDown, ArrowUp, Target, Utensils, MoreHorizontal, Wallet, CreditCard, Calendar } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { calculateBalance, getTransactions, addTransaction, EXPENSE_CATEGORIES, INCOME_CATEGORIES } from '@/lib/db';
-import { getScheduledPayments, getUserSalaryInfo, calculateMonthlySummary } from '@/lib/plannerDb';
+import { calculateBalance, getTransactions, addTransaction, addInstallmentPlan } from '@/lib/db';
+import { addCategory } from '@/lib/categoryDb';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { useCategories } from '@/hooks/useCategories';
+import { notifyBudgetAlert, getBudgetAlertSpeech } from '@/services/budgetAlertService';
+import { getScheduledPayments, getUserSalaryInfo, calculateMonthlySummary, calculateDaysUntil } from '@/lib/plannerDb';
 import { toast } from 'sonner';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import { speakWithElevenLabs, stopElevenLabsSpeaking, isElevenLabsSpeaking } from '@/services/elevenlabsTtsService';
 import { SchedulePaymentModal } from '@/components/SchedulePaymentModal';
+import { TagInput } from '@/components/TagInput';
 import { addScheduledPayment } from '@/lib/plannerDb';
+import type { RecurrenceRule } from '@/lib/recurrence';
+import type { BusinessDayRule } from '@/lib/businessDays';
 
 interface FinancialContext {
   balance: number;
@@ -48,23 +55,9 @@ interface PendingTransaction {
   paymentMethod: 'debit' | 'credit';
   category: string;
   description: string;
+  tags: string[];
 }
 
-const CATEGORY_ICONS: Record<string, React.ElementType> = {
-  'Alimentação': Utensils,
-  'Transporte': Car,
-  'Lazer': Gamepad2,
-  'Compras': ShoppingBag,
-  'Saúde': Heart,
-  'Educação': GraduationCap,
-  'Contas': Receipt,
-  'Outros': MoreHorizontal,
-  'Salário': Briefcase,
-  'Freelance': Laptop,
-  'Investimentos': TrendingUp,
-  'Presente': Gift,
-};
-
 // Rotating Tips Component
 interface TipItem {
   label: string;
@@ -176,6 +169,7 @@ export default function AI() {
   const [installments, setInstallments] = useState(1);
   const [showInstallments, setShowInstallments] = useState(false);
   const recognitionRef = useRef<any>(null);
+  const { categories: userCategories, byType, reload: reloadCategories } = useCategories(user?.userId);
 
   // Initialize ElevenLabs TTS
   useEffect(() => {
@@ -238,7 +232,7 @@ export default function AI() {
     // Get today's transactions
     const today = new Date().toISOString().split('T')[0];
     const todayTransactions = transactions.filter(t => t.date.toISOString().split('T')[0] === today);
-    const todayExpenses = todayTransactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
+    const todayExpenses = todayTransactions.filter(t => t.type === 'expense' && !t.isInvoicePayment).reduce((sum, t) => sum + t.amount, 0);
     const todayIncome = todayTransactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
 
     // Get salary and scheduled payments info
@@ -249,18 +243,9 @@ export default function AI() {
     const scheduledPayments = await getScheduledPayments(user.userId);
     const monthlySummary = await calculateMonthlySummary(user.userId, salaryAmount, salaryDay);
 
-    // Calculate days until credit due date
-    const todayDate = new Date();
+    // Calculate days until credit due date (moved by the user's rule like the invoice)
     const dueDay = user.creditDueDay || 5;
-    let dueDate = new Date(todayDate.getFullYear(), todayDate.getMonth(), dueDay);
-    
-    if (todayDate.getDate() > dueDay) {
-      // Due date already passed this month, use next month
-      dueDate = new Date(todayDate.getFullYear(), todayDate.getMonth() + 1, dueDay);
-    }
-    
-    const diffTime = dueDate.getTime() - todayDate.getTime();
-    const daysUntilDue = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const daysUntilDue = calculateDaysUntil(dueDay, user.creditDueDayRule);
 
     return { 
       balance, 
@@ -425,7 +410,15 @@ export default function AI() {
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ message, context }),
+          body: JSON.stringify({
+            message,
+            context,
+            // The assistant may only pick categories the user actually has
+            categories: {
+              expense: byType('expense').map((c) => c.name),
+              income: byType('income').map((c) => c.name),
+            },
+          }),
         }
       );
 
@@ -449,40 +442,40 @@ export default function AI() {
         // Auto-select credit if no debit balance available
         const defaultPaymentMethod = realDebitBalance <= 0 && user.hasCreditCard ? 'credit' : 'debit';
         
+        // Match the suggested category to one of the user's, falling back to "Outros"
+        const type = args.type as 'income' | 'expense';
+        const suggested = byType(type).find(
+          (c) => c.name.toLowerCase() === String(args.category || '').toLowerCase()
+        );
+
         setPendingTransaction({
           amount: args.amount,
-          type: args.type as 'income' | 'expense',
+          type,
           paymentMethod: defaultPaymentMethod,
-          category: args.category,
+          category: suggested?.name || 'Outros',
           description: args.description,
+          tags: [],
         });
         setEditedAmount(args.amount.toString());
         setStatusText('Confirme a transação');
         
         // Build intelligent speech based on balance situation
         if (args.type === 'expense') {
-          const totalAvailable = realDebitBalance + realCreditAvailable;
-          const minInstallments = realCreditAvailable > 0 ? Math.ceil(args.amount / realCreditAvailable) : 0;
-          const canInstallment = minInstallments > 1 && minInstallments <= 12;
+          // Installment purchases reserve the full amount, so they only help when it fits the limit
+          const fitsCredit = user.hasCreditCard && args.amount <= realCreditAvailable;
           
-          if (args.amount > totalAvailable && !canInstallment) {
-            // No balance anywhere and can't installment
-            speak(`Atenção! Gasto de ${args.amount} reais em ${args.category}. Você não tem saldo suficiente. Débito zerado e limite de crédito insuficiente.`);
-          } else if (realDebitBalance <= 0 && realCreditAvailable <= 0) {
+          if (realDebitBalance <= 0 && realCreditAvailable <= 0) {
             // No balance at all
             speak(`Atenção! Você não tem saldo no débito nem limite no crédito disponível para registrar esse gasto.`);
-          } else if (realDebitBalance <= 0 && args.amount > realCreditAvailable && canInstallment) {
-            // No debit, exceeds credit but can installment
-            speak(`Gasto de ${args.amount} reais em ${args.category}. Débito zerado. O valor excede seu limite de crédito de ${realCreditAvailable.toFixed(0)} reais, mas você pode parcelar em até ${minInstallments} vezes.`);
-          } else if (realDebitBalance <= 0 && args.amount <= realCreditAvailable) {
+          } else if (args.amount > realDebitBalance && !fitsCredit) {
+            // Doesn't fit debit nor credit
+            speak(`Atenção! Gasto de ${args.amount} reais em ${args.category}. Você não tem saldo suficiente no débito nem limite de crédito para esse valor.`);
+          } else if (realDebitBalance <= 0 && fitsCredit) {
             // No debit but fits in credit
-            speak(`Gasto de ${args.amount} reais em ${args.category}. Débito zerado, usando crédito. Limite disponível: ${realCreditAvailable.toFixed(0)} reais.`);
-          } else if (args.amount > realDebitBalance && user.hasCreditCard && args.amount <= realCreditAvailable) {
+            speak(`Gasto de ${args.amount} reais em ${args.category}. Débito zerado, usando crédito. Limite disponível: ${realCreditAvailable.toFixed(0)} reais. Você também pode parcelar.`);
+          } else if (args.amount > realDebitBalance && fitsCredit) {
             // Exceeds debit but fits credit
-            speak(`Gasto de ${args.amount} reais em ${args.category}. Seu débito tem apenas ${realDebitBalance.toFixed(0)} reais. Você pode usar o crédito.`);
-          } else if (args.amount > realDebitBalance && user.hasCreditCard && canInstallment) {
-            // Exceeds both but can installment
-            speak(`Gasto de ${args.amount} reais. Débito insuficiente e excede o crédito. Você pode parcelar em ${minInstallments} vezes ou mais.`);
+            speak(`Gasto de ${args.amount} reais em ${args.category}. Seu débito tem apenas ${realDebitBalance.toFixed(0)} reais. Você pode usar o crédito, à vista ou parcelado.`);
           } else {
             speak(`Registrar gasto de ${args.amount} reais em ${args.category}? Escolha débito ou crédito.`);
           }
@@ -512,12 +505,11 @@ export default function AI() {
       return;
     }
 
-    // Check credit limit if using credit (consider installments)
+    // Check credit limit if using credit (installments reserve the full amount)
     if (pendingTransaction.type === 'expense' && pendingTransaction.paymentMethod === 'credit') {
       const availableCredit = (user.creditLimit || 5000) - (user.creditUsed || 0);
-      const amountPerInstallment = finalAmount / installments;
       
-      if (amountPerInstallment > availableCredit) {
+      if (finalAmount > availableCredit) {
         toast.error(`Limite de crédito insuficiente. Disponível: R$ ${availableCredit.toFixed(2)}`);
         return;
       }
@@ -526,23 +518,32 @@ export default function AI() {
     setIsSaving(true);
     
     try {
-      // For installment purchases, only register the first installment amount now
-      // The full amount affects the credit used, but we track it differently
-      const isInstallment = installments > 1 && pendingTransaction.paymentMethod === 'credit';
-      const amountToRegister = isInstallment ? (finalAmount / installments) : finalAmount;
-      const description = isInstallment 
-        ? `${pendingTransaction.description} (1/${installments}x de R$ ${amountToRegister.toFixed(2)})`
-        : pendingTransaction.description;
-
-      await addTransaction({
-        amount: amountToRegister,
-        type: pendingTransaction.type,
-        paymentMethod: pendingTransaction.type === 'expense' ? pendingTransaction.paymentMethod : 'debit',
-        category: pendingTransaction.category,
-        description: description,
-        date: new Date(),
-        userId: user.userId,
-      });
+      const isInstallment = installments > 1 && pendingTransaction.type === 'expense' && pendingTransaction.paymentMethod === 'credit';
+      const amountPerInstallment = finalAmount / installments;
+
+      const savedId = isInstallment
+        ? await addInstallmentPlan({
+            userId: user.userId,
+            description: pendingTransaction.description,
+            category: pendingTransaction.category,
+            totalAmount: finalAmount,
+            installmentsCount: installments,
+          })
+        : await addTransaction({
+            amount: finalAmount,
+            type: pendingTransaction.type,
+            paymentMethod: pendingTransaction.type === 'expense' ? pendingTransaction.paymentMethod : 'debit',
+            category: pendingTransaction.category,
+            description: pendingTransaction.description,
+            date: new Date(),
+            userId: user.userId,
+            tags: pendingTransaction.tags,
+          });
+
+      if (!savedId) {
+        toast.error('Erro ao registrar transação');
+        return;
+      }
 
       await refreshUser();
 
@@ -551,14 +552,19 @@ export default function AI() {
         : '';
       
       const installmentText = isInstallment 
-        ? ` em ${installments}x de R$ ${amountToRegister.toFixed(2)}`
+        ? ` em ${installments}x de R$ ${amountPerInstallment.toFixed(2)}`
         : '';
 
       toast.success('Transação registrada!', {
         description: `${pendingTransaction.type === 'expense' ? 'Gasto' : 'Ganho'} de R$ ${finalAmount.toFixed(2)}${methodText}${installmentText}`,
       });
 
-      speak(`Transação registrada com sucesso${methodText}${installmentText}!`);
+      // Budget warnings are appended to the confirmation instead of interrupting it
+      const budgetAlert = pendingTransaction.type === 'expense'
+        ? await notifyBudgetAlert(user.userId, pendingTransaction.category, new Date(), { speak: false })
+        : null;
+
+      speak(`Transação registrada com sucesso${methodText}${installmentText}!${budgetAlert ? ` ${getBudgetAlertSpeech(budgetAlert)}` : ''}`);
       setPendingTransaction(null);
       setEditingAmount(false);
       setInstallments(1);
@@ -581,10 +587,25 @@ export default function AI() {
     setPendingTransaction({ ...pendingTransaction, category: categoryId });
   };
 
-  const confirmCustomCategory = () => {
-    if (!pendingTransaction || !customCategoryInput.trim()) return;
+  // Typing a new name creates the category explicitly before it is used
+  const confirmCustomCategory = async () => {
+    if (!pendingTransaction || !customCategoryInput.trim() || !user) return;
     const customName = customCategoryInput.trim().charAt(0).toUpperCase() + customCategoryInput.trim().slice(1).toLowerCase();
-    setPendingTransaction({ ...pendingTransaction, category: customName });
+    const existing = byType(pendingTransaction.type).find(
+      (c) => c.name.toLowerCase() === customName.toLowerCase()
+    );
+
+    if (!existing) {
+      const created = await addCategory({ userId: user.userId, name: customName, type: pendingTransaction.type });
+      if (!created) {
+        toast.error('Erro ao criar categoria');
+        return;
+      }
+      toast.success(`Categoria "${created.name}" criada`);
+      await reloadCategories();
+    }
+
+    setPendingTransaction({ ...pendingTransaction, category: existing?.name || customName });
     setShowCustomCategory(false);
     setCustomCategoryInput('');
   };
@@ -592,6 +613,8 @@ export default function AI() {
   const updatePaymentMethod = (method: 'debit' | 'credit') => {
     if (!pendingTransaction) return;
     setPendingTransaction({ ...pendingTransaction, paymentMethod: method });
+    setInstallments(1);
+    setShowInstallments(false);
   };
 
   const cancelTransaction = () => {
@@ -659,7 +682,7 @@ export default function AI() {
     setShowKeyboard(false);
   };
 
-  const categories = pendingTransaction?.type === 'expense' ? EXPENSE_CATEGORIES : INCOME_CATEGORIES;
+  const categories = userCategories.filter((c) => c.type === (pendingTransaction?.type ?? 'expense'));
 
   const handleSchedulePayment = async (payment: {
     name: string;
@@ -667,6 +690,8 @@ export default function AI() {
     dueDay: number;
     isRecurring: boolean;
     specificMonth?: Date;
+    recurrence: RecurrenceRule;
+    businessDayRule: BusinessDayRule;
     category: string;
   }) => {
     if (!user) return;
@@ -678,6 +703,8 @@ export default function AI() {
       dueDay: payment.dueDay,
       isRecurring: payment.isRecurring,
       specificMonth: payment.specificMonth || null,
+      recurrence: payment.recurrence,
+      businessDayRule: payment.businessDayRule,
       category: payment.category,
       lastPaidAt: null,
     });
@@ -1165,7 +1192,7 @@ export default function AI() {
                 </AnimatePresence>
 
                 {/* Show current custom category if set */}
-                {pendingTransaction.category && !categories.find(c => c.id === pendingTransaction.category) && (
+                {pendingTransaction.category && !categories.find(c => c.name === pendingTransaction.category) && (
                   <motion.div
                     initial={{ opacity: 0, scale: 0.9 }}
                     animate={{ opacity: 1, scale: 1 }}
@@ -1189,13 +1216,13 @@ export default function AI() {
 
                 <div className="grid grid-cols-4 gap-2">
                   {categories.map((cat) => {
-                    const Icon = CATEGORY_ICONS[cat.id] || MoreHorizontal;
-                    const isSelected = pendingTransaction.category === cat.id;
-                    const isOutros = cat.id === 'Outros';
+                    const Icon = getCategoryIcon(cat.icon);
+                    const isSelected = pendingTransaction.category === cat.name;
+                    const isOutros = cat.name === 'Outros';
                     return (
                       <motion.button
                         key={cat.id}
-                        onClick={() => updateCategory(cat.id)}
+                        onClick={() => updateCategory(cat.name)}
                         className={cn(
                           "flex flex-col items-center gap-1 p-3 rounded-xl border transition-all",
                           isSelected 
@@ -1205,14 +1232,24 @@ export default function AI() {
                         )}
                         whileTap={{ scale: 0.95 }}
                       >
-                        <Icon className="w-5 h-5" />
-                        <span className="text-[10px]">{cat.label}</span>
+                        <Icon className="w-5 h-5" style={isSelected ? undefined : { color: cat.color }} />
+                        <span className="text-[10px]">{cat.name}</span>
                       </motion.button>
                     );
                   })}
                 </div>
               </div>
 
+              {/* Tags */}
+              <div className="mb-4">
+                <label className="text-xs text-muted-foreground mb-2 block">Tags</label>
+                <TagInput
+                  userId={user?.userId}
+                  value={pendingTransaction.tags}
+                  onChange={(tags) => setPendingTransaction({ ...pendingTransaction, tags })}
+                />
+              </div>
+
               {/* Insufficient balance warning and installment options */}
               {pendingTransaction.type === 'expense' && (() => {
                 const transactionAmount = editingAmount ? parseFloat(editedAmount) : pendingTransaction.amount;
@@ -1223,20 +1260,13 @@ export default function AI() {
                 const exceedsCurrentMethod = transactionAmount > availableInMethod;
                 const exceedsAll = transactionAmount > totalAvailable;
                 
-                // Calculate how many installments needed to fit within credit limit
-                const minInstallmentsNeeded = pendingTransaction.paymentMethod === 'credit' && currentCreditAvailable > 0
-                  ? Math.ceil(transactionAmount / currentCreditAvailable)
-                  : 0;
+                // Installments reserve the full amount on the credit limit
                 const canUseInstallments = pendingTransaction.paymentMethod === 'credit' && 
-                  exceedsCurrentMethod && 
-                  currentCreditAvailable > 0 &&
-                  minInstallmentsNeeded <= 12;
-                
-                // Calculate amount per installment
+                  !exceedsCurrentMethod && 
+                  transactionAmount > 0;
                 const amountPerInstallment = transactionAmount / installments;
-                const installmentFitsLimit = amountPerInstallment <= currentCreditAvailable;
                 
-                if (exceedsAll && !canUseInstallments) {
+                if (exceedsAll) {
                   return (
                     <div className="mb-4 p-4 rounded-xl bg-destructive/10 border border-destructive/30">
                       <div className="flex items-center gap-2 text-destructive mb-2">
@@ -1248,8 +1278,25 @@ export default function AI() {
                       </p>
                     </div>
                   );
-                } else if (exceedsCurrentMethod && canUseInstallments) {
-                  // Show installment option for credit when exceeds limit
+                } else if (exceedsCurrentMethod) {
+                  return (
+                    <div className="mb-4 p-4 rounded-xl bg-warning/10 border border-warning/30">
+                      <div className="flex items-center gap-2 text-warning mb-2">
+                        <span className="font-medium">⚠️ Limite do {pendingTransaction.paymentMethod === 'debit' ? 'débito' : 'crédito'} insuficiente</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Disponível: R$ {availableInMethod.toFixed(2)} | 
+                        {pendingTransaction.paymentMethod === 'debit' && currentCreditAvailable > 0 
+                          ? ` Tente usar crédito (R$ ${currentCreditAvailable.toFixed(2)})` 
+                          : pendingTransaction.paymentMethod === 'credit' && currentDebitBalance > 0
+                          ? ` Tente usar débito (R$ ${currentDebitBalance.toFixed(2)})`
+                          : ' Reduza o valor'
+                        }
+                      </p>
+                    </div>
+                  );
+                } else if (canUseInstallments) {
+                  // Offer to split the purchase into monthly installments
                   return (
                     <div className="mb-4">
                       <div className="p-4 rounded-xl bg-secondary/10 border border-secondary/30 mb-3">
@@ -1261,9 +1308,7 @@ export default function AI() {
                           <motion.button
                             onClick={() => {
                               setShowInstallments(!showInstallments);
-                              if (!showInstallments) {
-                                setInstallments(minInstallmentsNeeded);
-                              }
+                              setInstallments(showInstallments ? 1 : 2);
                             }}
                             className={cn(
                               "px-3 py-1 rounded-lg text-sm font-medium transition-all",
@@ -1291,15 +1336,12 @@ export default function AI() {
                             >
                               <div className="pt-3 border-t border-secondary/20">
                                 <label className="text-xs text-muted-foreground mb-2 block">
-                                  Número de parcelas (mín. {minInstallmentsNeeded}x)
+                                  Número de parcelas
                                 </label>
                                 <div className="flex flex-wrap gap-2">
-                                  {[...Array(12 - minInstallmentsNeeded + 1)].map((_, i) => {
-                                    const numInstallments = minInstallmentsNeeded + i;
+                                  {[...Array(11)].map((_, i) => {
+                                    const numInstallments = i + 2;
                                     const perInstallment = transactionAmount / numInstallments;
-                                    const fitsLimit = perInstallment <= currentCreditAvailable;
-                                    
-                                    if (!fitsLimit) return null;
                                     
                                     return (
                                       <motion.button
@@ -1322,10 +1364,10 @@ export default function AI() {
                                   })}
                                 </div>
                                 
-                                {installments > 1 && installmentFitsLimit && (
+                                {installments > 1 && (
                                   <div className="mt-3 p-2 rounded-lg bg-success/10 border border-success/30">
                                     <p className="text-xs text-success text-center">
-                                      ✓ {installments}x de R$ {amountPerInstallment.toFixed(2)} (cabe no limite)
+                                      ✓ {installments}x de R$ {amountPerInstallment.toFixed(2)} (R$ {transactionAmount.toFixed(2)} reservados no limite)
                                     </p>
                                   </div>
                                 )}
@@ -1336,23 +1378,6 @@ export default function AI() {
                       </div>
                     </div>
                   );
-                } else if (exceedsCurrentMethod) {
-                  return (
-                    <div className="mb-4 p-4 rounded-xl bg-warning/10 border border-warning/30">
-                      <div className="flex items-center gap-2 text-warning mb-2">
-                        <span className="font-medium">⚠️ Limite do {pendingTransaction.paymentMethod === 'debit' ? 'débito' : 'crédito'} insuficiente</span>
-                      </div>
-                      <p className="text-xs text-muted-foreground">
-                        Disponível: R$ {availableInMethod.toFixed(2)} | 
-                        {pendingTransaction.paymentMethod === 'debit' && currentCreditAvailable > 0 
-                          ? ` Tente usar crédito (R$ ${currentCreditAvailable.toFixed(2)})` 
-                          : pendingTransaction.paymentMethod === 'credit' && currentDebitBalance > 0
-                          ? ` Tente usar débito (R$ ${currentDebitBalance.toFixed(2)})`
-                          : ' Reduza o valor'
-                        }
-                      </p>
-                    </div>
-                  );
                 }
                 return null;
               })()}
@@ -1372,21 +1397,16 @@ export default function AI() {
                     ? currentDebitBalance 
                     : currentCreditAvailable;
                   
-                  // Check if installments make it possible
-                  const amountPerInstallment = transactionAmount / installments;
-                  const installmentFitsLimit = pendingTransaction.paymentMethod === 'credit' && 
-                    installments > 1 && 
-                    amountPerInstallment <= currentCreditAvailable;
+                  const isInstallment = pendingTransaction.paymentMethod === 'credit' && installments > 1;
                   
                   const canConfirm = pendingTransaction.type === 'income' || 
-                    transactionAmount <= availableInMethod ||
-                    installmentFitsLimit;
+                    transactionAmount <= availableInMethod;
                   
-                  const buttonText = installmentFitsLimit 
+                  const buttonText = !canConfirm 
+                    ? 'Sem saldo' 
+                    : isInstallment 
                     ? `Parcelar ${installments}x` 
-                    : canConfirm 
-                    ? 'Confirmar' 
-                    : 'Sem saldo';
+                    : 'Confirmar';
                   
                   return (
                     <motion.button
@@ -0,0 +1,418 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Pencil,
+  Trash2,
+  Copy,
+  Bell,
+  PieChart as PieChartIcon,
+  Loader2,
+} from 'lucide-react';
+import { Bar, BarChart, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCategories } from '@/hooks/useCategories';
+import {
+  getBudgets,
+  setBudget,
+  deleteBudget,
+  copyBudgetsFromPreviousMonth,
+  getMonthKey,
+  type Budget,
+} from '@/lib/db';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import {
+  isNotificationSupported,
+  hasNotificationPermission,
+  requestNotificationPermission,
+} from '@/services/notificationService';
+import { cn } from '@/lib/utils';
+
+const chartConfig = {
+  spent: { label: 'Gasto', color: 'hsl(var(--primary))' },
+  limit: { label: 'Limite', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+interface BudgetForm {
+  id?: string;
+  categoryId: string;
+  limit: string;
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return getMonthKey(new Date(year, monthNumber - 1 + delta, 1));
+}
+
+// Green below 80%, amber up to the limit, red past it
+function getUsageColor(percent: number): string {
+  if (percent >= 100) return 'bg-destructive';
+  if (percent >= 80) return 'bg-amber-500';
+  return 'bg-success';
+}
+
+export default function Budgets() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [month, setMonth] = useState(getMonthKey());
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<BudgetForm | null>(null);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(hasNotificationPermission());
+  const { byType, categories } = useCategories(user?.userId);
+
+  const loadBudgets = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    setBudgets(await getBudgets(user.userId, month));
+    setIsLoading(false);
+  }, [user, month]);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const [year, monthNumber] = month.split('-').map(Number);
+  const monthLabel = format(new Date(year, monthNumber - 1, 1), "MMMM 'de' yyyy", { locale: ptBR });
+
+  const totalLimit = budgets.reduce((sum, b) => sum + b.limitAmount, 0);
+  const totalSpent = budgets.reduce((sum, b) => sum + b.spent, 0);
+  const totalPercent = totalLimit > 0 ? (totalSpent / totalLimit) * 100 : 0;
+
+  const chartData = budgets.map((b) => ({ category: b.category, spent: b.spent, limit: b.limitAmount }));
+
+  // A category can only have one budget per month
+  const availableCategories = byType('expense').filter(
+    (c) => c.id === form?.categoryId || !budgets.some((b) => b.categoryId === c.id)
+  );
+
+  const handleSave = async () => {
+    if (!user || !form || isSaving) return;
+
+    const limit = parseFloat(form.limit.replace(',', '.'));
+    if (!form.categoryId || isNaN(limit) || limit <= 0) {
+      toast.error('Informe a categoria e um limite válido');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const savedId = await setBudget(user.userId, form.categoryId, month, limit);
+      if (savedId) {
+        toast.success(form.id ? 'Orçamento atualizado!' : 'Orçamento criado!');
+        setForm(null);
+        loadBudgets();
+      } else {
+        toast.error('Erro ao salvar orçamento');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    const success = await deleteBudget(budget.id);
+    if (success) {
+      toast.success('Orçamento removido');
+      setBudgets((prev) => prev.filter((b) => b.id !== budget.id));
+    } else {
+      toast.error('Erro ao remover orçamento');
+    }
+  };
+
+  const handleCopyPrevious = async () => {
+    if (!user) return;
+    const copied = await copyBudgetsFromPreviousMonth(user.userId, month);
+    if (copied > 0) {
+      toast.success(`${copied} orçamentos copiados do mês anterior`);
+      loadBudgets();
+    } else {
+      toast.info('Nenhum orçamento no mês anterior');
+    }
+  };
+
+  const handleEnableNotifications = async () => {
+    const granted = await requestNotificationPermission();
+    setNotificationsEnabled(granted);
+    if (granted) {
+      toast.success('Alertas de orçamento ativados');
+    } else {
+      toast.error('Permissão de notificação negada');
+    }
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen pb-28 px-4 pt-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 rounded-xl bg-muted/50 border border-border"
+          >
+            <ArrowLeft className="w-5 h-5 text-muted-foreground" />
+          </button>
+          <div>
+            <h1 className="font-display text-2xl font-bold">Orçamentos</h1>
+            <p className="text-muted-foreground text-sm">Limite de gastos por categoria</p>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => setForm({ categoryId: '', limit: '' })}
+          className="bg-gradient-primary hover:opacity-90"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Novo
+        </Button>
+      </div>
+
+      {/* Month Selector */}
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={() => setMonth(shiftMonth(month, -1))}
+          className="p-2 rounded-xl bg-muted/50 hover:bg-muted"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="font-medium capitalize">{monthLabel}</span>
+        <button
+          onClick={() => setMonth(shiftMonth(month, 1))}
+          className="p-2 rounded-xl bg-muted/50 hover:bg-muted"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isNotificationSupported() && !notificationsEnabled && (
+        <button
+          onClick={handleEnableNotifications}
+          className="w-full mb-4 p-3 rounded-xl bg-primary/10 border border-primary/30 flex items-center gap-2 text-sm text-primary"
+        >
+          <Bell className="w-4 h-4" />
+          Ativar notificações quando um orçamento chegar a 80%
+        </button>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : budgets.length === 0 ? (
+        <GlassCard className="p-6 text-center" hover={false}>
+          <PieChartIcon className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground text-sm mb-4">
+            Nenhum orçamento definido para este mês
+          </p>
+          <Button variant="outline" size="sm" onClick={handleCopyPrevious}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copiar do mês anterior
+          </Button>
+        </GlassCard>
+      ) : (
+        <div className="space-y-4">
+          {/* Summary */}
+          <GlassCard className="p-4" hover={false}>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-muted-foreground">Total gasto</span>
+              <span className="text-sm font-medium">
+                {formatCurrency(totalSpent)} de {formatCurrency(totalLimit)}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className={cn('h-full transition-all', getUsageColor(totalPercent))}
+                style={{ width: `${Math.min(totalPercent, 100)}%` }}
+              />
+            </div>
+          </GlassCard>
+
+          {/* Spent vs limit chart */}
+          <GlassCard className="p-4" hover={false}>
+            <h3 className="font-medium mb-4">Gasto x Limite</h3>
+            <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: Math.max(160, budgets.length * 44) }}>
+              <BarChart data={chartData} layout="vertical" margin={{ left: 8, right: 8 }}>
+                <XAxis type="number" hide />
+                <YAxis
+                  type="category"
+                  dataKey="category"
+                  axisLine={false}
+                  tickLine={false}
+                  width={90}
+                  tick={{ fill: '#64748b', fontSize: 11 }}
+                />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value, name) => (
+                    <span>
+                      {chartConfig[name as keyof typeof chartConfig]?.label}: {formatCurrency(Number(value))}
+                    </span>
+                  )} />}
+                />
+                <Bar dataKey="limit" fill="var(--color-limit)" fillOpacity={0.3} radius={4} />
+                <Bar dataKey="spent" fill="var(--color-spent)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </GlassCard>
+
+          {/* Budget list */}
+          <AnimatePresence>
+            {budgets.map((budget, index) => {
+              const category = categories.find((c) => c.id === budget.categoryId);
+              const IconComponent = getCategoryIcon(category?.icon);
+              const percent = (budget.spent / budget.limitAmount) * 100;
+              const remaining = budget.limitAmount - budget.spent;
+
+              return (
+                <motion.div
+                  key={budget.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0 }}
+                  transition={{ delay: Math.min(index, 10) * 0.05 }}
+                >
+                  <GlassCard className="p-4" hover={false}>
+                    <div className="flex items-center gap-3 mb-3">
+                      <div
+                        className="w-10 h-10 rounded-xl flex items-center justify-center"
+                        style={{ backgroundColor: `${category?.color || '#64748b'}33` }}
+                      >
+                        <IconComponent className="w-5 h-5" style={{ color: category?.color }} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{budget.category}</p>
+                        <p className={cn('text-xs', remaining < 0 ? 'text-destructive' : 'text-muted-foreground')}>
+                          {remaining >= 0
+                            ? `Restam ${formatCurrency(remaining)}`
+                            : `Estourado em ${formatCurrency(-remaining)}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setForm({ id: budget.id, categoryId: budget.categoryId, limit: budget.limitAmount.toString() })}
+                        className="p-2 rounded-lg hover:bg-muted"
+                      >
+                        <Pencil className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(budget)}
+                        className="p-2 rounded-lg hover:bg-muted"
+                      >
+                        <Trash2 className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                    </div>
+                    <div className="h-2 rounded-full bg-muted overflow-hidden mb-2">
+                      <div
+                        className={cn('h-full transition-all', getUsageColor(percent))}
+                        style={{ width: `${Math.min(percent, 100)}%` }}
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>{formatCurrency(budget.spent)} de {formatCurrency(budget.limitAmount)}</span>
+                      <span>{percent.toFixed(0)}%</span>
+                    </div>
+                  </GlassCard>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Editar orçamento' : 'Novo orçamento'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Categoria</label>
+                <Select
+                  value={form.categoryId}
+                  onValueChange={(categoryId) => setForm({ ...form, categoryId })}
+                  disabled={!!form.id}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Escolha a categoria" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCategories.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Limite mensal</label>
+                <div className="relative">
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground">
+                    R$
+                  </span>
+                  <Input
+                    type="number"
+                    value={form.limit}
+                    onChange={(e) => setForm({ ...form, limit: e.target.value })}
+                    placeholder="0,00"
+                    className="pl-12"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setForm(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={!form?.categoryId || !form?.limit || isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
@@ -1,11 +1,38 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Shield, Wifi, Eye, EyeOff, Fingerprint, Calendar, AlertCircle } from 'lucide-react';
+import { Shield, Wifi, Eye, EyeOff, Fingerprint, Calendar, AlertCircle, Layers, Receipt, ChevronDown, Settings2 } from 'lucide-react';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { useAuth } from '@/contexts/AuthContext';
-import { calculateBalance } from '@/lib/db';
+import { calculateBalance, getInstallmentPlans, payOffInstallmentPlan, updateProfile, type InstallmentPlan } from '@/lib/db';
+import {
+  getInvoices,
+  payInvoice,
+  getDefaultClosingDay,
+  formatReferenceMonth,
+  type CreditInvoice,
+  type InvoiceStatus,
+} from '@/lib/cardDb';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { Progress } from '@/components/ui/progress';
 import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
 import {
   isBiometricSupported,
@@ -15,6 +42,15 @@ import {
   disableBiometric
 } from '@/services/biometricService';
 import { useIsaGreeting } from '@/hooks/useIsaGreeting';
+import { BusinessDayRuleSelect } from '@/components/BusinessDayRuleSelect';
+import type { BusinessDayRule } from '@/lib/businessDays';
+
+const INVOICE_STATUS: Record<InvoiceStatus, { label: string; className: string }> = {
+  open: { label: 'Aberta', className: 'text-primary bg-primary/20' },
+  closed: { label: 'Fechada', className: 'text-warning bg-warning/20' },
+  paid: { label: 'Paga', className: 'text-success bg-success/20' },
+  overdue: { label: 'Vencida', className: 'text-destructive bg-destructive/20' },
+};
 
 export default function Card() {
   const { user, refreshUser } = useAuth();
@@ -24,6 +60,15 @@ export default function Card() {
   const [biometricAvailable, setBiometricAvailable] = useState(false);
   const [biometricEnabled, setBiometricEnabled] = useState(false);
   const [biometricLoading, setBiometricLoading] = useState(false);
+  const [installmentPlans, setInstallmentPlans] = useState<InstallmentPlan[]>([]);
+  const [planToPayOff, setPlanToPayOff] = useState<InstallmentPlan | null>(null);
+  const [invoices, setInvoices] = useState<CreditInvoice[]>([]);
+  const [expandedInvoice, setExpandedInvoice] = useState<string | null>(null);
+  const [invoiceToPay, setInvoiceToPay] = useState<CreditInvoice | null>(null);
+  const [showBillingSettings, setShowBillingSettings] = useState(false);
+  const [closingDayInput, setClosingDayInput] = useState('');
+  const [dueDayInput, setDueDayInput] = useState('');
+  const [dueDayRuleInput, setDueDayRuleInput] = useState<BusinessDayRule>('none');
 
   useEffect(() => {
     if (user) {
@@ -73,8 +118,78 @@ export default function Card() {
     await refreshUser();
     const { creditUsed: used } = await calculateBalance(user.userId, user.initialBalance);
     setCreditUsed(used);
+    const plans = await getInstallmentPlans(user.userId);
+    setInstallmentPlans(plans.filter((p) => p.status === 'active'));
+    setInvoices(await getInvoices(user.userId, closingDay, dueDay, user.creditDueDayRule));
+  };
+
+  const handlePayInvoice = async () => {
+    if (!user || !invoiceToPay) return;
+
+    const success = await payInvoice(user.userId, invoiceToPay);
+    if (success) {
+      toast.success('Fatura paga!', {
+        description: `${formatCurrency(invoiceToPay.remainingAmount)} debitados da conta`,
+      });
+      await loadData();
+    } else {
+      toast.error('Erro ao pagar fatura');
+    }
+    setInvoiceToPay(null);
+  };
+
+  const openBillingSettings = () => {
+    setClosingDayInput(closingDay.toString());
+    setDueDayInput(dueDay.toString());
+    setDueDayRuleInput(user?.creditDueDayRule || 'none');
+    setShowBillingSettings(true);
+  };
+
+  const handleSaveBillingSettings = async () => {
+    if (!user) return;
+
+    const newClosingDay = parseInt(closingDayInput, 10);
+    const newDueDay = parseInt(dueDayInput, 10);
+    if (!(newClosingDay >= 1 && newClosingDay <= 31 && newDueDay >= 1 && newDueDay <= 31)) {
+      toast.error('Informe dias entre 1 e 31');
+      return;
+    }
+
+    const success = await updateProfile(user.userId, {
+      creditClosingDay: newClosingDay,
+      creditDueDay: newDueDay,
+      creditDueDayRule: dueDayRuleInput,
+    });
+    if (success) {
+      toast.success('Datas do cartão atualizadas');
+      setShowBillingSettings(false);
+      await refreshUser();
+    } else {
+      toast.error('Erro ao salvar datas do cartão');
+    }
   };
 
+  const handlePayOffPlan = async () => {
+    if (!planToPayOff?.id) return;
+
+    const success = await payOffInstallmentPlan(planToPayOff.id);
+    if (success) {
+      toast.success('Parcelamento quitado!', {
+        description: `${formatCurrency(planToPayOff.remainingAmount)} debitados da conta`,
+      });
+      await loadData();
+    } else {
+      toast.error('Erro ao quitar parcelamento');
+    }
+    setPlanToPayOff(null);
+  };
+
+  const dueDay = user?.creditDueDay || 5;
+  const closingDay = user?.creditClosingDay || getDefaultClosingDay(dueDay);
+  const currentInvoice = invoices.find((i) => i.status === 'open') || null;
+  // Next invoice to pay: the oldest one still pending, otherwise the one being built
+  const payableInvoice = [...invoices].reverse().find((i) => i.status === 'closed' || i.status === 'overdue') || currentInvoice;
+
   const creditLimit = user?.creditLimit || 5000;
   const availableCredit = creditLimit - (user?.creditUsed || 0);
   const creditPercentUsed = ((user?.creditUsed || 0) / creditLimit) * 100;
@@ -109,27 +224,17 @@ export default function Card() {
   };
 
   const getDueDate = () => {
-    const dueDay = user?.creditDueDay || 5;
-    const today = new Date();
-    let dueDate = new Date(today.getFullYear(), today.getMonth(), dueDay);
-    if (today.getDate() > dueDay) {
-      dueDate = new Date(today.getFullYear(), today.getMonth() + 1, dueDay);
-    }
-    return dueDate.toLocaleDateString('pt-BR', {
+    if (!payableInvoice) return '-';
+    return payableInvoice.dueDate.toLocaleDateString('pt-BR', {
       day: '2-digit',
       month: 'long',
     });
   };
 
   const getDaysUntilDue = () => {
-    const dueDay = user?.creditDueDay || 5;
-    const today = new Date();
-    let dueDate = new Date(today.getFullYear(), today.getMonth(), dueDay);
-    if (today.getDate() > dueDay) {
-      dueDate = new Date(today.getFullYear(), today.getMonth() + 1, dueDay);
-    }
-    const diffTime = dueDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    if (!payableInvoice) return null;
+    const diffTime = payableInvoice.dueDate.getTime() - new Date().getTime();
+    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
     return diffDays;
   };
 
@@ -334,14 +439,19 @@ export default function Card() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-muted-foreground text-xs">Fatura Atual</p>
-              <p className="font-semibold text-lg">{formatCurrency(user?.creditUsed || 0)}</p>
+              <p className="font-semibold text-lg">{formatCurrency(currentInvoice?.total || 0)}</p>
+              {currentInvoice && (
+                <p className="text-muted-foreground text-[11px]">
+                  Fecha em {currentInvoice.closingDate.toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' })}
+                </p>
+              )}
             </div>
             <span className={`text-xs px-2 py-1 rounded-full ${
-              (user?.creditUsed || 0) === 0 
+              (currentInvoice?.total || 0) === 0 
                 ? 'text-success bg-success/20' 
                 : 'text-warning bg-warning/20'
             }`}>
-              {(user?.creditUsed || 0) === 0 ? 'Sem pendências' : 'Em aberto'}
+              {(currentInvoice?.total || 0) === 0 ? 'Sem pendências' : 'Em aberto'}
             </span>
           </div>
         </GlassCard>
@@ -356,22 +466,153 @@ export default function Card() {
               <div>
                 <p className="text-muted-foreground text-xs">Data limite</p>
                 <p className="font-medium text-sm">{getDueDate()}</p>
+                <p className="text-muted-foreground text-[11px]">
+                  Fecha dia {closingDay} • Vence dia {dueDay}
+                </p>
               </div>
             </div>
-            {daysUntilDue !== null && (
-              <span className={`text-xs px-2 py-1 rounded-full ${
-                daysUntilDue > 7 
-                  ? 'text-success bg-success/20' 
-                  : daysUntilDue > 0 
-                  ? 'text-warning bg-warning/20'
-                  : 'text-destructive bg-destructive/20'
-              }`}>
-                {daysUntilDue > 0 ? `${daysUntilDue} dias` : 'Vencida'}
-              </span>
-            )}
+            <div className="flex items-center gap-2">
+              {daysUntilDue !== null && (
+                <span className={`text-xs px-2 py-1 rounded-full ${
+                  daysUntilDue > 7 
+                    ? 'text-success bg-success/20' 
+                    : daysUntilDue >= 0 
+                    ? 'text-warning bg-warning/20'
+                    : 'text-destructive bg-destructive/20'
+                }`}>
+                  {daysUntilDue > 0 ? `${daysUntilDue} dias` : daysUntilDue === 0 ? 'Hoje' : 'Vencida'}
+                </span>
+              )}
+              <button
+                onClick={openBillingSettings}
+                className="w-8 h-8 rounded-lg bg-muted/50 flex items-center justify-center"
+              >
+                <Settings2 className="w-4 h-4 text-muted-foreground" />
+              </button>
+            </div>
           </div>
         </GlassCard>
 
+        {/* Faturas */}
+        {invoices.length > 0 && (
+          <GlassCard className="p-4">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 rounded-xl bg-primary/20 flex items-center justify-center">
+                <Receipt className="w-5 h-5 text-primary" />
+              </div>
+              <p className="font-medium text-sm">Faturas</p>
+            </div>
+            <div className="space-y-2">
+              {invoices.map((invoice) => {
+                const isExpanded = expandedInvoice === invoice.referenceMonth;
+                const canPay = invoice.remainingAmount > 0 && invoice.status !== 'paid';
+
+                return (
+                  <div key={invoice.referenceMonth} className="rounded-xl bg-muted/30 overflow-hidden">
+                    <button
+                      onClick={() => setExpandedInvoice(isExpanded ? null : invoice.referenceMonth)}
+                      className="w-full p-3 flex items-center justify-between text-left"
+                    >
+                      <div>
+                        <p className="text-sm font-medium capitalize">{formatReferenceMonth(invoice.referenceMonth)}</p>
+                        <p className="text-muted-foreground text-[11px]">
+                          Vence {invoice.dueDate.toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="text-right">
+                          <p className="text-sm font-semibold">{formatCurrency(invoice.total)}</p>
+                          <span className={`text-[10px] px-2 py-0.5 rounded-full ${INVOICE_STATUS[invoice.status].className}`}>
+                            {INVOICE_STATUS[invoice.status].label}
+                          </span>
+                        </div>
+                        <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                      </div>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="px-3 pb-3 space-y-2 border-t border-border/50 pt-3">
+                        {invoice.items.length === 0 && (
+                          <p className="text-muted-foreground text-xs text-center">Nenhuma compra neste período</p>
+                        )}
+                        {invoice.items.map((item) => (
+                          <div key={item.id} className="flex items-center justify-between text-xs">
+                            <div className="min-w-0">
+                              <p className="truncate">{item.description || item.category}</p>
+                              <p className="text-muted-foreground">
+                                {item.date.toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' })} • {item.category}
+                              </p>
+                            </div>
+                            <span className="font-medium flex-shrink-0 ml-2">{formatCurrency(item.amount)}</span>
+                          </div>
+                        ))}
+                        {invoice.paidAmount > 0 && (
+                          <p className="text-success text-xs text-right">
+                            Pago: {formatCurrency(invoice.paidAmount)}
+                          </p>
+                        )}
+                        {canPay && (
+                          <Button
+                            onClick={() => setInvoiceToPay(invoice)}
+                            className="w-full h-10 mt-2 bg-gradient-primary hover:opacity-90"
+                          >
+                            Pagar {formatCurrency(invoice.remainingAmount)}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </GlassCard>
+        )}
+
+        {/* Compras Parceladas */}
+        {installmentPlans.length > 0 && (
+          <GlassCard className="p-4">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 rounded-xl bg-secondary/20 flex items-center justify-center">
+                <Layers className="w-5 h-5 text-secondary" />
+              </div>
+              <div>
+                <p className="font-medium text-sm">Compras parceladas</p>
+                <p className="text-muted-foreground text-xs">
+                  {formatCurrency(installmentPlans.reduce((sum, p) => sum + p.remainingAmount, 0))} a vencer
+                </p>
+              </div>
+            </div>
+            <div className="space-y-4">
+              {installmentPlans.map((plan) => (
+                <div key={plan.id} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{plan.description}</p>
+                      <p className="text-muted-foreground text-xs">
+                        {plan.chargedInstallments}/{plan.installmentsCount} pagas • {formatCurrency(plan.installmentAmount)}/mês
+                        {plan.nextChargeDate && ` • próxima ${plan.nextChargeDate.toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' })}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setPlanToPayOff(plan)}
+                      className="text-xs px-3 py-1.5 rounded-lg bg-secondary/20 text-secondary font-medium flex-shrink-0 ml-2"
+                    >
+                      Quitar
+                    </button>
+                  </div>
+                  <Progress
+                    value={(plan.chargedInstallments / plan.installmentsCount) * 100}
+                    className="h-1.5 bg-muted"
+                  />
+                  <p className="text-muted-foreground text-[11px] text-right">
+                    Restante: {formatCurrency(plan.remainingAmount)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </GlassCard>
+        )}
+
         {/* Biometria */}
         {biometricAvailable && (
           <GlassCard className="p-4">
@@ -414,6 +655,92 @@ export default function Card() {
           </GlassCard>
         )}
       </div>
+
+      {/* Pay Invoice Dialog */}
+      <AlertDialog open={!!invoiceToPay} onOpenChange={(open) => !open && setInvoiceToPay(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Pagar fatura</AlertDialogTitle>
+            <AlertDialogDescription>
+              {formatCurrency(invoiceToPay?.remainingAmount || 0)} serão debitados do seu saldo em conta para pagar a
+              fatura de {invoiceToPay && formatReferenceMonth(invoiceToPay.referenceMonth)}, e o valor volta para o
+              limite do cartão.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePayInvoice}>
+              Pagar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Billing Settings Dialog */}
+      <Dialog open={showBillingSettings} onOpenChange={setShowBillingSettings}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Datas do cartão</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Dia de fechamento da fatura</label>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={closingDayInput}
+                onChange={(e) => setClosingDayInput(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Compras após o fechamento entram na fatura seguinte
+              </p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Dia de vencimento</label>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={dueDayInput}
+                onChange={(e) => setDueDayInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Se vencer em fim de semana ou feriado</label>
+              <BusinessDayRuleSelect value={dueDayRuleInput} onChange={setDueDayRuleInput} allowLastBusinessDay={false} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowBillingSettings(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveBillingSettings}>
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Pay Off Installment Plan Dialog */}
+      <AlertDialog open={!!planToPayOff} onOpenChange={(open) => !open && setPlanToPayOff(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Quitar parcelamento</AlertDialogTitle>
+            <AlertDialogDescription>
+              As parcelas restantes de <span className="font-medium">{planToPayOff?.description}</span> serão
+              pagas agora com {formatCurrency(planToPayOff?.remainingAmount || 0)} do seu saldo em conta, e o valor
+              volta para o limite do cartão.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePayOffPlan}>
+              Quitar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </motion.div>
   );
 }
@@ -0,0 +1,396 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, Plus, Pencil, Archive, ArchiveRestore, GitMerge, Wand2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCategories } from '@/hooks/useCategories';
+import {
+  addCategory,
+  updateCategory,
+  archiveCategory,
+  mergeCategories,
+  CATEGORY_COLORS,
+  DEFAULT_CATEGORY_COLOR,
+  type Category,
+  type CategoryType,
+} from '@/lib/categoryDb';
+import { CATEGORY_ICON_NAMES, getCategoryIcon } from '@/lib/categoryIcons';
+import { cn } from '@/lib/utils';
+
+interface CategoryForm {
+  id?: string;
+  name: string;
+  icon: string;
+  color: string;
+}
+
+const EMPTY_FORM: CategoryForm = { name: '', icon: 'MoreHorizontal', color: DEFAULT_CATEGORY_COLOR };
+
+export default function Categories() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [activeType, setActiveType] = useState<CategoryType>('expense');
+  const [form, setForm] = useState<CategoryForm | null>(null);
+  const [mergeSource, setMergeSource] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [showMergeConfirm, setShowMergeConfirm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { isLoading, reload, byType } = useCategories(user?.userId, { includeArchived: true, withCounts: true });
+
+  const categories = byType(activeType);
+  const activeCategories = categories.filter((c) => !c.isArchived);
+  const archivedCategories = categories.filter((c) => c.isArchived);
+  const mergeTarget = categories.find((c) => c.id === mergeTargetId);
+
+  const handleSave = async () => {
+    if (!user || !form || !form.name.trim() || isSaving) return;
+
+    const duplicate = categories.find(
+      (c) => c.id !== form.id && c.name.toLowerCase() === form.name.trim().toLowerCase()
+    );
+    if (duplicate) {
+      toast.error(`Já existe a categoria "${duplicate.name}"`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const success = form.id
+        ? await updateCategory(form.id, { name: form.name, icon: form.icon, color: form.color })
+        : !!(await addCategory({ userId: user.userId, type: activeType, name: form.name, icon: form.icon, color: form.color }));
+
+      if (success) {
+        toast.success(form.id ? 'Categoria atualizada!' : 'Categoria criada!');
+        setForm(null);
+        reload();
+      } else {
+        toast.error('Erro ao salvar categoria');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleArchive = async (category: Category) => {
+    const success = await archiveCategory(category.id, !category.isArchived);
+    if (success) {
+      toast.success(category.isArchived ? 'Categoria reativada' : 'Categoria arquivada');
+      reload();
+    } else {
+      toast.error('Erro ao atualizar categoria');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTarget || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const moved = await mergeCategories(mergeSource.id, mergeTarget.id);
+      if (moved !== null) {
+        toast.success(`${moved} transações movidas para ${mergeTarget.name}`);
+        setMergeSource(null);
+        setMergeTargetId('');
+        reload();
+      } else {
+        toast.error('Erro ao unir categorias');
+      }
+    } finally {
+      setIsSaving(false);
+      setShowMergeConfirm(false);
+    }
+  };
+
+  const renderCategory = (category: Category, index: number) => {
+    const IconComponent = getCategoryIcon(category.icon);
+
+    return (
+      <motion.div
+        key={category.id}
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0 }}
+        transition={{ delay: Math.min(index, 10) * 0.03 }}
+      >
+        <GlassCard className={cn('p-4', category.isArchived && 'opacity-60')} hover={false}>
+          <div className="flex items-center gap-3">
+            <div
+              className="w-10 h-10 rounded-xl flex items-center justify-center"
+              style={{ backgroundColor: `${category.color}33` }}
+            >
+              <IconComponent className="w-5 h-5" style={{ color: category.color }} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">{category.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {category.transactionCount ?? 0} transações
+                {category.isArchived && ' • Arquivada'}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              <button
+                onClick={() => setForm({ id: category.id, name: category.name, icon: category.icon, color: category.color })}
+                className="p-2 rounded-lg hover:bg-muted"
+                title="Editar"
+              >
+                <Pencil className="w-4 h-4 text-muted-foreground" />
+              </button>
+              <button
+                onClick={() => {
+                  setMergeSource(category);
+                  setMergeTargetId('');
+                }}
+                className="p-2 rounded-lg hover:bg-muted"
+                title="Unir com outra categoria"
+              >
+                <GitMerge className="w-4 h-4 text-muted-foreground" />
+              </button>
+              <button
+                onClick={() => handleArchive(category)}
+                className="p-2 rounded-lg hover:bg-muted"
+                title={category.isArchived ? 'Reativar' : 'Arquivar'}
+              >
+                {category.isArchived ? (
+                  <ArchiveRestore className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <Archive className="w-4 h-4 text-muted-foreground" />
+                )}
+              </button>
+            </div>
+          </div>
+        </GlassCard>
+      </motion.div>
+    );
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen pb-28 px-4 pt-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 rounded-xl bg-muted/50 border border-border"
+          >
+            <ArrowLeft className="w-5 h-5 text-muted-foreground" />
+          </button>
+          <div>
+            <h1 className="font-display text-2xl font-bold">Categorias</h1>
+            <p className="text-muted-foreground text-sm">
+              {activeCategories.length} ativas
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => navigate('/rules')}
+            title="Regras de categorização"
+          >
+            <Wand2 className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setForm({ ...EMPTY_FORM })}
+            className="bg-gradient-primary hover:opacity-90"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Nova
+          </Button>
+        </div>
+      </div>
+
+      {/* Type Tabs */}
+      <div className="flex gap-2 mb-6">
+        {(['expense', 'income'] as const).map((t) => (
+          <button
+            key={t}
+            onClick={() => setActiveType(t)}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${
+              activeType === t
+                ? 'bg-gradient-primary text-white'
+                : 'bg-muted/50 text-muted-foreground hover:bg-muted'
+            }`}
+          >
+            {t === 'expense' ? 'Gastos' : 'Ganhos'}
+          </button>
+        ))}
+      </div>
+
+      {isLoading && categories.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <AnimatePresence>
+            {activeCategories.map(renderCategory)}
+          </AnimatePresence>
+
+          {archivedCategories.length > 0 && (
+            <>
+              <p className="text-xs uppercase tracking-wide text-muted-foreground pt-4">
+                Arquivadas
+              </p>
+              <AnimatePresence>
+                {archivedCategories.map(renderCategory)}
+              </AnimatePresence>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Editar categoria' : 'Nova categoria'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Nome</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Ex: Mercado"
+                  maxLength={30}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Cor</label>
+                <div className="flex flex-wrap gap-2">
+                  {CATEGORY_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      onClick={() => setForm({ ...form, color })}
+                      className={cn(
+                        'w-8 h-8 rounded-full border-2 transition-all',
+                        form.color === color ? 'border-foreground scale-110' : 'border-transparent'
+                      )}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Ícone</label>
+                <div className="grid grid-cols-6 gap-2">
+                  {CATEGORY_ICON_NAMES.map((name) => {
+                    const IconComponent = getCategoryIcon(name);
+                    return (
+                      <button
+                        key={name}
+                        onClick={() => setForm({ ...form, icon: name })}
+                        className={cn(
+                          'p-2 rounded-lg flex items-center justify-center transition-all',
+                          form.icon === name ? 'bg-primary/20 border border-primary' : 'bg-muted/50 hover:bg-muted'
+                        )}
+                      >
+                        <IconComponent className="w-5 h-5" style={{ color: form.color }} />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setForm(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={!form?.name.trim() || isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog open={!!mergeSource && !showMergeConfirm} onOpenChange={(open) => !open && setMergeSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Unir "{mergeSource?.name}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Mover transações para</label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Escolha a categoria" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories
+                  .filter((c) => c.id !== mergeSource?.id)
+                  .map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}{c.isArchived ? ' (arquivada)' : ''}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setMergeSource(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={() => setShowMergeConfirm(true)} disabled={!mergeTargetId}>
+              Continuar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showMergeConfirm} onOpenChange={setShowMergeConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unir categorias?</AlertDialogTitle>
+            <AlertDialogDescription>
+              As {mergeSource?.transactionCount ?? 0} transações de "{mergeSource?.name}" passarão para
+              "{mergeTarget?.name}" e "{mergeSource?.name}" será excluída. Essa ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge} disabled={isSaving}>
+              Unir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
@@ -12,11 +12,13 @@ import {
   Receipt,
   ChevronRight,
   Volume2,
-  VolumeX
+  VolumeX,
+  Landmark
 } from 'lucide-react';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { useAuth } from '@/contexts/AuthContext';
-import { calculateBalance, getTransactions, type Transaction } from '@/lib/db';
+import { calculateBalance, getTransactions, getCategoryAmounts, type Transaction } from '@/lib/db';
+import { getNetWorth, saveNetWorthSnapshot, type NetWorth } from '@/lib/netWorthDb';
 import { AreaChart, Area, PieChart, Pie, Cell, ResponsiveContainer, XAxis, YAxis, Tooltip } from 'recharts';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
@@ -37,6 +39,7 @@ export default function Dashboard() {
   const [categoryData, setCategoryData] = useState<{ name: string; value: number }[]>([]);
   const [chartData, setChartData] = useState<{ date: string; balance: number }[]>([]);
   const [voiceEnabled, setVoiceEnabledState] = useState(isVoiceEnabled());
+  const [netWorth, setNetWorth] = useState<NetWorth | null>(null);
 
   // ISA greeting on dashboard access
   useIsaGreeting({
@@ -74,11 +77,16 @@ export default function Dashboard() {
     const txns = await getTransactions(user.userId);
     setTransactions(txns);
 
+    getNetWorth(user).then((worth) => {
+      setNetWorth(worth);
+      saveNetWorthSnapshot(user.userId, worth);
+    });
+
     // Process category data for pie chart
     const categoryMap = new Map<string, number>();
-    txns.filter(t => t.type === 'expense').forEach(t => {
-      const current = categoryMap.get(t.category) || 0;
-      categoryMap.set(t.category, current + t.amount);
+    txns.filter(t => t.type === 'expense' && !t.isInvoicePayment).flatMap(getCategoryAmounts).forEach(({ category, amount }) => {
+      const current = categoryMap.get(category) || 0;
+      categoryMap.set(category, current + amount);
     });
     
     const catData = Array.from(categoryMap.entries()).map(([name, value]) => ({
@@ -129,7 +137,7 @@ export default function Dashboard() {
 
   // Get last 5 expenses for the card
   const lastExpenses = transactions
-    .filter(t => t.type === 'expense')
+    .filter(t => t.type === 'expense' && !t.isInvoicePayment)
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .slice(0, 5);
 
@@ -209,6 +217,42 @@ export default function Dashboard() {
           </GlassCard>
         </motion.div>
 
+        {/* Net Worth Card */}
+        {netWorth && (
+          <motion.div variants={itemVariants} className="bento-item-large">
+            <GlassCard className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <Landmark className="w-5 h-5 text-primary" />
+                  <span className="text-muted-foreground text-sm">Patrimônio líquido</span>
+                </div>
+                <button
+                  onClick={() => navigate('/net-worth')}
+                  className="flex items-center gap-1 text-xs text-primary hover:underline"
+                >
+                  Detalhes
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+              <p className={`font-display text-2xl font-bold ${netWorth.total < 0 ? 'text-destructive' : ''}`}>
+                {formatCurrency(netWorth.total)}
+              </p>
+              <div className="grid grid-cols-2 gap-2 mt-3 text-xs">
+                <div>
+                  <p className="text-muted-foreground">Investimentos</p>
+                  <p className="font-medium text-success">{formatCurrency(netWorth.investments)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Dívidas e cartão</p>
+                  <p className="font-medium text-destructive">
+                    {formatCurrency(netWorth.cardInvoice + netWorth.installments + netWorth.debts)}
+                  </p>
+                </div>
+              </div>
+            </GlassCard>
+          </motion.div>
+        )}
+
         {/* Income Card */}
         <motion.div variants={itemVariants}>
           <GlassCard className="p-4 h-full">
@@ -301,9 +345,18 @@ export default function Dashboard() {
         {/* Pie Chart - Categories */}
         <motion.div variants={itemVariants} className="bento-item-large">
           <GlassCard className="p-4">
-            <div className="flex items-center gap-2 mb-4">
-              <TrendingDown className="w-5 h-5 text-primary" />
-              <h3 className="font-medium">Gastos por Categoria</h3>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <TrendingDown className="w-5 h-5 text-primary" />
+                <h3 className="font-medium">Gastos por Categoria</h3>
+              </div>
+              <button 
+                onClick={() => navigate('/budgets')}
+                className="flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                Orçamentos
+                <ChevronRight className="w-4 h-4" />
+              </button>
             </div>
             {categoryData.length > 0 ? (
               <div className="flex items-center gap-4">
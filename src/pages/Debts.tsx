@@ -0,0 +1,580 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, Plus, Trash2, Landmark, Check, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getDebts,
+  addDebt,
+  deleteDebt,
+  getDebtPayments,
+  recordDebtPayment,
+  getExtraPayments,
+  getOutstandingBalance,
+  type Debt,
+  type DebtKind,
+  type DebtPayment,
+} from '@/lib/debtDb';
+import {
+  buildSchedule,
+  remainingInterest,
+  simulateExtraPayment,
+  type AmortizationSystem,
+  type ScheduleRow,
+} from '@/lib/amortization';
+import { cn } from '@/lib/utils';
+
+const KIND_LABELS: Record<DebtKind, string> = {
+  personal: 'Empréstimo pessoal',
+  payroll: 'Consignado',
+  vehicle: 'Financiamento de veículo',
+  other: 'Outra dívida',
+};
+
+interface DebtForm {
+  name: string;
+  kind: DebtKind;
+  principal: string;
+  monthlyRate: string;
+  termMonths: string;
+  system: AmortizationSystem;
+  firstDueDate: string;
+}
+
+const EMPTY_FORM: DebtForm = {
+  name: '',
+  kind: 'personal',
+  principal: '',
+  monthlyRate: '',
+  termMonths: '',
+  system: 'price',
+  firstDueDate: '',
+};
+
+// Everything the list and the detail dialog show, derived from the terms and the payments
+interface DebtView {
+  debt: Debt;
+  payments: DebtPayment[];
+  schedule: ScheduleRow[];
+  paidInstallments: number;
+  outstanding: number;
+  interestLeft: number;
+  next: ScheduleRow | null;
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+export default function Debts() {
+  const navigate = useNavigate();
+  const { user, refreshUser } = useAuth();
+  const [views, setViews] = useState<DebtView[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<DebtForm | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [extraAmount, setExtraAmount] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<Debt | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+
+    const [debts, payments] = await Promise.all([getDebts(user.userId), getDebtPayments(user.userId)]);
+
+    setViews(debts.map((debt) => {
+      const own = payments.filter((p) => p.debtId === debt.id);
+      const schedule = buildSchedule(debt, getExtraPayments(own));
+      const paidInstallments = own.filter((p) => p.kind === 'installment').length;
+
+      return {
+        debt,
+        payments: own,
+        schedule,
+        paidInstallments,
+        outstanding: getOutstandingBalance(debt, own),
+        interestLeft: remainingInterest(schedule, paidInstallments),
+        next: schedule.find((r) => r.number > paidInstallments) || null,
+      };
+    }));
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const selected = views.find((v) => v.debt.id === selectedId) || null;
+  const extra = parseAmount(extraAmount);
+  const simulation = selected && extra > 0 && extra <= selected.outstanding
+    ? simulateExtraPayment(selected.debt, getExtraPayments(selected.payments), selected.paidInstallments, extra)
+    : null;
+
+  const totalOutstanding = views.reduce((sum, v) => sum + v.outstanding, 0);
+  const totalInterestLeft = views.reduce((sum, v) => sum + v.interestLeft, 0);
+
+  const handleSave = async () => {
+    if (!user || !form || isSaving) return;
+
+    const principal = parseAmount(form.principal);
+    const monthlyRate = parseAmount(form.monthlyRate || '0');
+    const termMonths = parseInt(form.termMonths);
+
+    if (!form.name.trim() || !form.firstDueDate || !(principal > 0) || !(monthlyRate >= 0) || !(termMonths > 0)) {
+      toast.error('Preencha todos os campos');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const [year, month, day] = form.firstDueDate.split('-').map(Number);
+      const id = await addDebt({
+        userId: user.userId,
+        name: form.name,
+        kind: form.kind,
+        principal,
+        monthlyRate,
+        termMonths,
+        system: form.system,
+        firstDueDate: new Date(year, month - 1, day),
+      });
+
+      if (!id) {
+        toast.error('Erro ao salvar dívida');
+        return;
+      }
+
+      toast.success('Dívida cadastrada!');
+      setForm(null);
+      loadData();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePayNext = async () => {
+    if (!selected?.next || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const ok = await recordDebtPayment({
+        debtId: selected.debt.id,
+        installmentNumber: selected.next.number,
+        amount: selected.next.payment,
+        principal: selected.next.principal,
+        interest: selected.next.interest,
+      });
+
+      if (!ok) {
+        toast.error('Erro ao registrar pagamento');
+        return;
+      }
+
+      toast.success(`Parcela ${selected.next.number} paga!`);
+      await refreshUser();
+      loadData();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePayExtra = async () => {
+    if (!selected || !simulation || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const ok = await recordDebtPayment({ debtId: selected.debt.id, amount: extra, principal: extra });
+
+      if (!ok) {
+        toast.error('Erro ao registrar amortização');
+        return;
+      }
+
+      toast.success('Amortização registrada!', {
+        description: `Você economizou ${formatCurrency(simulation.interestSaved)} em juros`,
+      });
+      setExtraAmount('');
+      await refreshUser();
+      loadData();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    if (!(await deleteDebt(deleteTarget.id))) {
+      toast.error('Erro ao excluir dívida');
+      return;
+    }
+
+    toast.success('Dívida excluída');
+    setDeleteTarget(null);
+    setSelectedId(null);
+    loadData();
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen pb-28 px-4 pt-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 rounded-xl bg-muted/50 border border-border"
+          >
+            <ArrowLeft className="w-5 h-5 text-muted-foreground" />
+          </button>
+          <div>
+            <h1 className="font-display text-2xl font-bold">Dívidas</h1>
+            <p className="text-muted-foreground text-sm">Empréstimos e financiamentos</p>
+          </div>
+        </div>
+        <Button size="icon" className="rounded-full bg-gradient-primary" onClick={() => setForm(EMPTY_FORM)}>
+          <Plus className="w-5 h-5" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : views.length === 0 ? (
+        <div className="flex flex-col items-center justify-center min-h-[40vh] text-center py-12">
+          <div className="w-20 h-20 rounded-full bg-primary/10 flex items-center justify-center mb-6">
+            <Landmark className="w-10 h-10 text-primary/50" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">Nenhuma dívida cadastrada</h3>
+          <p className="text-muted-foreground mb-6 max-w-xs">
+            Cadastre empréstimos e financiamentos para acompanhar saldo devedor e juros
+          </p>
+          <Button onClick={() => setForm(EMPTY_FORM)} className="bg-gradient-primary" size="lg">
+            <Plus className="w-5 h-5 mr-2" />
+            Cadastrar dívida
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {/* Summary */}
+          <GlassCard className="p-4" hover={false}>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Saldo devedor total</span>
+              <span className="font-semibold text-destructive">{formatCurrency(totalOutstanding)}</span>
+            </div>
+            <div className="flex items-center justify-between text-sm mt-2">
+              <span className="text-muted-foreground">Juros a pagar</span>
+              <span className="font-medium">{formatCurrency(totalInterestLeft)}</span>
+            </div>
+          </GlassCard>
+
+          {/* Debt list */}
+          <AnimatePresence>
+            {views.map((view, index) => {
+              const progress = ((view.debt.principal - view.outstanding) / view.debt.principal) * 100;
+
+              return (
+                <motion.div
+                  key={view.debt.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                >
+                  <GlassCard className="p-4 cursor-pointer" onClick={() => setSelectedId(view.debt.id)}>
+                    <div className="flex items-start justify-between gap-3 mb-3">
+                      <div className="min-w-0">
+                        <h3 className="font-semibold truncate">{view.debt.name}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {KIND_LABELS[view.debt.kind]} · {view.debt.system === 'price' ? 'Price' : 'SAC'} · {view.debt.monthlyRate}% a.m.
+                        </p>
+                      </div>
+                      {view.debt.paidOffAt ? (
+                        <span className="text-xs bg-success/20 text-success px-2 py-1 rounded-full whitespace-nowrap">
+                          Quitada
+                        </span>
+                      ) : (
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {view.paidInstallments}/{view.schedule.length} parcelas
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="h-2 bg-muted rounded-full overflow-hidden mb-3">
+                      <div className="h-full rounded-full bg-gradient-primary" style={{ width: `${progress}%` }} />
+                    </div>
+
+                    <div className="flex justify-between text-sm">
+                      <div>
+                        <span className="text-muted-foreground text-xs">Saldo devedor</span>
+                        <p className="font-semibold">{formatCurrency(view.outstanding)}</p>
+                      </div>
+                      {view.next && (
+                        <div className="text-right">
+                          <span className="text-muted-foreground text-xs">
+                            Próxima em {format(view.next.dueDate, 'dd/MM', { locale: ptBR })}
+                          </span>
+                          <p className="font-semibold">{formatCurrency(view.next.payment)}</p>
+                        </div>
+                      )}
+                    </div>
+                  </GlassCard>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+
+      {/* New debt */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nova dívida</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Nome (ex: Financiamento do carro)"
+              />
+              <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind: kind as DebtKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KIND_LABELS) as DebtKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Valor financiado</label>
+                  <Input
+                    type="number"
+                    value={form.principal}
+                    onChange={(e) => setForm({ ...form, principal: e.target.value })}
+                    placeholder="0,00"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Juros (% ao mês)</label>
+                  <Input
+                    type="number"
+                    value={form.monthlyRate}
+                    onChange={(e) => setForm({ ...form, monthlyRate: e.target.value })}
+                    placeholder="Ex: 1,99"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Parcelas</label>
+                  <Input
+                    type="number"
+                    value={form.termMonths}
+                    onChange={(e) => setForm({ ...form, termMonths: e.target.value })}
+                    placeholder="Ex: 48"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Sistema</label>
+                  <Select value={form.system} onValueChange={(system) => setForm({ ...form, system: system as AmortizationSystem })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="price">Price (parcela fixa)</SelectItem>
+                      <SelectItem value="sac">SAC (parcela decrescente)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Vencimento da primeira parcela</label>
+                <Input
+                  type="date"
+                  value={form.firstDueDate}
+                  onChange={(e) => setForm({ ...form, firstDueDate: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setForm(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Debt detail */}
+      <Dialog
+        open={!!selected}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedId(null);
+            setExtraAmount('');
+          }
+        }}
+      >
+        <DialogContent className="max-h-[calc(100dvh-5rem)] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.debt.name}</DialogTitle>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="p-3 rounded-xl bg-muted/30">
+                  <span className="text-xs text-muted-foreground">Saldo devedor</span>
+                  <p className="font-semibold">{formatCurrency(selected.outstanding)}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-muted/30">
+                  <span className="text-xs text-muted-foreground">Juros restantes</span>
+                  <p className="font-semibold">{formatCurrency(selected.interestLeft)}</p>
+                </div>
+              </div>
+
+              {selected.next && (
+                <Button onClick={handlePayNext} disabled={isSaving} className="w-full bg-gradient-primary">
+                  {isSaving
+                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                    : `Pagar parcela ${selected.next.number} (${formatCurrency(selected.next.payment)})`}
+                </Button>
+              )}
+
+              {/* Pay extra simulation */}
+              {selected.outstanding > 0 && (
+                <div className="space-y-2 p-3 rounded-xl bg-muted/30">
+                  <label className="text-sm font-medium">Amortizar um valor extra</label>
+                  <Input
+                    type="number"
+                    value={extraAmount}
+                    onChange={(e) => setExtraAmount(e.target.value)}
+                    placeholder="Valor"
+                  />
+                  {extra > selected.outstanding && (
+                    <p className="text-xs text-destructive">O valor passa do saldo devedor</p>
+                  )}
+                  {simulation && (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Economia de <span className="font-semibold text-success">{formatCurrency(simulation.interestSaved)}</span> em juros
+                        {simulation.installmentsSaved > 0 &&
+                          ` e ${simulation.installmentsSaved} ${simulation.installmentsSaved === 1 ? 'parcela a menos' : 'parcelas a menos'}`}
+                      </p>
+                      <Button variant="outline" onClick={handlePayExtra} disabled={isSaving} className="w-full">
+                        Registrar amortização
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Schedule */}
+              <div className="space-y-1">
+                <div className="grid grid-cols-[2rem_1fr_1fr_1fr] gap-2 px-2 text-[10px] text-muted-foreground">
+                  <span>#</span>
+                  <span>Vencimento</span>
+                  <span className="text-right">Parcela</span>
+                  <span className="text-right">Saldo</span>
+                </div>
+                {selected.schedule.map((row) => {
+                  const paid = row.number <= selected.paidInstallments;
+                  return (
+                    <div
+                      key={row.number}
+                      className={cn(
+                        'grid grid-cols-[2rem_1fr_1fr_1fr] gap-2 px-2 py-1.5 rounded-lg text-xs',
+                        paid ? 'text-muted-foreground' : 'bg-muted/20'
+                      )}
+                    >
+                      <span className="flex items-center">
+                        {paid ? <Check className="w-3 h-3 text-success" /> : row.number}
+                      </span>
+                      <span>{format(row.dueDate, 'dd/MM/yy')}</span>
+                      <span className="text-right" title={`Juros ${formatCurrency(row.interest)}`}>
+                        {formatCurrency(row.payment)}
+                      </span>
+                      <span className="text-right">{formatCurrency(row.balance)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <Button
+                variant="ghost"
+                className="w-full text-destructive"
+                onClick={() => setDeleteTarget(selected.debt)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Excluir dívida
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir dívida?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.name} deixará de aparecer. As transações dos pagamentos já registrados continuam no extrato.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
@@ -1,13 +1,28 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Target, Trophy, Calendar, X, User, Mail, Phone, CreditCard, Wallet, Lock, Edit3, Check, Hash, DollarSign, CalendarDays, LogOut } from 'lucide-react';
+import { Plus, Target, Trophy, Calendar, X, User, Mail, Phone, CreditCard, Wallet, Lock, Edit3, Check, Hash, DollarSign, CalendarDays, LogOut, History, CheckCircle2, AlertTriangle, Users } from 'lucide-react';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
-import { getGoals, addGoal, updateGoal, updateProfile, type Goal } from '@/lib/db';
-import { updateUserSalaryInfo, getUserSalaryInfo } from '@/lib/plannerDb';
+import { format, subDays } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  getGoals,
+  addGoal,
+  updateGoal,
+  addGoalContribution,
+  getUserGoalContributions,
+  updateProfile,
+  type Goal,
+} from '@/lib/db';
+import { updateUserSalaryInfo, getUserSalaryInfo, calculateMonthlySummary } from '@/lib/plannerDb';
+import { projectGoals, PACE_WINDOW_DAYS, type GoalProjection } from '@/lib/goalProjection';
+import { getGoalInvites, acceptGoalInvite, removeGoalMember, type GoalInvite } from '@/lib/goalSharingDb';
+import { onSyncComplete } from '@/lib/offlineDb';
+import { SyncStatusBadge } from '@/components/SyncStatusBadge';
+import { GoalHistoryDialog } from '@/components/GoalHistoryDialog';
 import { toast } from 'sonner';
 import { useIsaGreeting } from '@/hooks/useIsaGreeting';
 
@@ -16,6 +31,9 @@ export default function Goals() {
   const navigate = useNavigate();
   const [goals, setGoals] = useState<Goal[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [historyGoalId, setHistoryGoalId] = useState<string | null>(null);
+  const [projections, setProjections] = useState<Map<string, GoalProjection>>(new Map());
+  const [invites, setInvites] = useState<GoalInvite[]>([]);
   const [activeTab, setActiveTab] = useState<'profile' | 'goals'>('profile');
   const [editingName, setEditingName] = useState(false);
   const [editingBalance, setEditingBalance] = useState(false);
@@ -51,6 +69,12 @@ export default function Goals() {
     }
   }, [user]);
 
+  // Pick up goals synced in the background
+  useEffect(() => {
+    if (!user) return;
+    return onSyncComplete(async () => setGoals(await getGoals(user.userId)));
+  }, [user]);
+
   const loadSalaryInfo = async () => {
     if (!user) return;
     const info = await getUserSalaryInfo(user.userId);
@@ -63,8 +87,44 @@ export default function Goals() {
 
   const loadGoals = async () => {
     if (!user) return;
-    const g = await getGoals(user.userId);
+    const [g, contributions, info, pendingInvites] = await Promise.all([
+      getGoals(user.userId),
+      getUserGoalContributions(user.userId, subDays(new Date(), PACE_WINDOW_DAYS)),
+      getUserSalaryInfo(user.userId),
+      getGoalInvites(user.userId),
+    ]);
+
+    // Without a salary there is no monthly leftover to check the goals against
+    const summary = info && info.salaryAmount > 0
+      ? await calculateMonthlySummary(user.userId, info.salaryAmount, info.salaryDay, info.advanceAmount)
+      : null;
+
     setGoals(g);
+    setInvites(pendingInvites);
+    setProjections(projectGoals(g, contributions, summary ? summary.projectedBalance : null));
+  };
+
+  const handleInviteResponse = async (invite: GoalInvite, accept: boolean) => {
+    if (!user) return;
+    const ok = accept
+      ? await acceptGoalInvite(invite.goalId)
+      : await removeGoalMember(invite.goalId, user.userId);
+
+    if (!ok) {
+      toast.error('Erro ao responder convite');
+      return;
+    }
+    if (accept) toast.success('Você entrou na meta!');
+    loadGoals();
+  };
+
+  const handleApplySuggestedDeadline = async (id: string, deadline: Date) => {
+    if (!(await updateGoal(id, { deadline }))) {
+      toast.error('Erro ao atualizar prazo');
+      return;
+    }
+    toast.success('Prazo atualizado!');
+    loadGoals();
   };
 
   const handleSaveName = async () => {
@@ -131,9 +191,18 @@ export default function Goals() {
     toast.success('Meta criada!');
   };
 
-  const handleUpdateGoal = async (id: string, amount: number) => {
-    await updateGoal(id, { currentAmount: amount });
+  // Quick deposits go to the goal's ledger without touching the checking account
+  const handleQuickDeposit = async (id: string, amount: number) => {
+    if (!(await addGoalContribution({ goalId: id, kind: 'deposit', amount }))) {
+      toast.error('Erro ao registrar depósito');
+      return;
+    }
+    loadGoals();
+  };
+
+  const handleContributionChanged = () => {
     loadGoals();
+    refreshUser();
   };
 
   const formatCurrency = (value: number) => {
@@ -484,11 +553,37 @@ export default function Goals() {
         <>
           {/* Goals List */}
           <div className="space-y-4">
+            {/* Shared goal invites */}
+            {invites.map((invite) => (
+              <GlassCard key={invite.goalId} className="p-4" hover={false}>
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-primary/20 flex items-center justify-center shrink-0">
+                    <Users className="w-5 h-5 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">Convite para a meta {invite.goalTitle}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Matrícula {invite.ownerId} · sua parte: {invite.sharePercent}% de {formatCurrency(invite.targetAmount)}
+                    </p>
+                    <div className="flex gap-2 mt-3">
+                      <Button size="sm" variant="ghost" onClick={() => handleInviteResponse(invite, false)}>
+                        Recusar
+                      </Button>
+                      <Button size="sm" className="bg-gradient-primary" onClick={() => handleInviteResponse(invite, true)}>
+                        Aceitar
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </GlassCard>
+            ))}
+
             <AnimatePresence>
               {goals.map((goal, index) => {
                 const progress = getProgress(goal.currentAmount, goal.targetAmount);
                 const daysRemaining = getDaysRemaining(goal.deadline);
                 const isCompleted = progress >= 100;
+                const projection = projections.get(goal.id!);
 
                 return (
                   <motion.div
@@ -518,6 +613,13 @@ export default function Goals() {
                           </div>
                           <div>
                             <h3 className="font-semibold">{goal.title}</h3>
+                            <SyncStatusBadge status={goal.syncStatus} />
+                            {(goal.memberCount || goal.userId !== user?.userId) ? (
+                              <span className="flex items-center gap-1 text-xs text-primary">
+                                <Users className="w-3 h-3" />
+                                Compartilhada
+                              </span>
+                            ) : null}
                             <div className="flex items-center gap-2 text-xs text-muted-foreground">
                               <Calendar className="w-3 h-3" />
                               {daysRemaining > 0 ? (
@@ -528,11 +630,20 @@ export default function Goals() {
                             </div>
                           </div>
                         </div>
-                        {isCompleted && (
-                          <span className="text-xs bg-success/20 text-success px-2 py-1 rounded-full">
-                            Concluída! 🎉
-                          </span>
-                        )}
+                        <div className="flex items-center gap-2">
+                          {isCompleted && (
+                            <span className="text-xs bg-success/20 text-success px-2 py-1 rounded-full">
+                              Concluída! 🎉
+                            </span>
+                          )}
+                          <button
+                            onClick={() => setHistoryGoalId(goal.id!)}
+                            className="p-2 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
+                            title="Histórico"
+                          >
+                            <History className="w-4 h-4 text-muted-foreground" />
+                          </button>
+                        </div>
                       </div>
 
                       {/* Progress */}
@@ -571,15 +682,59 @@ export default function Goals() {
                         </div>
                       </div>
 
+                      {/* Projection */}
+                      {projection && !isCompleted && (
+                        <div className="mt-4 p-3 rounded-xl bg-muted/30 space-y-1.5 text-xs">
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Necessário por mês</span>
+                            <span className="font-medium">
+                              {formatCurrency(projection.monthlyNeeded)}
+                              {projection.myMonthlyNeeded !== projection.monthlyNeeded &&
+                                ` (sua parte: ${formatCurrency(projection.myMonthlyNeeded)})`}
+                            </span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">No ritmo atual</span>
+                            <span className="font-medium">
+                              {projection.projectedDate
+                                ? `conclui em ${format(projection.projectedDate, "MMM 'de' yyyy", { locale: ptBR })}`
+                                : 'sem depósitos recentes'}
+                            </span>
+                          </div>
+                          {projection.fits === true && (
+                            <p className="flex items-center gap-1 text-success">
+                              <CheckCircle2 className="w-3 h-3" />
+                              Cabe na sobra do mês
+                            </p>
+                          )}
+                          {projection.fits === false && (
+                            <div className="flex items-center justify-between gap-2 text-warning">
+                              <span className="flex items-center gap-1">
+                                <AlertTriangle className="w-3 h-3 shrink-0" />
+                                {projection.suggestedDeadline
+                                  ? `Não cabe na sobra do mês. Prazo sugerido: ${format(projection.suggestedDeadline, "MMM 'de' yyyy", { locale: ptBR })}`
+                                  : 'Não cabe na sobra do mês'}
+                              </span>
+                              {projection.suggestedDeadline && goal.userId === user?.userId && (
+                                <button
+                                  onClick={() => handleApplySuggestedDeadline(goal.id!, projection.suggestedDeadline!)}
+                                  className="px-2 py-1 rounded-lg bg-warning/20 font-medium whitespace-nowrap"
+                                >
+                                  Usar
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )}
+
                       {/* Quick Add */}
                       {!isCompleted && (
                         <div className="mt-4 flex gap-2">
                           {[50, 100, 200].map((amount) => (
                             <button
                               key={amount}
-                              onClick={() =>
-                                handleUpdateGoal(goal.id!, goal.currentAmount + amount)
-                              }
+                              onClick={() => handleQuickDeposit(goal.id!, amount)}
                               className="flex-1 py-2 rounded-lg bg-muted/50 hover:bg-muted text-sm font-medium transition-colors"
                             >
                               +R${amount}
@@ -630,6 +785,12 @@ export default function Goals() {
         </>
       )}
 
+      <GoalHistoryDialog
+        goal={goals.find((g) => g.id === historyGoalId) || null}
+        onClose={() => setHistoryGoalId(null)}
+        onChanged={handleContributionChanged}
+      />
+
       {/* Add Goal Modal */}
       <AnimatePresence>
         {showAddModal && (
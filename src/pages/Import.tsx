@@ -0,0 +1,449 @@
+import { useState, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  ArrowLeft,
+  Upload,
+  FileText,
+  ArrowUpRight,
+  ArrowDownRight,
+  Copy,
+  Loader2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCategories } from '@/hooks/useCategories';
+import {
+  CSV_LAYOUTS,
+  CUSTOM_CSV_LAYOUT_ID,
+  customCsvLayout,
+  detectCsvDelimiter,
+  detectCsvLayout,
+  getCsvColumns,
+  isOfx,
+  normalizeText,
+  parseCsv,
+  parseOfx,
+  suggestCategory,
+  type CsvColumnMapping,
+  type StatementEntry,
+} from '@/lib/statementParsers';
+import { findDuplicateEntries, importTransactions } from '@/lib/importDb';
+import { getRules, findMatchingRule } from '@/lib/ruleDb';
+import { cn } from '@/lib/utils';
+
+interface PreviewRow {
+  entry: StatementEntry;
+  category: string;
+  duplicate: boolean;
+  selected: boolean;
+}
+
+const CSV_MAPPING_KEY = 'inovabank_csv_mapping';
+
+function loadCsvMapping(): CsvColumnMapping | null {
+  try {
+    return JSON.parse(localStorage.getItem(CSV_MAPPING_KEY) || 'null') as CsvColumnMapping | null;
+  } catch {
+    return null;
+  }
+}
+
+// The last mapping the user saved when its columns are in this file, otherwise a first guess
+function initialCsvMapping(text: string, delimiter: ',' | ';' = detectCsvDelimiter(text)): CsvColumnMapping {
+  const columns = getCsvColumns(text, delimiter);
+  const saved = loadCsvMapping();
+  const names = columns.map(normalizeText);
+  if (
+    saved &&
+    saved.delimiter === delimiter &&
+    [saved.dateColumn, saved.descriptionColumn, saved.amountColumn].every((c) => names.includes(normalizeText(c)))
+  ) {
+    return saved;
+  }
+
+  return {
+    delimiter,
+    decimalSeparator: delimiter === ';' ? ',' : '.',
+    dateFormat: 'dd/MM/yyyy',
+    dateColumn: columns[0] || '',
+    descriptionColumn: columns[1] || '',
+    amountColumn: columns[columns.length - 1] || '',
+    positiveIsExpense: false,
+  };
+}
+
+// Brazilian bank exports are often Windows-1252 instead of UTF-8
+async function readFileText(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+interface MappingSelectProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}
+
+function MappingSelect({ label, value, options, onChange }: MappingSelectProps) {
+  return (
+    <div>
+      <label className="text-xs text-muted-foreground mb-1 block">{label}</label>
+      <Select value={value || undefined} onValueChange={onChange}>
+        <SelectTrigger className="h-9 text-xs bg-muted/50 border-border">
+          <SelectValue placeholder="Escolha" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default function Import() {
+  const navigate = useNavigate();
+  const { user, refreshUser } = useAuth();
+  const { byType } = useCategories(user?.userId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileText, setFileText] = useState('');
+  const [layoutId, setLayoutId] = useState<string | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvColumnMapping | null>(null);
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const buildPreview = async (text: string, csvLayoutId: string | null, mapping: CsvColumnMapping | null = csvMapping) => {
+    if (!user) return;
+    setIsParsing(true);
+
+    const layout = csvLayoutId === CUSTOM_CSV_LAYOUT_ID
+      ? mapping && customCsvLayout(mapping)
+      : CSV_LAYOUTS.find((l) => l.id === csvLayoutId);
+    const entries = isOfx(text) ? parseOfx(text) : layout ? parseCsv(text, layout) : [];
+    const [duplicates, rules] = await Promise.all([
+      findDuplicateEntries(user.userId, entries),
+      getRules(user.userId),
+    ]);
+
+    // The user's rules win over the built-in keyword suggestions, as they will on insert
+    setRows(entries.map((entry, index) => ({
+      entry,
+      category: findMatchingRule(rules, entry)?.category || suggestCategory(entry),
+      duplicate: duplicates.has(index),
+      selected: !duplicates.has(index),
+    })));
+    setIsParsing(false);
+
+    if (entries.length === 0) {
+      toast.error('Nenhuma transação encontrada no arquivo');
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    const text = await readFileText(file);
+    const detected = isOfx(text) ? null : detectCsvLayout(text)?.id || null;
+
+    const mapping = isOfx(text) ? null : initialCsvMapping(text);
+
+    setFileName(file.name);
+    setFileText(text);
+    setLayoutId(detected);
+    setCsvMapping(mapping);
+
+    if (!isOfx(text) && !detected) {
+      setRows([]);
+      toast.info('Formato não reconhecido. Escolha o banco ou mapeie as colunas.');
+      return;
+    }
+
+    buildPreview(text, detected, mapping);
+  };
+
+  const handleLayoutChange = (id: string) => {
+    setLayoutId(id);
+    buildPreview(fileText, id);
+  };
+
+  // A new delimiter changes the column names, so the columns are guessed again
+  const handleMappingChange = (changes: Partial<CsvColumnMapping>) => {
+    if (!csvMapping) return;
+    const mapping = changes.delimiter && changes.delimiter !== csvMapping.delimiter
+      ? initialCsvMapping(fileText, changes.delimiter)
+      : { ...csvMapping, ...changes };
+
+    setCsvMapping(mapping);
+    localStorage.setItem(CSV_MAPPING_KEY, JSON.stringify(mapping));
+    buildPreview(fileText, CUSTOM_CSV_LAYOUT_ID, mapping);
+  };
+
+  const csvColumns = csvMapping ? getCsvColumns(fileText, csvMapping.delimiter) : [];
+
+  const updateRow = (index: number, changes: Partial<PreviewRow>) => {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  const selectedRows = rows.filter((r) => r.selected);
+  const duplicateCount = rows.filter((r) => r.duplicate).length;
+
+  const handleImport = async () => {
+    if (!user || selectedRows.length === 0 || isImporting) return;
+
+    setIsImporting(true);
+    try {
+      const imported = await importTransactions(
+        user.userId,
+        selectedRows.map((r) => ({
+          ...r.entry,
+          category: r.category,
+          userId: user.userId,
+        }))
+      );
+
+      if (imported === null) {
+        toast.error('Erro ao importar extrato');
+        return;
+      }
+
+      await refreshUser();
+      toast.success(`${imported} transações importadas!`);
+      navigate('/statement');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen pb-28 px-4 pt-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2 rounded-xl bg-muted/50 border border-border"
+        >
+          <ArrowLeft className="w-5 h-5 text-muted-foreground" />
+        </button>
+        <div>
+          <h1 className="font-display text-2xl font-bold">Importar extrato</h1>
+          <p className="text-muted-foreground text-sm">Arquivos OFX ou CSV do seu banco</p>
+        </div>
+      </div>
+
+      {/* File picker */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".ofx,.csv,.txt"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full mb-4 p-6 rounded-2xl border-2 border-dashed border-border bg-card/30 flex flex-col items-center gap-2 hover:border-primary/50 transition-colors"
+      >
+        {fileName ? (
+          <FileText className="w-8 h-8 text-primary" />
+        ) : (
+          <Upload className="w-8 h-8 text-muted-foreground" />
+        )}
+        <span className="text-sm font-medium">{fileName || 'Escolher arquivo'}</span>
+        <span className="text-xs text-muted-foreground">Nubank, Itaú, Inter, Bradesco ou qualquer OFX</span>
+      </button>
+
+      {/* CSV layout */}
+      {fileName && !isOfx(fileText) && (
+        <div className="mb-4">
+          <label className="text-sm font-medium mb-2 block">Banco</label>
+          <Select value={layoutId || undefined} onValueChange={handleLayoutChange}>
+            <SelectTrigger className="bg-muted/50 border-border">
+              <SelectValue placeholder="Escolha o formato do CSV" />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_LAYOUTS.map((layout) => (
+                <SelectItem key={layout.id} value={layout.id}>
+                  {layout.label}
+                </SelectItem>
+              ))}
+              <SelectItem value={CUSTOM_CSV_LAYOUT_ID}>Outro banco (mapear colunas)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Custom column mapping */}
+      {fileName && layoutId === CUSTOM_CSV_LAYOUT_ID && csvMapping && (
+        <GlassCard className="p-4 mb-4 space-y-3" hover={false}>
+          <div className="grid grid-cols-2 gap-3">
+            <MappingSelect
+              label="Separador de colunas"
+              value={csvMapping.delimiter}
+              options={[{ value: ';', label: 'Ponto e vírgula (;)' }, { value: ',', label: 'Vírgula (,)' }]}
+              onChange={(delimiter) => handleMappingChange({ delimiter: delimiter as CsvColumnMapping['delimiter'] })}
+            />
+            <MappingSelect
+              label="Separador decimal"
+              value={csvMapping.decimalSeparator}
+              options={[{ value: ',', label: 'Vírgula (1.234,56)' }, { value: '.', label: 'Ponto (1,234.56)' }]}
+              onChange={(decimalSeparator) => handleMappingChange({ decimalSeparator: decimalSeparator as CsvColumnMapping['decimalSeparator'] })}
+            />
+            <MappingSelect
+              label="Coluna da data"
+              value={csvMapping.dateColumn}
+              options={csvColumns.map((c) => ({ value: c, label: c }))}
+              onChange={(dateColumn) => handleMappingChange({ dateColumn })}
+            />
+            <MappingSelect
+              label="Formato da data"
+              value={csvMapping.dateFormat}
+              options={[{ value: 'dd/MM/yyyy', label: 'dd/mm/aaaa' }, { value: 'yyyy-MM-dd', label: 'aaaa-mm-dd' }]}
+              onChange={(dateFormat) => handleMappingChange({ dateFormat: dateFormat as CsvColumnMapping['dateFormat'] })}
+            />
+            <MappingSelect
+              label="Coluna da descrição"
+              value={csvMapping.descriptionColumn}
+              options={csvColumns.map((c) => ({ value: c, label: c }))}
+              onChange={(descriptionColumn) => handleMappingChange({ descriptionColumn })}
+            />
+            <MappingSelect
+              label="Coluna do valor"
+              value={csvMapping.amountColumn}
+              options={csvColumns.map((c) => ({ value: c, label: c }))}
+              onChange={(amountColumn) => handleMappingChange({ amountColumn })}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={csvMapping.positiveIsExpense}
+              onCheckedChange={(checked) => handleMappingChange({ positiveIsExpense: checked === true })}
+            />
+            Valores positivos são gastos (fatura de cartão)
+          </label>
+        </GlassCard>
+      )}
+
+      {isParsing ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : rows.length > 0 && (
+        <div className="space-y-3">
+          {/* Summary */}
+          <GlassCard className="p-4" hover={false}>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{rows.length} transações no arquivo</span>
+              <span className="font-medium">{selectedRows.length} selecionadas</span>
+            </div>
+            {duplicateCount > 0 && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+                <Copy className="w-3 h-3" />
+                {duplicateCount} já registradas foram desmarcadas
+              </p>
+            )}
+          </GlassCard>
+
+          {/* Preview */}
+          {rows.map((row, index) => (
+            <GlassCard
+              key={index}
+              className={cn('p-3', !row.selected && 'opacity-50')}
+              hover={false}
+            >
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  checked={row.selected}
+                  onCheckedChange={(checked) => updateRow(index, { selected: checked === true })}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium truncate">{row.entry.description}</p>
+                    <span className={cn(
+                      'flex items-center text-sm font-semibold whitespace-nowrap',
+                      row.entry.type === 'income' ? 'text-success' : 'text-destructive'
+                    )}>
+                      {row.entry.type === 'income'
+                        ? <ArrowUpRight className="w-4 h-4" />
+                        : <ArrowDownRight className="w-4 h-4" />}
+                      {formatCurrency(row.entry.amount)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {format(row.entry.date, 'dd MMM yyyy', { locale: ptBR })}
+                    </span>
+                    {row.duplicate && (
+                      <span className="text-[10px] px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                        Duplicada
+                      </span>
+                    )}
+                    <Select value={row.category} onValueChange={(category) => updateRow(index, { category })}>
+                      <SelectTrigger className="h-8 ml-auto w-36 text-xs bg-muted/50 border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {byType(row.entry.type).map((cat) => (
+                          <SelectItem key={cat.id} value={cat.name}>
+                            {cat.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+            </GlassCard>
+          ))}
+
+          <Button
+            onClick={handleImport}
+            disabled={selectedRows.length === 0 || isImporting}
+            className="w-full h-12 bg-gradient-primary hover:opacity-90"
+          >
+            {isImporting ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              `Importar ${selectedRows.length} transações`
+            )}
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
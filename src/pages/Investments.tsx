@@ -0,0 +1,624 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { ArrowLeft, Plus, Trash2, TrendingUp, ArrowDownRight, ArrowUpRight, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getPortfolio,
+  getIndexRates,
+  addInvestment,
+  deleteInvestment,
+  recordInvestmentMovement,
+  setInvestmentPrice,
+  type InvestmentPosition,
+} from '@/lib/investmentDb';
+import { isMarketAsset, type AssetType } from '@/lib/investmentValuation';
+import { cn } from '@/lib/utils';
+
+const ASSET_LABELS: Record<AssetType, string> = {
+  cdb: 'CDB',
+  tesouro_selic: 'Tesouro Selic',
+  tesouro_prefixado: 'Tesouro Prefixado',
+  tesouro_ipca: 'Tesouro IPCA+',
+  poupanca: 'Poupança',
+  stock: 'Ações',
+  fii: 'FIIs',
+};
+
+// Label and example for the rate field; poupança and market assets have no rate
+const RATE_FIELDS: Partial<Record<AssetType, { label: string; placeholder: string }>> = {
+  cdb: { label: '% do CDI', placeholder: 'Ex: 110' },
+  tesouro_selic: { label: 'Selic + (% a.a.)', placeholder: 'Ex: 0,1' },
+  tesouro_prefixado: { label: 'Taxa (% a.a.)', placeholder: 'Ex: 12,5' },
+  tesouro_ipca: { label: 'IPCA + (% a.a.)', placeholder: 'Ex: 6' },
+};
+
+interface InvestmentForm {
+  name: string;
+  assetType: AssetType;
+  ticker: string;
+  rate: string;
+  maturityDate: string;
+  amount: string;
+  quantity: string;
+  date: string;
+}
+
+interface MovementForm {
+  kind: 'buy' | 'sell';
+  amount: string;
+  quantity: string;
+  date: string;
+}
+
+function formatRate(type: AssetType, rate: number): string {
+  switch (type) {
+    case 'cdb':
+      return `${rate}% do CDI`;
+    case 'tesouro_selic':
+      return `Selic + ${rate}% a.a.`;
+    case 'tesouro_ipca':
+      return `IPCA + ${rate}% a.a.`;
+    default:
+      return `${rate}% a.a.`;
+  }
+}
+
+function today(): string {
+  return format(new Date(), 'yyyy-MM-dd');
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function parseDateInput(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export default function Investments() {
+  const navigate = useNavigate();
+  const { user, refreshUser } = useAuth();
+  const [positions, setPositions] = useState<InvestmentPosition[]>([]);
+  const [hasIndexRates, setHasIndexRates] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<InvestmentForm | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [movement, setMovement] = useState<MovementForm>({ kind: 'buy', amount: '', quantity: '', date: today() });
+  const [quote, setQuote] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<InvestmentPosition | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+
+    const [portfolio, rates] = await Promise.all([getPortfolio(user.userId), getIndexRates()]);
+    setPositions(portfolio);
+    setHasIndexRates(rates.length > 0);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const selected = positions.find((p) => p.investment.id === selectedId) || null;
+  const totalValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
+  const totalInvested = positions.reduce((sum, p) => sum + p.invested, 0);
+  const totalYield = totalValue - totalInvested;
+
+  const openNew = () => {
+    setForm({
+      name: '',
+      assetType: 'cdb',
+      ticker: '',
+      rate: '',
+      maturityDate: '',
+      amount: '',
+      quantity: '',
+      date: today(),
+    });
+  };
+
+  const closeDetail = () => {
+    setSelectedId(null);
+    setMovement({ kind: 'buy', amount: '', quantity: '', date: today() });
+    setQuote('');
+  };
+
+  const handleSave = async () => {
+    if (!user || !form || isSaving) return;
+
+    const market = isMarketAsset(form.assetType);
+    const amount = parseAmount(form.amount);
+    const quantity = parseAmount(form.quantity);
+    const rate = RATE_FIELDS[form.assetType] ? parseAmount(form.rate) : null;
+
+    if (!form.name.trim() || !form.date || !(amount > 0) || (market && !(quantity > 0)) || (rate !== null && !(rate >= 0))) {
+      toast.error('Preencha todos os campos');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const id = await addInvestment({
+        userId: user.userId,
+        name: form.name,
+        assetType: form.assetType,
+        ticker: market ? form.ticker : null,
+        rate,
+        maturityDate: !market && form.maturityDate ? parseDateInput(form.maturityDate) : null,
+      });
+
+      const bought = id && await recordInvestmentMovement({
+        investmentId: id,
+        kind: 'buy',
+        amount,
+        quantity: market ? quantity : undefined,
+        occurredAt: parseDateInput(form.date),
+      });
+
+      if (!bought) {
+        if (id) await deleteInvestment(id);
+        toast.error('Erro ao salvar investimento');
+        return;
+      }
+
+      toast.success('Investimento cadastrado!', {
+        description: `${formatCurrency(amount)} debitados da conta`,
+      });
+      setForm(null);
+      await refreshUser();
+      loadData();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMovement = async () => {
+    if (!selected || isSaving) return;
+
+    const market = isMarketAsset(selected.investment.assetType);
+    const amount = parseAmount(movement.amount);
+    const quantity = parseAmount(movement.quantity);
+
+    if (!(amount > 0) || !movement.date || (market && !(quantity > 0))) {
+      toast.error('Preencha todos os campos');
+      return;
+    }
+    if (movement.kind === 'sell' && (market ? quantity > (selected.quantity || 0) : amount > selected.currentValue)) {
+      toast.error('O resgate passa da posição atual');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const ok = await recordInvestmentMovement({
+        investmentId: selected.investment.id,
+        kind: movement.kind,
+        amount,
+        quantity: market ? quantity : undefined,
+        occurredAt: parseDateInput(movement.date),
+      });
+
+      if (!ok) {
+        toast.error('Erro ao registrar movimentação');
+        return;
+      }
+
+      toast.success(movement.kind === 'buy' ? 'Aplicação registrada!' : 'Resgate registrado!');
+      setMovement({ kind: movement.kind, amount: '', quantity: '', date: today() });
+      await refreshUser();
+      loadData();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleQuote = async () => {
+    if (!selected) return;
+
+    const unitPrice = parseAmount(quote);
+    if (!(unitPrice > 0)) {
+      toast.error('Cotação inválida');
+      return;
+    }
+
+    if (!(await setInvestmentPrice(selected.investment, unitPrice))) {
+      toast.error('Erro ao salvar cotação');
+      return;
+    }
+
+    toast.success('Cotação atualizada');
+    setQuote('');
+    loadData();
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    if (!(await deleteInvestment(deleteTarget.investment.id))) {
+      toast.error('Erro ao excluir investimento');
+      return;
+    }
+
+    toast.success('Investimento excluído');
+    setDeleteTarget(null);
+    closeDetail();
+    loadData();
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen pb-28 px-4 pt-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 rounded-xl bg-muted/50 border border-border"
+          >
+            <ArrowLeft className="w-5 h-5 text-muted-foreground" />
+          </button>
+          <div>
+            <h1 className="font-display text-2xl font-bold">Investimentos</h1>
+            <p className="text-muted-foreground text-sm">Renda fixa, ações e FIIs</p>
+          </div>
+        </div>
+        <Button size="icon" className="rounded-full bg-gradient-primary" onClick={openNew}>
+          <Plus className="w-5 h-5" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : positions.length === 0 ? (
+        <div className="flex flex-col items-center justify-center min-h-[40vh] text-center py-12">
+          <div className="w-20 h-20 rounded-full bg-primary/10 flex items-center justify-center mb-6">
+            <TrendingUp className="w-10 h-10 text-primary/50" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">Nenhum investimento</h3>
+          <p className="text-muted-foreground mb-6 max-w-xs">
+            Cadastre CDBs, títulos do Tesouro, poupança, ações e FIIs para acompanhar seus rendimentos
+          </p>
+          <Button onClick={openNew} className="bg-gradient-primary" size="lg">
+            <Plus className="w-5 h-5 mr-2" />
+            Cadastrar investimento
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {/* Summary */}
+          <GlassCard className="p-4" hover={false}>
+            <span className="text-muted-foreground text-sm">Total investido hoje</span>
+            <h2 className="font-display text-3xl font-bold">{formatCurrency(totalValue)}</h2>
+            <div className="flex justify-between text-sm mt-2">
+              <span className="text-muted-foreground">Aplicado {formatCurrency(totalInvested)}</span>
+              <span className={cn('font-medium', totalYield >= 0 ? 'text-success' : 'text-destructive')}>
+                {totalYield >= 0 ? '+' : ''}{formatCurrency(totalYield)}
+              </span>
+            </div>
+            {!hasIndexRates && (
+              <p className="text-xs text-muted-foreground mt-2">
+                As taxas de CDI, Selic e IPCA ainda não foram cadastradas; a renda fixa aparece sem rendimento.
+              </p>
+            )}
+          </GlassCard>
+
+          {/* Positions */}
+          <AnimatePresence>
+            {positions.map((position, index) => {
+              const gain = position.currentValue - position.invested;
+
+              return (
+                <motion.div
+                  key={position.investment.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                >
+                  <GlassCard className="p-4 cursor-pointer" onClick={() => setSelectedId(position.investment.id)}>
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <h3 className="font-semibold truncate">{position.investment.name}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {ASSET_LABELS[position.investment.assetType]}
+                          {position.investment.ticker && ` · ${position.investment.ticker}`}
+                          {position.quantity !== null && ` · ${position.quantity} cotas`}
+                          {position.investment.rate !== null && ` · ${formatRate(position.investment.assetType, position.investment.rate)}`}
+                        </p>
+                      </div>
+                      <div className="text-right whitespace-nowrap">
+                        <p className="font-semibold">{formatCurrency(position.currentValue)}</p>
+                        <p className={cn('text-xs', gain >= 0 ? 'text-success' : 'text-destructive')}>
+                          {gain >= 0 ? '+' : ''}{formatCurrency(gain)}
+                        </p>
+                      </div>
+                    </div>
+                  </GlassCard>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+
+      {/* New investment */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-h-[calc(100dvh-5rem)] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Novo investimento</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <Select
+                value={form.assetType}
+                onValueChange={(assetType) => setForm({ ...form, assetType: assetType as AssetType, rate: '' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ASSET_LABELS) as AssetType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {ASSET_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Nome (ex: CDB Banco X 2027)"
+              />
+              {isMarketAsset(form.assetType) ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    value={form.ticker}
+                    onChange={(e) => setForm({ ...form, ticker: e.target.value })}
+                    placeholder="Código (ex: PETR4)"
+                  />
+                  <Input
+                    type="number"
+                    value={form.quantity}
+                    onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                    placeholder="Quantidade"
+                  />
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {RATE_FIELDS[form.assetType] && (
+                    <div className="space-y-1">
+                      <label className="text-xs text-muted-foreground">{RATE_FIELDS[form.assetType]!.label}</label>
+                      <Input
+                        type="number"
+                        value={form.rate}
+                        onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                        placeholder={RATE_FIELDS[form.assetType]!.placeholder}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">Vencimento (opcional)</label>
+                    <Input
+                      type="date"
+                      value={form.maturityDate}
+                      onChange={(e) => setForm({ ...form, maturityDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Valor aplicado</label>
+                  <Input
+                    type="number"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    placeholder="0,00"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Data da compra</label>
+                  <Input
+                    type="date"
+                    value={form.date}
+                    onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">O valor aplicado é debitado da conta corrente.</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setForm(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Investment detail */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && closeDetail()}>
+        <DialogContent className="max-h-[calc(100dvh-5rem)] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.investment.name}</DialogTitle>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="p-3 rounded-xl bg-muted/30">
+                  <span className="text-xs text-muted-foreground">Valor atual</span>
+                  <p className="font-semibold">{formatCurrency(selected.currentValue)}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-muted/30">
+                  <span className="text-xs text-muted-foreground">Aplicado</span>
+                  <p className="font-semibold">{formatCurrency(selected.invested)}</p>
+                </div>
+              </div>
+
+              {/* Quote for stocks and FIIs */}
+              {isMarketAsset(selected.investment.assetType) && (
+                <div className="space-y-2 p-3 rounded-xl bg-muted/30">
+                  <label className="text-sm font-medium">Cotação</label>
+                  <p className="text-xs text-muted-foreground">
+                    {selected.lastPrice
+                      ? `Última: ${formatCurrency(selected.lastPrice.unitPrice)} em ${format(selected.lastPrice.priceDate, 'dd/MM/yyyy')}`
+                      : 'Usando o preço da última compra ou venda'}
+                  </p>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      value={quote}
+                      onChange={(e) => setQuote(e.target.value)}
+                      placeholder="Preço por cota hoje"
+                    />
+                    <Button variant="outline" onClick={handleQuote} disabled={!quote}>
+                      Atualizar
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Buy / sell */}
+              <div className="space-y-2 p-3 rounded-xl bg-muted/30">
+                <div className="flex gap-2">
+                  <Button
+                    variant={movement.kind === 'buy' ? 'default' : 'outline'}
+                    className="flex-1"
+                    onClick={() => setMovement({ ...movement, kind: 'buy' })}
+                  >
+                    Aplicar
+                  </Button>
+                  <Button
+                    variant={movement.kind === 'sell' ? 'default' : 'outline'}
+                    className="flex-1"
+                    onClick={() => setMovement({ ...movement, kind: 'sell' })}
+                  >
+                    Resgatar
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="number"
+                    value={movement.amount}
+                    onChange={(e) => setMovement({ ...movement, amount: e.target.value })}
+                    placeholder="Valor"
+                  />
+                  <Input
+                    type="date"
+                    value={movement.date}
+                    onChange={(e) => setMovement({ ...movement, date: e.target.value })}
+                  />
+                </div>
+                {isMarketAsset(selected.investment.assetType) && (
+                  <Input
+                    type="number"
+                    value={movement.quantity}
+                    onChange={(e) => setMovement({ ...movement, quantity: e.target.value })}
+                    placeholder="Quantidade"
+                  />
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {movement.kind === 'buy' ? 'Debitado da conta corrente.' : 'Creditado na conta corrente.'}
+                </p>
+                <Button onClick={handleMovement} disabled={isSaving || !movement.amount} className="w-full">
+                  {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Registrar'}
+                </Button>
+              </div>
+
+              {/* Movements */}
+              <div className="space-y-1">
+                {[...selected.movements].reverse().map((m) => (
+                  <div key={m.id} className="flex items-center gap-3 px-2 py-1.5 text-sm">
+                    {m.kind === 'buy' ? (
+                      <ArrowDownRight className="w-4 h-4 text-primary" />
+                    ) : (
+                      <ArrowUpRight className="w-4 h-4 text-success" />
+                    )}
+                    <span className="flex-1">
+                      {m.kind === 'buy' ? 'Aplicação' : 'Resgate'}
+                      {m.quantity !== null && <span className="text-xs text-muted-foreground"> · {m.quantity} cotas</span>}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{format(m.occurredAt, 'dd/MM/yy')}</span>
+                    <span className="font-medium">{formatCurrency(m.amount)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <Button
+                variant="ghost"
+                className="w-full text-destructive"
+                onClick={() => setDeleteTarget(selected)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Excluir investimento
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir investimento?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.investment.name} sai da carteira e do patrimônio. As aplicações e resgates já lançados continuam no extrato.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
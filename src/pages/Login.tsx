@@ -29,6 +29,7 @@ export default function Login() {
   const [initialBalance, setInitialBalance] = useState('');
   const [creditLimit, setCreditLimit] = useState('');
   const [creditDueDay, setCreditDueDay] = useState('');
+  const [creditClosingDay, setCreditClosingDay] = useState('');
   const [creditAvailable, setCreditAvailable] = useState('');
   const [hasCreditCard, setHasCreditCard] = useState<boolean | null>(null);
   const [isClt, setIsClt] = useState<boolean | null>(null);
@@ -207,6 +208,7 @@ export default function Login() {
           credit_limit: hasCreditCard ? (parseFloat(creditLimit) || 0) : 0,
           credit_available: hasCreditCard ? (parseFloat(creditAvailable) || 0) : 0,
           credit_due_day: hasCreditCard ? (parseInt(creditDueDay) || 5) : null,
+          credit_closing_day: hasCreditCard ? (parseInt(creditClosingDay) || null) : null,
           salary_amount: isClt ? (parseFloat(salaryAmount) || 0) : 0,
           salary_day: isClt ? (parseInt(salaryDay) || 5) : 5,
           advance_amount: isClt ? (parseFloat(advanceAmount) || 0) : 0,
@@ -796,7 +798,32 @@ export default function Login() {
                         className="bg-muted/50 border-border"
                       />
                       <p className="text-xs text-muted-foreground">
-                        No vencimento, o limite será restaurado para o valor total
+                        O limite é liberado quando a fatura é paga
+                      </p>
+                    </div>
+
+                    {/* Dia Fechamento Fatura */}
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium flex items-center gap-2">
+                        <Calendar className="w-4 h-4 text-primary" />
+                        Dia de fechamento da fatura
+                      </label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={creditClosingDay}
+                        onChange={(e) => {
+                          const val = parseInt(e.target.value);
+                          if (!e.target.value || (val >= 1 && val <= 31)) {
+                            setCreditClosingDay(e.target.value);
+                          }
+                        }}
+                        placeholder="Ex: 8"
+                        className="bg-muted/50 border-border"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Compras após esse dia entram na fatura do mês seguinte
                       </p>
                     </div>
                   </motion.div>
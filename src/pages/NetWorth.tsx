@@ -0,0 +1,319 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Area, AreaChart, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, Plus, Trash2, ChevronRight, Loader2, Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getNetWorth,
+  saveNetWorthSnapshot,
+  getNetWorthSnapshots,
+  getManualAssets,
+  addManualAsset,
+  updateManualAsset,
+  deleteManualAsset,
+  type ManualAsset,
+  type ManualAssetKind,
+  type NetWorth as NetWorthSummary,
+  type NetWorthSnapshot,
+} from '@/lib/netWorthDb';
+import { cn } from '@/lib/utils';
+
+const ASSET_KIND_LABELS: Record<ManualAssetKind, string> = {
+  property: 'Imóvel',
+  vehicle: 'Veículo',
+  cash: 'Dinheiro guardado',
+  other: 'Outro bem',
+};
+
+const chartConfig = {
+  total: { label: 'Patrimônio', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface AssetForm {
+  id?: string;
+  name: string;
+  kind: ManualAssetKind;
+  value: string;
+}
+
+export default function NetWorth() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [netWorth, setNetWorth] = useState<NetWorthSummary | null>(null);
+  const [snapshots, setSnapshots] = useState<NetWorthSnapshot[]>([]);
+  const [assets, setAssets] = useState<ManualAsset[]>([]);
+  const [form, setForm] = useState<AssetForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+
+    const [worth, manual] = await Promise.all([getNetWorth(user), getManualAssets(user.userId)]);
+    setNetWorth(worth);
+    setAssets(manual);
+
+    // Snapshot first so the chart ends at today's figure
+    await saveNetWorthSnapshot(user.userId, worth);
+    setSnapshots(await getNetWorthSnapshots(user.userId));
+  }, [user]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const handleSave = async () => {
+    if (!user || !form || isSaving) return;
+
+    const value = parseFloat(form.value.replace(',', '.'));
+    if (!form.name.trim() || isNaN(value) || value < 0) {
+      toast.error('Preencha nome e valor');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const ok = form.id
+        ? await updateManualAsset(form.id, value)
+        : await addManualAsset({ userId: user.userId, name: form.name, kind: form.kind, value });
+
+      if (!ok) {
+        toast.error('Erro ao salvar bem');
+        return;
+      }
+
+      toast.success(form.id ? 'Valor atualizado' : 'Bem adicionado!');
+      setForm(null);
+      loadData();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (asset: ManualAsset) => {
+    if (!(await deleteManualAsset(asset.id))) {
+      toast.error('Erro ao excluir bem');
+      return;
+    }
+
+    toast.success('Bem excluído');
+    loadData();
+  };
+
+  const chartData = snapshots.map((s) => ({
+    month: format(s.referenceMonth, 'MMM/yy', { locale: ptBR }),
+    total: s.total,
+  }));
+
+  const rows = netWorth ? [
+    { label: 'Conta corrente', value: netWorth.cash, path: '/statement' },
+    { label: 'Metas', value: netWorth.goals, path: '/goals' },
+    { label: 'Investimentos', value: netWorth.investments, path: '/investments' },
+    { label: 'Outros bens', value: netWorth.otherAssets },
+    { label: 'Faturas do cartão', value: -netWorth.cardInvoice, path: '/card' },
+    { label: 'Parcelamentos a faturar', value: -netWorth.installments, path: '/card' },
+    { label: 'Empréstimos e financiamentos', value: -netWorth.debts, path: '/debts' },
+  ] : [];
+
+  return (
+    <motion.div
+      className="min-h-screen pb-28 px-4 pt-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2 rounded-xl bg-muted/50 border border-border"
+        >
+          <ArrowLeft className="w-5 h-5 text-muted-foreground" />
+        </button>
+        <div>
+          <h1 className="font-display text-2xl font-bold">Patrimônio</h1>
+          <p className="text-muted-foreground text-sm">Tudo o que você tem menos o que deve</p>
+        </div>
+      </div>
+
+      {!netWorth ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {/* Total and history */}
+          <GlassCard className="p-4" hover={false}>
+            <span className="text-muted-foreground text-sm">Patrimônio líquido</span>
+            <h2 className={cn('font-display text-3xl font-bold', netWorth.total < 0 && 'text-destructive')}>
+              {formatCurrency(netWorth.total)}
+            </h2>
+            {chartData.length > 1 ? (
+              <ChartContainer config={chartConfig} className="aspect-auto w-full h-40 mt-4">
+                <AreaChart data={chartData} margin={{ left: 0, right: 8 }}>
+                  <XAxis
+                    dataKey="month"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: '#64748b', fontSize: 11 }}
+                  />
+                  <YAxis hide />
+                  <ChartTooltip
+                    content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="total"
+                    stroke="var(--color-total)"
+                    fill="var(--color-total)"
+                    fillOpacity={0.2}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-xs text-muted-foreground mt-2">
+                O gráfico aparece a partir do segundo mês; guardamos uma foto do patrimônio por mês.
+              </p>
+            )}
+          </GlassCard>
+
+          {/* Breakdown */}
+          <GlassCard className="p-2" hover={false}>
+            {rows.map((row) => (
+              <button
+                key={row.label}
+                onClick={() => row.path && navigate(row.path)}
+                disabled={!row.path}
+                className="w-full flex items-center justify-between p-3 rounded-xl hover:bg-muted/30 transition-colors disabled:hover:bg-transparent"
+              >
+                <span className="text-sm">{row.label}</span>
+                <span className="flex items-center gap-1">
+                  <span className={cn('font-medium text-sm', row.value < 0 && 'text-destructive')}>
+                    {formatCurrency(row.value)}
+                  </span>
+                  {row.path && <ChevronRight className="w-4 h-4 text-muted-foreground" />}
+                </span>
+              </button>
+            ))}
+          </GlassCard>
+
+          {/* Manual assets */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">Outros bens</h3>
+              <Button size="sm" variant="outline" onClick={() => setForm({ name: '', kind: 'property', value: '' })}>
+                <Plus className="w-4 h-4 mr-1" />
+                Adicionar
+              </Button>
+            </div>
+            {assets.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Inclua imóveis, veículos ou dinheiro guardado fora da conta para completar o patrimônio.
+              </p>
+            ) : (
+              assets.map((asset) => (
+                <GlassCard key={asset.id} className="p-3 flex items-center gap-3" hover={false}>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{asset.name}</p>
+                    <p className="text-xs text-muted-foreground">{ASSET_KIND_LABELS[asset.kind]}</p>
+                  </div>
+                  <span className="font-medium text-sm">{formatCurrency(asset.value)}</span>
+                  <button
+                    onClick={() => setForm({ id: asset.id, name: asset.name, kind: asset.kind, value: asset.value.toString() })}
+                    className="p-1.5 rounded-lg hover:bg-muted transition-colors"
+                  >
+                    <Pencil className="w-4 h-4 text-muted-foreground" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(asset)}
+                    className="p-1.5 rounded-lg hover:bg-muted transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4 text-muted-foreground" />
+                  </button>
+                </GlassCard>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Atualizar valor' : 'Novo bem'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Nome (ex: Apartamento)"
+                disabled={!!form.id}
+              />
+              {!form.id && (
+                <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind: kind as ManualAssetKind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ASSET_KIND_LABELS) as ManualAssetKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {ASSET_KIND_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input
+                type="number"
+                value={form.value}
+                onChange={(e) => setForm({ ...form, value: e.target.value })}
+                placeholder="Valor estimado"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setForm(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Calendar, 
@@ -16,7 +17,8 @@ import {
   Settings,
   DollarSign,
   Pencil,
-  Trash2
+  Trash2,
+  Landmark
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
@@ -40,9 +42,26 @@ import {
   addSalaryCredit,
   checkAdvanceCredited,
   calculateDaysUntil,
+  getCashFlowForecast,
+  getRecurrenceRule,
+  getNextDueDate,
+  adjustScheduledPayment,
   type ScheduledPayment 
 } from '@/lib/plannerDb';
+import { describeRecurrence, type RecurrenceRule } from '@/lib/recurrence';
+import {
+  BUSINESS_DAY_RULE_LABELS,
+  monthlyDueDates,
+  nextMonthlyDueDate,
+  type BusinessDayRule,
+} from '@/lib/businessDays';
+import { BusinessDayRuleSelect } from '@/components/BusinessDayRuleSelect';
+import type { CashFlowForecast } from '@/lib/cashFlowForecast';
+import { CashFlowForecastCard } from '@/components/CashFlowForecastCard';
 import { addTransaction, calculateBalance, getGoals } from '@/lib/db';
+import { applyGoalFunding, applyGoalRoundUps } from '@/lib/goalFundingDb';
+import { onSyncComplete } from '@/lib/offlineDb';
+import { SyncStatusBadge } from '@/components/SyncStatusBadge';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { isaSpeak, currencyToSpeech } from '@/services/isaVoiceService';
@@ -75,6 +94,7 @@ const CATEGORY_LABELS: Record<string, string> = {
 };
 
 export default function Planner() {
+  const navigate = useNavigate();
   const { user, refreshUser } = useAuth();
   const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
   const [isSalaryModalOpen, setIsSalaryModalOpen] = useState(false);
@@ -88,15 +108,23 @@ export default function Planner() {
   const [salaryInfo, setSalaryInfo] = useState<{ 
     salaryAmount: number; 
     salaryDay: number;
+    salaryDayRule: BusinessDayRule;
     advanceAmount: number;
     advanceDay: number | null;
+    advanceDayRule: BusinessDayRule;
   } | null>(null);
   const [currentBalance, setCurrentBalance] = useState(0);
   const [salaryAmountInput, setSalaryAmountInput] = useState('');
   const [salaryDayInput, setSalaryDayInput] = useState('5');
   const [advanceAmountInput, setAdvanceAmountInput] = useState('');
   const [advanceDayInput, setAdvanceDayInput] = useState('');
+  const [salaryDayRuleInput, setSalaryDayRuleInput] = useState<BusinessDayRule>('none');
+  const [advanceDayRuleInput, setAdvanceDayRuleInput] = useState<BusinessDayRule>('none');
   const [pendingPayment, setPendingPayment] = useState<ScheduledPayment | null>(null);
+  const [adjustingPayment, setAdjustingPayment] = useState<ScheduledPayment | null>(null);
+  const [adjustAmountInput, setAdjustAmountInput] = useState('');
+  const [adjustFromInput, setAdjustFromInput] = useState('');
+  const [forecast, setForecast] = useState<CashFlowForecast | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // ISA greeting for Planner page
@@ -115,11 +143,24 @@ export default function Planner() {
     }).format(value);
   };
 
+  // Plain day number, or the actual next date when it moves off weekends and holidays
+  const formatPayday = (day: number, rule: BusinessDayRule) => {
+    return rule === 'none' ? `Dia ${day}` : `Dia ${format(nextMonthlyDueDate(day, rule), 'dd/MM')}`;
+  };
+
   const loadData = useCallback(async () => {
     if (!user) return;
     
     setIsLoading(true);
     try {
+      // Sweep the change of recent debit purchases into the round-up goal before reading the balance
+      const roundedUp = await applyGoalRoundUps(user.userId);
+      if (roundedUp > 0) {
+        toast.success('Arredondamentos guardados!', {
+          description: `${formatCurrency(roundedUp)} foram para sua meta`,
+        });
+      }
+
       const [paymentsData, salaryData, balanceData] = await Promise.all([
         getScheduledPayments(user.userId),
         getUserSalaryInfo(user.userId),
@@ -135,6 +176,8 @@ export default function Planner() {
         setSalaryDayInput(salaryData.salaryDay.toString());
         setAdvanceAmountInput(salaryData.advanceAmount.toString());
         setAdvanceDayInput(salaryData.advanceDay?.toString() || '');
+        setSalaryDayRuleInput(salaryData.salaryDayRule);
+        setAdvanceDayRuleInput(salaryData.advanceDayRule);
         
         const summary = await calculateMonthlySummary(user.userId, salaryData.salaryAmount, salaryData.salaryDay, salaryData.advanceAmount);
         setMonthlySummary({
@@ -148,16 +191,19 @@ export default function Planner() {
         setTodaysDue(todayPayments);
 
         // Auto-credit salary if it's the salary day and not yet credited
-        await checkAndCreditSalary(user.userId, salaryData.salaryAmount, salaryData.salaryDay);
+        await checkAndCreditSalary(user.userId, salaryData.salaryAmount, salaryData.salaryDay, salaryData.salaryDayRule);
         
         // Auto-credit advance if it's the advance day and not yet credited
         if (salaryData.advanceAmount > 0 && salaryData.advanceDay) {
-          await checkAndCreditAdvance(user.userId, salaryData.advanceAmount, salaryData.advanceDay);
+          await checkAndCreditAdvance(user.userId, salaryData.advanceAmount, salaryData.advanceDay, salaryData.advanceDayRule);
         }
 
         // ISA greeting is handled by useIsaGreeting hook
         // This is just for auto-credit announcements
       }
+
+      // After the auto-credits, so today's salary isn't counted twice
+      setForecast(await getCashFlowForecast(user));
     } catch (error) {
       console.error('Error loading planner data:', error);
     } finally {
@@ -165,11 +211,13 @@ export default function Planner() {
     }
   }, [user]);
 
-  const checkAndCreditSalary = async (userId: number, salaryAmount: number, salaryDay: number) => {
+  const checkAndCreditSalary = async (userId: number, salaryAmount: number, salaryDay: number, rule: BusinessDayRule) => {
     const today = new Date();
-    if (today.getDate() !== salaryDay || salaryAmount <= 0) return;
+    // Salary moved off a weekend or holiday can land in the month before the one it belongs to
+    const due = monthlyDueDates(salaryDay, rule, today, today)[0];
+    if (!due || salaryAmount <= 0) return;
 
-    const monthYear = today.toISOString().slice(0, 7);
+    const monthYear = format(due.referenceMonth, 'yyyy-MM');
     const alreadyCredited = await checkSalaryCredited(userId, monthYear);
     
     if (!alreadyCredited) {
@@ -187,24 +235,33 @@ export default function Planner() {
         type: 'income',
         paymentMethod: 'debit',
         category: 'Salário',
-        description: `Salário ${format(today, 'MMMM yyyy', { locale: ptBR })}`,
+        description: `Salário ${format(due.referenceMonth, 'MMMM yyyy', { locale: ptBR })}`,
         date: new Date(),
         userId,
-      });
+      }, { applyRules: false });
+
+      const saved = await applyGoalFunding(userId, 'salary', salaryAmount);
 
       await refreshUser();
       toast.success('Salário creditado!', {
-        description: `${formatCurrency(salaryAmount)} foi adicionado ao seu saldo`,
+        description: saved > 0
+          ? `${formatCurrency(salaryAmount)} foi adicionado ao seu saldo e ${formatCurrency(saved)} foi para suas metas`
+          : `${formatCurrency(salaryAmount)} foi adicionado ao seu saldo`,
       });
-      await isaSpeak(`Hoje é dia ${salaryDay}, seu salário foi creditado no valor de ${currencyToSpeech(salaryAmount)}`, 'planner');
+      await isaSpeak(
+        `Hoje é dia ${today.getDate()}, seu salário foi creditado no valor de ${currencyToSpeech(salaryAmount)}`
+          + (saved > 0 ? `, e ${currencyToSpeech(saved)} foram guardados nas suas metas` : ''),
+        'planner'
+      );
     }
   };
 
-  const checkAndCreditAdvance = async (userId: number, advanceAmount: number, advanceDay: number) => {
+  const checkAndCreditAdvance = async (userId: number, advanceAmount: number, advanceDay: number, rule: BusinessDayRule) => {
     const today = new Date();
-    if (today.getDate() !== advanceDay || advanceAmount <= 0) return;
+    const due = monthlyDueDates(advanceDay, rule, today, today)[0];
+    if (!due || advanceAmount <= 0) return;
 
-    const monthYear = today.toISOString().slice(0, 7);
+    const monthYear = format(due.referenceMonth, 'yyyy-MM');
     const alreadyCredited = await checkAdvanceCredited(userId, monthYear);
     
     if (!alreadyCredited) {
@@ -222,16 +279,24 @@ export default function Planner() {
         type: 'income',
         paymentMethod: 'debit',
         category: 'Adiantamento',
-        description: `Adiantamento ${format(today, 'MMMM yyyy', { locale: ptBR })}`,
+        description: `Adiantamento ${format(due.referenceMonth, 'MMMM yyyy', { locale: ptBR })}`,
         date: new Date(),
         userId,
-      });
+      }, { applyRules: false });
+
+      const saved = await applyGoalFunding(userId, 'advance', advanceAmount);
 
       await refreshUser();
       toast.success('Adiantamento creditado!', {
-        description: `${formatCurrency(advanceAmount)} foi adicionado ao seu saldo`,
+        description: saved > 0
+          ? `${formatCurrency(advanceAmount)} foi adicionado ao seu saldo e ${formatCurrency(saved)} foi para suas metas`
+          : `${formatCurrency(advanceAmount)} foi adicionado ao seu saldo`,
       });
-      await isaSpeak(`Hoje é dia ${advanceDay}, seu adiantamento foi creditado no valor de ${currencyToSpeech(advanceAmount)}`, 'planner');
+      await isaSpeak(
+        `Hoje é dia ${today.getDate()}, seu adiantamento foi creditado no valor de ${currencyToSpeech(advanceAmount)}`
+          + (saved > 0 ? `, e ${currencyToSpeech(saved)} foram guardados nas suas metas` : ''),
+        'planner'
+      );
     }
   };
 
@@ -239,12 +304,17 @@ export default function Planner() {
     loadData();
   }, [loadData]);
 
+  // Pick up payments synced in the background
+  useEffect(() => onSyncComplete(() => loadData()), [loadData]);
+
   const handleSchedulePayment = async (payment: {
     name: string;
     amount: number;
     dueDay: number;
     isRecurring: boolean;
     specificMonth?: Date;
+    recurrence: RecurrenceRule;
+    businessDayRule: BusinessDayRule;
     category: string;
   }) => {
     if (!user) return;
@@ -256,6 +326,8 @@ export default function Planner() {
       dueDay: payment.dueDay,
       isRecurring: payment.isRecurring,
       specificMonth: payment.specificMonth || null,
+      recurrence: payment.recurrence,
+      businessDayRule: payment.businessDayRule,
       category: payment.category,
       lastPaidAt: null,
     });
@@ -286,7 +358,15 @@ export default function Planner() {
       return;
     }
 
-    const success = await updateUserSalaryInfo(user.userId, amount, day, advAmount, advDay);
+    const success = await updateUserSalaryInfo(
+      user.userId,
+      amount,
+      day,
+      advAmount,
+      advDay,
+      salaryDayRuleInput,
+      advanceDayRuleInput
+    );
     if (success) {
       toast.success('Informações atualizadas!');
       setIsSalaryModalOpen(false);
@@ -308,7 +388,7 @@ export default function Planner() {
       description: payment.name,
       date: new Date(),
       userId: user.userId,
-    });
+    }, { applyRules: false });
 
     // Log the payment
     await addPaymentLog({
@@ -323,8 +403,8 @@ export default function Planner() {
     // Update last paid date
     await updateScheduledPayment(payment.id, { lastPaidAt: new Date() });
 
-    // If it's a one-time payment, deactivate it
-    if (!payment.isRecurring) {
+    // Deactivate it once the rule has no occurrences left (one-time, count or until reached)
+    if (!getNextDueDate({ ...payment, lastPaidAt: new Date() })) {
       await deleteScheduledPayment(payment.id);
     }
 
@@ -335,6 +415,34 @@ export default function Planner() {
     loadData();
   };
 
+  const openAdjustPayment = (payment: ScheduledPayment) => {
+    const next = getNextDueDate(payment);
+    setAdjustingPayment(payment);
+    setAdjustAmountInput(payment.amount.toString());
+    setAdjustFromInput(next ? format(next, 'yyyy-MM-dd') : '');
+  };
+
+  const handleAdjustPayment = async () => {
+    if (!adjustingPayment) return;
+
+    const amount = parseFloat(adjustAmountInput.replace(',', '.'));
+    const [year, month, day] = adjustFromInput.split('-').map(Number);
+
+    if (isNaN(amount) || amount <= 0 || !adjustFromInput) {
+      toast.error('Informe o novo valor e a data');
+      return;
+    }
+
+    const success = await adjustScheduledPayment(adjustingPayment, amount, new Date(year, month - 1, day));
+    if (success) {
+      toast.success('Reajuste agendado!');
+      setAdjustingPayment(null);
+      loadData();
+    } else {
+      toast.error('Erro ao reajustar pagamento');
+    }
+  };
+
   const handleDeletePayment = async (paymentId: string) => {
     const success = await deleteScheduledPayment(paymentId);
     if (success) {
@@ -366,14 +474,24 @@ export default function Planner() {
           <h1 className="text-2xl font-bold gradient-text">INOVA Pay Planner</h1>
           <p className="text-sm text-muted-foreground">Planejamento financeiro inteligente</p>
         </div>
-        <Button
-          size="icon"
-          variant="outline"
-          className="rounded-full"
-          onClick={() => setIsSalaryModalOpen(true)}
-        >
-          <Settings className="w-5 h-5" />
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            size="icon"
+            variant="outline"
+            className="rounded-full"
+            onClick={() => navigate('/debts')}
+          >
+            <Landmark className="w-5 h-5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="outline"
+            className="rounded-full"
+            onClick={() => setIsSalaryModalOpen(true)}
+          >
+            <Settings className="w-5 h-5" />
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -390,13 +508,13 @@ export default function Planner() {
           </p>
           <div className="flex items-center justify-between mt-1">
             <p className="text-[10px] text-muted-foreground">
-              Dia {salaryInfo?.salaryDay || 5}
+              {salaryInfo ? formatPayday(salaryInfo.salaryDay, salaryInfo.salaryDayRule) : 'Dia 5'}
             </p>
             {salaryInfo && salaryInfo.salaryDay && (
               <p className="text-[10px] font-medium text-green-400">
-                {calculateDaysUntil(salaryInfo.salaryDay) === 0 
+                {calculateDaysUntil(salaryInfo.salaryDay, salaryInfo.salaryDayRule) === 0 
                   ? '🎉 Hoje!' 
-                  : `${calculateDaysUntil(salaryInfo.salaryDay)} dias`}
+                  : `${calculateDaysUntil(salaryInfo.salaryDay, salaryInfo.salaryDayRule)} dias`}
               </p>
             )}
           </div>
@@ -415,12 +533,12 @@ export default function Planner() {
             </p>
             <div className="flex items-center justify-between mt-1">
               <p className="text-[10px] text-muted-foreground">
-                Dia {salaryInfo.advanceDay}
+                {formatPayday(salaryInfo.advanceDay, salaryInfo.advanceDayRule)}
               </p>
               <p className="text-[10px] font-medium text-blue-400">
-                {calculateDaysUntil(salaryInfo.advanceDay) === 0 
+                {calculateDaysUntil(salaryInfo.advanceDay, salaryInfo.advanceDayRule) === 0 
                   ? '🎉 Hoje!' 
-                  : `${calculateDaysUntil(salaryInfo.advanceDay)} dias`}
+                  : `${calculateDaysUntil(salaryInfo.advanceDay, salaryInfo.advanceDayRule)} dias`}
               </p>
             </div>
           </GlassCard>
@@ -488,6 +606,9 @@ export default function Planner() {
         </GlassCard>
       </div>
 
+      {/* Cash flow forecast */}
+      {forecast && <CashFlowForecastCard forecast={forecast} />}
+
       {/* Today's Due Payments Alert */}
       <AnimatePresence>
         {todaysDue.length > 0 && !pendingPayment && (
@@ -580,28 +701,48 @@ export default function Planner() {
           </GlassCard>
         ) : (
           <div className="space-y-2">
-            {recurringPayments.map((payment) => (
-              <GlassCard key={payment.id} className="p-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <span className="text-2xl">{CATEGORY_ICONS[payment.category] || '📋'}</span>
-                    <div>
-                      <p className="font-medium">{payment.name}</p>
-                      <p className="text-xs text-muted-foreground">Todo dia {payment.dueDay}</p>
+            {recurringPayments.map((payment) => {
+              const nextDue = getNextDueDate(payment);
+
+              return (
+                <GlassCard key={payment.id} className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <span className="text-2xl">{CATEGORY_ICONS[payment.category] || '📋'}</span>
+                      <div>
+                        <p className="font-medium">{payment.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {describeRecurrence(getRecurrenceRule(payment), payment.dueDay)}
+                          {payment.businessDayRule && payment.businessDayRule !== 'none' &&
+                            ` · ${BUSINESS_DAY_RULE_LABELS[payment.businessDayRule].toLowerCase()}`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {nextDue
+                            ? `Próximo: ${format(nextDue, 'dd/MM/yyyy')}`
+                            : 'Sem próximas ocorrências'}
+                        </p>
+                        <SyncStatusBadge status={payment.syncStatus} />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-bold text-destructive">{formatCurrency(payment.amount)}</p>
+                      <button
+                        onClick={() => openAdjustPayment(payment)}
+                        className="p-2 text-muted-foreground hover:text-primary transition-colors"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => payment.id && handleDeletePayment(payment.id)}
+                        className="p-2 text-muted-foreground hover:text-destructive transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <p className="font-bold text-destructive">{formatCurrency(payment.amount)}</p>
-                    <button
-                      onClick={() => payment.id && handleDeletePayment(payment.id)}
-                      className="p-2 text-muted-foreground hover:text-destructive transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                </div>
-              </GlassCard>
-            ))}
+                </GlassCard>
+              );
+            })}
           </div>
         )}
       </div>
@@ -632,6 +773,7 @@ export default function Planner() {
                       <p className="text-xs text-muted-foreground">
                         {payment.specificMonth ? format(payment.specificMonth, "dd/MM/yyyy", { locale: ptBR }) : `Dia ${payment.dueDay}`}
                       </p>
+                      <SyncStatusBadge status={payment.syncStatus} />
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -716,6 +858,11 @@ export default function Planner() {
                           className="h-12"
                         />
                       </div>
+
+                      <div className="space-y-2">
+                        <Label>Se cair em fim de semana ou feriado</Label>
+                        <BusinessDayRuleSelect value={salaryDayRuleInput} onChange={setSalaryDayRuleInput} />
+                      </div>
                     </div>
                   </div>
 
@@ -746,6 +893,11 @@ export default function Planner() {
                           className="h-12"
                         />
                       </div>
+
+                      <div className="space-y-2">
+                        <Label>Se cair em fim de semana ou feriado</Label>
+                        <BusinessDayRuleSelect value={advanceDayRuleInput} onChange={setAdvanceDayRuleInput} />
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -770,6 +922,77 @@ export default function Planner() {
           </>
         )}
       </AnimatePresence>
+
+      {/* Adjust Payment Modal */}
+      <AnimatePresence>
+        {adjustingPayment && (
+          <>
+            <motion.div
+              className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setAdjustingPayment(null)}
+            />
+            <motion.div
+              className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[90%] max-w-md"
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            >
+              <GlassCard className="p-6">
+                <h3 className="text-lg font-bold mb-1 flex items-center gap-2">
+                  <Pencil className="w-5 h-5 text-primary" />
+                  Reajustar {adjustingPayment.name}
+                </h3>
+                <p className="text-xs text-muted-foreground mb-4">
+                  As ocorrências antes da data continuam com {formatCurrency(adjustingPayment.amount)}.
+                </p>
+
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Novo valor (R$)</Label>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="0,00"
+                      value={adjustAmountInput}
+                      onChange={(e) => setAdjustAmountInput(e.target.value)}
+                      className="h-12"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>A partir de</Label>
+                    <Input
+                      type="date"
+                      value={adjustFromInput}
+                      onChange={(e) => setAdjustFromInput(e.target.value)}
+                      className="h-12"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-3 mt-6">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => setAdjustingPayment(null)}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button
+                    className="flex-1 bg-gradient-to-r from-primary to-secondary"
+                    onClick={handleAdjustPayment}
+                  >
+                    Salvar
+                  </Button>
+                </div>
+              </GlassCard>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 }
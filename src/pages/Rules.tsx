@@ -0,0 +1,412 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  RefreshCw,
+  Wand2,
+  Loader2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TagInput } from '@/components/TagInput';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCategories } from '@/hooks/useCategories';
+import {
+  getRules,
+  addRule,
+  updateRule,
+  deleteRule,
+  reorderRules,
+  rerunRules,
+  type CategorizationRule,
+} from '@/lib/ruleDb';
+import { cn } from '@/lib/utils';
+
+interface RuleForm {
+  id?: string;
+  descriptionContains: string;
+  amount: string;
+  categoryId: string;
+  tags: string[];
+}
+
+const EMPTY_FORM: RuleForm = { descriptionContains: '', amount: '', categoryId: '', tags: [] };
+
+export default function Rules() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [showRerunConfirm, setShowRerunConfirm] = useState(false);
+  const { byType } = useCategories(user?.userId);
+
+  const loadRules = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    setRules(await getRules(user.userId));
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const handleSave = async () => {
+    if (!user || !form || isSaving) return;
+
+    const amount = form.amount.trim() ? parseFloat(form.amount.replace(',', '.')) : null;
+    if (!form.descriptionContains.trim() && amount === null) {
+      toast.error('Informe um texto da descrição ou um valor');
+      return;
+    }
+    if (amount !== null && (isNaN(amount) || amount <= 0)) {
+      toast.error('Valor inválido');
+      return;
+    }
+    if (!form.categoryId) {
+      toast.error('Escolha a categoria');
+      return;
+    }
+
+    const input = {
+      descriptionContains: form.descriptionContains,
+      amount,
+      categoryId: form.categoryId,
+      tags: form.tags,
+    };
+
+    setIsSaving(true);
+    try {
+      const success = form.id
+        ? await updateRule(form.id, input)
+        : !!(await addRule(user.userId, input));
+
+      if (success) {
+        toast.success(form.id ? 'Regra atualizada!' : 'Regra criada!');
+        setForm(null);
+        loadRules();
+      } else {
+        toast.error('Erro ao salvar regra');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: CategorizationRule) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, isActive: !r.isActive } : r)));
+    if (!(await updateRule(rule.id, { isActive: !rule.isActive }))) {
+      toast.error('Erro ao atualizar regra');
+      loadRules();
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (await deleteRule(rule.id)) {
+      toast.success('Regra removida');
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } else {
+      toast.error('Erro ao remover regra');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRules(reordered);
+
+    if (!(await reorderRules(reordered.map((r) => r.id)))) {
+      toast.error('Erro ao reordenar regras');
+      loadRules();
+    }
+  };
+
+  const handleRerun = async () => {
+    if (!user || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const changed = await rerunRules(user.userId);
+      if (changed === null) {
+        toast.error('Erro ao reaplicar regras');
+      } else {
+        toast.success(changed > 0 ? `${changed} transações recategorizadas` : 'Nenhuma transação precisou mudar');
+      }
+    } finally {
+      setIsSaving(false);
+      setShowRerunConfirm(false);
+    }
+  };
+
+  const describeRule = (rule: CategorizationRule) => {
+    const conditions = [
+      rule.descriptionContains && `descrição contém "${rule.descriptionContains}"`,
+      rule.amount !== null && `valor = ${formatCurrency(rule.amount)}`,
+    ].filter(Boolean);
+    return conditions.join(' e ');
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen pb-28 px-4 pt-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 rounded-xl bg-muted/50 border border-border"
+          >
+            <ArrowLeft className="w-5 h-5 text-muted-foreground" />
+          </button>
+          <div>
+            <h1 className="font-display text-2xl font-bold">Regras</h1>
+            <p className="text-muted-foreground text-sm">Categorização automática</p>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => setForm({ ...EMPTY_FORM })}
+          className="bg-gradient-primary hover:opacity-90"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Nova
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground mb-4">
+        A primeira regra que combinar com uma transação nova ou importada define a categoria e adiciona as tags.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : rules.length === 0 ? (
+        <GlassCard className="p-6 text-center" hover={false}>
+          <Wand2 className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground text-sm">
+            Nenhuma regra criada. Ex: descrição contém "UBER" → Transporte
+          </p>
+        </GlassCard>
+      ) : (
+        <div className="space-y-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowRerunConfirm(true)}
+            className="w-full"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Reaplicar às transações antigas
+          </Button>
+
+          <AnimatePresence>
+            {rules.map((rule, index) => (
+              <motion.div
+                key={rule.id}
+                layout
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: -20 }}
+              >
+                <GlassCard className={cn('p-4', !rule.isActive && 'opacity-60')} hover={false}>
+                  <div className="flex items-start gap-2">
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 rounded hover:bg-muted disabled:opacity-30"
+                      >
+                        <ChevronUp className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === rules.length - 1}
+                        className="p-1 rounded hover:bg-muted disabled:opacity-30"
+                      >
+                        <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm">{describeRule(rule)}</p>
+                      <p className="text-sm font-medium text-primary mt-1">
+                        → {rule.category}
+                        <span className="text-xs text-muted-foreground font-normal">
+                          {' '}({rule.categoryType === 'income' ? 'ganho' : 'gasto'})
+                        </span>
+                      </p>
+                      {rule.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {rule.tags.map((tag) => (
+                            <span key={tag} className="text-[10px] text-primary">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Switch checked={rule.isActive} onCheckedChange={() => handleToggle(rule)} />
+                      <button
+                        onClick={() => setForm({
+                          id: rule.id,
+                          descriptionContains: rule.descriptionContains || '',
+                          amount: rule.amount !== null ? rule.amount.toFixed(2) : '',
+                          categoryId: rule.categoryId,
+                          tags: rule.tags,
+                        })}
+                        className="p-2 rounded-lg hover:bg-muted"
+                        title="Editar"
+                      >
+                        <Pencil className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="p-2 rounded-lg hover:bg-muted"
+                        title="Excluir"
+                      >
+                        <Trash2 className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                    </div>
+                  </div>
+                </GlassCard>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Editar regra' : 'Nova regra'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Descrição contém</label>
+                <Input
+                  value={form.descriptionContains}
+                  onChange={(e) => setForm({ ...form, descriptionContains: e.target.value })}
+                  placeholder="Ex: UBER"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Valor igual a (opcional)</label>
+                <Input
+                  type="number"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  placeholder="Ex: 39,90"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Categoria</label>
+                <Select value={form.categoryId} onValueChange={(categoryId) => setForm({ ...form, categoryId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Escolha a categoria" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(['expense', 'income'] as const).map((type) => (
+                      <SelectGroup key={type}>
+                        <SelectLabel>{type === 'expense' ? 'Gastos' : 'Ganhos'}</SelectLabel>
+                        {byType(type).map((c) => (
+                          <SelectItem key={c.id} value={c.id}>
+                            {c.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Adicionar tags</label>
+                <TagInput
+                  userId={user?.userId}
+                  value={form.tags}
+                  onChange={(tags) => setForm({ ...form, tags })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setForm(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showRerunConfirm} onOpenChange={setShowRerunConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reaplicar regras?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Todas as transações já lançadas serão verificadas e as que combinarem com uma regra
+              mudarão de categoria. Transações divididas e parcelas não são alteradas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRerun} disabled={isSaving}>
+              Reaplicar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
@@ -9,35 +9,70 @@ import {
   Filter,
   CreditCard,
   Banknote,
-  Search
+  Search,
+  Loader2,
+  Hash,
+  Upload,
+  Download,
+  FileSpreadsheet,
+  FileText,
+  Printer
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { GlassCard } from '@/components/ui/GlassCard';
+import { EditTransactionModal } from '@/components/EditTransactionModal';
+import { SyncStatusBadge } from '@/components/SyncStatusBadge';
 import { useAuth } from '@/contexts/AuthContext';
-import { getTransactions, type Transaction } from '@/lib/db';
-import { format } from 'date-fns';
+import { usePaginatedTransactions } from '@/hooks/usePaginatedTransactions';
+import { getCategoryAmounts, type Transaction } from '@/lib/db';
+import { getTags, type Tag } from '@/lib/tagDb';
+import {
+  buildStatementReport,
+  exportStatement,
+  type StatementExportFormat,
+} from '@/lib/statementExport';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { format, startOfMonth } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
 type FilterType = 'all' | 'income' | 'expense';
+type MethodFilter = 'all' | 'debit' | 'credit';
 
 export default function Statement() {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { user, refreshUser } = useAuth();
   const [filter, setFilter] = useState<FilterType>('all');
+  const [methodFilter, setMethodFilter] = useState<MethodFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [showExport, setShowExport] = useState(false);
+  const [exportFrom, setExportFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [exportTo, setExportTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [exportingFormat, setExportingFormat] = useState<StatementExportFormat | null>(null);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+
+  const { transactions, totalCount, isLoading, hasMore, loadFailed, loadMore, reload, sentinelRef } = usePaginatedTransactions(user?.userId, {
+    type: filter === 'all' ? undefined : filter,
+    paymentMethod: methodFilter === 'all' ? undefined : methodFilter,
+    tag: tagFilter ?? undefined,
+  });
 
   useEffect(() => {
-    if (user) {
-      loadTransactions();
-    }
+    if (user) getTags(user.userId).then(setTags);
   }, [user]);
 
-  const loadTransactions = async () => {
-    if (!user) return;
-    const txns = await getTransactions(user.userId);
-    // Already sorted by created_at from database
-    setTransactions(txns);
+  const handleTransactionChanged = async () => {
+    await refreshUser();
+    reload();
   };
 
   const formatCurrency = (value: number) => {
@@ -57,13 +92,57 @@ export default function Statement() {
     return format(date, 'HH:mm', { locale: ptBR });
   };
 
-  const filteredTransactions = transactions.filter(txn => {
-    const matchesFilter = filter === 'all' || txn.type === filter;
-    const matchesSearch = searchTerm === '' || 
-      txn.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      txn.category.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesFilter && matchesSearch;
-  });
+  // Type and payment method are filtered by the query; search only looks at loaded pages
+  // Split transactions match on any part's category or note
+  const matchesSearch = (txn: Transaction) => {
+    const term = searchTerm.toLowerCase();
+    return searchTerm === '' || 
+      txn.description?.toLowerCase().includes(term) ||
+      getCategoryAmounts(txn).some(({ category }) => category.toLowerCase().includes(term)) ||
+      txn.splits?.some(s => s.note?.toLowerCase().includes(term)) ||
+      txn.tags?.some(tag => tag.includes(term.replace(/^#/, '')));
+  };
+
+  const filteredTransactions = transactions.filter(matchesSearch);
+
+  // The export lists the lines matching every filter on screen, over the chosen period
+  const handleExport = async (exportFormat: StatementExportFormat) => {
+    if (!user || exportingFormat) return;
+
+    const [fromYear, fromMonth, fromDay] = exportFrom.split('-').map(Number);
+    const [toYear, toMonth, toDay] = exportTo.split('-').map(Number);
+    if (!fromYear || !toYear || exportFrom > exportTo) {
+      toast.error('Escolha um período válido');
+      return;
+    }
+
+    setExportingFormat(exportFormat);
+    try {
+      const report = await buildStatementReport(
+        user,
+        { from: new Date(fromYear, fromMonth - 1, fromDay), to: new Date(toYear, toMonth - 1, toDay) },
+        (txn) =>
+          (filter === 'all' || txn.type === filter) &&
+          (methodFilter === 'all' || txn.paymentMethod === methodFilter) &&
+          (!tagFilter || !!txn.tags?.includes(tagFilter)) &&
+          matchesSearch(txn)
+      );
+
+      if (!report) {
+        toast.error('Erro ao carregar as transações do período');
+        return;
+      }
+
+      if (!exportStatement(report, exportFormat)) {
+        toast.error('Permita pop-ups para imprimir o extrato');
+        return;
+      }
+
+      setShowExport(false);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
 
   // Group transactions by date
   const groupedTransactions = filteredTransactions.reduce((groups, txn) => {
@@ -103,12 +182,33 @@ export default function Statement() {
         >
           <ArrowLeft className="w-5 h-5" />
         </button>
-        <div>
+        <div className="flex-1">
           <h1 className="font-display text-2xl font-bold">Extrato</h1>
           <p className="text-muted-foreground text-sm">
-            {transactions.length} transações registradas
+            {totalCount} transações registradas
           </p>
         </div>
+        <button
+          onClick={() => setShowExport(true)}
+          className="w-10 h-10 rounded-full bg-card/50 flex items-center justify-center"
+          title="Exportar extrato"
+        >
+          <Download className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => navigate('/import')}
+          className="w-10 h-10 rounded-full bg-card/50 flex items-center justify-center"
+          title="Importar extrato"
+        >
+          <Upload className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => navigate('/tags')}
+          className="w-10 h-10 rounded-full bg-card/50 flex items-center justify-center"
+          title="Relatório por tag"
+        >
+          <Hash className="w-5 h-5" />
+        </button>
       </motion.div>
 
       {/* Search */}
@@ -126,7 +226,7 @@ export default function Statement() {
       </motion.div>
 
       {/* Filter Tabs */}
-      <motion.div variants={itemVariants} className="flex gap-2 mb-6">
+      <motion.div variants={itemVariants} className="flex gap-2 mb-3">
         {[
           { id: 'all', label: 'Todas' },
           { id: 'income', label: 'Entradas' },
@@ -146,6 +246,46 @@ export default function Statement() {
         ))}
       </motion.div>
 
+      {/* Payment Method Filter */}
+      <motion.div variants={itemVariants} className={`flex gap-2 ${tags.length > 0 ? 'mb-3' : 'mb-6'}`}>
+        {[
+          { id: 'all', label: 'Todos os meios' },
+          { id: 'debit', label: 'Débito' },
+          { id: 'credit', label: 'Crédito' },
+        ].map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setMethodFilter(tab.id as MethodFilter)}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+              methodFilter === tab.id
+                ? 'bg-secondary/20 text-secondary border border-secondary/50'
+                : 'bg-card/50 text-muted-foreground hover:bg-card'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </motion.div>
+
+      {/* Tag Filter */}
+      {tags.length > 0 && (
+        <motion.div variants={itemVariants} className="flex gap-2 mb-6 overflow-x-auto pb-1">
+          {tags.map((tag) => (
+            <button
+              key={tag.id}
+              onClick={() => setTagFilter(tagFilter === tag.name ? null : tag.name)}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-all ${
+                tagFilter === tag.name
+                  ? 'bg-primary/20 text-primary border border-primary/50'
+                  : 'bg-card/50 text-muted-foreground hover:bg-card'
+              }`}
+            >
+              #{tag.name}
+            </button>
+          ))}
+        </motion.div>
+      )}
+
       {/* Transactions by Date */}
       <div className="space-y-6">
         {Object.entries(groupedTransactions).map(([date, txns]) => (
@@ -167,7 +307,7 @@ export default function Statement() {
                     exit={{ opacity: 0, y: -10 }}
                     transition={{ delay: index * 0.05 }}
                   >
-                    <GlassCard className="p-4">
+                    <GlassCard className="p-4 cursor-pointer" onClick={() => setEditingTransaction(txn)}>
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
                           <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
@@ -186,7 +326,7 @@ export default function Statement() {
                             </p>
                             <div className="flex items-center gap-3 mt-1">
                               <span className="text-xs text-muted-foreground capitalize">
-                                {txn.category}
+                                {txn.splits ? txn.splits.map(s => s.category).join(' + ') : txn.category}
                               </span>
                               <div className="flex items-center gap-1 text-xs text-muted-foreground">
                                 <Clock className="w-3 h-3" />
@@ -202,7 +342,15 @@ export default function Statement() {
                                   {txn.paymentMethod === 'credit' ? 'Crédito' : 'Débito'}
                                 </div>
                               )}
+                              <SyncStatusBadge status={txn.syncStatus} />
                             </div>
+                            {txn.tags && txn.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {txn.tags.map(tag => (
+                                  <span key={tag} className="text-[10px] text-primary">#{tag}</span>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                         <div className={`text-right ${
@@ -222,8 +370,24 @@ export default function Statement() {
         ))}
       </div>
 
+      {/* Infinite scroll sentinel */}
+      {hasMore && <div ref={sentinelRef} className="h-1" />}
+      {isLoading && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      )}
+      {loadFailed && !isLoading && (
+        <div className="flex flex-col items-center gap-2 py-6 text-sm text-muted-foreground">
+          <p>Não foi possível carregar as transações</p>
+          <button onClick={loadMore} className="text-primary font-medium">
+            Tentar novamente
+          </button>
+        </div>
+      )}
+
       {/* Empty State */}
-      {filteredTransactions.length === 0 && (
+      {!isLoading && !loadFailed && filteredTransactions.length === 0 && (
         <motion.div 
           variants={itemVariants}
           className="text-center py-12"
@@ -236,6 +400,66 @@ export default function Statement() {
           </p>
         </motion.div>
       )}
+
+      {/* Export Dialog */}
+      <Dialog open={showExport} onOpenChange={setShowExport}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Exportar extrato</DialogTitle>
+            <DialogDescription>
+              Os filtros e a busca atuais são aplicados ao período escolhido.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">De</label>
+              <Input
+                type="date"
+                value={exportFrom}
+                max={exportTo || undefined}
+                onChange={(e) => setExportFrom(e.target.value)}
+                className="bg-muted/50 border-border"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Até</label>
+              <Input
+                type="date"
+                value={exportTo}
+                min={exportFrom || undefined}
+                onChange={(e) => setExportTo(e.target.value)}
+                className="bg-muted/50 border-border"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {[
+              { id: 'csv', label: 'CSV', icon: FileSpreadsheet },
+              { id: 'ofx', label: 'OFX', icon: FileText },
+              { id: 'pdf', label: 'PDF', icon: Printer },
+            ].map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => handleExport(id as StatementExportFormat)}
+                disabled={exportingFormat !== null}
+                className="flex flex-col items-center gap-1 p-3 rounded-xl bg-muted/50 hover:bg-muted disabled:opacity-50 text-sm font-medium"
+              >
+                {exportingFormat === id
+                  ? <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                  : <Icon className="w-5 h-5 text-primary" />}
+                {label}
+              </button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Transaction Modal */}
+      <EditTransactionModal
+        transaction={editingTransaction}
+        onClose={() => setEditingTransaction(null)}
+        onChanged={handleTransactionChanged}
+      />
     </motion.div>
   );
 }
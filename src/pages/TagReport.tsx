@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format, startOfMonth } from 'date-fns';
+import { ArrowLeft, Hash, Trash2, Loader2 } from 'lucide-react';
+import { Bar, BarChart, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { Input } from '@/components/ui/input';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { useAuth } from '@/contexts/AuthContext';
+import { getTagReport, deleteTag, type TagReportRow } from '@/lib/tagDb';
+
+const chartConfig = {
+  expense: { label: 'Saídas', color: 'hsl(var(--destructive))' },
+  income: { label: 'Entradas', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+// Date inputs work with local "yyyy-MM-dd" strings
+function parseDateInput(value: string): Date | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export default function TagReport() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [rows, setRows] = useState<TagReportRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadReport = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    setRows(await getTagReport(user.userId, { from: parseDateInput(from), to: parseDateInput(to) }));
+    setIsLoading(false);
+  }, [user, from, to]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const chartData = rows.map((r) => ({ tag: `#${r.name}`, expense: r.totalExpense, income: r.totalIncome }));
+  const totalExpense = rows.reduce((sum, r) => sum + r.totalExpense, 0);
+
+  const handleDelete = async (row: TagReportRow) => {
+    const success = await deleteTag(row.tagId);
+    if (success) {
+      toast.success(`Tag #${row.name} removida`);
+      setRows((prev) => prev.filter((r) => r.tagId !== row.tagId));
+    } else {
+      toast.error('Erro ao remover tag');
+    }
+  };
+
+  return (
+    <motion.div
+      className="min-h-screen pb-28 px-4 pt-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2 rounded-xl bg-muted/50 border border-border"
+        >
+          <ArrowLeft className="w-5 h-5 text-muted-foreground" />
+        </button>
+        <div>
+          <h1 className="font-display text-2xl font-bold">Tags</h1>
+          <p className="text-muted-foreground text-sm">Totais por tag no período</p>
+        </div>
+      </div>
+
+      {/* Date Range */}
+      <div className="grid grid-cols-2 gap-3 mb-6">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">De</label>
+          <Input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="bg-muted/50 border-border"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Até</label>
+          <Input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="bg-muted/50 border-border"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : rows.length === 0 ? (
+        <GlassCard className="p-6 text-center" hover={false}>
+          <Hash className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground text-sm">
+            Nenhuma transação com tag neste período
+          </p>
+        </GlassCard>
+      ) : (
+        <div className="space-y-4">
+          {/* Summary */}
+          <GlassCard className="p-4" hover={false}>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Total gasto com tags</span>
+              <span className="text-sm font-medium text-destructive">{formatCurrency(totalExpense)}</span>
+            </div>
+          </GlassCard>
+
+          {/* Totals chart */}
+          <GlassCard className="p-4" hover={false}>
+            <h3 className="font-medium mb-4">Entradas x Saídas</h3>
+            <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: Math.max(160, chartData.length * 44) }}>
+              <BarChart data={chartData} layout="vertical" margin={{ left: 8, right: 8 }}>
+                <XAxis type="number" hide />
+                <YAxis
+                  type="category"
+                  dataKey="tag"
+                  axisLine={false}
+                  tickLine={false}
+                  width={90}
+                  tick={{ fill: '#64748b', fontSize: 11 }}
+                />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value, name) => (
+                    <span>
+                      {chartConfig[name as keyof typeof chartConfig]?.label}: {formatCurrency(Number(value))}
+                    </span>
+                  )} />}
+                />
+                <Bar dataKey="expense" fill="var(--color-expense)" radius={4} />
+                <Bar dataKey="income" fill="var(--color-income)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </GlassCard>
+
+          {/* Tag list */}
+          <AnimatePresence>
+            {rows.map((row, index) => (
+              <motion.div
+                key={row.tagId}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: -20 }}
+                transition={{ delay: index * 0.03 }}
+              >
+                <GlassCard className="p-4" hover={false}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-primary">#{row.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {row.transactionCount} {row.transactionCount === 1 ? 'transação' : 'transações'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="text-right">
+                        {row.totalExpense > 0 && (
+                          <p className="text-sm font-semibold text-destructive">- {formatCurrency(row.totalExpense)}</p>
+                        )}
+                        {row.totalIncome > 0 && (
+                          <p className="text-sm font-semibold text-success">+ {formatCurrency(row.totalIncome)}</p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleDelete(row)}
+                        className="p-2 rounded-lg hover:bg-muted"
+                      >
+                        <Trash2 className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                    </div>
+                  </div>
+                </GlassCard>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+    </motion.div>
+  );
+}
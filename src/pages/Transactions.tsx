@@ -1,57 +1,40 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Plus, 
   ArrowUpRight, 
   ArrowDownRight, 
-  Filter,
+  Tags,
+  Split,
   X,
-  Utensils,
-  Car,
-  Gamepad2,
-  ShoppingBag,
-  Heart,
-  GraduationCap,
-  Receipt,
-  MoreHorizontal,
-  Briefcase,
-  Laptop,
-  TrendingUp,
-  Gift,
   CreditCard,
-  Wallet
+  Wallet,
+  Loader2
 } from 'lucide-react';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { EditTransactionModal } from '@/components/EditTransactionModal';
+import { SyncStatusBadge } from '@/components/SyncStatusBadge';
+import { SplitEditor, type SplitDraft } from '@/components/SplitEditor';
+import { TagInput } from '@/components/TagInput';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePaginatedTransactions } from '@/hooks/usePaginatedTransactions';
+import { useCategories } from '@/hooks/useCategories';
 import { 
-  getTransactions, 
   addTransaction, 
-  EXPENSE_CATEGORIES, 
-  INCOME_CATEGORIES,
+  validateSplits,
   type Transaction 
 } from '@/lib/db';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { notifyBudgetAlert } from '@/services/budgetAlertService';
 import { cn } from '@/lib/utils';
-
-const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
-  Utensils,
-  Car,
-  Gamepad2,
-  ShoppingBag,
-  Heart,
-  GraduationCap,
-  Receipt,
-  MoreHorizontal,
-  Briefcase,
-  Laptop,
-  TrendingUp,
-  Gift,
-};
+import { toast } from 'sonner';
 
 export default function Transactions() {
   const { user, refreshUser } = useAuth();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const navigate = useNavigate();
   const [filter, setFilter] = useState<'all' | 'income' | 'expense'>('all');
   const [showAddModal, setShowAddModal] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -60,47 +43,68 @@ export default function Transactions() {
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
+  const [splitDrafts, setSplitDrafts] = useState<SplitDraft[] | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
 
-  useEffect(() => {
-    if (user) {
-      loadTransactions();
-    }
-  }, [user]);
-
-  const loadTransactions = async () => {
-    if (!user) return;
-    const txns = await getTransactions(user.userId);
-    setTransactions(txns);
-  };
+  const { transactions, totalCount, isLoading, hasMore, loadFailed, loadMore, reload, sentinelRef } = usePaginatedTransactions(user?.userId, {
+    type: filter === 'all' ? undefined : filter,
+  });
+  const { byType, findByName } = useCategories(user?.userId);
 
   const handleAddTransaction = async () => {
-    if (!user || !amount || !selectedCategory || isSaving) return;
+    const category = splitDrafts ? splitDrafts[0]?.category : selectedCategory;
+    if (!user || !amount || !category || isSaving) return;
+
+    const splits = splitDrafts?.map((s) => ({
+      category: s.category,
+      amount: parseFloat(s.amount.replace(',', '.')),
+      note: s.note.trim() || null,
+    }));
+    const splitError = splits ? validateSplits(parseFloat(amount), splits) : null;
+    if (splitError) {
+      toast.error(splitError);
+      return;
+    }
 
     setIsSaving(true);
     
     try {
-      await addTransaction({
+      const savedId = await addTransaction({
         amount: parseFloat(amount),
         type: transactionType,
         paymentMethod: transactionType === 'expense' ? paymentMethod : 'debit',
-        category: selectedCategory,
-        description: description || selectedCategory,
+        category,
+        description: description || category,
         date: new Date(),
         userId: user.userId,
+        splits,
+        tags,
       });
 
+      if (savedId && transactionType === 'expense') {
+        new Set(splits ? splits.map((s) => s.category) : [category]).forEach((c) => notifyBudgetAlert(user.userId, c));
+      }
+
       await refreshUser();
       setAmount('');
       setDescription('');
       setSelectedCategory('');
+      setSplitDrafts(null);
+      setTags([]);
       setPaymentMethod('debit');
       setShowAddModal(false);
-      loadTransactions();
+      reload();
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleTransactionChanged = async () => {
+    await refreshUser();
+    reload();
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -115,12 +119,7 @@ export default function Transactions() {
     });
   };
 
-  const filteredTransactions = transactions.filter((t) => {
-    if (filter === 'all') return true;
-    return t.type === filter;
-  });
-
-  const categories = transactionType === 'expense' ? EXPENSE_CATEGORIES : INCOME_CATEGORIES;
+  const categories = byType(transactionType);
 
   return (
     <motion.div
@@ -133,11 +132,15 @@ export default function Transactions() {
         <div>
           <h1 className="font-display text-2xl font-bold">Transações</h1>
           <p className="text-muted-foreground text-sm">
-            {transactions.length} transações registradas
+            {totalCount} transações registradas
           </p>
         </div>
-        <button className="p-2 rounded-xl bg-muted/50 border border-border">
-          <Filter className="w-5 h-5 text-muted-foreground" />
+        <button
+          onClick={() => navigate('/categories')}
+          className="p-2 rounded-xl bg-muted/50 border border-border"
+          title="Gerenciar categorias"
+        >
+          <Tags className="w-5 h-5 text-muted-foreground" />
         </button>
       </div>
 
@@ -161,11 +164,9 @@ export default function Transactions() {
       {/* Transactions List */}
       <div className="space-y-3">
         <AnimatePresence>
-          {filteredTransactions.map((transaction, index) => {
-            const category = [...EXPENSE_CATEGORIES, ...INCOME_CATEGORIES].find(
-              (c) => c.id === transaction.category
-            );
-            const IconComponent = category ? iconMap[category.icon] : MoreHorizontal;
+          {transactions.map((transaction, index) => {
+            const category = findByName(transaction.category, transaction.type);
+            const IconComponent = getCategoryIcon(category?.icon);
 
             return (
               <motion.div
@@ -173,9 +174,9 @@ export default function Transactions() {
                 initial={{ opacity: 0, x: -20 }}
                 animate={{ opacity: 1, x: 0 }}
                 exit={{ opacity: 0, x: 20 }}
-                transition={{ delay: index * 0.05 }}
+                transition={{ delay: Math.min(index, 10) * 0.05 }}
               >
-                <GlassCard className="p-4" hover={false}>
+                <GlassCard className="p-4 cursor-pointer" hover={false} onClick={() => setEditingTransaction(transaction)}>
                   <div className="flex items-center gap-4">
                     <div
                       className={`w-12 h-12 rounded-xl flex items-center justify-center ${
@@ -195,10 +196,11 @@ export default function Transactions() {
                     <div className="flex-1 min-w-0">
                       <p className="font-medium truncate">{transaction.description}</p>
                       <p className="text-muted-foreground text-xs flex items-center gap-1">
-                        {formatDate(transaction.date)} • {category?.label || transaction.category}
+                        {formatDate(transaction.date)} • {transaction.splits ? `${transaction.splits.length} categorias` : transaction.category}
                         {transaction.paymentMethod === 'credit' && (
                           <span className="text-secondary ml-1">• Crédito</span>
                         )}
+                        <SyncStatusBadge status={transaction.syncStatus} className="ml-1" />
                       </p>
                     </div>
                     <div className="text-right">
@@ -220,7 +222,22 @@ export default function Transactions() {
           })}
         </AnimatePresence>
 
-        {filteredTransactions.length === 0 && (
+        {hasMore && <div ref={sentinelRef} className="h-1" />}
+        {isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        )}
+        {loadFailed && !isLoading && (
+          <div className="flex flex-col items-center gap-2 py-6 text-sm text-muted-foreground">
+            <p>Não foi possível carregar as transações</p>
+            <button onClick={loadMore} className="text-primary font-medium">
+              Tentar novamente
+            </button>
+          </div>
+        )}
+
+        {!isLoading && !loadFailed && transactions.length === 0 && (
           <div className="text-center py-12">
             <p className="text-muted-foreground">Nenhuma transação encontrada</p>
           </div>
@@ -239,6 +256,13 @@ export default function Transactions() {
         <Plus className="w-6 h-6" />
       </motion.button>
 
+      {/* Edit Transaction Modal */}
+      <EditTransactionModal
+        transaction={editingTransaction}
+        onClose={() => setEditingTransaction(null)}
+        onChanged={handleTransactionChanged}
+      />
+
       {/* Add Transaction Modal */}
       <AnimatePresence>
         {showAddModal && (
@@ -272,6 +296,7 @@ export default function Transactions() {
                 <button
                   onClick={() => {
                     setTransactionType('expense');
+                    setSplitDrafts(null);
                     setSelectedCategory('');
                   }}
                   className={`flex-1 py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
@@ -286,6 +311,7 @@ export default function Transactions() {
                 <button
                   onClick={() => {
                     setTransactionType('income');
+                    setSplitDrafts(null);
                     setSelectedCategory('');
                   }}
                   className={`flex-1 py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
@@ -351,26 +377,47 @@ export default function Transactions() {
 
               {/* Categories */}
               <div className="mb-6">
-                <label className="text-sm font-medium mb-3 block">Categoria</label>
-                <div className="grid grid-cols-4 gap-2">
-                  {categories.map((cat) => {
-                    const IconComponent = iconMap[cat.icon];
-                    return (
-                      <button
-                        key={cat.id}
-                        onClick={() => setSelectedCategory(cat.id)}
-                        className={`p-3 rounded-xl flex flex-col items-center gap-1 transition-all ${
-                          selectedCategory === cat.id
-                            ? 'bg-primary/20 border border-primary'
-                            : 'bg-muted/50 hover:bg-muted'
-                        }`}
-                      >
-                        <IconComponent className="w-5 h-5" />
-                        <span className="text-[10px] text-center">{cat.label}</span>
-                      </button>
-                    );
-                  })}
+                <div className="flex items-center justify-between mb-3">
+                  <label className="text-sm font-medium">Categoria</label>
+                  <button
+                    onClick={() => setSplitDrafts(splitDrafts ? null : [
+                      { category: selectedCategory, amount: amount, note: '' },
+                      { category: '', amount: '', note: '' },
+                    ])}
+                    className="flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    <Split className="w-3 h-3" />
+                    {splitDrafts ? 'Categoria única' : 'Dividir'}
+                  </button>
                 </div>
+                {splitDrafts ? (
+                  <SplitEditor
+                    total={parseFloat(amount) || 0}
+                    splits={splitDrafts}
+                    categories={categories}
+                    onChange={setSplitDrafts}
+                  />
+                ) : (
+                  <div className="grid grid-cols-4 gap-2">
+                    {categories.map((cat) => {
+                      const IconComponent = getCategoryIcon(cat.icon);
+                      return (
+                        <button
+                          key={cat.id}
+                          onClick={() => setSelectedCategory(cat.name)}
+                          className={`p-3 rounded-xl flex flex-col items-center gap-1 transition-all ${
+                            selectedCategory === cat.name
+                              ? 'bg-primary/20 border border-primary'
+                              : 'bg-muted/50 hover:bg-muted'
+                          }`}
+                        >
+                          <IconComponent className="w-5 h-5" style={{ color: cat.color }} />
+                          <span className="text-[10px] text-center">{cat.name}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
 
               {/* Description */}
@@ -386,10 +433,18 @@ export default function Transactions() {
                 />
               </div>
 
+              {/* Tags */}
+              <div className="mb-6">
+                <label className="text-sm font-medium mb-2 block">
+                  Tags (opcional)
+                </label>
+                <TagInput userId={user?.userId} value={tags} onChange={setTags} />
+              </div>
+
               {/* Submit */}
               <Button
                 onClick={handleAddTransaction}
-                disabled={!amount || !selectedCategory || isSaving}
+                disabled={!amount || !(splitDrafts ? splitDrafts[0]?.category : selectedCategory) || isSaving}
                 className="w-full h-12 bg-gradient-primary hover:opacity-90"
               >
                 {isSaving ? 'Salvando...' : 'Adicionar Transação'}
@@ -0,0 +1,117 @@
+// Budget Alert Service - warns when a category reaches 80% or 100% of its monthly budget
+// Uses toast, ISA voice and local notifications
+
+import { toast } from 'sonner';
+import { getBudgets, getMonthKey, type Budget } from '@/lib/db';
+import { isaSpeak, currencyToSpeech } from './isaVoiceService';
+import { sendNotification } from './notificationService';
+
+const BUDGET_ALERTS_KEY = 'inovabank_budget_alerts';
+
+export const BUDGET_ALERT_THRESHOLDS = [1, 0.8];
+
+export interface BudgetAlert {
+  budget: Budget;
+  threshold: number;
+  percent: number;
+}
+
+function getAlertedKeys(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(BUDGET_ALERTS_KEY) || '[]') as string[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remember an alert so it fires only once per budget, month and threshold.
+ * Only the current month's keys are kept.
+ */
+function markAlerted(key: string, month: string): void {
+  const keys = getAlertedKeys().filter((k) => k.endsWith(`:${month}`));
+  keys.push(key);
+  localStorage.setItem(BUDGET_ALERTS_KEY, JSON.stringify(keys));
+}
+
+/**
+ * Highest threshold the category crossed that wasn't announced yet
+ */
+export async function getBudgetAlert(
+  userId: number,
+  category: string,
+  date: Date = new Date()
+): Promise<BudgetAlert | null> {
+  const month = getMonthKey(date);
+  const budget = (await getBudgets(userId, month)).find((b) => b.category === category);
+  if (!budget || budget.limitAmount <= 0) return null;
+
+  const percent = budget.spent / budget.limitAmount;
+  const threshold = BUDGET_ALERT_THRESHOLDS.find((t) => percent >= t);
+  if (!threshold) return null;
+
+  const key = `${budget.id}:${threshold}:${month}`;
+  const alerted = getAlertedKeys();
+  if (alerted.includes(key)) return null;
+
+  // Crossing 100% also covers the 80% warning
+  BUDGET_ALERT_THRESHOLDS.filter((t) => t <= threshold).forEach((t) =>
+    markAlerted(`${budget.id}:${t}:${month}`, month)
+  );
+
+  return { budget, threshold, percent };
+}
+
+/**
+ * Sentence ISA speaks for an alert
+ */
+export function getBudgetAlertSpeech(alert: BudgetAlert): string {
+  const { budget, threshold } = alert;
+  if (threshold >= 1) {
+    const over = budget.spent - budget.limitAmount;
+    return over > 0
+      ? `Atenção! Você estourou o orçamento de ${budget.category} em ${currencyToSpeech(over)}.`
+      : `Atenção! Você atingiu o limite do orçamento de ${budget.category}.`;
+  }
+  const remaining = budget.limitAmount - budget.spent;
+  return `Cuidado! Você já usou ${Math.floor(alert.percent * 100)} por cento do orçamento de ${budget.category}. Restam ${currencyToSpeech(remaining)}.`;
+}
+
+/**
+ * Check the category after a new expense and warn through toast, notification and,
+ * unless the caller announces it itself, ISA's voice
+ */
+export async function notifyBudgetAlert(
+  userId: number,
+  category: string,
+  date: Date = new Date(),
+  options: { speak?: boolean } = {}
+): Promise<BudgetAlert | null> {
+  const alert = await getBudgetAlert(userId, category, date);
+  if (!alert) return null;
+
+  const { budget, threshold } = alert;
+  const formatCurrency = (value: number) => new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL'
+  }).format(value);
+
+  const title = threshold >= 1
+    ? `Orçamento de ${budget.category} estourado`
+    : `${Math.floor(alert.percent * 100)}% do orçamento de ${budget.category}`;
+  const description = `${formatCurrency(budget.spent)} de ${formatCurrency(budget.limitAmount)} gastos este mês`;
+
+  if (threshold >= 1) {
+    toast.error(title, { description });
+  } else {
+    toast.warning(title, { description });
+  }
+
+  sendNotification(threshold >= 1 ? `🚨 ${title}` : `⚠️ ${title}`, description, `budget-${budget.id}`);
+
+  if (options.speak ?? true) {
+    isaSpeak(getBudgetAlertSpeech(alert), 'other');
+  }
+
+  return alert;
+}
@@ -3,6 +3,8 @@
 
 import { speakWithElevenLabs, stopElevenLabsSpeaking } from './elevenlabsTtsService';
 import { speakNative, stopSpeaking as stopNativeSpeaking } from './nativeTtsService';
+import { startOfDay } from 'date-fns';
+import { nextMonthlyDueDate, type BusinessDayRule } from '@/lib/businessDays';
 
 const ISA_GREETING_KEY = 'isa_last_greeting_date';
 const ISA_TAB_GREETED_KEY = 'isa_tab_greeted';
@@ -280,13 +282,18 @@ export function generatePlannerGreeting(
   activeGoals: number,
   goalsWithoutProgress: number,
   monthlyPayments: number,
-  daysUntilSalary: number | null
+  daysUntilSalary: number | null,
+  monthlySaved: number = 0
 ): string {
   let message = '';
   
   if (activeGoals > 0) {
     message += `Você tem ${activeGoals} ${activeGoals === 1 ? 'meta cadastrada' : 'metas cadastradas'}. `;
     
+    if (monthlySaved > 0) {
+      message += `Este mês suas regras automáticas já guardaram ${currencyToSpeech(monthlySaved)} nas suas metas. `;
+    }
+    
     if (goalsWithoutProgress > 0) {
       message += `${goalsWithoutProgress === 1 ? 'Uma meta está' : `${goalsWithoutProgress} metas estão`} sem progresso. Atualize suas metas clicando em editar. `;
     }
@@ -353,26 +360,11 @@ export function generateProfileGreeting(activeGoals: number): string {
 }
 
 /**
- * Calculate days until a specific day of the month
+ * Calculate days until a specific day of the month, moved off weekends and holidays by the rule
  */
-export function calculateDaysUntilDay(targetDay: number): number {
-  const today = new Date();
-  const currentDay = today.getDate();
-  const currentMonth = today.getMonth();
-  const currentYear = today.getFullYear();
-  
-  let targetDate: Date;
-  
-  if (currentDay <= targetDay) {
-    // Target is this month
-    targetDate = new Date(currentYear, currentMonth, targetDay);
-  } else {
-    // Target is next month
-    targetDate = new Date(currentYear, currentMonth + 1, targetDay);
-  }
-  
-  const diffTime = targetDate.getTime() - today.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  
-  return diffDays;
+export function calculateDaysUntilDay(targetDay: number, rule: BusinessDayRule = 'none'): number {
+  const today = startOfDay(new Date());
+  const targetDate = nextMonthlyDueDate(targetDay, rule, today);
+
+  return Math.round((targetDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
 }
@@ -1,6 +1,8 @@
 // Notification Service for payment reminders
 // Uses Push API and local notifications
 
+import { monthlyDueDates, type BusinessDayRule } from '@/lib/businessDays';
+
 const NOTIFICATION_PERMISSION_KEY = 'inovabank_notifications_enabled';
 
 export interface PaymentReminder {
@@ -96,37 +98,37 @@ export function sendPaymentReminder(reminder: PaymentReminder): Notification | n
 }
 
 /**
- * Check and send reminders for tomorrow's payments
+ * Check and send reminders for tomorrow's payments, with the days moved off weekends and holidays
  */
 export function checkAndSendPaymentReminders(
   salaryDay: number | null,
   salaryAmount: number,
   advanceDay: number | null,
-  advanceAmount: number
+  advanceAmount: number,
+  salaryDayRule: BusinessDayRule = 'none',
+  advanceDayRule: BusinessDayRule = 'none'
 ): void {
   const today = new Date();
-  const currentDay = today.getDate();
-  const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
-
-  // Calculate tomorrow's day (handling month rollover)
-  const tomorrowDay = currentDay >= daysInMonth ? 1 : currentDay + 1;
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
 
   // Check if salary is tomorrow
-  if (salaryDay && salaryAmount > 0 && salaryDay === tomorrowDay) {
+  const salaryDue = salaryDay ? monthlyDueDates(salaryDay, salaryDayRule, tomorrow, tomorrow)[0] : undefined;
+  if (salaryDue && salaryAmount > 0) {
     sendPaymentReminder({
       type: 'salary',
       amount: salaryAmount,
-      day: salaryDay,
+      day: salaryDue.date.getDate(),
       daysUntil: 1
     });
   }
 
   // Check if advance is tomorrow
-  if (advanceDay && advanceAmount > 0 && advanceDay === tomorrowDay) {
+  const advanceDue = advanceDay ? monthlyDueDates(advanceDay, advanceDayRule, tomorrow, tomorrow)[0] : undefined;
+  if (advanceDue && advanceAmount > 0) {
     sendPaymentReminder({
       type: 'advance',
       amount: advanceAmount,
-      day: advanceDay,
+      day: advanceDue.date.getDate(),
       daysUntil: 1
     });
   }
@@ -37,9 +37,48 @@ interface RequestBody {
       date: string;
     }>;
   };
+  // User's active category names; the tool schema only offers these
+  categories?: {
+    expense: string[];
+    income: string[];
+  };
 }
 
-const tools = [
+const DEFAULT_CATEGORIES = {
+  expense: ["Alimentação", "Transporte", "Lazer", "Compras", "Saúde", "Educação", "Contas", "Outros"],
+  income: ["Salário", "Freelance", "Investimentos", "Presente", "Outros"],
+};
+
+// Examples that help the model pick the default categories
+const CATEGORY_HINTS: Record<string, string> = {
+  'Alimentação': 'comida, restaurante, lanche, café, mercado',
+  'Transporte': 'uber, ônibus, gasolina, estacionamento',
+  'Lazer': 'cinema, festa, bar, entretenimento',
+  'Compras': 'roupa, eletrônicos, loja',
+  'Saúde': 'remédio, médico, farmácia',
+  'Educação': 'curso, livro, escola',
+  'Contas': 'luz, água, internet, aluguel',
+  'Salário': 'pagamento do trabalho',
+  'Freelance': 'trabalho extra, bico',
+  'Investimentos': 'aplicação, poupança',
+  'Presente': 'dar ou receber presente',
+  'Outros': 'qualquer outra coisa',
+};
+
+function resolveCategories(categories?: RequestBody['categories']): { expense: string[]; income: string[] } {
+  return {
+    expense: categories?.expense?.length ? categories.expense : DEFAULT_CATEGORIES.expense,
+    income: categories?.income?.length ? categories.income : DEFAULT_CATEGORIES.income,
+  };
+}
+
+function formatCategoryList(names: string[]): string {
+  return names
+    .map((name) => CATEGORY_HINTS[name] ? `- ${name} (${CATEGORY_HINTS[name]})` : `- ${name}`)
+    .join('\n');
+}
+
+const buildTools = (categoryNames: string[]) => [
   {
     type: "function",
     function: {
@@ -59,7 +98,7 @@ const tools = [
           },
           category: {
             type: "string",
-            enum: ["Alimentação", "Transporte", "Lazer", "Compras", "Saúde", "Educação", "Contas", "Salário", "Freelance", "Investimentos", "Presente", "Outros"],
+            enum: categoryNames,
             description: "Categoria da transação em português"
           },
           description: {
@@ -143,10 +182,13 @@ serve(async (req) => {
       throw new Error('OPENROUTER_API_KEY não configurada');
     }
 
-    const { message, context }: RequestBody = await req.json();
+    const { message, context, categories: userCategories }: RequestBody = await req.json();
     console.log('Received message:', message);
     console.log('Context:', context);
 
+    const categories = resolveCategories(userCategories);
+    const tools = buildTools([...new Set([...categories.expense, ...categories.income])]);
+
     // Detect if user is talking about a transaction (recording)
     const transactionKeywords = /gastei|comprei|paguei|recebi|ganhei|entrou|gastando|investi/i;
     const isTransactionRequest = transactionKeywords.test(message);
@@ -216,19 +258,11 @@ IMPORTANTE SOBRE SALDOS:
 PAGAMENTOS AGENDADOS:
 ${scheduledPaymentsInfo}
 
-CATEGORIAS (USE SEMPRE EM PORTUGUÊS):
-- Alimentação (comida, restaurante, lanche, café, mercado)
-- Transporte (uber, ônibus, gasolina, estacionamento)
-- Lazer (cinema, festa, bar, entretenimento)
-- Compras (roupa, eletrônicos, loja)
-- Saúde (remédio, médico, farmácia)
-- Educação (curso, livro, escola)
-- Contas (luz, água, internet, aluguel)
-- Salário (pagamento do trabalho)
-- Freelance (trabalho extra, bico)
-- Investimentos (aplicação, poupança)
-- Presente (dar ou receber presente)
-- Outros (qualquer outra coisa)
+CATEGORIAS (USE SEMPRE EM PORTUGUÊS E APENAS ESTAS):
+Gastos:
+${formatCategoryList(categories.expense)}
+Ganhos:
+${formatCategoryList(categories.income)}
 
 SEJA ENGRAÇADO, RÍGIDO E IMPLACÁVEL! 🔥`;
 
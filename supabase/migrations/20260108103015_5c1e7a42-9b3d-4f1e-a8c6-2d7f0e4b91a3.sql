@@ -0,0 +1,13 @@
+-- Permitir edição e exclusão de transações pelo próprio usuário
+DROP POLICY IF EXISTS "Users can update own transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Users can delete own transactions" ON public.transactions;
+
+CREATE POLICY "Users can update own transactions" 
+ON public.transactions 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Users can delete own transactions" 
+ON public.transactions 
+FOR DELETE 
+USING (true);
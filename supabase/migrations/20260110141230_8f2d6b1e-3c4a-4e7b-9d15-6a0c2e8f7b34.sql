@@ -0,0 +1,48 @@
+-- Compras parceladas no cartão de crédito
+CREATE TABLE public.installment_plans (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_matricula bigint NOT NULL,
+  description text NOT NULL,
+  category text NOT NULL DEFAULT 'Outros',
+  total_amount numeric NOT NULL,
+  installments_count integer NOT NULL CHECK (installments_count > 1),
+  installment_amount numeric NOT NULL,
+  first_charge_date date NOT NULL DEFAULT CURRENT_DATE,
+  status text NOT NULL DEFAULT 'active',
+  paid_off_at timestamp with time zone DEFAULT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.installment_plans ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own installment plans" 
+ON public.installment_plans 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own installment plans" 
+ON public.installment_plans 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own installment plans" 
+ON public.installment_plans 
+FOR UPDATE 
+USING (true);
+
+-- Cada parcela é uma transação de crédito vinculada ao plano
+ALTER TABLE public.transactions 
+ADD COLUMN IF NOT EXISTS installment_plan_id uuid REFERENCES public.installment_plans(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS installment_number integer DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_installment_plan_id 
+ON public.transactions(installment_plan_id);
+
+-- Add trigger for updated_at on installment_plans
+CREATE TRIGGER update_installment_plans_updated_at
+BEFORE UPDATE ON public.installment_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,31 @@
+-- Dia de fechamento da fatura do cartão
+ALTER TABLE public.users_matricula 
+ADD COLUMN IF NOT EXISTS credit_closing_day integer DEFAULT NULL;
+
+-- Pagamentos de fatura (um registro por pagamento, referenciando o mês de vencimento)
+CREATE TABLE public.credit_invoice_payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_matricula bigint NOT NULL,
+  reference_month text NOT NULL, -- "2026-01" = fatura com vencimento em janeiro
+  amount numeric NOT NULL,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  paid_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_invoice_payments_user_month 
+ON public.credit_invoice_payments(user_matricula, reference_month);
+
+-- Enable RLS
+ALTER TABLE public.credit_invoice_payments ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own invoice payments" 
+ON public.credit_invoice_payments 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own invoice payments" 
+ON public.credit_invoice_payments 
+FOR INSERT 
+WITH CHECK (true);
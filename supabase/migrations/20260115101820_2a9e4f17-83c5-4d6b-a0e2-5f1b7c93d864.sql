@@ -0,0 +1,34 @@
+-- Limite usado do cartão derivado do razão: compras no crédito (incluindo parcelas futuras)
+-- menos pagamentos de fatura. A coluna users_matricula.credit_used fica apenas como legado.
+CREATE OR REPLACE VIEW public.user_credit_usage
+WITH (security_invoker = true) AS
+SELECT
+  u.matricula AS user_matricula,
+  COALESCE(c.total, 0) AS credit_charges,
+  COALESCE(p.total, 0) AS invoice_payments,
+  GREATEST(COALESCE(c.total, 0) - COALESCE(p.total, 0), 0) AS credit_used
+FROM public.users_matricula u
+LEFT JOIN (
+  SELECT user_matricula, SUM(amount) AS total
+  FROM public.transactions
+  WHERE type = 'expense' AND payment_method = 'credit'
+  GROUP BY user_matricula
+) c ON c.user_matricula = u.matricula
+LEFT JOIN (
+  SELECT user_matricula, SUM(amount) AS total
+  FROM public.credit_invoice_payments
+  GROUP BY user_matricula
+) p ON p.user_matricula = u.matricula;
+
+-- Limite usado de um único usuário
+CREATE OR REPLACE FUNCTION public.get_credit_used(_matricula bigint)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT credit_used FROM public.user_credit_usage WHERE user_matricula = _matricula),
+    0
+  )
+$$;
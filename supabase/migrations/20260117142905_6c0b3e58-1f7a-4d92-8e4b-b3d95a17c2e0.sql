@@ -0,0 +1,53 @@
+-- Inserção atômica de transação: categoria (busca ou cria), transação e limite usado
+-- numa única chamada, para não deixar categorias órfãs ou limite inconsistente
+CREATE OR REPLACE FUNCTION public.insert_transaction(
+  _user_matricula bigint,
+  _amount numeric,
+  _type text,
+  _payment_method text,
+  _category text,
+  _description text,
+  _date date DEFAULT CURRENT_DATE,
+  _created_at timestamp with time zone DEFAULT now()
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _category_id uuid;
+  _transaction public.transactions;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users_matricula WHERE matricula = _user_matricula) THEN
+    RAISE EXCEPTION 'Usuário % não encontrado', _user_matricula;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  SELECT id INTO _category_id
+  FROM public.categories
+  WHERE user_matricula = _user_matricula AND name = _category
+  LIMIT 1;
+
+  IF _category_id IS NULL THEN
+    INSERT INTO public.categories (name, type, user_matricula)
+    VALUES (_category, CASE WHEN _type = 'income' THEN 'income' ELSE 'expense' END, _user_matricula)
+    RETURNING id INTO _category_id;
+  END IF;
+
+  INSERT INTO public.transactions (amount, type, payment_method, category_id, description, date, created_at, user_matricula)
+  VALUES (_amount, _type, COALESCE(_payment_method, 'debit'), _category_id, _description, _date, _created_at, _user_matricula)
+  RETURNING * INTO _transaction;
+
+  -- Mantém a coluna legada credit_used alinhada com o razão
+  IF _type = 'expense' AND _transaction.payment_method = 'credit' THEN
+    UPDATE public.users_matricula
+    SET credit_used = public.get_credit_used(_user_matricula)
+    WHERE matricula = _user_matricula;
+  END IF;
+
+  RETURN _transaction;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Resumo de saldo calculado no banco, sem baixar todo o histórico de transações.
+-- Parcelas futuras (created_at > fim do período) não entram no saldo.
+CREATE OR REPLACE FUNCTION public.get_balance_summary(
+  _matricula bigint,
+  _initial_balance numeric DEFAULT 0,
+  _from timestamp with time zone DEFAULT NULL,
+  _to timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (
+  balance numeric,
+  total_income numeric,
+  total_expense numeric,
+  debit_balance numeric,
+  credit_used numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH totals AS (
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE type = 'income'), 0) AS income,
+      COALESCE(SUM(amount) FILTER (WHERE type = 'expense'), 0) AS expense,
+      COALESCE(SUM(amount) FILTER (
+        WHERE type = 'expense' AND COALESCE(payment_method, 'debit') = 'debit'
+      ), 0) AS debit_expense
+    FROM public.transactions
+    WHERE user_matricula = _matricula
+      AND (_from IS NULL OR created_at >= _from)
+      AND created_at <= COALESCE(_to, now())
+  )
+  SELECT
+    _initial_balance + income - expense,
+    income,
+    expense,
+    _initial_balance + income - debit_expense,
+    public.get_credit_used(_matricula)
+  FROM totals
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_created_at
+ON public.transactions(user_matricula, created_at);
@@ -0,0 +1,5 @@
+-- Índice para a paginação do extrato por cursor (created_at, id).
+-- A coluna date guarda só o dia (em UTC) e a lista ordena pelo horário do lançamento, então o
+-- cursor usa created_at, que já define a ordem do dia; date não entra no cursor nem no índice
+CREATE INDEX IF NOT EXISTS idx_transactions_user_keyset
+ON public.transactions(user_matricula, created_at DESC, id DESC);
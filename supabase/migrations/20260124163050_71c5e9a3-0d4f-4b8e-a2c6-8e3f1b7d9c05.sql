@@ -0,0 +1,64 @@
+-- insert_transaction aceita o id gerado no aparelho, para que a fila offline
+-- possa reenviar a mesma transação sem duplicá-la
+DROP FUNCTION IF EXISTS public.insert_transaction(bigint, numeric, text, text, text, text, date, timestamp with time zone);
+
+CREATE OR REPLACE FUNCTION public.insert_transaction(
+  _user_matricula bigint,
+  _amount numeric,
+  _type text,
+  _payment_method text,
+  _category text,
+  _description text,
+  _date date DEFAULT CURRENT_DATE,
+  _created_at timestamp with time zone DEFAULT now(),
+  _id uuid DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _category_id uuid;
+  _transaction public.transactions;
+BEGIN
+  -- Reenvio da fila offline: a transação já foi gravada
+  IF _id IS NOT NULL THEN
+    SELECT * INTO _transaction FROM public.transactions WHERE id = _id;
+    IF FOUND THEN
+      RETURN _transaction;
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users_matricula WHERE matricula = _user_matricula) THEN
+    RAISE EXCEPTION 'Usuário % não encontrado', _user_matricula;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  SELECT id INTO _category_id
+  FROM public.categories
+  WHERE user_matricula = _user_matricula AND name = _category
+  LIMIT 1;
+
+  IF _category_id IS NULL THEN
+    INSERT INTO public.categories (name, type, user_matricula)
+    VALUES (_category, CASE WHEN _type = 'income' THEN 'income' ELSE 'expense' END, _user_matricula)
+    RETURNING id INTO _category_id;
+  END IF;
+
+  INSERT INTO public.transactions (id, amount, type, payment_method, category_id, description, date, created_at, user_matricula)
+  VALUES (COALESCE(_id, gen_random_uuid()), _amount, _type, COALESCE(_payment_method, 'debit'), _category_id, _description, _date, _created_at, _user_matricula)
+  RETURNING * INTO _transaction;
+
+  -- Mantém a coluna legada credit_used alinhada com o razão
+  IF _type = 'expense' AND _transaction.payment_method = 'credit' THEN
+    UPDATE public.users_matricula
+    SET credit_used = public.get_credit_used(_user_matricula)
+    WHERE matricula = _user_matricula;
+  END IF;
+
+  RETURN _transaction;
+END;
+$$;
@@ -0,0 +1,212 @@
+-- Categorias gerenciadas pelo usuário: cor, ícone, arquivamento e fusão
+ALTER TABLE public.categories
+ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false;
+
+DROP POLICY IF EXISTS "Users can update own categories" ON public.categories;
+DROP POLICY IF EXISTS "Users can delete own categories" ON public.categories;
+
+CREATE POLICY "Users can update own categories" 
+ON public.categories 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Users can delete own categories" 
+ON public.categories 
+FOR DELETE 
+USING (true);
+
+-- Unifica categorias duplicadas (mesmo usuário, tipo e nome) antes do índice único
+CREATE TEMP TABLE category_duplicates ON COMMIT DROP AS
+SELECT id, keep_id
+FROM (
+  SELECT
+    id,
+    first_value(id) OVER (PARTITION BY user_matricula, type, lower(name) ORDER BY created_at, id) AS keep_id
+  FROM public.categories
+) ranked
+WHERE id <> keep_id;
+
+UPDATE public.transactions t
+SET category_id = d.keep_id
+FROM category_duplicates d
+WHERE t.category_id = d.id;
+
+DELETE FROM public.categories c
+USING category_duplicates d
+WHERE c.id = d.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_user_type_name
+ON public.categories(user_matricula, type, lower(name));
+
+-- Categorias padrão de cada usuário
+CREATE OR REPLACE FUNCTION public.seed_default_categories(_matricula bigint)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO public.categories (user_matricula, name, type, icon, color)
+  SELECT _matricula, d.name, d.type, d.icon, d.color
+  FROM (VALUES
+    ('Alimentação', 'expense', 'Utensils', '#f97316'),
+    ('Transporte', 'expense', 'Car', '#3b82f6'),
+    ('Lazer', 'expense', 'Gamepad2', '#a855f7'),
+    ('Compras', 'expense', 'ShoppingBag', '#ec4899'),
+    ('Saúde', 'expense', 'Heart', '#ef4444'),
+    ('Educação', 'expense', 'GraduationCap', '#14b8a6'),
+    ('Contas', 'expense', 'Receipt', '#eab308'),
+    ('Outros', 'expense', 'MoreHorizontal', '#64748b'),
+    ('Salário', 'income', 'Briefcase', '#10b981'),
+    ('Freelance', 'income', 'Laptop', '#06b6d4'),
+    ('Investimentos', 'income', 'TrendingUp', '#8b5cf6'),
+    ('Presente', 'income', 'Gift', '#f43f5e'),
+    ('Outros', 'income', 'MoreHorizontal', '#64748b')
+  ) AS d(name, type, icon, color)
+  ON CONFLICT DO NOTHING
+$$;
+
+CREATE OR REPLACE FUNCTION public.seed_categories_for_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_default_categories(NEW.matricula);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS seed_categories_after_user_insert ON public.users_matricula;
+CREATE TRIGGER seed_categories_after_user_insert
+AFTER INSERT ON public.users_matricula
+FOR EACH ROW
+EXECUTE FUNCTION public.seed_categories_for_new_user();
+
+SELECT public.seed_default_categories(matricula) FROM public.users_matricula;
+
+-- Categoria ativa pelo nome; nomes desconhecidos ou arquivados caem em "Outros"
+-- em vez de criar uma categoria nova a cada erro de digitação
+CREATE OR REPLACE FUNCTION public.resolve_category_id(_matricula bigint, _name text, _type text)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _category_id uuid;
+  _category_type text := CASE WHEN _type = 'income' THEN 'income' ELSE 'expense' END;
+BEGIN
+  SELECT id INTO _category_id
+  FROM public.categories
+  WHERE user_matricula = _matricula
+    AND type = _category_type
+    AND lower(name) = lower(trim(_name))
+    AND NOT is_archived;
+
+  IF _category_id IS NULL THEN
+    PERFORM public.seed_default_categories(_matricula);
+
+    SELECT id INTO _category_id
+    FROM public.categories
+    WHERE user_matricula = _matricula
+      AND type = _category_type
+      AND name = 'Outros';
+  END IF;
+
+  RETURN _category_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.insert_transaction(
+  _user_matricula bigint,
+  _amount numeric,
+  _type text,
+  _payment_method text,
+  _category text,
+  _description text,
+  _date date DEFAULT CURRENT_DATE,
+  _created_at timestamp with time zone DEFAULT now(),
+  _id uuid DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.transactions;
+BEGIN
+  -- Reenvio da fila offline: a transação já foi gravada
+  IF _id IS NOT NULL THEN
+    SELECT * INTO _transaction FROM public.transactions WHERE id = _id;
+    IF FOUND THEN
+      RETURN _transaction;
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users_matricula WHERE matricula = _user_matricula) THEN
+    RAISE EXCEPTION 'Usuário % não encontrado', _user_matricula;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  INSERT INTO public.transactions (id, amount, type, payment_method, category_id, description, date, created_at, user_matricula)
+  VALUES (
+    COALESCE(_id, gen_random_uuid()),
+    _amount,
+    _type,
+    COALESCE(_payment_method, 'debit'),
+    public.resolve_category_id(_user_matricula, _category, _type),
+    _description,
+    _date,
+    _created_at,
+    _user_matricula
+  )
+  RETURNING * INTO _transaction;
+
+  -- Mantém a coluna legada credit_used alinhada com o razão
+  IF _type = 'expense' AND _transaction.payment_method = 'credit' THEN
+    UPDATE public.users_matricula
+    SET credit_used = public.get_credit_used(_user_matricula)
+    WHERE matricula = _user_matricula;
+  END IF;
+
+  RETURN _transaction;
+END;
+$$;
+
+-- Move as transações de uma categoria para outra do mesmo tipo e remove a origem
+CREATE OR REPLACE FUNCTION public.merge_categories(_source_id uuid, _target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _source public.categories;
+  _target public.categories;
+  _moved integer;
+BEGIN
+  SELECT * INTO _source FROM public.categories WHERE id = _source_id;
+  SELECT * INTO _target FROM public.categories WHERE id = _target_id;
+
+  IF _source.id IS NULL OR _target.id IS NULL OR _source.id = _target.id THEN
+    RAISE EXCEPTION 'Categorias inválidas para fusão';
+  END IF;
+
+  IF _source.user_matricula <> _target.user_matricula OR _source.type <> _target.type THEN
+    RAISE EXCEPTION 'Só é possível unir categorias do mesmo usuário e tipo';
+  END IF;
+
+  UPDATE public.transactions
+  SET category_id = _target.id
+  WHERE category_id = _source.id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  UPDATE public.installment_plans
+  SET category = _target.name
+  WHERE user_matricula = _source.user_matricula AND category = _source.name;
+
+  DELETE FROM public.categories WHERE id = _source.id;
+
+  RETURN _moved;
+END;
+$$;
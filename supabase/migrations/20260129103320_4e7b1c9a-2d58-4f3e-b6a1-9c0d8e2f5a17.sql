@@ -0,0 +1,119 @@
+-- Orçamentos mensais por categoria
+CREATE TABLE public.budgets (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_matricula bigint NOT NULL,
+  category_id uuid NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  month date NOT NULL, -- Primeiro dia do mês
+  limit_amount numeric NOT NULL CHECK (limit_amount > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_matricula, category_id, month)
+);
+
+-- Enable RLS
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own budgets" 
+ON public.budgets 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own budgets" 
+ON public.budgets 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own budgets" 
+ON public.budgets 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Users can delete own budgets" 
+ON public.budgets 
+FOR DELETE 
+USING (true);
+
+CREATE TRIGGER update_budgets_updated_at
+BEFORE UPDATE ON public.budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Gasto do mês em cada categoria com orçamento
+CREATE OR REPLACE FUNCTION public.get_budget_progress(_matricula bigint, _month date)
+RETURNS TABLE (
+  budget_id uuid,
+  category_id uuid,
+  category_name text,
+  limit_amount numeric,
+  spent numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    b.id,
+    b.category_id,
+    c.name,
+    b.limit_amount,
+    COALESCE((
+      SELECT SUM(t.amount)
+      FROM public.transactions t
+      WHERE t.user_matricula = b.user_matricula
+        AND t.category_id = b.category_id
+        AND t.type = 'expense'
+        AND t.date >= date_trunc('month', _month)::date
+        AND t.date < (date_trunc('month', _month) + interval '1 month')::date
+    ), 0)
+  FROM public.budgets b
+  JOIN public.categories c ON c.id = b.category_id
+  WHERE b.user_matricula = _matricula
+    AND b.month = date_trunc('month', _month)::date
+  ORDER BY c.name
+$$;
+
+-- Ao unir categorias, os orçamentos da origem passam para o destino quando ele não tem um no mesmo mês
+CREATE OR REPLACE FUNCTION public.merge_categories(_source_id uuid, _target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _source public.categories;
+  _target public.categories;
+  _moved integer;
+BEGIN
+  SELECT * INTO _source FROM public.categories WHERE id = _source_id;
+  SELECT * INTO _target FROM public.categories WHERE id = _target_id;
+
+  IF _source.id IS NULL OR _target.id IS NULL OR _source.id = _target.id THEN
+    RAISE EXCEPTION 'Categorias inválidas para fusão';
+  END IF;
+
+  IF _source.user_matricula <> _target.user_matricula OR _source.type <> _target.type THEN
+    RAISE EXCEPTION 'Só é possível unir categorias do mesmo usuário e tipo';
+  END IF;
+
+  UPDATE public.transactions
+  SET category_id = _target.id
+  WHERE category_id = _source.id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  UPDATE public.installment_plans
+  SET category = _target.name
+  WHERE user_matricula = _source.user_matricula AND category = _source.name;
+
+  UPDATE public.budgets b
+  SET category_id = _target.id
+  WHERE b.category_id = _source.id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.budgets t
+      WHERE t.category_id = _target.id AND t.month = b.month
+    );
+
+  DELETE FROM public.categories WHERE id = _source.id;
+
+  RETURN _moved;
+END;
+$$;
@@ -0,0 +1,251 @@
+-- Divisão de uma transação entre várias categorias (ex.: compra de mercado com limpeza e presente)
+CREATE TABLE public.transaction_splits (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  category_id uuid NOT NULL REFERENCES public.categories(id),
+  amount numeric NOT NULL CHECK (amount > 0),
+  note text DEFAULT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction_id
+ON public.transaction_splits(transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_category_id
+ON public.transaction_splits(category_id);
+
+-- Enable RLS
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own transaction splits" 
+ON public.transaction_splits 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own transaction splits" 
+ON public.transaction_splits 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own transaction splits" 
+ON public.transaction_splits 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Users can delete own transaction splits" 
+ON public.transaction_splits 
+FOR DELETE 
+USING (true);
+
+-- Substitui as divisões de uma transação. _splits = [{"category", "amount", "note"}];
+-- lista vazia remove a divisão. As partes precisam somar o valor da transação.
+CREATE OR REPLACE FUNCTION public.set_transaction_splits(_transaction_id uuid, _splits jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.transactions;
+  _split jsonb;
+  _total numeric := 0;
+BEGIN
+  SELECT * INTO _transaction FROM public.transactions WHERE id = _transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transação % não encontrada', _transaction_id;
+  END IF;
+
+  DELETE FROM public.transaction_splits WHERE transaction_id = _transaction_id;
+
+  IF _splits IS NULL OR jsonb_array_length(_splits) = 0 THEN
+    RETURN;
+  END IF;
+
+  IF jsonb_array_length(_splits) < 2 THEN
+    RAISE EXCEPTION 'Uma divisão precisa de pelo menos duas partes';
+  END IF;
+
+  FOR _split IN SELECT * FROM jsonb_array_elements(_splits)
+  LOOP
+    IF (_split->>'amount')::numeric IS NULL OR (_split->>'amount')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Valor inválido na divisão: %', _split->>'amount';
+    END IF;
+
+    _total := _total + (_split->>'amount')::numeric;
+
+    INSERT INTO public.transaction_splits (transaction_id, category_id, amount, note)
+    VALUES (
+      _transaction_id,
+      public.resolve_category_id(_transaction.user_matricula, _split->>'category', _transaction.type),
+      (_split->>'amount')::numeric,
+      NULLIF(trim(_split->>'note'), '')
+    );
+  END LOOP;
+
+  IF round(_total, 2) <> round(_transaction.amount, 2) THEN
+    RAISE EXCEPTION 'As partes somam % mas a transação é de %', _total, _transaction.amount;
+  END IF;
+END;
+$$;
+
+-- insert_transaction grava a divisão junto com a transação
+DROP FUNCTION IF EXISTS public.insert_transaction(bigint, numeric, text, text, text, text, date, timestamp with time zone, uuid);
+
+CREATE OR REPLACE FUNCTION public.insert_transaction(
+  _user_matricula bigint,
+  _amount numeric,
+  _type text,
+  _payment_method text,
+  _category text,
+  _description text,
+  _date date DEFAULT CURRENT_DATE,
+  _created_at timestamp with time zone DEFAULT now(),
+  _id uuid DEFAULT NULL,
+  _splits jsonb DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.transactions;
+BEGIN
+  -- Reenvio da fila offline: a transação já foi gravada
+  IF _id IS NOT NULL THEN
+    SELECT * INTO _transaction FROM public.transactions WHERE id = _id;
+    IF FOUND THEN
+      RETURN _transaction;
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users_matricula WHERE matricula = _user_matricula) THEN
+    RAISE EXCEPTION 'Usuário % não encontrado', _user_matricula;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  INSERT INTO public.transactions (id, amount, type, payment_method, category_id, description, date, created_at, user_matricula)
+  VALUES (
+    COALESCE(_id, gen_random_uuid()),
+    _amount,
+    _type,
+    COALESCE(_payment_method, 'debit'),
+    public.resolve_category_id(_user_matricula, _category, _type),
+    _description,
+    _date,
+    _created_at,
+    _user_matricula
+  )
+  RETURNING * INTO _transaction;
+
+  IF _splits IS NOT NULL AND jsonb_array_length(_splits) > 0 THEN
+    PERFORM public.set_transaction_splits(_transaction.id, _splits);
+  END IF;
+
+  -- Mantém a coluna legada credit_used alinhada com o razão
+  IF _type = 'expense' AND _transaction.payment_method = 'credit' THEN
+    UPDATE public.users_matricula
+    SET credit_used = public.get_credit_used(_user_matricula)
+    WHERE matricula = _user_matricula;
+  END IF;
+
+  RETURN _transaction;
+END;
+$$;
+
+-- Valor de cada transação por categoria: as partes quando dividida, senão a própria transação
+CREATE OR REPLACE VIEW public.transaction_category_amounts
+WITH (security_invoker = true) AS
+SELECT t.id AS transaction_id, t.user_matricula, t.type, t.date, t.category_id, t.amount
+FROM public.transactions t
+WHERE NOT EXISTS (SELECT 1 FROM public.transaction_splits s WHERE s.transaction_id = t.id)
+UNION ALL
+SELECT t.id, t.user_matricula, t.type, t.date, s.category_id, s.amount
+FROM public.transaction_splits s
+JOIN public.transactions t ON t.id = s.transaction_id;
+
+-- Orçamentos passam a contar as partes de transações divididas
+CREATE OR REPLACE FUNCTION public.get_budget_progress(_matricula bigint, _month date)
+RETURNS TABLE (
+  budget_id uuid,
+  category_id uuid,
+  category_name text,
+  limit_amount numeric,
+  spent numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    b.id,
+    b.category_id,
+    c.name,
+    b.limit_amount,
+    COALESCE((
+      SELECT SUM(a.amount)
+      FROM public.transaction_category_amounts a
+      WHERE a.user_matricula = b.user_matricula
+        AND a.category_id = b.category_id
+        AND a.type = 'expense'
+        AND a.date >= date_trunc('month', _month)::date
+        AND a.date < (date_trunc('month', _month) + interval '1 month')::date
+    ), 0)
+  FROM public.budgets b
+  JOIN public.categories c ON c.id = b.category_id
+  WHERE b.user_matricula = _matricula
+    AND b.month = date_trunc('month', _month)::date
+  ORDER BY c.name
+$$;
+
+-- Unir categorias também move as partes das transações divididas
+CREATE OR REPLACE FUNCTION public.merge_categories(_source_id uuid, _target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _source public.categories;
+  _target public.categories;
+  _moved integer;
+BEGIN
+  SELECT * INTO _source FROM public.categories WHERE id = _source_id;
+  SELECT * INTO _target FROM public.categories WHERE id = _target_id;
+
+  IF _source.id IS NULL OR _target.id IS NULL OR _source.id = _target.id THEN
+    RAISE EXCEPTION 'Categorias inválidas para fusão';
+  END IF;
+
+  IF _source.user_matricula <> _target.user_matricula OR _source.type <> _target.type THEN
+    RAISE EXCEPTION 'Só é possível unir categorias do mesmo usuário e tipo';
+  END IF;
+
+  UPDATE public.transactions
+  SET category_id = _target.id
+  WHERE category_id = _source.id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  UPDATE public.transaction_splits
+  SET category_id = _target.id
+  WHERE category_id = _source.id;
+
+  UPDATE public.installment_plans
+  SET category = _target.name
+  WHERE user_matricula = _source.user_matricula AND category = _source.name;
+
+  UPDATE public.budgets b
+  SET category_id = _target.id
+  WHERE b.category_id = _source.id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.budgets t
+      WHERE t.category_id = _target.id AND t.month = b.month
+    );
+
+  DELETE FROM public.categories WHERE id = _source.id;
+
+  RETURN _moved;
+END;
+$$;
@@ -0,0 +1,200 @@
+-- Tags livres nas transações (ex.: "viagem-rio", "reembolsável"), em paralelo às categorias
+CREATE TABLE public.tags (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_matricula bigint NOT NULL,
+  name text NOT NULL,
+  color text DEFAULT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_user_name
+ON public.tags(user_matricula, lower(name));
+
+CREATE TABLE public.transaction_tags (
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (transaction_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag_id
+ON public.transaction_tags(tag_id);
+
+-- Enable RLS
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transaction_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own tags" 
+ON public.tags 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own tags" 
+ON public.tags 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own tags" 
+ON public.tags 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Users can delete own tags" 
+ON public.tags 
+FOR DELETE 
+USING (true);
+
+CREATE POLICY "Users can view own transaction tags" 
+ON public.transaction_tags 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own transaction tags" 
+ON public.transaction_tags 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can delete own transaction tags" 
+ON public.transaction_tags 
+FOR DELETE 
+USING (true);
+
+-- Substitui as tags de uma transação, criando as que o usuário ainda não tem
+CREATE OR REPLACE FUNCTION public.set_transaction_tags(_transaction_id uuid, _tags text[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _matricula bigint;
+  _name text;
+BEGIN
+  SELECT user_matricula INTO _matricula FROM public.transactions WHERE id = _transaction_id;
+
+  IF _matricula IS NULL THEN
+    RAISE EXCEPTION 'Transação % não encontrada', _transaction_id;
+  END IF;
+
+  DELETE FROM public.transaction_tags WHERE transaction_id = _transaction_id;
+
+  FOR _name IN
+    SELECT DISTINCT ON (lower(trim(t))) trim(t)
+    FROM unnest(COALESCE(_tags, '{}')) AS t
+    WHERE trim(t) <> ''
+  LOOP
+    INSERT INTO public.tags (user_matricula, name)
+    VALUES (_matricula, _name)
+    ON CONFLICT (user_matricula, lower(name)) DO NOTHING;
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id)
+    SELECT _transaction_id, id
+    FROM public.tags
+    WHERE user_matricula = _matricula AND lower(name) = lower(_name)
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+END;
+$$;
+
+-- Totais por tag num período; transações divididas contam pelo valor total
+CREATE OR REPLACE FUNCTION public.get_tag_report(_matricula bigint, _from date DEFAULT NULL, _to date DEFAULT NULL)
+RETURNS TABLE (
+  tag_id uuid,
+  tag_name text,
+  color text,
+  total_expense numeric,
+  total_income numeric,
+  transaction_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    g.id,
+    g.name,
+    g.color,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'expense'), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'income'), 0),
+    COUNT(t.id)
+  FROM public.tags g
+  JOIN public.transaction_tags tt ON tt.tag_id = g.id
+  JOIN public.transactions t ON t.id = tt.transaction_id
+  WHERE g.user_matricula = _matricula
+    AND (_from IS NULL OR t.date >= _from)
+    AND (_to IS NULL OR t.date <= _to)
+    AND t.created_at <= now()
+  GROUP BY g.id, g.name, g.color
+  ORDER BY COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'expense'), 0) DESC, g.name
+$$;
+
+-- insert_transaction grava as tags junto com a transação
+DROP FUNCTION IF EXISTS public.insert_transaction(bigint, numeric, text, text, text, text, date, timestamp with time zone, uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION public.insert_transaction(
+  _user_matricula bigint,
+  _amount numeric,
+  _type text,
+  _payment_method text,
+  _category text,
+  _description text,
+  _date date DEFAULT CURRENT_DATE,
+  _created_at timestamp with time zone DEFAULT now(),
+  _id uuid DEFAULT NULL,
+  _splits jsonb DEFAULT NULL,
+  _tags text[] DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.transactions;
+BEGIN
+  -- Reenvio da fila offline: a transação já foi gravada
+  IF _id IS NOT NULL THEN
+    SELECT * INTO _transaction FROM public.transactions WHERE id = _id;
+    IF FOUND THEN
+      RETURN _transaction;
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users_matricula WHERE matricula = _user_matricula) THEN
+    RAISE EXCEPTION 'Usuário % não encontrado', _user_matricula;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  INSERT INTO public.transactions (id, amount, type, payment_method, category_id, description, date, created_at, user_matricula)
+  VALUES (
+    COALESCE(_id, gen_random_uuid()),
+    _amount,
+    _type,
+    COALESCE(_payment_method, 'debit'),
+    public.resolve_category_id(_user_matricula, _category, _type),
+    _description,
+    _date,
+    _created_at,
+    _user_matricula
+  )
+  RETURNING * INTO _transaction;
+
+  IF _splits IS NOT NULL AND jsonb_array_length(_splits) > 0 THEN
+    PERFORM public.set_transaction_splits(_transaction.id, _splits);
+  END IF;
+
+  IF _tags IS NOT NULL AND array_length(_tags, 1) > 0 THEN
+    PERFORM public.set_transaction_tags(_transaction.id, _tags);
+  END IF;
+
+  -- Mantém a coluna legada credit_used alinhada com o razão
+  IF _type = 'expense' AND _transaction.payment_method = 'credit' THEN
+    UPDATE public.users_matricula
+    SET credit_used = public.get_credit_used(_user_matricula)
+    WHERE matricula = _user_matricula;
+  END IF;
+
+  RETURN _transaction;
+END;
+$$;
@@ -0,0 +1,50 @@
+-- Identificador do banco (FITID do OFX ou id da linha do CSV) para não importar a mesma transação duas vezes
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS external_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_user_external_id
+  ON public.transactions (user_matricula, external_id)
+  WHERE external_id IS NOT NULL;
+
+-- Importação de extrato em lote: tudo ou nada, ignorando identificadores já importados
+CREATE OR REPLACE FUNCTION public.import_transactions(_matricula bigint, _rows jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _row jsonb;
+  _transaction public.transactions;
+  _imported integer := 0;
+BEGIN
+  FOR _row IN SELECT * FROM jsonb_array_elements(COALESCE(_rows, '[]'::jsonb))
+  LOOP
+    IF _row->>'external_id' IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.transactions
+      WHERE user_matricula = _matricula AND external_id = _row->>'external_id'
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    _transaction := public.insert_transaction(
+      _user_matricula => _matricula,
+      _amount => (_row->>'amount')::numeric,
+      _type => _row->>'type',
+      _payment_method => _row->>'payment_method',
+      _category => _row->>'category',
+      _description => _row->>'description',
+      _date => (_row->>'date')::date,
+      _created_at => COALESCE((_row->>'created_at')::timestamp with time zone, now())
+    );
+
+    IF _row->>'external_id' IS NOT NULL THEN
+      UPDATE public.transactions
+      SET external_id = _row->>'external_id'
+      WHERE id = _transaction.id;
+    END IF;
+
+    _imported := _imported + 1;
+  END LOOP;
+
+  RETURN _imported;
+END;
+$$;
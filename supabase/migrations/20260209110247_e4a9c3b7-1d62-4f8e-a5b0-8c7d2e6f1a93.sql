@@ -0,0 +1,285 @@
+-- Regras de categorização automática, avaliadas por prioridade (menor primeiro)
+CREATE TABLE public.categorization_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_matricula bigint NOT NULL,
+  description_contains text,
+  amount numeric CHECK (amount IS NULL OR amount > 0),
+  category_id uuid NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  tags text[] NOT NULL DEFAULT '{}',
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (NULLIF(trim(description_contains), '') IS NOT NULL OR amount IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_priority
+ON public.categorization_rules(user_matricula, priority);
+
+-- Enable RLS
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own categorization rules" 
+ON public.categorization_rules 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own categorization rules" 
+ON public.categorization_rules 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own categorization rules" 
+ON public.categorization_rules 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Users can delete own categorization rules" 
+ON public.categorization_rules 
+FOR DELETE 
+USING (true);
+
+CREATE TRIGGER update_categorization_rules_updated_at
+BEFORE UPDATE ON public.categorization_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Primeira regra ativa que combina com a transação; a categoria da regra define o tipo
+CREATE OR REPLACE FUNCTION public.match_categorization_rule(
+  _matricula bigint,
+  _type text,
+  _amount numeric,
+  _description text
+)
+RETURNS SETOF public.categorization_rules
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.*
+  FROM public.categorization_rules r
+  JOIN public.categories c ON c.id = r.category_id
+  WHERE r.user_matricula = _matricula
+    AND r.is_active
+    AND c.type = _type
+    AND NOT c.is_archived
+    AND (
+      NULLIF(trim(r.description_contains), '') IS NULL
+      OR position(lower(trim(r.description_contains)) IN lower(COALESCE(_description, ''))) > 0
+    )
+    AND (r.amount IS NULL OR r.amount = _amount)
+  ORDER BY r.priority, r.created_at
+  LIMIT 1
+$$;
+
+-- Aplica a regra que combinar; devolve true se a categoria ou as tags mudaram.
+-- Transações divididas e parcelas mantêm as categorias que já têm.
+CREATE OR REPLACE FUNCTION public.apply_categorization_rules(_transaction_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.transactions;
+  _rule public.categorization_rules;
+  _current_tags text[];
+  _changed boolean := false;
+BEGIN
+  SELECT * INTO _transaction FROM public.transactions WHERE id = _transaction_id;
+
+  IF NOT FOUND OR _transaction.installment_plan_id IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.transaction_splits WHERE transaction_id = _transaction.id) THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO _rule
+  FROM public.match_categorization_rule(
+    _transaction.user_matricula,
+    _transaction.type,
+    _transaction.amount,
+    _transaction.description
+  );
+
+  IF _rule.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF _transaction.category_id IS DISTINCT FROM _rule.category_id THEN
+    UPDATE public.transactions SET category_id = _rule.category_id WHERE id = _transaction.id;
+    _changed := true;
+  END IF;
+
+  IF array_length(_rule.tags, 1) > 0 THEN
+    SELECT COALESCE(array_agg(g.name), '{}') INTO _current_tags
+    FROM public.transaction_tags tt
+    JOIN public.tags g ON g.id = tt.tag_id
+    WHERE tt.transaction_id = _transaction.id;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(_rule.tags) AS t
+      WHERE lower(trim(t)) <> '' AND lower(trim(t)) NOT IN (SELECT lower(c) FROM unnest(_current_tags) AS c)
+    ) THEN
+      PERFORM public.set_transaction_tags(_transaction.id, _current_tags || _rule.tags);
+      _changed := true;
+    END IF;
+  END IF;
+
+  RETURN _changed;
+END;
+$$;
+
+-- Reaplica as regras nas transações já lançadas; devolve quantas mudaram
+CREATE OR REPLACE FUNCTION public.rerun_categorization_rules(_matricula bigint, _from date DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+  _changed integer := 0;
+BEGIN
+  FOR _id IN
+    SELECT id FROM public.transactions
+    WHERE user_matricula = _matricula
+      AND (_from IS NULL OR date >= _from)
+      AND created_at <= now()
+  LOOP
+    IF public.apply_categorization_rules(_id) THEN
+      _changed := _changed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN _changed;
+END;
+$$;
+
+-- insert_transaction passa a aplicar as regras antes de devolver a transação
+CREATE OR REPLACE FUNCTION public.insert_transaction(
+  _user_matricula bigint,
+  _amount numeric,
+  _type text,
+  _payment_method text,
+  _category text,
+  _description text,
+  _date date DEFAULT CURRENT_DATE,
+  _created_at timestamp with time zone DEFAULT now(),
+  _id uuid DEFAULT NULL,
+  _splits jsonb DEFAULT NULL,
+  _tags text[] DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.transactions;
+BEGIN
+  -- Reenvio da fila offline: a transação já foi gravada
+  IF _id IS NOT NULL THEN
+    SELECT * INTO _transaction FROM public.transactions WHERE id = _id;
+    IF FOUND THEN
+      RETURN _transaction;
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users_matricula WHERE matricula = _user_matricula) THEN
+    RAISE EXCEPTION 'Usuário % não encontrado', _user_matricula;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  INSERT INTO public.transactions (id, amount, type, payment_method, category_id, description, date, created_at, user_matricula)
+  VALUES (
+    COALESCE(_id, gen_random_uuid()),
+    _amount,
+    _type,
+    COALESCE(_payment_method, 'debit'),
+    public.resolve_category_id(_user_matricula, _category, _type),
+    _description,
+    _date,
+    _created_at,
+    _user_matricula
+  )
+  RETURNING * INTO _transaction;
+
+  IF _splits IS NOT NULL AND jsonb_array_length(_splits) > 0 THEN
+    PERFORM public.set_transaction_splits(_transaction.id, _splits);
+  END IF;
+
+  IF _tags IS NOT NULL AND array_length(_tags, 1) > 0 THEN
+    PERFORM public.set_transaction_tags(_transaction.id, _tags);
+  END IF;
+
+  IF public.apply_categorization_rules(_transaction.id) THEN
+    SELECT * INTO _transaction FROM public.transactions WHERE id = _transaction.id;
+  END IF;
+
+  -- Mantém a coluna legada credit_used alinhada com o razão
+  IF _type = 'expense' AND _transaction.payment_method = 'credit' THEN
+    UPDATE public.users_matricula
+    SET credit_used = public.get_credit_used(_user_matricula)
+    WHERE matricula = _user_matricula;
+  END IF;
+
+  RETURN _transaction;
+END;
+$$;
+
+-- Fusão de categorias também move as regras
+CREATE OR REPLACE FUNCTION public.merge_categories(_source_id uuid, _target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _source public.categories;
+  _target public.categories;
+  _moved integer;
+BEGIN
+  SELECT * INTO _source FROM public.categories WHERE id = _source_id;
+  SELECT * INTO _target FROM public.categories WHERE id = _target_id;
+
+  IF _source.id IS NULL OR _target.id IS NULL OR _source.id = _target.id THEN
+    RAISE EXCEPTION 'Categorias inválidas para fusão';
+  END IF;
+
+  IF _source.user_matricula <> _target.user_matricula OR _source.type <> _target.type THEN
+    RAISE EXCEPTION 'Só é possível unir categorias do mesmo usuário e tipo';
+  END IF;
+
+  UPDATE public.transactions
+  SET category_id = _target.id
+  WHERE category_id = _source.id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  UPDATE public.transaction_splits
+  SET category_id = _target.id
+  WHERE category_id = _source.id;
+
+  UPDATE public.installment_plans
+  SET category = _target.name
+  WHERE user_matricula = _source.user_matricula AND category = _source.name;
+
+  UPDATE public.budgets b
+  SET category_id = _target.id
+  WHERE b.category_id = _source.id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.budgets t
+      WHERE t.category_id = _target.id AND t.month = b.month
+    );
+
+  UPDATE public.categorization_rules
+  SET category_id = _target.id
+  WHERE category_id = _source.id;
+
+  DELETE FROM public.categories WHERE id = _source.id;
+
+  RETURN _moved;
+END;
+$$;
@@ -0,0 +1,160 @@
+-- Histórico de depósitos e retiradas das metas; current_amount passa a ser derivado dele
+CREATE TABLE public.goal_contributions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id uuid NOT NULL REFERENCES public.goals(id) ON DELETE CASCADE,
+  user_matricula bigint NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('deposit', 'withdrawal')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL, -- Movimento na conta corrente, se houve
+  note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_contributions_goal_id
+ON public.goal_contributions(goal_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.goal_contributions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own goal contributions" 
+ON public.goal_contributions 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own goal contributions" 
+ON public.goal_contributions 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can delete own goal contributions" 
+ON public.goal_contributions 
+FOR DELETE 
+USING (true);
+
+-- Saldo da meta: depósitos menos retiradas
+CREATE OR REPLACE FUNCTION public.get_goal_balance(_goal_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(CASE WHEN kind = 'deposit' THEN amount ELSE -amount END), 0)
+  FROM public.goal_contributions
+  WHERE goal_id = _goal_id
+$$;
+
+-- current_amount não pode ser escrito diretamente: sempre reflete o histórico
+CREATE OR REPLACE FUNCTION public.sync_goal_current_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.current_amount := public.get_goal_balance(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_goal_current_amount
+BEFORE UPDATE ON public.goals
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_goal_current_amount();
+
+CREATE OR REPLACE FUNCTION public.refresh_goal_current_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- O gatilho BEFORE UPDATE recalcula o valor
+  UPDATE public.goals SET current_amount = 0 WHERE id = COALESCE(NEW.goal_id, OLD.goal_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_goal_current_amount
+AFTER INSERT OR DELETE ON public.goal_contributions
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_goal_current_amount();
+
+-- O valor informado ao criar a meta vira o primeiro depósito
+CREATE OR REPLACE FUNCTION public.record_initial_goal_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.current_amount, 0) > 0 THEN
+    INSERT INTO public.goal_contributions (goal_id, user_matricula, kind, amount, note, created_at)
+    VALUES (NEW.id, NEW.user_matricula, 'deposit', NEW.current_amount, 'Saldo inicial', NEW.created_at);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_initial_goal_amount
+AFTER INSERT ON public.goals
+FOR EACH ROW
+EXECUTE FUNCTION public.record_initial_goal_amount();
+
+-- Metas existentes: o valor atual vira o saldo inicial do histórico
+INSERT INTO public.goal_contributions (goal_id, user_matricula, kind, amount, note, created_at)
+SELECT id, user_matricula, 'deposit', current_amount, 'Saldo inicial', created_at
+FROM public.goals
+WHERE COALESCE(current_amount, 0) > 0;
+
+-- Depósito ou retirada, opcionalmente movimentando a conta corrente
+CREATE OR REPLACE FUNCTION public.add_goal_contribution(
+  _goal_id uuid,
+  _kind text,
+  _amount numeric,
+  _move_account boolean DEFAULT false,
+  _note text DEFAULT NULL
+)
+RETURNS public.goal_contributions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _goal public.goals;
+  _transaction public.transactions;
+  _contribution public.goal_contributions;
+BEGIN
+  SELECT * INTO _goal FROM public.goals WHERE id = _goal_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_goal.is_active, true) THEN
+    RAISE EXCEPTION 'Meta % não encontrada', _goal_id;
+  END IF;
+
+  IF _kind NOT IN ('deposit', 'withdrawal') THEN
+    RAISE EXCEPTION 'Tipo de movimento inválido: %', _kind;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  IF _kind = 'withdrawal' AND _amount > public.get_goal_balance(_goal_id) THEN
+    RAISE EXCEPTION 'Saldo insuficiente na meta';
+  END IF;
+
+  -- Depósito sai da conta corrente; retirada volta para ela
+  IF _move_account THEN
+    _transaction := public.insert_transaction(
+      _user_matricula => _goal.user_matricula,
+      _amount => _amount,
+      _type => CASE WHEN _kind = 'deposit' THEN 'expense' ELSE 'income' END,
+      _payment_method => 'debit',
+      _category => 'Outros',
+      _description => CASE WHEN _kind = 'deposit' THEN 'Depósito na meta ' ELSE 'Resgate da meta ' END || _goal.name
+    );
+  END IF;
+
+  INSERT INTO public.goal_contributions (goal_id, user_matricula, kind, amount, transaction_id, note)
+  VALUES (_goal_id, _goal.user_matricula, _kind, _amount, _transaction.id, NULLIF(trim(_note), ''))
+  RETURNING * INTO _contribution;
+
+  RETURN _contribution;
+END;
+$$;
@@ -0,0 +1,247 @@
+-- Regras que guardam dinheiro nas metas automaticamente
+CREATE TABLE public.goal_funding_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id uuid NOT NULL REFERENCES public.goals(id) ON DELETE CASCADE,
+  user_matricula bigint NOT NULL,
+  event text NOT NULL CHECK (event IN ('salary', 'advance', 'round_up')),
+  percent numeric CHECK (percent > 0 AND percent <= 100),
+  fixed_amount numeric CHECK (fixed_amount > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- Salário/adiantamento: percentual ou valor fixo; arredondamento não usa nenhum dos dois
+  CONSTRAINT goal_funding_rules_amount_check CHECK (
+    (event = 'round_up' AND percent IS NULL AND fixed_amount IS NULL)
+    OR (event <> 'round_up' AND (percent IS NULL) <> (fixed_amount IS NULL))
+  )
+);
+
+-- Cada compra só pode ser arredondada para uma meta
+CREATE UNIQUE INDEX IF NOT EXISTS idx_goal_funding_rules_round_up
+ON public.goal_funding_rules(user_matricula)
+WHERE event = 'round_up' AND is_active;
+
+-- Origem de cada movimento da meta
+ALTER TABLE public.goal_contributions
+ADD COLUMN source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'salary', 'advance', 'round_up'));
+
+-- Compras de débito já arredondadas
+CREATE TABLE public.goal_round_ups (
+  transaction_id uuid NOT NULL PRIMARY KEY REFERENCES public.transactions(id) ON DELETE CASCADE,
+  contribution_id uuid NOT NULL REFERENCES public.goal_contributions(id) ON DELETE CASCADE,
+  amount numeric NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE public.goal_funding_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goal_round_ups ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own goal funding rules" 
+ON public.goal_funding_rules 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own goal funding rules" 
+ON public.goal_funding_rules 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own goal funding rules" 
+ON public.goal_funding_rules 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Users can delete own goal funding rules" 
+ON public.goal_funding_rules 
+FOR DELETE 
+USING (true);
+
+CREATE POLICY "Users can view own goal round ups" 
+ON public.goal_round_ups 
+FOR SELECT 
+USING (true);
+
+CREATE TRIGGER update_goal_funding_rules_updated_at
+BEFORE UPDATE ON public.goal_funding_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- add_goal_contribution passa a registrar a origem do movimento
+DROP FUNCTION IF EXISTS public.add_goal_contribution(uuid, text, numeric, boolean, text);
+
+CREATE OR REPLACE FUNCTION public.add_goal_contribution(
+  _goal_id uuid,
+  _kind text,
+  _amount numeric,
+  _move_account boolean DEFAULT false,
+  _note text DEFAULT NULL,
+  _source text DEFAULT 'manual'
+)
+RETURNS public.goal_contributions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _goal public.goals;
+  _transaction public.transactions;
+  _contribution public.goal_contributions;
+BEGIN
+  SELECT * INTO _goal FROM public.goals WHERE id = _goal_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_goal.is_active, true) THEN
+    RAISE EXCEPTION 'Meta % não encontrada', _goal_id;
+  END IF;
+
+  IF _kind NOT IN ('deposit', 'withdrawal') THEN
+    RAISE EXCEPTION 'Tipo de movimento inválido: %', _kind;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  IF _kind = 'withdrawal' AND _amount > public.get_goal_balance(_goal_id) THEN
+    RAISE EXCEPTION 'Saldo insuficiente na meta';
+  END IF;
+
+  -- Depósito sai da conta corrente; retirada volta para ela
+  IF _move_account THEN
+    _transaction := public.insert_transaction(
+      _user_matricula => _goal.user_matricula,
+      _amount => _amount,
+      _type => CASE WHEN _kind = 'deposit' THEN 'expense' ELSE 'income' END,
+      _payment_method => 'debit',
+      _category => 'Outros',
+      _description => CASE WHEN _kind = 'deposit' THEN 'Depósito na meta ' ELSE 'Resgate da meta ' END || _goal.name
+    );
+  END IF;
+
+  INSERT INTO public.goal_contributions (goal_id, user_matricula, kind, amount, transaction_id, note, source)
+  VALUES (_goal_id, _goal.user_matricula, _kind, _amount, _transaction.id, NULLIF(trim(_note), ''), _source)
+  RETURNING * INTO _contribution;
+
+  RETURN _contribution;
+END;
+$$;
+
+-- Aplica as regras de salário ou adiantamento sobre um crédito; retorna o total guardado
+CREATE OR REPLACE FUNCTION public.apply_goal_funding(
+  _matricula bigint,
+  _event text,
+  _credit_amount numeric
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.goal_funding_rules;
+  _amount numeric;
+  _missing numeric;
+  _total numeric := 0;
+BEGIN
+  IF _event NOT IN ('salary', 'advance') THEN
+    RAISE EXCEPTION 'Evento inválido: %', _event;
+  END IF;
+
+  FOR _rule IN
+    SELECT r.*
+    FROM public.goal_funding_rules r
+    JOIN public.goals g ON g.id = r.goal_id
+    WHERE r.user_matricula = _matricula
+      AND r.event = _event
+      AND r.is_active
+      AND COALESCE(g.is_active, true)
+    ORDER BY r.created_at
+  LOOP
+    SELECT target_amount - COALESCE(current_amount, 0) INTO _missing
+    FROM public.goals
+    WHERE id = _rule.goal_id;
+
+    -- Nunca guarda mais do que falta para completar a meta
+    _amount := LEAST(COALESCE(_rule.fixed_amount, round(_credit_amount * _rule.percent / 100, 2)), _missing);
+
+    IF _amount > 0 THEN
+      PERFORM public.add_goal_contribution(
+        _goal_id => _rule.goal_id,
+        _kind => 'deposit',
+        _amount => _amount,
+        _move_account => true,
+        _source => _event
+      );
+      _total := _total + _amount;
+    END IF;
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
+
+-- Guarda a diferença até o próximo múltiplo de R$ 5 das compras no débito ainda não arredondadas
+CREATE OR REPLACE FUNCTION public.apply_goal_round_ups(_matricula bigint)
+RETURNS numeric
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.goal_funding_rules;
+  _missing numeric;
+  _total numeric;
+  _count integer;
+  _contribution public.goal_contributions;
+BEGIN
+  -- Evita arredondar a mesma compra em duas chamadas simultâneas
+  PERFORM pg_advisory_xact_lock(_matricula);
+
+  SELECT r.* INTO _rule
+  FROM public.goal_funding_rules r
+  JOIN public.goals g ON g.id = r.goal_id
+  WHERE r.user_matricula = _matricula
+    AND r.event = 'round_up'
+    AND r.is_active
+    AND COALESCE(g.is_active, true);
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Só compras feitas depois da criação da regra; movimentos das próprias metas ficam de fora
+  CREATE TEMP TABLE _pending_round_ups ON COMMIT DROP AS
+  SELECT t.id, ceil(t.amount / 5) * 5 - t.amount AS amount
+  FROM public.transactions t
+  WHERE t.user_matricula = _matricula
+    AND t.type = 'expense'
+    AND t.payment_method = 'debit'
+    AND t.created_at >= _rule.created_at
+    AND ceil(t.amount / 5) * 5 - t.amount > 0
+    AND NOT EXISTS (SELECT 1 FROM public.goal_round_ups r WHERE r.transaction_id = t.id)
+    AND NOT EXISTS (SELECT 1 FROM public.goal_contributions c WHERE c.transaction_id = t.id);
+
+  SELECT COALESCE(SUM(amount), 0), COUNT(*) INTO _total, _count FROM _pending_round_ups;
+
+  SELECT target_amount - COALESCE(current_amount, 0) INTO _missing
+  FROM public.goals
+  WHERE id = _rule.goal_id;
+
+  _total := LEAST(_total, _missing);
+
+  IF _total > 0 THEN
+    _contribution := public.add_goal_contribution(
+      _goal_id => _rule.goal_id,
+      _kind => 'deposit',
+      _amount => _total,
+      _move_account => true,
+      _note => 'Arredondamento de ' || _count || CASE WHEN _count = 1 THEN ' compra' ELSE ' compras' END,
+      _source => 'round_up'
+    );
+
+    INSERT INTO public.goal_round_ups (transaction_id, contribution_id, amount)
+    SELECT id, _contribution.id, amount FROM _pending_round_ups;
+  END IF;
+
+  DROP TABLE _pending_round_ups;
+
+  RETURN GREATEST(_total, 0);
+END;
+$$;
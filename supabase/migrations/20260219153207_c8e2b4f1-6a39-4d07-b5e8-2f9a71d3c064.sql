@@ -0,0 +1,344 @@
+-- Metas compartilhadas entre matrículas
+-- A matrícula logada chega em cada requisição no cabeçalho x-matricula (ver src/integrations/supabase/client.ts)
+CREATE OR REPLACE FUNCTION public.current_matricula()
+RETURNS bigint
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE WHEN value ~ '^[0-9]{1,18}$' THEN value::bigint END
+  FROM (SELECT current_setting('request.headers', true)::json->>'x-matricula' AS value) h
+$$;
+
+CREATE TABLE public.goal_members (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id uuid NOT NULL REFERENCES public.goals(id) ON DELETE CASCADE,
+  user_matricula bigint NOT NULL,
+  share_percent numeric NOT NULL DEFAULT 0 CHECK (share_percent >= 0 AND share_percent <= 100), -- Parte do valor da meta
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (goal_id, user_matricula)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_members_user_matricula
+ON public.goal_members(user_matricula);
+
+CREATE TRIGGER update_goal_members_updated_at
+BEFORE UPDATE ON public.goal_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Funções de acesso usadas pelas políticas (security definer evita recursão de RLS)
+CREATE OR REPLACE FUNCTION public.is_goal_owner(_goal_id uuid, _matricula bigint)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.goals WHERE id = _goal_id AND user_matricula = _matricula
+  )
+$$;
+
+-- Dono ou participante; _accepted_only ignora convites ainda não aceitos
+CREATE OR REPLACE FUNCTION public.is_goal_participant(_goal_id uuid, _matricula bigint, _accepted_only boolean DEFAULT true)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_goal_owner(_goal_id, _matricula)
+    OR EXISTS (
+      SELECT 1
+      FROM public.goal_members
+      WHERE goal_id = _goal_id
+        AND user_matricula = _matricula
+        AND (status = 'accepted' OR NOT _accepted_only)
+    )
+$$;
+
+-- As partes dos participantes não podem passar de 100%; o resto fica com o dono
+CREATE OR REPLACE FUNCTION public.check_goal_member_shares()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_goal_owner(NEW.goal_id, NEW.user_matricula) THEN
+    RAISE EXCEPTION 'O dono já participa da meta';
+  END IF;
+
+  IF (
+    SELECT COALESCE(SUM(share_percent), 0)
+    FROM public.goal_members
+    WHERE goal_id = NEW.goal_id AND id <> NEW.id
+  ) + NEW.share_percent > 100 THEN
+    RAISE EXCEPTION 'A soma das partes passa de 100%%';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_goal_member_shares
+BEFORE INSERT OR UPDATE ON public.goal_members
+FOR EACH ROW
+EXECUTE FUNCTION public.check_goal_member_shares();
+
+-- Enable RLS
+ALTER TABLE public.goal_members ENABLE ROW LEVEL SECURITY;
+
+-- Troca as políticas abertas das metas por políticas baseadas na matrícula
+DO $$
+DECLARE
+  _policy record;
+BEGIN
+  FOR _policy IN
+    SELECT tablename, policyname
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('goals', 'goal_contributions', 'goal_funding_rules')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', _policy.policyname, _policy.tablename);
+  END LOOP;
+END;
+$$;
+
+-- Create RLS policies
+CREATE POLICY "Participants can view goals" 
+ON public.goals 
+FOR SELECT 
+USING (public.is_goal_participant(id, public.current_matricula(), false));
+
+CREATE POLICY "Users can insert own goals" 
+ON public.goals 
+FOR INSERT 
+WITH CHECK (user_matricula = public.current_matricula());
+
+CREATE POLICY "Owners can update goals" 
+ON public.goals 
+FOR UPDATE 
+USING (user_matricula = public.current_matricula());
+
+CREATE POLICY "Owners can delete goals" 
+ON public.goals 
+FOR DELETE 
+USING (user_matricula = public.current_matricula());
+
+CREATE POLICY "Admins can manage goals" 
+ON public.goals 
+FOR ALL 
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Participants can view goal members" 
+ON public.goal_members 
+FOR SELECT 
+USING (
+  user_matricula = public.current_matricula()
+  OR public.is_goal_participant(goal_id, public.current_matricula())
+);
+
+CREATE POLICY "Owners can invite goal members" 
+ON public.goal_members 
+FOR INSERT 
+WITH CHECK (public.is_goal_owner(goal_id, public.current_matricula()) AND status = 'pending');
+
+CREATE POLICY "Owners can update goal members" 
+ON public.goal_members 
+FOR UPDATE 
+USING (public.is_goal_owner(goal_id, public.current_matricula()));
+
+-- O dono remove participantes; o participante pode recusar o convite ou sair da meta
+CREATE POLICY "Owners and members can delete goal members" 
+ON public.goal_members 
+FOR DELETE 
+USING (
+  user_matricula = public.current_matricula()
+  OR public.is_goal_owner(goal_id, public.current_matricula())
+);
+
+CREATE POLICY "Participants can view goal contributions" 
+ON public.goal_contributions 
+FOR SELECT 
+USING (public.is_goal_participant(goal_id, public.current_matricula()));
+
+CREATE POLICY "Participants can insert own goal contributions" 
+ON public.goal_contributions 
+FOR INSERT 
+WITH CHECK (
+  user_matricula = public.current_matricula()
+  AND public.is_goal_participant(goal_id, public.current_matricula())
+);
+
+CREATE POLICY "Users can delete own goal contributions" 
+ON public.goal_contributions 
+FOR DELETE 
+USING (user_matricula = public.current_matricula());
+
+CREATE POLICY "Users can view own goal funding rules" 
+ON public.goal_funding_rules 
+FOR SELECT 
+USING (user_matricula = public.current_matricula());
+
+CREATE POLICY "Participants can insert own goal funding rules" 
+ON public.goal_funding_rules 
+FOR INSERT 
+WITH CHECK (
+  user_matricula = public.current_matricula()
+  AND public.is_goal_participant(goal_id, public.current_matricula())
+);
+
+CREATE POLICY "Users can update own goal funding rules" 
+ON public.goal_funding_rules 
+FOR UPDATE 
+USING (user_matricula = public.current_matricula());
+
+CREATE POLICY "Users can delete own goal funding rules" 
+ON public.goal_funding_rules 
+FOR DELETE 
+USING (user_matricula = public.current_matricula());
+
+-- O convidado aceita o convite (a política de UPDATE só vale para o dono)
+CREATE OR REPLACE FUNCTION public.accept_goal_invite(_goal_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.goal_members
+  SET status = 'accepted'
+  WHERE goal_id = _goal_id
+    AND user_matricula = public.current_matricula()
+    AND status = 'pending';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- O saldo da meta é atualizado pelos gatilhos mesmo quando quem deposita não é o dono
+CREATE OR REPLACE FUNCTION public.refresh_goal_current_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- O gatilho BEFORE UPDATE recalcula o valor
+  UPDATE public.goals SET current_amount = 0 WHERE id = COALESCE(NEW.goal_id, OLD.goal_id);
+  RETURN NULL;
+END;
+$$;
+
+-- Cada movimento fica em nome de quem o fez; só participantes aceitos podem movimentar a meta
+CREATE OR REPLACE FUNCTION public.add_goal_contribution(
+  _goal_id uuid,
+  _kind text,
+  _amount numeric,
+  _move_account boolean DEFAULT false,
+  _note text DEFAULT NULL,
+  _source text DEFAULT 'manual'
+)
+RETURNS public.goal_contributions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _goal public.goals;
+  _contributor bigint;
+  _transaction public.transactions;
+  _contribution public.goal_contributions;
+BEGIN
+  SELECT * INTO _goal FROM public.goals WHERE id = _goal_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_goal.is_active, true) THEN
+    RAISE EXCEPTION 'Meta % não encontrada', _goal_id;
+  END IF;
+
+  _contributor := COALESCE(public.current_matricula(), _goal.user_matricula);
+
+  IF NOT public.is_goal_participant(_goal_id, _contributor) THEN
+    RAISE EXCEPTION 'Meta % não encontrada', _goal_id;
+  END IF;
+
+  IF _kind NOT IN ('deposit', 'withdrawal') THEN
+    RAISE EXCEPTION 'Tipo de movimento inválido: %', _kind;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  IF _kind = 'withdrawal' AND _amount > public.get_goal_balance(_goal_id) THEN
+    RAISE EXCEPTION 'Saldo insuficiente na meta';
+  END IF;
+
+  -- Depósito sai da conta corrente de quem deposita; retirada volta para ela
+  IF _move_account THEN
+    _transaction := public.insert_transaction(
+      _user_matricula => _contributor,
+      _amount => _amount,
+      _type => CASE WHEN _kind = 'deposit' THEN 'expense' ELSE 'income' END,
+      _payment_method => 'debit',
+      _category => 'Outros',
+      _description => CASE WHEN _kind = 'deposit' THEN 'Depósito na meta ' ELSE 'Resgate da meta ' END || _goal.name
+    );
+  END IF;
+
+  INSERT INTO public.goal_contributions (goal_id, user_matricula, kind, amount, transaction_id, note, source)
+  VALUES (_goal_id, _contributor, _kind, _amount, _transaction.id, NULLIF(trim(_note), ''), _source)
+  RETURNING * INTO _contribution;
+
+  RETURN _contribution;
+END;
+$$;
+
+-- Participantes da meta com a parte de cada um e quanto já depositou
+CREATE OR REPLACE FUNCTION public.get_goal_members(_goal_id uuid)
+RETURNS TABLE (
+  user_matricula bigint,
+  full_name text,
+  is_owner boolean,
+  status text,
+  share_percent numeric,
+  share_amount numeric,
+  contributed numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH goal AS (
+    SELECT * FROM public.goals WHERE id = _goal_id
+  ),
+  participants AS (
+    SELECT
+      goal.user_matricula,
+      true AS is_owner,
+      'accepted' AS status,
+      100 - COALESCE((SELECT SUM(m.share_percent) FROM public.goal_members m WHERE m.goal_id = _goal_id), 0) AS share_percent
+    FROM goal
+    UNION ALL
+    SELECT m.user_matricula, false, m.status, m.share_percent
+    FROM public.goal_members m
+    WHERE m.goal_id = _goal_id
+  )
+  SELECT
+    p.user_matricula,
+    u.full_name,
+    p.is_owner,
+    p.status,
+    p.share_percent,
+    round((SELECT target_amount FROM goal) * p.share_percent / 100, 2),
+    COALESCE((
+      SELECT SUM(CASE WHEN c.kind = 'deposit' THEN c.amount ELSE -c.amount END)
+      FROM public.goal_contributions c
+      WHERE c.goal_id = _goal_id AND c.user_matricula = p.user_matricula
+    ), 0)
+  FROM participants p
+  LEFT JOIN public.users_matricula u ON u.matricula = p.user_matricula
+  ORDER BY p.is_owner DESC, p.user_matricula
+$$;
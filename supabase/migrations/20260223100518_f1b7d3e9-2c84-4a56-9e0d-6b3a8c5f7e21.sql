@@ -0,0 +1,171 @@
+-- Dívidas e empréstimos com tabela de amortização (Price ou SAC)
+CREATE TABLE public.debts (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_matricula bigint NOT NULL,
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'personal' CHECK (kind IN ('personal', 'payroll', 'vehicle', 'other')),
+  principal numeric NOT NULL CHECK (principal > 0),
+  monthly_rate numeric NOT NULL DEFAULT 0 CHECK (monthly_rate >= 0), -- % ao mês
+  term_months integer NOT NULL CHECK (term_months > 0),
+  system text NOT NULL DEFAULT 'price' CHECK (system IN ('price', 'sac')),
+  first_due_date date NOT NULL,
+  paid_off_at timestamp with time zone,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Parcelas pagas e amortizações extras; o valor é dividido entre principal e juros
+CREATE TABLE public.debt_payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  debt_id uuid NOT NULL REFERENCES public.debts(id) ON DELETE CASCADE,
+  user_matricula bigint NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('installment', 'extra')),
+  installment_number integer, -- Só para parcelas
+  after_installment integer, -- Só para extras: quantas parcelas já estavam pagas
+  amount numeric NOT NULL CHECK (amount > 0),
+  principal_amount numeric NOT NULL CHECK (principal_amount >= 0),
+  interest_amount numeric NOT NULL DEFAULT 0 CHECK (interest_amount >= 0),
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  paid_at date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (debt_id, installment_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_debts_user_matricula
+ON public.debts(user_matricula);
+
+CREATE INDEX IF NOT EXISTS idx_debt_payments_debt_id
+ON public.debt_payments(debt_id);
+
+-- Enable RLS
+ALTER TABLE public.debts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.debt_payments ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own debts" 
+ON public.debts 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own debts" 
+ON public.debts 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own debts" 
+ON public.debts 
+FOR UPDATE 
+USING (true);
+
+CREATE POLICY "Users can delete own debts" 
+ON public.debts 
+FOR DELETE 
+USING (true);
+
+CREATE POLICY "Users can view own debt payments" 
+ON public.debt_payments 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can insert own debt payments" 
+ON public.debt_payments 
+FOR INSERT 
+WITH CHECK (true);
+
+CREATE TRIGGER update_debts_updated_at
+BEFORE UPDATE ON public.debts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Registra uma parcela (_installment_number) ou amortização extra (sem número) e lança o débito na conta
+CREATE OR REPLACE FUNCTION public.record_debt_payment(
+  _debt_id uuid,
+  _amount numeric,
+  _principal numeric,
+  _interest numeric DEFAULT 0,
+  _installment_number integer DEFAULT NULL,
+  _paid_at date DEFAULT CURRENT_DATE
+)
+RETURNS public.debt_payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _debt public.debts;
+  _outstanding numeric;
+  _paid_count integer;
+  _transaction public.transactions;
+  _payment public.debt_payments;
+BEGIN
+  SELECT * INTO _debt FROM public.debts WHERE id = _debt_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT _debt.is_active THEN
+    RAISE EXCEPTION 'Dívida % não encontrada', _debt_id;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 OR _principal < 0 OR COALESCE(_interest, 0) < 0
+     OR round(_principal + COALESCE(_interest, 0), 2) <> round(_amount, 2) THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  SELECT _debt.principal - COALESCE(SUM(principal_amount), 0) INTO _outstanding
+  FROM public.debt_payments
+  WHERE debt_id = _debt_id;
+
+  -- Tolerância de um centavo para arredondamento da última parcela
+  IF _principal > _outstanding + 0.01 THEN
+    RAISE EXCEPTION 'O valor passa do saldo devedor';
+  END IF;
+
+  SELECT COUNT(*) INTO _paid_count
+  FROM public.debt_payments
+  WHERE debt_id = _debt_id AND kind = 'installment';
+
+  -- Parcelas são pagas em ordem
+  IF _installment_number IS NOT NULL AND _installment_number <> _paid_count + 1 THEN
+    RAISE EXCEPTION 'A próxima parcela a pagar é a %', _paid_count + 1;
+  END IF;
+
+  IF _installment_number IS NULL AND COALESCE(_interest, 0) > 0 THEN
+    RAISE EXCEPTION 'Amortização extra não tem juros';
+  END IF;
+
+  _transaction := public.insert_transaction(
+    _user_matricula => _debt.user_matricula,
+    _amount => _amount,
+    _type => 'expense',
+    _payment_method => 'debit',
+    _category => 'Outros',
+    _description => CASE
+      WHEN _installment_number IS NOT NULL THEN _debt.name || ' - parcela ' || _installment_number
+      ELSE _debt.name || ' - amortização extra'
+    END,
+    _date => _paid_at
+  );
+
+  INSERT INTO public.debt_payments (
+    debt_id, user_matricula, kind, installment_number, after_installment,
+    amount, principal_amount, interest_amount, transaction_id, paid_at
+  )
+  VALUES (
+    _debt_id,
+    _debt.user_matricula,
+    CASE WHEN _installment_number IS NULL THEN 'extra' ELSE 'installment' END,
+    _installment_number,
+    CASE WHEN _installment_number IS NULL THEN _paid_count END,
+    _amount,
+    _principal,
+    COALESCE(_interest, 0),
+    _transaction.id,
+    _paid_at
+  )
+  RETURNING * INTO _payment;
+
+  IF _outstanding - _principal <= 0.01 THEN
+    UPDATE public.debts SET paid_off_at = now() WHERE id = _debt_id;
+  END IF;
+
+  RETURN _payment;
+END;
+$$;
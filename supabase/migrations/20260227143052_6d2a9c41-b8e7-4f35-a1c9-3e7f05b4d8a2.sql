@@ -0,0 +1,208 @@
+-- Taxas mensais dos índices (CDI, Selic, IPCA) mantidas pelos administradores
+CREATE TABLE public.market_index_rates (
+  index_name text NOT NULL CHECK (index_name IN ('cdi', 'selic', 'ipca')),
+  reference_month date NOT NULL CHECK (extract(day FROM reference_month) = 1), -- Primeiro dia do mês
+  monthly_rate numeric NOT NULL, -- % no mês; o IPCA pode ser negativo
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (index_name, reference_month)
+);
+
+-- Posições de investimento; a taxa depende do tipo:
+-- cdb: % do CDI, tesouro_selic/tesouro_ipca: taxa adicional % a.a., tesouro_prefixado: % a.a.
+CREATE TABLE public.investments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_matricula bigint NOT NULL,
+  name text NOT NULL,
+  asset_type text NOT NULL CHECK (asset_type IN (
+    'cdb', 'tesouro_selic', 'tesouro_prefixado', 'tesouro_ipca', 'poupanca', 'stock', 'fii'
+  )),
+  ticker text, -- Só para ações e FIIs
+  rate numeric CHECK (rate >= 0),
+  maturity_date date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Aplicações e resgates, cada um ligado à transação na conta corrente
+CREATE TABLE public.investment_movements (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  investment_id uuid NOT NULL REFERENCES public.investments(id) ON DELETE CASCADE,
+  user_matricula bigint NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('buy', 'sell')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  quantity numeric CHECK (quantity > 0), -- Só para ações e FIIs
+  unit_price numeric CHECK (unit_price > 0),
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  occurred_at date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Cotações informadas manualmente para ações e FIIs
+CREATE TABLE public.investment_prices (
+  investment_id uuid NOT NULL REFERENCES public.investments(id) ON DELETE CASCADE,
+  user_matricula bigint NOT NULL,
+  price_date date NOT NULL DEFAULT CURRENT_DATE,
+  unit_price numeric NOT NULL CHECK (unit_price > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (investment_id, price_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_investments_user_matricula
+ON public.investments(user_matricula);
+
+CREATE INDEX IF NOT EXISTS idx_investment_movements_investment_id
+ON public.investment_movements(investment_id);
+
+CREATE INDEX IF NOT EXISTS idx_investment_prices_user_matricula
+ON public.investment_prices(user_matricula);
+
+-- Enable RLS
+ALTER TABLE public.market_index_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.investments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.investment_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.investment_prices ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Anyone can view index rates"
+ON public.market_index_rates
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage index rates"
+ON public.market_index_rates
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view own investments"
+ON public.investments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can insert own investments"
+ON public.investments
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own investments"
+ON public.investments
+FOR UPDATE
+USING (true);
+
+CREATE POLICY "Users can delete own investments"
+ON public.investments
+FOR DELETE
+USING (true);
+
+CREATE POLICY "Users can view own investment movements"
+ON public.investment_movements
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can insert own investment movements"
+ON public.investment_movements
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Users can view own investment prices"
+ON public.investment_prices
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can insert own investment prices"
+ON public.investment_prices
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own investment prices"
+ON public.investment_prices
+FOR UPDATE
+USING (true);
+
+CREATE TRIGGER update_investments_updated_at
+BEFORE UPDATE ON public.investments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_market_index_rates_updated_at
+BEFORE UPDATE ON public.market_index_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Registra uma aplicação ou resgate e lança o valor na conta corrente
+CREATE OR REPLACE FUNCTION public.record_investment_movement(
+  _investment_id uuid,
+  _kind text,
+  _amount numeric,
+  _quantity numeric DEFAULT NULL,
+  _occurred_at date DEFAULT CURRENT_DATE
+)
+RETURNS public.investment_movements
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _investment public.investments;
+  _is_market boolean;
+  _held numeric;
+  _transaction public.transactions;
+  _movement public.investment_movements;
+BEGIN
+  SELECT * INTO _investment FROM public.investments WHERE id = _investment_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT _investment.is_active THEN
+    RAISE EXCEPTION 'Investimento % não encontrado', _investment_id;
+  END IF;
+
+  IF _kind NOT IN ('buy', 'sell') OR _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Movimento inválido';
+  END IF;
+
+  _is_market := _investment.asset_type IN ('stock', 'fii');
+
+  IF _is_market AND (_quantity IS NULL OR _quantity <= 0) THEN
+    RAISE EXCEPTION 'Informe a quantidade';
+  END IF;
+
+  IF _is_market AND _kind = 'sell' THEN
+    SELECT COALESCE(SUM(CASE WHEN kind = 'buy' THEN quantity ELSE -quantity END), 0) INTO _held
+    FROM public.investment_movements
+    WHERE investment_id = _investment_id;
+
+    IF _quantity > _held THEN
+      RAISE EXCEPTION 'Quantidade maior que a posição (%)', _held;
+    END IF;
+  END IF;
+
+  _transaction := public.insert_transaction(
+    _user_matricula => _investment.user_matricula,
+    _amount => _amount,
+    _type => CASE WHEN _kind = 'buy' THEN 'expense' ELSE 'income' END,
+    _payment_method => 'debit',
+    _category => 'Investimentos',
+    _description => CASE
+      WHEN _kind = 'buy' THEN 'Aplicação em ' || _investment.name
+      ELSE 'Resgate de ' || _investment.name
+    END,
+    _date => _occurred_at
+  );
+
+  INSERT INTO public.investment_movements (
+    investment_id, user_matricula, kind, amount, quantity, unit_price, transaction_id, occurred_at
+  )
+  VALUES (
+    _investment_id,
+    _investment.user_matricula,
+    _kind,
+    _amount,
+    CASE WHEN _is_market THEN _quantity END,
+    CASE WHEN _is_market THEN round(_amount / _quantity, 4) END,
+    _transaction.id,
+    _occurred_at
+  )
+  RETURNING * INTO _movement;
+
+  RETURN _movement;
+END;
+$$;
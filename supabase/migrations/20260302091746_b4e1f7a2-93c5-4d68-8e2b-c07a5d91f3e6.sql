@@ -0,0 +1,80 @@
+-- Bens informados manualmente (imóveis, veículos, dinheiro guardado fora do banco...)
+CREATE TABLE public.manual_assets (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_matricula bigint NOT NULL,
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'other' CHECK (kind IN ('property', 'vehicle', 'cash', 'other')),
+  value numeric NOT NULL CHECK (value >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Foto mensal do patrimônio líquido; o mês corrente é sobrescrito até virar o mês
+CREATE TABLE public.net_worth_snapshots (
+  user_matricula bigint NOT NULL,
+  reference_month date NOT NULL CHECK (extract(day FROM reference_month) = 1),
+  cash numeric NOT NULL DEFAULT 0,
+  goals numeric NOT NULL DEFAULT 0,
+  investments numeric NOT NULL DEFAULT 0,
+  other_assets numeric NOT NULL DEFAULT 0,
+  card_invoice numeric NOT NULL DEFAULT 0,
+  installments numeric NOT NULL DEFAULT 0,
+  debts numeric NOT NULL DEFAULT 0,
+  total numeric NOT NULL,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_matricula, reference_month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_assets_user_matricula
+ON public.manual_assets(user_matricula);
+
+-- Enable RLS
+ALTER TABLE public.manual_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.net_worth_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own manual assets"
+ON public.manual_assets
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can insert own manual assets"
+ON public.manual_assets
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own manual assets"
+ON public.manual_assets
+FOR UPDATE
+USING (true);
+
+CREATE POLICY "Users can delete own manual assets"
+ON public.manual_assets
+FOR DELETE
+USING (true);
+
+CREATE POLICY "Users can view own net worth snapshots"
+ON public.net_worth_snapshots
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can insert own net worth snapshots"
+ON public.net_worth_snapshots
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Users can update own net worth snapshots"
+ON public.net_worth_snapshots
+FOR UPDATE
+USING (true);
+
+CREATE TRIGGER update_manual_assets_updated_at
+BEFORE UPDATE ON public.manual_assets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_net_worth_snapshots_updated_at
+BEFORE UPDATE ON public.net_worth_snapshots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,19 @@
+-- Regra de recorrência dos pagamentos agendados (no estilo RRULE):
+-- a cada N dias/semanas/meses/anos a partir de recurrence_start, até recurrence_count vezes ou até recurrence_until.
+-- Mensal e anual caem no due_day (meses curtos usam o último dia); semanal cai no recurrence_weekday.
+ALTER TABLE public.scheduled_payments
+  ADD COLUMN IF NOT EXISTS recurrence_frequency text NOT NULL DEFAULT 'monthly'
+    CHECK (recurrence_frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  ADD COLUMN IF NOT EXISTS recurrence_interval integer NOT NULL DEFAULT 1 CHECK (recurrence_interval > 0),
+  ADD COLUMN IF NOT EXISTS recurrence_weekday smallint CHECK (recurrence_weekday BETWEEN 0 AND 6),
+  ADD COLUMN IF NOT EXISTS recurrence_month smallint CHECK (recurrence_month BETWEEN 1 AND 12),
+  ADD COLUMN IF NOT EXISTS recurrence_count integer CHECK (recurrence_count > 0),
+  ADD COLUMN IF NOT EXISTS recurrence_until date,
+  ADD COLUMN IF NOT EXISTS recurrence_start date;
+
+-- Pagamentos existentes: mensais desde o mês de criação; os de um único mês viram uma ocorrência só
+UPDATE public.scheduled_payments
+SET
+  recurrence_start = date_trunc('month', COALESCE(specific_month, created_at::date))::date,
+  recurrence_count = CASE WHEN is_recurring THEN NULL ELSE 1 END
+WHERE recurrence_start IS NULL;
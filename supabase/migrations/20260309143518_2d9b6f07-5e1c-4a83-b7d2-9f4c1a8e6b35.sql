@@ -0,0 +1,13 @@
+-- O que fazer quando a data cai em fim de semana ou feriado nacional:
+-- 'none' mantém a data, 'previous' antecipa, 'next' adia para o próximo dia útil
+-- e 'last_business_day' usa o último dia útil do mês
+ALTER TABLE public.users_matricula
+  ADD COLUMN IF NOT EXISTS salary_day_rule text NOT NULL DEFAULT 'none'
+    CHECK (salary_day_rule IN ('none', 'previous', 'next', 'last_business_day')),
+  ADD COLUMN IF NOT EXISTS advance_day_rule text NOT NULL DEFAULT 'none'
+    CHECK (advance_day_rule IN ('none', 'previous', 'next', 'last_business_day'));
+
+-- Contas agendadas mantêm a data informada por padrão; quem quiser adiar escolhe a regra
+ALTER TABLE public.scheduled_payments
+  ADD COLUMN IF NOT EXISTS business_day_rule text NOT NULL DEFAULT 'none'
+    CHECK (business_day_rule IN ('none', 'previous', 'next', 'last_business_day'));
@@ -0,0 +1,218 @@
+-- Movimentos de metas exigem a matrícula da requisição e a origem passa a ser definida só no banco
+-- ATENÇÃO: o cabeçalho x-matricula vem do localStorage do navegador e pode ser forjado; ele só
+-- identifica a matrícula informada no login e não é uma fronteira de segurança
+
+-- Grava o movimento; uso interno (add_goal_contribution e regras de financiamento)
+CREATE OR REPLACE FUNCTION public.record_goal_contribution(
+  _goal_id uuid,
+  _contributor bigint,
+  _kind text,
+  _amount numeric,
+  _move_account boolean,
+  _note text,
+  _source text
+)
+RETURNS public.goal_contributions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _goal public.goals;
+  _transaction public.transactions;
+  _contribution public.goal_contributions;
+BEGIN
+  SELECT * INTO _goal FROM public.goals WHERE id = _goal_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_goal.is_active, true) THEN
+    RAISE EXCEPTION 'Meta % não encontrada', _goal_id;
+  END IF;
+
+  IF _contributor IS NULL OR NOT public.is_goal_participant(_goal_id, _contributor) THEN
+    RAISE EXCEPTION 'Meta % não encontrada', _goal_id;
+  END IF;
+
+  IF _kind NOT IN ('deposit', 'withdrawal') THEN
+    RAISE EXCEPTION 'Tipo de movimento inválido: %', _kind;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  IF _kind = 'withdrawal' AND _amount > public.get_goal_balance(_goal_id) THEN
+    RAISE EXCEPTION 'Saldo insuficiente na meta';
+  END IF;
+
+  -- Depósito sai da conta corrente de quem deposita; retirada volta para ela
+  IF _move_account THEN
+    _transaction := public.insert_transaction(
+      _user_matricula => _contributor,
+      _amount => _amount,
+      _type => CASE WHEN _kind = 'deposit' THEN 'expense' ELSE 'income' END,
+      _payment_method => 'debit',
+      _category => 'Outros',
+      _description => CASE WHEN _kind = 'deposit' THEN 'Depósito na meta ' ELSE 'Resgate da meta ' END || _goal.name
+    );
+  END IF;
+
+  INSERT INTO public.goal_contributions (goal_id, user_matricula, kind, amount, transaction_id, note, source)
+  VALUES (_goal_id, _contributor, _kind, _amount, _transaction.id, NULLIF(trim(_note), ''), _source)
+  RETURNING * INTO _contribution;
+
+  RETURN _contribution;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_goal_contribution(uuid, bigint, text, numeric, boolean, text, text) FROM PUBLIC, anon, authenticated;
+
+-- A versão anterior aceitava a origem do chamador e caía para o dono da meta sem matrícula
+DROP FUNCTION IF EXISTS public.add_goal_contribution(uuid, text, numeric, boolean, text, text);
+
+CREATE OR REPLACE FUNCTION public.add_goal_contribution(
+  _goal_id uuid,
+  _kind text,
+  _amount numeric,
+  _move_account boolean DEFAULT false,
+  _note text DEFAULT NULL
+)
+RETURNS public.goal_contributions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.current_matricula() IS NULL THEN
+    RAISE EXCEPTION 'Matrícula não informada';
+  END IF;
+
+  RETURN public.record_goal_contribution(
+    _goal_id, public.current_matricula(), _kind, _amount, _move_account, _note, 'manual'
+  );
+END;
+$$;
+
+-- As regras de financiamento só rodam para a matrícula da própria requisição
+CREATE OR REPLACE FUNCTION public.apply_goal_funding(
+  _matricula bigint,
+  _event text,
+  _credit_amount numeric
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.goal_funding_rules;
+  _amount numeric;
+  _missing numeric;
+  _total numeric := 0;
+BEGIN
+  IF _matricula IS NULL OR _matricula IS DISTINCT FROM public.current_matricula() THEN
+    RAISE EXCEPTION 'Matrícula inválida';
+  END IF;
+
+  IF _event NOT IN ('salary', 'advance') THEN
+    RAISE EXCEPTION 'Evento inválido: %', _event;
+  END IF;
+
+  FOR _rule IN
+    SELECT r.*
+    FROM public.goal_funding_rules r
+    JOIN public.goals g ON g.id = r.goal_id
+    WHERE r.user_matricula = _matricula
+      AND r.event = _event
+      AND r.is_active
+      AND COALESCE(g.is_active, true)
+    ORDER BY r.created_at
+  LOOP
+    SELECT target_amount - COALESCE(current_amount, 0) INTO _missing
+    FROM public.goals
+    WHERE id = _rule.goal_id;
+
+    -- Nunca guarda mais do que falta para completar a meta
+    _amount := LEAST(COALESCE(_rule.fixed_amount, round(_credit_amount * _rule.percent / 100, 2)), _missing);
+
+    IF _amount > 0 THEN
+      PERFORM public.record_goal_contribution(_rule.goal_id, _matricula, 'deposit', _amount, true, NULL, _event);
+      _total := _total + _amount;
+    END IF;
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_goal_round_ups(_matricula bigint)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.goal_funding_rules;
+  _missing numeric;
+  _total numeric;
+  _count integer;
+  _contribution public.goal_contributions;
+BEGIN
+  IF _matricula IS NULL OR _matricula IS DISTINCT FROM public.current_matricula() THEN
+    RAISE EXCEPTION 'Matrícula inválida';
+  END IF;
+
+  -- Evita arredondar a mesma compra em duas chamadas simultâneas
+  PERFORM pg_advisory_xact_lock(_matricula);
+
+  SELECT r.* INTO _rule
+  FROM public.goal_funding_rules r
+  JOIN public.goals g ON g.id = r.goal_id
+  WHERE r.user_matricula = _matricula
+    AND r.event = 'round_up'
+    AND r.is_active
+    AND COALESCE(g.is_active, true);
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Só compras feitas depois da criação da regra; movimentos das próprias metas ficam de fora
+  CREATE TEMP TABLE _pending_round_ups ON COMMIT DROP AS
+  SELECT t.id, ceil(t.amount / 5) * 5 - t.amount AS amount
+  FROM public.transactions t
+  WHERE t.user_matricula = _matricula
+    AND t.type = 'expense'
+    AND t.payment_method = 'debit'
+    AND t.created_at >= _rule.created_at
+    AND ceil(t.amount / 5) * 5 - t.amount > 0
+    AND NOT EXISTS (SELECT 1 FROM public.goal_round_ups r WHERE r.transaction_id = t.id)
+    AND NOT EXISTS (SELECT 1 FROM public.goal_contributions c WHERE c.transaction_id = t.id);
+
+  SELECT COALESCE(SUM(amount), 0), COUNT(*) INTO _total, _count FROM _pending_round_ups;
+
+  SELECT target_amount - COALESCE(current_amount, 0) INTO _missing
+  FROM public.goals
+  WHERE id = _rule.goal_id;
+
+  _total := LEAST(_total, _missing);
+
+  IF _total > 0 THEN
+    _contribution := public.record_goal_contribution(
+      _rule.goal_id,
+      _matricula,
+      'deposit',
+      _total,
+      true,
+      'Arredondamento de ' || _count || CASE WHEN _count = 1 THEN ' compra' ELSE ' compras' END,
+      'round_up'
+    );
+
+    INSERT INTO public.goal_round_ups (transaction_id, contribution_id, amount)
+    SELECT id, _contribution.id, amount FROM _pending_round_ups;
+  END IF;
+
+  DROP TABLE _pending_round_ups;
+
+  RETURN GREATEST(_total, 0);
+END;
+$$;
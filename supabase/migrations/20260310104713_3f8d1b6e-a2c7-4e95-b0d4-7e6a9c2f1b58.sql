@@ -0,0 +1,99 @@
+-- Pagamento de fatura é uma transferência da conta corrente para o cartão, não um gasto:
+-- as compras já contaram como gasto quando foram feitas no crédito
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS is_invoice_payment boolean NOT NULL DEFAULT false;
+
+UPDATE public.transactions t
+SET is_invoice_payment = true
+WHERE EXISTS (SELECT 1 FROM public.credit_invoice_payments p WHERE p.transaction_id = t.id);
+
+-- Pagamentos de fatura ficam fora dos orçamentos
+CREATE OR REPLACE VIEW public.transaction_category_amounts
+WITH (security_invoker = true) AS
+SELECT t.id AS transaction_id, t.user_matricula, t.type, t.date, t.category_id, t.amount
+FROM public.transactions t
+WHERE NOT EXISTS (SELECT 1 FROM public.transaction_splits s WHERE s.transaction_id = t.id)
+  AND NOT t.is_invoice_payment
+UNION ALL
+SELECT t.id, t.user_matricula, t.type, t.date, s.category_id, s.amount
+FROM public.transaction_splits s
+JOIN public.transactions t ON t.id = s.transaction_id;
+
+-- O pagamento sai do saldo débito, mas não entra no total de gastos
+CREATE OR REPLACE FUNCTION public.get_balance_summary(
+  _matricula bigint,
+  _initial_balance numeric DEFAULT 0,
+  _from timestamp with time zone DEFAULT NULL,
+  _to timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (
+  balance numeric,
+  total_income numeric,
+  total_expense numeric,
+  debit_balance numeric,
+  credit_used numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH totals AS (
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE type = 'income'), 0) AS income,
+      COALESCE(SUM(amount) FILTER (WHERE type = 'expense' AND NOT is_invoice_payment), 0) AS expense,
+      COALESCE(SUM(amount) FILTER (
+        WHERE type = 'expense' AND COALESCE(payment_method, 'debit') = 'debit'
+      ), 0) AS debit_expense
+    FROM public.transactions
+    WHERE user_matricula = _matricula
+      AND (_from IS NULL OR created_at >= _from)
+      AND created_at <= COALESCE(_to, now())
+  )
+  SELECT
+    _initial_balance + income - expense,
+    income,
+    expense,
+    _initial_balance + income - debit_expense,
+    public.get_credit_used(_matricula)
+  FROM totals
+$$;
+
+-- Débito na conta e registro do pagamento na mesma transação
+CREATE OR REPLACE FUNCTION public.pay_credit_invoice(
+  _matricula bigint,
+  _reference_month text,
+  _amount numeric,
+  _description text
+)
+RETURNS public.credit_invoice_payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.transactions;
+  _payment public.credit_invoice_payments;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  _transaction := public.insert_transaction(
+    _user_matricula => _matricula,
+    _amount => _amount,
+    _type => 'expense',
+    _payment_method => 'debit',
+    _category => 'Contas',
+    _description => _description
+  );
+
+  UPDATE public.transactions
+  SET is_invoice_payment = true
+  WHERE id = _transaction.id;
+
+  INSERT INTO public.credit_invoice_payments (user_matricula, reference_month, amount, transaction_id)
+  VALUES (_matricula, _reference_month, _amount, _transaction.id)
+  RETURNING * INTO _payment;
+
+  RETURN _payment;
+END;
+$$;
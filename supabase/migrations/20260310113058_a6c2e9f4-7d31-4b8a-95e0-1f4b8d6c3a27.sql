@@ -0,0 +1,43 @@
+-- Transações filtradas por categoria (incluindo as partes de transações divididas) e por tag,
+-- para a listagem paginada aplicar os filtros no banco em vez de mandar listas de ids
+CREATE OR REPLACE FUNCTION public.search_transactions(
+  _matricula bigint,
+  _category text DEFAULT NULL,
+  _tag text DEFAULT NULL
+)
+RETURNS SETOF public.transactions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.*
+  FROM public.transactions t
+  WHERE t.user_matricula = _matricula
+    AND (
+      _category IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM public.categories c
+        WHERE c.user_matricula = _matricula
+          AND c.name = _category
+          AND (
+            c.id = t.category_id
+            OR EXISTS (
+              SELECT 1 FROM public.transaction_splits s
+              WHERE s.transaction_id = t.id AND s.category_id = c.id
+            )
+          )
+      )
+    )
+    AND (
+      _tag IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM public.transaction_tags tt
+        JOIN public.tags g ON g.id = tt.tag_id
+        WHERE tt.transaction_id = t.id
+          AND g.user_matricula = _matricula
+          AND g.name = _tag
+      )
+    )
+$$;
@@ -0,0 +1,53 @@
+-- Recalcular o saldo da meta não conta como edição: updated_at só muda quando outro campo muda.
+-- Assim a sincronização offline não descarta edições pendentes da meta por causa de um depósito.
+CREATE OR REPLACE FUNCTION public.update_goal_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF to_jsonb(NEW) - 'current_amount' - 'updated_at' = to_jsonb(OLD) - 'current_amount' - 'updated_at' THEN
+    NEW.updated_at := OLD.updated_at;
+  ELSE
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Troca o gatilho genérico de updated_at das metas pelo acima
+DO $$
+DECLARE
+  _trigger record;
+BEGIN
+  FOR _trigger IN
+    SELECT tgname
+    FROM pg_trigger
+    WHERE tgrelid = 'public.goals'::regclass
+      AND tgfoid = 'public.update_updated_at_column'::regproc
+      AND NOT tgisinternal
+  LOOP
+    EXECUTE format('DROP TRIGGER %I ON public.goals', _trigger.tgname);
+  END LOOP;
+END;
+$$;
+
+-- Roda depois de sync_goal_current_amount (gatilhos BEFORE disparam em ordem alfabética)
+CREATE TRIGGER update_goals_updated_at
+BEFORE UPDATE ON public.goals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_goal_updated_at();
+
+CREATE OR REPLACE FUNCTION public.refresh_goal_current_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _goal_id uuid := COALESCE(NEW.goal_id, OLD.goal_id);
+BEGIN
+  UPDATE public.goals SET current_amount = public.get_goal_balance(_goal_id) WHERE id = _goal_id;
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,121 @@
+-- Regras de categorização só para lançamentos do usuário (manuais e importados);
+-- salário, adiantamento, metas, dívidas e faturas mantêm a categoria que o sistema escolheu
+DROP FUNCTION IF EXISTS public.insert_transaction(bigint, numeric, text, text, text, text, date, timestamp with time zone, uuid, jsonb, text[]);
+
+CREATE OR REPLACE FUNCTION public.insert_transaction(
+  _user_matricula bigint,
+  _amount numeric,
+  _type text,
+  _payment_method text,
+  _category text,
+  _description text,
+  _date date DEFAULT CURRENT_DATE,
+  _created_at timestamp with time zone DEFAULT now(),
+  _id uuid DEFAULT NULL,
+  _splits jsonb DEFAULT NULL,
+  _tags text[] DEFAULT NULL,
+  _apply_rules boolean DEFAULT false
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.transactions;
+BEGIN
+  -- Reenvio da fila offline: a transação já foi gravada
+  IF _id IS NOT NULL THEN
+    SELECT * INTO _transaction FROM public.transactions WHERE id = _id;
+    IF FOUND THEN
+      RETURN _transaction;
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users_matricula WHERE matricula = _user_matricula) THEN
+    RAISE EXCEPTION 'Usuário % não encontrado', _user_matricula;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _amount;
+  END IF;
+
+  INSERT INTO public.transactions (id, amount, type, payment_method, category_id, description, date, created_at, user_matricula)
+  VALUES (
+    COALESCE(_id, gen_random_uuid()),
+    _amount,
+    _type,
+    COALESCE(_payment_method, 'debit'),
+    public.resolve_category_id(_user_matricula, _category, _type),
+    _description,
+    _date,
+    _created_at,
+    _user_matricula
+  )
+  RETURNING * INTO _transaction;
+
+  IF _splits IS NOT NULL AND jsonb_array_length(_splits) > 0 THEN
+    PERFORM public.set_transaction_splits(_transaction.id, _splits);
+  END IF;
+
+  IF _tags IS NOT NULL AND array_length(_tags, 1) > 0 THEN
+    PERFORM public.set_transaction_tags(_transaction.id, _tags);
+  END IF;
+
+  IF _apply_rules AND public.apply_categorization_rules(_transaction.id) THEN
+    SELECT * INTO _transaction FROM public.transactions WHERE id = _transaction.id;
+  END IF;
+
+  -- Mantém a coluna legada credit_used alinhada com o razão
+  IF _type = 'expense' AND _transaction.payment_method = 'credit' THEN
+    UPDATE public.users_matricula
+    SET credit_used = public.get_credit_used(_user_matricula)
+    WHERE matricula = _user_matricula;
+  END IF;
+
+  RETURN _transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_transactions(_matricula bigint, _rows jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _row jsonb;
+  _transaction public.transactions;
+  _imported integer := 0;
+BEGIN
+  FOR _row IN SELECT * FROM jsonb_array_elements(COALESCE(_rows, '[]'::jsonb))
+  LOOP
+    IF _row->>'external_id' IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.transactions
+      WHERE user_matricula = _matricula AND external_id = _row->>'external_id'
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    _transaction := public.insert_transaction(
+      _user_matricula => _matricula,
+      _amount => (_row->>'amount')::numeric,
+      _type => _row->>'type',
+      _payment_method => _row->>'payment_method',
+      _category => _row->>'category',
+      _description => _row->>'description',
+      _date => (_row->>'date')::date,
+      _created_at => COALESCE((_row->>'created_at')::timestamp with time zone, now()),
+      _apply_rules => true
+    );
+
+    IF _row->>'external_id' IS NOT NULL THEN
+      UPDATE public.transactions
+      SET external_id = _row->>'external_id'
+      WHERE id = _transaction.id;
+    END IF;
+
+    _imported := _imported + 1;
+  END LOOP;
+
+  RETURN _imported;
+END;
+$$;
@@ -0,0 +1,113 @@
+-- Parcelamento e quitação em uma única transação do banco, com as parcelas lançadas por
+-- insert_transaction (categoria, limite do cartão) em vez de escritas separadas pelo app
+CREATE OR REPLACE FUNCTION public.add_installment_plan(
+  _matricula bigint,
+  _description text,
+  _category text,
+  _total_amount numeric,
+  _installments_count integer,
+  _first_charge_at timestamp with time zone DEFAULT now()
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _plan_id uuid;
+  _installment_amount numeric;
+  _charge_at timestamp with time zone;
+  _transaction public.transactions;
+BEGIN
+  IF _total_amount IS NULL OR _total_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor inválido: %', _total_amount;
+  END IF;
+
+  IF _installments_count IS NULL OR _installments_count < 2 THEN
+    RAISE EXCEPTION 'O parcelamento precisa de pelo menos 2 parcelas: %', _installments_count;
+  END IF;
+
+  -- Cada parcela arredondada para baixo no centavo; a última absorve a diferença
+  _installment_amount := floor(_total_amount / _installments_count * 100) / 100;
+
+  INSERT INTO public.installment_plans (
+    user_matricula, description, category, total_amount, installments_count, installment_amount, first_charge_date
+  )
+  VALUES (
+    _matricula, _description, _category, _total_amount, _installments_count, _installment_amount,
+    (_first_charge_at AT TIME ZONE 'UTC')::date
+  )
+  RETURNING id INTO _plan_id;
+
+  FOR _i IN 1.._installments_count LOOP
+    _charge_at := _first_charge_at + (_i - 1) * interval '1 month';
+
+    _transaction := public.insert_transaction(
+      _user_matricula => _matricula,
+      _amount => CASE
+        WHEN _i = _installments_count THEN round(_total_amount - _installment_amount * (_installments_count - 1), 2)
+        ELSE _installment_amount
+      END,
+      _type => 'expense',
+      _payment_method => 'credit',
+      _category => _category,
+      _description => _description || ' (' || _i || '/' || _installments_count || ')',
+      _date => (_charge_at AT TIME ZONE 'UTC')::date,
+      _created_at => _charge_at
+    );
+
+    UPDATE public.transactions
+    SET installment_plan_id = _plan_id, installment_number = _i
+    WHERE id = _transaction.id;
+  END LOOP;
+
+  RETURN _plan_id;
+END;
+$$;
+
+-- Quita as parcelas que ainda não foram lançadas com um único débito na conta corrente
+CREATE OR REPLACE FUNCTION public.pay_off_installment_plan(_plan_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _plan public.installment_plans;
+  _remaining numeric;
+BEGIN
+  SELECT * INTO _plan FROM public.installment_plans WHERE id = _plan_id FOR UPDATE;
+
+  IF NOT FOUND OR _plan.status <> 'active' THEN
+    RAISE EXCEPTION 'Parcelamento % não está ativo', _plan_id;
+  END IF;
+
+  WITH removed AS (
+    DELETE FROM public.transactions
+    WHERE installment_plan_id = _plan_id
+      AND created_at > now()
+    RETURNING amount
+  )
+  SELECT COALESCE(SUM(amount), 0) INTO _remaining FROM removed;
+
+  IF _remaining > 0 THEN
+    PERFORM public.insert_transaction(
+      _user_matricula => _plan.user_matricula,
+      _amount => round(_remaining, 2),
+      _type => 'expense',
+      _payment_method => 'debit',
+      _category => _plan.category,
+      _description => 'Quitação: ' || _plan.description
+    );
+
+    -- Mantém a coluna legada credit_used alinhada com o razão
+    UPDATE public.users_matricula
+    SET credit_used = public.get_credit_used(_plan.user_matricula)
+    WHERE matricula = _plan.user_matricula;
+  END IF;
+
+  UPDATE public.installment_plans
+  SET status = 'paid_off', paid_off_at = now()
+  WHERE id = _plan_id;
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Vencimento do cartão em fim de semana ou feriado, escolhido pelo usuário
+ALTER TABLE public.users_matricula
+  ADD COLUMN IF NOT EXISTS credit_due_day_rule text NOT NULL DEFAULT 'none'
+    CHECK (credit_due_day_rule IN ('none', 'previous', 'next'));
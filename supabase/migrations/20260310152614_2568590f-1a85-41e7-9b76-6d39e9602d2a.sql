@@ -0,0 +1,77 @@
+-- O arredondamento só vale para compras: pagar a fatura do cartão ou a parcela de uma dívida
+-- não é gasto novo, só quita o que já foi gasto
+CREATE OR REPLACE FUNCTION public.apply_goal_round_ups(_matricula bigint)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.goal_funding_rules;
+  _missing numeric;
+  _total numeric;
+  _count integer;
+  _contribution public.goal_contributions;
+BEGIN
+  IF _matricula IS NULL OR _matricula IS DISTINCT FROM public.current_matricula() THEN
+    RAISE EXCEPTION 'Matrícula inválida';
+  END IF;
+
+  -- Evita arredondar a mesma compra em duas chamadas simultâneas
+  PERFORM pg_advisory_xact_lock(_matricula);
+
+  SELECT r.* INTO _rule
+  FROM public.goal_funding_rules r
+  JOIN public.goals g ON g.id = r.goal_id
+  WHERE r.user_matricula = _matricula
+    AND r.event = 'round_up'
+    AND r.is_active
+    AND COALESCE(g.is_active, true);
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Só compras feitas depois da criação da regra; movimentos das próprias metas, pagamentos de
+  -- fatura e parcelas de dívidas ficam de fora
+  CREATE TEMP TABLE _pending_round_ups ON COMMIT DROP AS
+  SELECT t.id, ceil(t.amount / 5) * 5 - t.amount AS amount
+  FROM public.transactions t
+  WHERE t.user_matricula = _matricula
+    AND t.type = 'expense'
+    AND t.payment_method = 'debit'
+    AND t.created_at >= _rule.created_at
+    AND NOT t.is_invoice_payment
+    AND ceil(t.amount / 5) * 5 - t.amount > 0
+    AND NOT EXISTS (SELECT 1 FROM public.goal_round_ups r WHERE r.transaction_id = t.id)
+    AND NOT EXISTS (SELECT 1 FROM public.goal_contributions c WHERE c.transaction_id = t.id)
+    AND NOT EXISTS (SELECT 1 FROM public.debt_payments d WHERE d.transaction_id = t.id);
+
+  SELECT COALESCE(SUM(amount), 0), COUNT(*) INTO _total, _count FROM _pending_round_ups;
+
+  SELECT target_amount - COALESCE(current_amount, 0) INTO _missing
+  FROM public.goals
+  WHERE id = _rule.goal_id;
+
+  _total := LEAST(_total, _missing);
+
+  IF _total > 0 THEN
+    _contribution := public.record_goal_contribution(
+      _rule.goal_id,
+      _matricula,
+      'deposit',
+      _total,
+      true,
+      'Arredondamento de ' || _count || CASE WHEN _count = 1 THEN ' compra' ELSE ' compras' END,
+      'round_up'
+    );
+
+    INSERT INTO public.goal_round_ups (transaction_id, contribution_id, amount)
+    SELECT id, _contribution.id, amount FROM _pending_round_ups;
+  END IF;
+
+  DROP TABLE _pending_round_ups;
+
+  RETURN GREATEST(_total, 0);
+END;
+$$;